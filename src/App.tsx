@@ -7,9 +7,13 @@ import AuthPage from './features/auth/AuthPage'
 import PricingPage from './features/pricing/PricingPage'
 import AIStudio from './features/ai-studio/AIStudio'
 import LLMConfigPage from './features/llm-config/LLMConfigPage'
+import ProjectsPage from './features/projects/ProjectsPage'
+import NewProjectPage from './features/projects/NewProjectPage'
+import ProjectDetailPage from './features/projects/ProjectDetailPage'
 import GeminiTest from './features/gemini-test/GeminiTest'
 import LoadingSpinner from './components/ui/loading-spinner'
 import ErrorBoundary from './components/ErrorBoundary'
+import BudgetGuard from './components/BudgetGuard'
 import { useAuthStore } from './store/auth'
 import './styles/globals.css'
 
@@ -46,6 +50,9 @@ function AppRoutes() {
       {/* Protected Routes with Layout */}
       <Route element={<ProtectedRoute />}>
         <Route path="/ffa" element={<AIStudio />} />
+        <Route path="/projects" element={<ProjectsPage />} />
+        <Route path="/projects/new" element={<NewProjectPage />} />
+        <Route path="/projects/:projectId" element={<ProjectDetailPage />} />
         <Route path="/llm-config" element={<LLMConfigPage />} />
         <Route path="/gemini-test" element={<GeminiTest />} />
       </Route>
@@ -74,6 +81,7 @@ function App() {
         <ErrorBoundary>
           <AppRoutes />
           <Toaster />
+          <BudgetGuard />
         </ErrorBoundary>
       </BrowserRouter>
     </ErrorBoundary>
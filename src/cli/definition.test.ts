@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_GRADING_CRITERIA } from '@/utils/grading-criteria'
+import { ProjectDefinitionError, parseProjectDefinition } from './definition'
+
+const yaml = `
+name: Monad showdown
+question: Explain monads
+refiner: openai/gpt-4o
+competitors:
+  - openai/gpt-4o
+  - anthropic/claude-3.5-sonnet
+judges: [google/gemini-pro-1.5]
+`
+
+function problemsOf(source: string, fileName = 'competition.yaml'): string[] {
+  try {
+    parseProjectDefinition(source, fileName)
+  } catch (error) {
+    if (error instanceof ProjectDefinitionError) return error.problems
+    throw error
+  }
+  return []
+}
+
+describe('parseProjectDefinition', () => {
+  it('reads YAML and fills in the defaults', () => {
+    expect(parseProjectDefinition(yaml, 'competition.yaml')).toEqual({
+      name: 'Monad showdown',
+      question: 'Explain monads',
+      refiner: 'openai/gpt-4o',
+      rounds: 3,
+      competitors: ['openai/gpt-4o', 'anthropic/claude-3.5-sonnet'],
+      judges: ['google/gemini-pro-1.5'],
+      criteria: DEFAULT_GRADING_CRITERIA,
+      judging: { mode: 'absolute', aggregation: 'mean', excludeSameProvider: false, maxRepairAttempts: 2 },
+    })
+  })
+
+  it('reads JSON files as JSON', () => {
+    const json = JSON.stringify({ question: 'Q', refiner: 'r', competitors: ['a', 'b'], judges: ['j'], rounds: 1 })
+
+    expect(parseProjectDefinition(json, 'COMPETITION.JSON')).toMatchObject({ name: 'Untitled competition', rounds: 1 })
+    expect(problemsOf('question: Q', 'competition.json')[0]).toMatch(/^Could not parse competition.json/)
+  })
+
+  it('derives criterion ids from their names', () => {
+    const definition = parseProjectDefinition(`${yaml}
+criteria:
+  - { name: Correct code, description: Does it run?, weight: 70 }
+  - { name: Style, weight: 30 }
+`, 'competition.yaml')
+
+    expect(definition.criteria).toEqual([
+      { id: 'correct_code', name: 'Correct code', description: 'Does it run?', weight: 70 },
+      { id: 'style', name: 'Style', description: '', weight: 30 },
+    ])
+  })
+
+  it('takes the judging settings and fallback chains', () => {
+    const definition = parseProjectDefinition(`${yaml}
+judging: { mode: pairwise, aggregation: borda, excludeSameProvider: true, maxRepairAttempts: 0, shuffleSeed: 7 }
+fallbackChains: { judge: [mistralai/mistral-large] }
+`, 'competition.yaml')
+
+    expect(definition.judging).toEqual({
+      mode: 'pairwise', aggregation: 'borda', excludeSameProvider: true, maxRepairAttempts: 0, shuffleSeed: 7,
+    })
+    expect(definition.fallbackChains).toEqual({ judge: ['mistralai/mistral-large'] })
+  })
+
+  it('reports every problem at once', () => {
+    expect(problemsOf(`
+question: ""
+competitors: [openai/gpt-4o]
+judges: []
+rounds: 0
+criteria: [{ name: Accuracy, weight: 60 }]
+judging: { mode: ranked }
+`)).toEqual([
+      'question is required',
+      'refiner must be a model id',
+      'competitors must list at least two model ids',
+      'judges must list at least one model id',
+      'rounds must be a whole number from 1 to 10',
+      'Criterion weights must sum to 100% (currently 60%)',
+      'judging.mode must be one of absolute, pairwise',
+    ])
+  })
+
+  it('rejects a file that is not an object', () => {
+    expect(problemsOf('- just\n- a list')).toEqual(['The file must contain an object'])
+  })
+})
@@ -0,0 +1,170 @@
+import { parse as parseYaml } from 'yaml'
+import { FallbackChains, GradingCriterion, JudgingMode, ScoreAggregationMethod } from '@/types'
+import { DEFAULT_GRADING_CRITERIA, createCriterionId, validateCriteria } from '@/utils/grading-criteria'
+import { AGGREGATION_METHODS } from '@/utils/judge-aggregation'
+import { DEFAULT_REPAIR_ATTEMPTS, MAX_REPAIR_ATTEMPTS } from '@/utils/judge-output'
+import type { JudgingSettings } from '@/engine/anonymous-judging'
+
+const DEFAULT_ROUNDS = 3
+const MAX_ROUNDS = 10
+const JUDGING_MODES: JudgingMode[] = ['absolute', 'pairwise']
+
+/**
+ * A competition to run from the command line, as read from a JSON or YAML file
+ */
+export interface ProjectDefinition {
+  name: string
+  question: string
+  refiner: string
+  rounds: number // Phase 1 refinement rounds
+  competitors: string[]
+  judges: string[]
+  criteria: GradingCriterion[]
+  judging: Omit<JudgingSettings, 'criteria' | 'judgePanel'>
+  fallbackChains?: FallbackChains
+}
+
+/**
+ * Thrown when a definition file cannot be parsed or is missing what a run needs
+ */
+export class ProjectDefinitionError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid project definition:\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+    this.name = 'ProjectDefinitionError'
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isModelList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length > 0 && value.every(id => typeof id === 'string' && id.trim() !== '')
+
+// Criteria may leave out ids; they are derived from the names like in the project wizard
+function readCriteria(value: unknown, problems: string[]): GradingCriterion[] {
+  if (value === undefined) return DEFAULT_GRADING_CRITERIA
+  if (!Array.isArray(value) || !value.every(isRecord)) {
+    problems.push('criteria must be a list of { name, description, weight }')
+    return []
+  }
+
+  const criteria: GradingCriterion[] = []
+  for (const entry of value) {
+    if (typeof entry.name !== 'string' || typeof entry.weight !== 'number') {
+      problems.push('Every criterion needs a name and a numeric weight')
+      return []
+    }
+    criteria.push({
+      id: typeof entry.id === 'string' ? entry.id : createCriterionId(entry.name, criteria.map(c => c.id)),
+      name: entry.name,
+      description: typeof entry.description === 'string' ? entry.description : '',
+      weight: entry.weight,
+    })
+  }
+
+  const problem = validateCriteria(criteria)
+  if (problem) problems.push(problem)
+  return criteria
+}
+
+function readJudging(value: unknown, problems: string[]): ProjectDefinition['judging'] {
+  const judging = isRecord(value) ? value : {}
+  if (value !== undefined && !isRecord(value)) {
+    problems.push('judging must be an object')
+  }
+
+  const mode = judging.mode ?? 'absolute'
+  if (!JUDGING_MODES.includes(mode as JudgingMode)) {
+    problems.push(`judging.mode must be one of ${JUDGING_MODES.join(', ')}`)
+  }
+
+  const aggregation = judging.aggregation ?? 'mean'
+  if (!AGGREGATION_METHODS.some(method => method.value === aggregation)) {
+    problems.push(`judging.aggregation must be one of ${AGGREGATION_METHODS.map(method => method.value).join(', ')}`)
+  }
+
+  const maxRepairAttempts = judging.maxRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS
+  if (!Number.isInteger(maxRepairAttempts) || (maxRepairAttempts as number) < 0 || (maxRepairAttempts as number) > MAX_REPAIR_ATTEMPTS) {
+    problems.push(`judging.maxRepairAttempts must be a whole number from 0 to ${MAX_REPAIR_ATTEMPTS}`)
+  }
+
+  const { shuffleSeed } = judging
+  if (shuffleSeed !== undefined && !Number.isInteger(shuffleSeed)) {
+    problems.push('judging.shuffleSeed must be a whole number')
+  }
+
+  return {
+    mode: mode as JudgingMode,
+    aggregation: aggregation as ScoreAggregationMethod,
+    excludeSameProvider: judging.excludeSameProvider === true,
+    maxRepairAttempts: maxRepairAttempts as number,
+    ...(shuffleSeed !== undefined ? { shuffleSeed: shuffleSeed as number } : {})
+  }
+}
+
+/**
+ * Check a parsed definition and fill in the defaults. Every problem is reported at once.
+ */
+export function validateProjectDefinition(value: unknown): ProjectDefinition {
+  if (!isRecord(value)) {
+    throw new ProjectDefinitionError(['The file must contain an object'])
+  }
+
+  const problems: string[] = []
+  const { question, refiner, competitors, judges } = value
+
+  if (typeof question !== 'string' || !question.trim()) {
+    problems.push('question is required')
+  }
+  if (typeof refiner !== 'string' || !refiner.trim()) {
+    problems.push('refiner must be a model id')
+  }
+  if (!isModelList(competitors) || competitors.length < 2) {
+    problems.push('competitors must list at least two model ids')
+  }
+  if (!isModelList(judges)) {
+    problems.push('judges must list at least one model id')
+  }
+
+  const rounds = value.rounds ?? DEFAULT_ROUNDS
+  if (!Number.isInteger(rounds) || (rounds as number) < 1 || (rounds as number) > MAX_ROUNDS) {
+    problems.push(`rounds must be a whole number from 1 to ${MAX_ROUNDS}`)
+  }
+
+  const criteria = readCriteria(value.criteria, problems)
+  const judging = readJudging(value.judging, problems)
+
+  const { fallbackChains } = value
+  if (fallbackChains !== undefined && (!isRecord(fallbackChains) || !Object.values(fallbackChains).every(isModelList))) {
+    problems.push('fallbackChains must map refiner, competitor or judge to lists of model ids')
+  }
+
+  if (problems.length > 0) {
+    throw new ProjectDefinitionError(problems)
+  }
+
+  return {
+    name: typeof value.name === 'string' && value.name.trim() ? value.name : 'Untitled competition',
+    question: question as string,
+    refiner: refiner as string,
+    rounds: rounds as number,
+    competitors: competitors as string[],
+    judges: judges as string[],
+    criteria,
+    judging,
+    ...(fallbackChains ? { fallbackChains: fallbackChains as FallbackChains } : {})
+  }
+}
+
+/**
+ * Parse a definition file; `.json` files are read as JSON and anything else as YAML
+ */
+export function parseProjectDefinition(source: string, fileName: string): ProjectDefinition {
+  let value: unknown
+  try {
+    value = fileName.toLowerCase().endsWith('.json') ? JSON.parse(source) : parseYaml(source)
+  } catch (error) {
+    throw new ProjectDefinitionError([`Could not parse ${fileName}: ${(error as Error).message}`])
+  }
+  return validateProjectDefinition(value)
+}
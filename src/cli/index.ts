@@ -0,0 +1,167 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { UsageTotals } from '@/types'
+import { CompetitionRunner } from '@/engine/competition'
+import { getModelName, type ModelInfo } from '@/engine/types'
+import { addUsage, costLedger, emptyUsageTotals } from '@/services/cost-ledger'
+import { getErrorTitle } from '@/services/llm-errors'
+import { llmService } from '@/services/llm'
+import { openRouterService } from '@/services/openrouter'
+import { geminiService } from '@/services/gemini'
+import { localLLMService } from '@/services/local-llm'
+import { mockLLMService } from '@/services/mock-llm'
+import { formatCost } from '@/utils/cost-estimate'
+import { buildProjectResults } from '@/utils/project-results'
+import { parseProjectDefinition, type ProjectDefinition } from './definition'
+import { createMarkdownReport } from './report'
+
+const USAGE = `Usage: npm run kombat -- <definition.yaml|json> [--out <dir>] [--mock]
+
+Runs adversarial refinement, competitive generation and anonymous judging for the
+competition in the definition file, then writes results.json and report.md.
+
+Options:
+  --out <dir>  Where to write the results (default: kombat-results/<name>-<timestamp>)
+  --mock       Add the offline mock: models, for trying a definition without API keys
+
+Environment:
+  OPENROUTER_API_KEY  OpenRouter key for OpenRouter models
+  GEMINI_API_KEY      Optional, for gemini: models
+  LOCAL_LLM_URL       Optional, API root of a local server for local: models
+  LOCAL_LLM_API_KEY   Optional, for local servers that need one`
+
+const print = (text = '') => process.stdout.write(`${text}\n`)
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'competition'
+
+// Set up every provider the environment has credentials for, then load their catalogs
+async function loadModels(useMock: boolean): Promise<ModelInfo[]> {
+  const env = process.env
+  const openRouterKey = env.OPENROUTER_API_KEY || env.VITE_OPENROUTER_API_KEY
+  if (openRouterKey) openRouterService.initialize(openRouterKey)
+  if (env.GEMINI_API_KEY) geminiService.initialize(env.GEMINI_API_KEY)
+  if (env.LOCAL_LLM_URL) localLLMService.initialize(env.LOCAL_LLM_URL, env.LOCAL_LLM_API_KEY)
+  mockLLMService.setEnabled(useMock)
+
+  return llmService.fetchModelCatalog()
+}
+
+function checkModels(definition: ProjectDefinition, models: ModelInfo[]) {
+  const ids = [definition.refiner, ...definition.competitors, ...definition.judges]
+  const unknown = ids.filter((id, index) => ids.indexOf(id) === index && !models.some(model => model.id === id))
+  if (unknown.length > 0) {
+    throw new Error(`Not in any configured provider's catalog: ${unknown.join(', ')}`)
+  }
+}
+
+// Stream each phase's progress to the terminal
+function reportProgress(runner: CompetitionRunner, definition: ProjectDefinition, models: ModelInfo[]) {
+  runner.on('refinement:start', ({ runner: phase }) => {
+    print(`\n== Phase 1: Adversarial Refinement (${getModelName(models, definition.refiner)}) ==`)
+    phase.on('round:start', ({ roundNumber }) => print(`Round ${roundNumber}/${definition.rounds}: critiquing and rewriting...`))
+    phase.on('round:complete', ({ round }) => {
+      if (round.roundNumber === 0) return
+      print(`  ${round.improvements.length > 0 ? round.improvements.join('; ') : 'Rewritten'}`)
+      if (round.answeredBy) print(`  Written by fallback ${round.answeredBy}`)
+    })
+  })
+
+  runner.on('competition:start', ({ runner: phase, prompt }) => {
+    print('\n== Phase 2: Competitive Generation ==')
+    print(`Refined prompt:\n${prompt}`)
+    phase.on('generation:start', ({ modelId, index }) =>
+      print(`\n-- ${getModelName(models, modelId)} (${index + 1}/${definition.competitors.length}) --`))
+    phase.on('generation:chunk', ({ chunk }) => process.stdout.write(chunk))
+    phase.on('generation:complete', ({ generation }) => {
+      const fallback = generation.answeredBy ? `, answered by fallback ${generation.answeredBy}` : ''
+      print(`\n[${(generation.generationTime / 1000).toFixed(1)}s, ${generation.tokenCount} tokens${fallback}]`)
+    })
+    phase.on('generation:failed', ({ modelId, error }) =>
+      print(`\n${getModelName(models, modelId)} failed: ${errorMessage(error)}`))
+  })
+
+  runner.on('judging:start', ({ runner: phase, totalJudgments }) => {
+    const { mode } = definition.judging
+    print(`\n== Phase 3: Anonymous Judging (${mode}, ${totalJudgments} judgments) ==`)
+    phase.on('judgment', ({ completed, total }) => print(`Judgment ${completed}/${total}`))
+    phase.on('judgment:failed', ({ judgeModelId, modelIds, error }) =>
+      print(`  ${getModelName(models, judgeModelId)} could not judge ${modelIds.map(id => getModelName(models, id)).join(' vs ')}: ${errorMessage(error)}`))
+  })
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      mock: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+
+  const file = positionals[0]
+  if (values.help || !file) {
+    print(USAGE)
+    process.exitCode = file || values.help ? 0 : 1
+    return
+  }
+
+  const definition = parseProjectDefinition(await readFile(file, 'utf8'), file)
+  const models = await loadModels(values.mock ?? false)
+  checkModels(definition, models)
+
+  let usage: UsageTotals = emptyUsageTotals()
+  costLedger.subscribe(record => {
+    usage = addUsage(usage, record)
+  })
+
+  // Ctrl+C cancels the calls in flight; a second one exits right away
+  const controller = new AbortController()
+  process.once('SIGINT', () => {
+    print('\nCancelling...')
+    controller.abort()
+  })
+
+  const runner = new CompetitionRunner({
+    llm: llmService,
+    config: definition.fallbackChains ? { fallbackChains: definition.fallbackChains } : null,
+    signal: controller.signal,
+    runId: costLedger.startRun(),
+    question: definition.question,
+    refinerModelId: definition.refiner,
+    maxRounds: definition.rounds,
+    competitorModelIds: definition.competitors,
+    judging: { ...definition.judging, criteria: definition.criteria, judgePanel: definition.judges },
+    models,
+  })
+  reportProgress(runner, definition, models)
+
+  print(`Running "${definition.name}"`)
+  const startedAt = new Date()
+  const run = await runner.run()
+  const results = buildProjectResults(
+    { rounds: run.refinement.rounds, generations: run.generations, results: run.judging.results },
+    { startedAt, completedAt: new Date(), usage }
+  )
+
+  const outDir = values.out || path.join('kombat-results', `${slugify(definition.name)}-${startedAt.toISOString().replace(/[:.]/g, '-')}`)
+  await mkdir(outDir, { recursive: true })
+  await writeFile(path.join(outDir, 'results.json'), JSON.stringify(results, null, 2))
+  await writeFile(path.join(outDir, 'report.md'), createMarkdownReport(definition, run, results, models))
+
+  const winner = run.judging.results.find(result => result.modelId === results.phase3.winnerId)
+  print(`\n${winner ? `Winner: ${winner.modelName} (${winner.totalScore.toFixed(1)})` : 'No answer could be scored'}`)
+  print(`${usage.requests} calls, ${usage.totalTokens} tokens, ${formatCost(usage.cost)}`)
+  print(`Results written to ${outDir}`)
+}
+
+main()
+  .catch(error => {
+    process.stderr.write(`${getErrorTitle(error, 'Run failed')}: ${errorMessage(error)}\n`)
+    process.exitCode = 1
+  })
+  // The providers' rate limiters keep timers running, so exit once the run is over
+  .finally(() => process.exit())
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { CompetitorGeneration, JudgingResult } from '@/types'
+import type { CompetitionRunResult } from '@/engine/competition'
+import { DEFAULT_GRADING_CRITERIA } from '@/utils/grading-criteria'
+import { buildProjectResults } from '@/utils/project-results'
+import type { ProjectDefinition } from './definition'
+import { createMarkdownReport } from './report'
+
+const definition: ProjectDefinition = {
+  name: 'Monad showdown',
+  question: 'Explain monads',
+  refiner: 'refiner',
+  rounds: 1,
+  competitors: ['model-a', 'model-b', 'model-c'],
+  judges: ['judge'],
+  criteria: DEFAULT_GRADING_CRITERIA.slice(0, 2).map(criterion => ({ ...criterion, weight: 50 })),
+  judging: { mode: 'absolute', aggregation: 'trimmed_mean', excludeSameProvider: false, maxRepairAttempts: 2 },
+}
+
+const generation = (modelId: string, response: string): CompetitorGeneration => ({
+  modelId,
+  modelName: `Model ${modelId.slice(-1).toUpperCase()}`,
+  response,
+  generationTime: 1500,
+  tokenCount: 40,
+  estimatedCost: 0,
+  timestamp: '2025-01-01T00:00:05.000Z',
+})
+
+const result = (modelId: string, rank: number, totalScore: number, extra: Partial<JudgingResult> = {}): JudgingResult => ({
+  modelId,
+  modelName: `Model ${modelId.slice(-1).toUpperCase()}`,
+  scores: { relevance: totalScore - 5, accuracy: totalScore + 5 },
+  totalScore,
+  feedback: `Feedback for ${modelId}`,
+  rank,
+  timestamp: '2025-01-01T00:00:10.000Z',
+  ...extra,
+})
+
+const run: CompetitionRunResult = {
+  refinement: {
+    rounds: [
+      { roundNumber: 0, response: 'Explain monads', critique: 'Initial prompt - no critique', improvements: [], timestamp: '' },
+      {
+        roundNumber: 1,
+        response: 'Explain monads\nwith an example',
+        critique: 'Too vague',
+        improvements: ['Added more detail and explanation'],
+        timestamp: '',
+      },
+    ],
+  },
+  generations: [generation('model-a', 'Monads wrap values'), generation('model-b', 'A | B pipeline')],
+  judging: {
+    results: [result('model-b', 1, 82), result('model-a', 2, 70)],
+    details: { shuffleSeed: 1, presentationOrder: ['model-b', 'model-a'] },
+    failedComparisons: 0,
+  },
+}
+
+const outputs = { rounds: run.refinement.rounds, generations: run.generations, results: run.judging.results }
+
+const summary = {
+  startedAt: new Date('2025-01-01T00:00:00.000Z'),
+  completedAt: new Date('2025-01-01T00:00:12.500Z'),
+  usage: { promptTokens: 900, completionTokens: 300, totalTokens: 1200, cost: 0.0123, requests: 6 },
+}
+
+describe('createMarkdownReport', () => {
+  const report = createMarkdownReport(definition, run, buildProjectResults(outputs, summary), [{ id: 'judge', name: 'Judge' }])
+
+  it('leads with the winner and the run totals', () => {
+    expect(report).toMatch(/^# Monad showdown\n\nCompleted 2025-01-01T00:00:12.500Z in 12.5s using 1200 tokens \(\$0.01\)\./)
+    expect(report).toContain('**Winner: Model B** (82.0)')
+  })
+
+  it('quotes the refined prompt and lists the competitors that did not answer', () => {
+    expect(report).toContain('### Refined prompt\n\n> Explain monads\n> with an example')
+    expect(report).toContain('Did not answer: model-c')
+  })
+
+  it('tabulates the scores per criterion, escaping table syntax', () => {
+    expect(report).toContain('Judged by Judge, scores combined by trimmed mean.')
+    expect(report).toContain('| Rank | Model | Total | Relevance (50%) | Accuracy (50%) |')
+    expect(report).toContain('| 1 | Model B | 82.0 | 77.0 | 87.0 |')
+    expect(createMarkdownReport(
+      definition,
+      { ...run, generations: [generation('model-a', 'x')].map(g => ({ ...g, modelName: 'A|B' })) },
+      buildProjectResults(outputs, summary)
+    )).toContain('| A\\|B | 1.5s | 40 |')
+  })
+})
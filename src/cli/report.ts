@@ -0,0 +1,134 @@
+import { ProjectResults } from '@/types'
+import { getRefinedPrompt, type CompetitionRunResult } from '@/engine/competition'
+import { getModelName, type ModelInfo } from '@/engine/types'
+import { formatCost } from '@/utils/cost-estimate'
+import type { ProjectDefinition } from './definition'
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+
+// Pipes would end the table cell early, and newlines the row
+const tableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`.trimEnd()).join('\n')
+
+function refinementSection(run: CompetitionRunResult): string[] {
+  const { rounds, stabilizedAtRound } = run.refinement
+  const lines = ['## Phase 1: Adversarial Refinement', '']
+
+  if (stabilizedAtRound !== undefined) {
+    lines.push(`The prompt stopped changing at round ${stabilizedAtRound}, so refinement ended early.`, '')
+  }
+
+  for (const round of rounds.slice(1)) {
+    lines.push(`### Round ${round.roundNumber}`, '', '**Critique**', '', round.critique, '')
+    if (round.improvements.length > 0) {
+      lines.push('**Improvements**', '', ...round.improvements.map(improvement => `- ${improvement}`), '')
+    }
+    if (round.answeredBy) {
+      lines.push(`_Written by fallback model ${round.answeredBy}_`, '')
+    }
+  }
+
+  lines.push('### Refined prompt', '', quote(getRefinedPrompt(run.refinement)), '')
+  return lines
+}
+
+function competitionSection(run: CompetitionRunResult, definition: ProjectDefinition): string[] {
+  const lines = [
+    '## Phase 2: Competitive Generation',
+    '',
+    '| Model | Time | Tokens |',
+    '| --- | --- | --- |',
+    ...run.generations.map(g => `| ${tableCell(g.modelName)} | ${formatSeconds(g.generationTime)} | ${g.tokenCount} |`),
+    '',
+  ]
+
+  const missing = definition.competitors.filter(id => !run.generations.some(g => g.modelId === id))
+  if (missing.length > 0) {
+    lines.push(`Did not answer: ${missing.join(', ')}`, '')
+  }
+
+  for (const generation of run.generations) {
+    lines.push(`### ${generation.modelName}`, '')
+    if (generation.answeredBy) {
+      lines.push(`_Answered by fallback model ${generation.answeredBy}_`, '')
+    }
+    lines.push(generation.response, '')
+  }
+  return lines
+}
+
+function judgingSection(run: CompetitionRunResult, definition: ProjectDefinition, models?: ModelInfo[]): string[] {
+  const { results, failedComparisons } = run.judging
+  const { criteria, judging } = definition
+  const pairwise = judging.mode === 'pairwise'
+  const judges = definition.judges.map(id => getModelName(models, id)).join(', ')
+
+  const lines = [
+    '## Phase 3: Anonymous Judging',
+    '',
+    pairwise
+      ? `Judged by ${judges} in pairwise comparisons, ranked with a Bradley-Terry model.`
+      : `Judged by ${judges}, scores combined by ${judging.aggregation.replace('_', ' ')}.`,
+    '',
+  ]
+
+  if (pairwise) {
+    lines.push(
+      '| Rank | Model | Expected score | Rating | Wins | Losses | Ties |',
+      '| --- | --- | --- | --- | --- | --- | --- |',
+      ...results.map(r => r.pairwise
+        ? `| ${r.rank} | ${tableCell(r.modelName)} | ${r.totalScore.toFixed(1)} | ${Math.round(r.pairwise.rating)} | ${r.pairwise.wins} | ${r.pairwise.losses} | ${r.pairwise.ties} |`
+        : `| ${r.rank} | ${tableCell(r.modelName)} | unscored | | | | |`),
+      ''
+    )
+    if (failedComparisons > 0) {
+      lines.push(`${failedComparisons} comparisons failed and were left out of the ranking.`, '')
+    }
+  } else {
+    lines.push(
+      `| Rank | Model | Total | ${criteria.map(c => `${tableCell(c.name)} (${c.weight}%)`).join(' | ')} |`,
+      `| --- | --- | --- | ${criteria.map(() => '---').join(' | ')} |`,
+      ...results.map(r => r.unscored
+        ? `| ${r.rank} | ${tableCell(r.modelName)} | unscored | ${criteria.map(() => '').join(' | ')} |`
+        : `| ${r.rank} | ${tableCell(r.modelName)} | ${r.totalScore.toFixed(1)} | ${criteria.map(c => r.scores[c.id]?.toFixed(1) ?? '').join(' | ')} |`),
+      ''
+    )
+  }
+
+  for (const result of results) {
+    lines.push(`### ${result.rank}. ${result.modelName}`, '', result.feedback || '_No feedback_', '')
+  }
+  return lines
+}
+
+/**
+ * A readable write-up of a run: the refinement history, every answer and the judging
+ */
+export function createMarkdownReport(
+  definition: ProjectDefinition,
+  run: CompetitionRunResult,
+  results: ProjectResults,
+  models?: ModelInfo[]
+): string {
+  const winner = run.judging.results.find(result => result.modelId === results.phase3.winnerId)
+  const usage = results.totalTokensUsed
+    ? ` using ${results.totalTokensUsed} tokens (${formatCost(results.totalCost || 0)})`
+    : ''
+
+  return [
+    `# ${definition.name}`,
+    '',
+    `Completed ${results.completedAt.toISOString()} in ${formatSeconds(results.totalDuration)}${usage}.`,
+    '',
+    winner ? `**Winner: ${winner.modelName}** (${winner.totalScore.toFixed(1)})` : '**No winner**: no answer could be scored.',
+    '',
+    '## Question',
+    '',
+    quote(definition.question),
+    '',
+    ...refinementSection(run),
+    ...competitionSection(run, definition),
+    ...judgingSection(run, definition, models),
+  ].join('\n').trimEnd() + '\n'
+}
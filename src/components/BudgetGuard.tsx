@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { costLedger, type BudgetConfirmation } from '@/services/cost-ledger'
+import { formatCost } from '@/utils/cost-estimate'
+
+/**
+ * Pauses any run that is about to go past a spending cap until the user decides
+ */
+export default function BudgetGuard() {
+  const [confirmation, setConfirmation] = useState<BudgetConfirmation | null>(null)
+  const resolveRef = useRef<((approved: boolean) => void) | null>(null)
+
+  useEffect(() => {
+    costLedger.setBudgetConfirmHandler(request => new Promise<boolean>(resolve => {
+      resolveRef.current = resolve
+      setConfirmation(request)
+    }))
+
+    return () => {
+      costLedger.setBudgetConfirmHandler(null)
+      resolveRef.current?.(false)
+    }
+  }, [])
+
+  const answer = (approved: boolean) => {
+    resolveRef.current?.(approved)
+    resolveRef.current = null
+    setConfirmation(null)
+  }
+
+  return (
+    <AlertDialog open={confirmation !== null} onOpenChange={(open) => !open && answer(false)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {confirmation?.kind === 'daily' ? 'Daily spending cap reached' : 'Run spending cap reached'}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {confirmation && (
+              <>
+                {confirmation.kind === 'daily' ? 'Today' : 'This run'} has spent {formatCost(confirmation.spent)} of
+                its {formatCost(confirmation.limit)} cap. The next call to {confirmation.modelId} could cost up
+                to {formatCost(confirmation.nextCallCost)}. The run is paused until you decide; going on allows
+                spending up to {formatCost(confirmation.allowUpTo)} before you are asked again.
+              </>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => answer(false)}>Stop run</AlertDialogCancel>
+          <AlertDialogAction onClick={() => answer(true)}>
+            {confirmation && `Allow up to ${formatCost(confirmation.allowUpTo)}`}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react'
+import { Download, FileDown } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { toast } from '@/hooks/use-toast'
+import { getReportFileName, type CompetitionReport } from '@/utils/competition-report'
+import { renderReportPdf } from '@/utils/report-pdf'
+import { renderReportMarkdown } from '@/utils/report-markdown'
+import { stringifyResultsExport, type ResultsExport } from '@/utils/results-export'
+
+type ExportFormat = 'pdf' | 'md' | 'json' | 'csv'
+
+interface ExportResultsButtonProps {
+  getReport: (options: { redactIdentities: boolean }) => CompetitionReport
+  getExport: () => ResultsExport
+  getCsv: () => string
+  disabled?: boolean
+}
+
+const formats: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'pdf', label: 'PDF', description: 'Report to print or share' },
+  { format: 'md', label: 'Markdown', description: 'Report to paste into docs' },
+  { format: 'json', label: 'JSON', description: 'Everything, to import again' },
+  { format: 'csv', label: 'CSV', description: 'Scores for spreadsheets' },
+]
+
+function downloadText(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function ExportResultsButton({ getReport, getExport, getCsv, disabled = false }: ExportResultsButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [redactIdentities, setRedactIdentities] = useState(false)
+
+  const handleExport = (format: ExportFormat) => {
+    try {
+      // JSON and CSV are raw data for analysis, so only the reports are redacted
+      const report = getReport({ redactIdentities: redactIdentities && (format === 'pdf' || format === 'md') })
+      const fileName = getReportFileName(report, format)
+
+      if (format === 'pdf') {
+        renderReportPdf(report).save(fileName)
+      } else if (format === 'md') {
+        downloadText(renderReportMarkdown(report), fileName, 'text/markdown')
+      } else if (format === 'json') {
+        downloadText(stringifyResultsExport(getExport()), fileName, 'application/json')
+      } else {
+        downloadText(getCsv(), fileName, 'text/csv')
+      }
+      setOpen(false)
+    } catch (error) {
+      console.error('Export failed:', error)
+      toast({
+        title: 'Export failed',
+        description: error instanceof Error ? error.message : 'Could not create the file',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={disabled}>
+          <FileDown className="h-4 w-4" />
+          Export
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <div className="grid grid-cols-2 gap-2">
+          {formats.map(({ format, label, description }) => (
+            <Button
+              key={format}
+              variant="outline"
+              className="h-auto flex-col items-start gap-0.5 py-2 text-left"
+              onClick={() => handleExport(format)}
+            >
+              <span className="flex items-center gap-1 font-semibold">
+                <Download className="h-3 w-3" />
+                {label}
+              </span>
+              <span className="text-xs font-normal text-muted-foreground whitespace-normal">{description}</span>
+            </Button>
+          ))}
+        </div>
+        <Separator />
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="redact-identities">Hide model names</Label>
+            <p className="text-xs text-muted-foreground">Label models A, B, C… in PDF and Markdown</p>
+          </div>
+          <Switch
+            id="redact-identities"
+            checked={redactIdentities}
+            onCheckedChange={setRedactIdentities}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
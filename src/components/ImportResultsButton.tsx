@@ -0,0 +1,60 @@
+import { useRef, useState } from 'react'
+import { Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { toast } from '@/hooks/use-toast'
+import { parseResultsExport, ResultsImportError, type ImportedResults } from '@/utils/results-import'
+
+interface ImportResultsButtonProps {
+  onImport: (results: ImportedResults) => Promise<void> | void
+  disabled?: boolean
+}
+
+/**
+ * Reads a JSON export and hands it on once it validates
+ */
+export function ImportResultsButton({ onImport, disabled = false }: ImportResultsButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
+  const handleFile = async (file: File) => {
+    setIsImporting(true)
+    try {
+      await onImport(parseResultsExport(await file.text()))
+    } catch (error) {
+      console.error('Import failed:', error)
+      toast({
+        title: 'Import failed',
+        description: error instanceof ResultsImportError
+          ? error.problems.join('; ')
+          : error instanceof Error ? error.message : 'Could not read the file',
+        variant: 'destructive',
+      })
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          e.target.value = '' // Let the same file be picked again
+          if (file) void handleFile(file)
+        }}
+      />
+      <Button
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || isImporting}
+      >
+        <Upload className="h-4 w-4 mr-2" />
+        {isImporting ? 'Importing...' : 'Import'}
+      </Button>
+    </>
+  )
+}
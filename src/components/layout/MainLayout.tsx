@@ -14,6 +14,7 @@ import {
   Activity,
   ChevronRight,
   Sparkles,
+  Trophy,
   type LucideIcon
 } from 'lucide-react'
 import { useState, useEffect } from 'react'
@@ -68,6 +69,12 @@ export default function MainLayout() {
       icon: Brain,
       description: 'Free-For-All: Refine with multiple AI models'
     },
+    {
+      name: 'Projects',
+      href: '/projects',
+      icon: Trophy,
+      description: 'Three-phase model competitions'
+    },
     {
       name: 'Model Config',
       href: '/llm-config',
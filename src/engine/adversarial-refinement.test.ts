@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import { RequestCancelledError } from '@/services/llm-errors'
+import type { ChatCompletionRequest } from '@/services/llm-provider'
+import { LLMConfig } from '@/types'
+import { createStubClient, lastMessage } from '@/test/stub-client'
+import {
+  AdversarialRefinementRunner,
+  extractImprovements,
+  isResponseSimilar,
+  type AdversarialRefinementOptions
+} from './adversarial-refinement'
+import { CRITIC_SYSTEM_PROMPT } from './prompts'
+
+const isCritique = (request: ChatCompletionRequest) => request.messages[0].content === CRITIC_SYSTEM_PROMPT
+
+// Critiques with a fixed point and answers with a new paragraph each round
+function refinerReply(request: ChatCompletionRequest): string {
+  if (isCritique(request)) return '1. The answer should give an example'
+  const round = (lastMessage(request).match(/Paragraph/g) || []).length + 1
+  return Array.from({ length: round }, (_, i) => `Paragraph ${i + 1} about monads, take ${round * 7}.`).join('\n')
+}
+
+function createRunner(
+  respond: Parameters<typeof createStubClient>[0],
+  options: Partial<AdversarialRefinementOptions> = {}
+) {
+  const { client, calls } = createStubClient(respond)
+  const runner = new AdversarialRefinementRunner({
+    llm: client,
+    prompt: 'Explain monads',
+    refinerModelId: 'refiner',
+    maxRounds: 3,
+    ...options,
+  })
+  return { runner, calls }
+}
+
+describe('AdversarialRefinementRunner', () => {
+  it('critiques and rewrites the latest response each round', async () => {
+    const { runner, calls } = createRunner(refinerReply)
+    const started: number[] = []
+    runner.on('round:start', ({ roundNumber }) => started.push(roundNumber))
+
+    const { rounds, stabilizedAtRound } = await runner.run()
+
+    expect(started).toEqual([1, 2, 3])
+    expect(calls).toHaveLength(6)
+    expect(stabilizedAtRound).toBeUndefined()
+    expect(rounds[0]).toMatchObject({ roundNumber: 0, response: 'Explain monads', critique: 'Initial prompt - no critique' })
+    expect(rounds[3]).toMatchObject({ roundNumber: 3, critique: '1. The answer should give an example' })
+    // The refine call sees the previous round's response
+    expect(lastMessage(calls[3].request)).toContain(rounds[1].response)
+  })
+
+  it('reports every round, including the original prompt', async () => {
+    const { runner } = createRunner(refinerReply, { maxRounds: 1 })
+    const reported: number[][] = []
+    runner.on('round:complete', ({ rounds }) => reported.push(rounds.map(r => r.roundNumber)))
+
+    await runner.run()
+
+    expect(reported).toEqual([[0], [0, 1]])
+  })
+
+  it('stops once a rewrite barely changes the response', async () => {
+    const { runner } = createRunner(request => isCritique(request) ? 'Looks good' : 'The same answer every time')
+
+    const { rounds, stabilizedAtRound } = await runner.run()
+
+    expect(stabilizedAtRound).toBe(2)
+    expect(rounds).toHaveLength(3)
+  })
+
+  it('uses the refiner fallback chain and names the fallback that answered', async () => {
+    const config = { fallbackChains: { refiner: ['refiner', 'backup'] } } as unknown as LLMConfig
+    const { runner, calls } = createRunner(request => ({ content: refinerReply(request), answeredBy: 'backup' }), {
+      config,
+      maxRounds: 1,
+      usageScope: 'project-1',
+    })
+
+    const { rounds } = await runner.run()
+
+    expect(calls[0].options).toMatchObject({ fallbackModelIds: ['backup'], usageScope: 'project-1' })
+    expect(rounds[1].answeredBy).toBe('backup')
+  })
+
+  it('keeps the finished rounds when cancelled', async () => {
+    const controller = new AbortController()
+    const { runner } = createRunner(refinerReply, { signal: controller.signal })
+    const finished: number[] = []
+    runner.on('round:complete', ({ round }) => {
+      finished.push(round.roundNumber)
+      if (round.roundNumber === 1) controller.abort()
+    })
+
+    await expect(runner.run()).rejects.toBeInstanceOf(RequestCancelledError)
+    expect(finished).toEqual([0, 1])
+  })
+
+  it('resumes after the last saved round and reuses a saved critique', async () => {
+    const first = await createRunner(refinerReply, { maxRounds: 1 }).runner.run()
+    const { runner, calls } = createRunner(refinerReply, {
+      resumeFrom: { rounds: first.rounds, critique: '1. The answer should be shorter' },
+    })
+    const started: number[] = []
+    const critiques: number[] = []
+    runner.on('round:start', ({ roundNumber }) => started.push(roundNumber))
+    runner.on('critique:complete', ({ roundNumber }) => critiques.push(roundNumber))
+
+    const { rounds } = await runner.run()
+
+    expect(started).toEqual([2, 3])
+    expect(critiques).toEqual([3])
+    expect(calls).toHaveLength(3)
+    expect(rounds.map(r => r.roundNumber)).toEqual([0, 1, 2, 3])
+    expect(rounds[1]).toBe(first.rounds[1])
+    expect(rounds[2].critique).toBe('1. The answer should be shorter')
+  })
+})
+
+describe('extractImprovements', () => {
+  it('notes added detail, code and structure', () => {
+    expect(extractImprovements('Short', 'Much longer\n```js\ncode\n```', '')).toEqual([
+      'Added more detail and explanation',
+      'Added code examples or formatted content',
+      'Improved structure and formatting',
+    ])
+  })
+
+  it('lists critique points phrased as requests, up to five in total', () => {
+    const critique = Array.from({ length: 8 }, (_, i) => `${i + 1}. It should cover case ${i + 1}`).join('\n')
+
+    const improvements = extractImprovements('Same', 'Same', critique)
+
+    expect(improvements).toHaveLength(5)
+    expect(improvements[0]).toBe('Addressed: 1. It should cover case 1...')
+  })
+})
+
+describe('isResponseSimilar', () => {
+  it('needs more than 95% shared words', () => {
+    const words = Array.from({ length: 20 }, (_, i) => `word${i}`)
+    expect(isResponseSimilar(words.join(' '), words.join(' '))).toBe(true)
+    expect(isResponseSimilar(words.join(' '), [...words.slice(1), 'other'].join(' '))).toBe(false)
+  })
+})
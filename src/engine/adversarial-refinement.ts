@@ -0,0 +1,168 @@
+import { RefinementRound } from '@/types'
+import { getFallbackModelIds, getFallbackUsed } from '@/utils/fallback-chains'
+import { RunEmitter } from './events'
+import {
+  CRITIC_SYSTEM_PROMPT,
+  REFINER_SYSTEM_PROMPT,
+  createCritiquePrompt,
+  createRefinementPrompt
+} from './prompts'
+import { RunContext, getCallOptions } from './types'
+
+export interface AdversarialRefinementOptions extends RunContext {
+  prompt: string
+  refinerModelId: string
+  maxRounds: number
+  /** Picks up an interrupted run instead of starting over */
+  resumeFrom?: AdversarialRefinementCheckpoint
+}
+
+/**
+ * What a run had finished when it stopped: the rounds so far, round 0 first, and the
+ * critique already written for the next round
+ */
+export interface AdversarialRefinementCheckpoint {
+  rounds: RefinementRound[]
+  critique?: string
+}
+
+export interface AdversarialRefinementEvents {
+  'round:start': { roundNumber: number }
+  /** The critique is in and the rewrite is next; save it to resume from here */
+  'critique:complete': { roundNumber: number; critique: string }
+  /** Also emitted for round 0, which holds the original prompt */
+  'round:complete': { round: RefinementRound; rounds: RefinementRound[] }
+}
+
+export interface AdversarialRefinementResult {
+  rounds: RefinementRound[]
+  stabilizedAtRound?: number // Set when the run stopped early because the response stopped changing
+}
+
+/**
+ * Phase 1: the refiner critiques its latest response and rewrites it, round after round,
+ * until the rounds run out or the response stabilizes
+ */
+export class AdversarialRefinementRunner extends RunEmitter<AdversarialRefinementEvents> {
+  constructor(private readonly options: AdversarialRefinementOptions) {
+    super()
+  }
+
+  async run(): Promise<AdversarialRefinementResult> {
+    const { prompt, refinerModelId, maxRounds, resumeFrom, llm } = this.options
+    const callOptions = getCallOptions(
+      this.options,
+      getFallbackModelIds(this.options.config, 'refiner', refinerModelId)
+    )
+
+    const initialRound: RefinementRound = {
+      roundNumber: 0,
+      response: prompt,
+      critique: 'Initial prompt - no critique',
+      improvements: [],
+      timestamp: new Date().toISOString()
+    }
+    let rounds = resumeFrom?.rounds.length ? resumeFrom.rounds : [initialRound]
+    if (!resumeFrom?.rounds.length) {
+      this.emit('round:complete', { round: initialRound, rounds })
+    }
+
+    for (let roundNumber = rounds.length; roundNumber <= maxRounds; roundNumber++) {
+      this.emit('round:start', { roundNumber })
+      const previousResponse = rounds[roundNumber - 1].response
+
+      // A critique saved before the interruption is not paid for twice
+      let critique = roundNumber === resumeFrom?.rounds.length ? resumeFrom.critique : undefined
+      if (critique === undefined) {
+        const critiqueResponse = await llm.createChatCompletion({
+          model: refinerModelId,
+          messages: [
+            { role: 'system', content: CRITIC_SYSTEM_PROMPT },
+            { role: 'user', content: createCritiquePrompt(previousResponse) }
+          ],
+          max_tokens: 500,
+          temperature: 0.7
+        }, undefined, callOptions)
+
+        critique = critiqueResponse.choices[0]?.message?.content || 'No critique generated'
+        this.emit('critique:complete', { roundNumber, critique })
+      }
+
+      const refinedResponse = await llm.createChatCompletion({
+        model: refinerModelId,
+        messages: [
+          { role: 'system', content: REFINER_SYSTEM_PROMPT },
+          { role: 'user', content: createRefinementPrompt(prompt, previousResponse, critique) }
+        ],
+        max_tokens: 1000,
+        temperature: 0.7
+      }, undefined, callOptions)
+
+      const refinedText = refinedResponse.choices[0]?.message?.content || 'No refined response generated'
+      const answeredBy = getFallbackUsed(refinerModelId, refinedResponse.answeredBy)
+
+      const round: RefinementRound = {
+        roundNumber,
+        response: refinedText,
+        critique,
+        improvements: extractImprovements(previousResponse, refinedText, critique),
+        timestamp: new Date().toISOString(),
+        ...(answeredBy ? { answeredBy } : {})
+      }
+      rounds = [...rounds, round]
+      this.emit('round:complete', { round, rounds })
+
+      // Stop early once a rewrite barely changes the response
+      if (roundNumber > 1 && isResponseSimilar(previousResponse, refinedText)) {
+        return { rounds, stabilizedAtRound: roundNumber }
+      }
+    }
+
+    return { rounds }
+  }
+}
+
+/**
+ * Heuristic list of what a rewrite improved, for display next to the round
+ */
+export function extractImprovements(
+  previousResponse: string,
+  newResponse: string,
+  critique: string
+): string[] {
+  const improvements: string[] = []
+
+  if (newResponse.length > previousResponse.length * 1.1) {
+    improvements.push('Added more detail and explanation')
+  }
+
+  if (newResponse.includes('```') && !previousResponse.includes('```')) {
+    improvements.push('Added code examples or formatted content')
+  }
+
+  if (newResponse.split('\n').length > previousResponse.split('\n').length) {
+    improvements.push('Improved structure and formatting')
+  }
+
+  // Critique points phrased as requests are taken as addressed
+  critique.split('\n').forEach(line => {
+    if (line.match(/should|could|needs to|missing/i)) {
+      improvements.push(`Addressed: ${line.trim().substring(0, 100)}...`)
+    }
+  })
+
+  return improvements.slice(0, 5)
+}
+
+/**
+ * True when at least 95% of the words are shared, so another round would add little
+ */
+export function isResponseSimilar(response1: string, response2: string): boolean {
+  const words1 = response1.toLowerCase().split(/\s+/)
+  const words2 = response2.toLowerCase().split(/\s+/)
+
+  const commonWords = words1.filter(word => words2.includes(word))
+  const similarity = commonWords.length / Math.max(words1.length, words2.length)
+
+  return similarity > 0.95
+}
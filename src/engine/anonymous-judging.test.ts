@@ -0,0 +1,273 @@
+import { describe, expect, it } from 'vitest'
+import { ProviderError, RequestCancelledError } from '@/services/llm-errors'
+import type { ChatCompletionRequest } from '@/services/llm-provider'
+import { CompetitorGeneration, GradingCriterion, JudgingResult, LLMConfig, PairwiseComparison } from '@/types'
+import { createStubClient, lastMessage } from '@/test/stub-client'
+import {
+  AnonymousJudgingRunner,
+  countJudgments,
+  getPairs,
+  rankResults,
+  type AnonymousJudgingOptions
+} from './anonymous-judging'
+
+const criteria: GradingCriterion[] = [
+  { id: 'accuracy', name: 'Accuracy', description: 'Is it correct?', weight: 60 },
+  { id: 'clarity', name: 'Clarity', description: 'Is it clear?', weight: 40 },
+]
+
+const generation = (modelId: string): CompetitorGeneration => ({
+  modelId,
+  modelName: modelId,
+  response: `Answer written by ${modelId}`,
+  generationTime: 1000,
+  tokenCount: 100,
+  estimatedCost: 0,
+  timestamp: '2025-01-01T00:00:00.000Z',
+})
+
+const generations = ['openai/gpt-4o', 'anthropic/claude-3', 'google/gemini-pro'].map(generation)
+
+// Quality each judge sees in an answer, keyed by the model that wrote it
+const QUALITY: Record<string, number> = { 'openai/gpt-4o': 90, 'anthropic/claude-3': 70, 'google/gemini-pro': 50 }
+
+const authorOf = (text: string) => Object.keys(QUALITY).find(modelId => text.includes(`written by ${modelId}`))!
+
+// Scores an answer by its author, or picks the better of two
+function judgeReply(request: ChatCompletionRequest): string {
+  const text = lastMessage(request)
+  if (text.includes('Answer A:')) {
+    const [, answerA, answerB] = text.split(/Answer [AB]:/)
+    return JSON.stringify({
+      winner: QUALITY[authorOf(answerA)] > QUALITY[authorOf(answerB)] ? 'A' : 'B',
+      reasoning: 'More accurate',
+    })
+  }
+
+  const quality = QUALITY[authorOf(text)]
+  return JSON.stringify({ scores: { accuracy: quality, clarity: quality }, feedback: 'Solid answer' })
+}
+
+function createRunner(
+  respond: Parameters<typeof createStubClient>[0],
+  options: Partial<AnonymousJudgingOptions> = {}
+) {
+  const { client, calls } = createStubClient(respond)
+  const runner = new AnonymousJudgingRunner({
+    llm: client,
+    generations,
+    criteria,
+    judgePanel: ['openai/gpt-4o-mini', 'mistral/large'],
+    mode: 'absolute',
+    aggregation: 'mean',
+    excludeSameProvider: false,
+    maxRepairAttempts: 1,
+    shuffleSeed: 42,
+    ...options,
+  })
+  return { runner, calls }
+}
+
+describe('AnonymousJudgingRunner', () => {
+  it('has every judge score every answer and ranks the consensus', async () => {
+    const { runner, calls } = createRunner(judgeReply)
+    const progress: number[] = []
+    runner.on('judgment', ({ completed, total }) => progress.push(completed / total))
+
+    const { results } = await runner.run()
+
+    expect(calls).toHaveLength(6)
+    expect(results.map(r => [r.modelId, r.rank, r.totalScore])).toEqual([
+      ['openai/gpt-4o', 1, 90],
+      ['anthropic/claude-3', 2, 70],
+      ['google/gemini-pro', 3, 50],
+    ])
+    expect(results[0].judgeScores).toHaveLength(2)
+    expect(progress[progress.length - 1]).toBe(1)
+  })
+
+  it('reports partial results after each judge call', async () => {
+    const { runner } = createRunner(judgeReply)
+    const updates: number[] = []
+    runner.on('update', ({ results }) => updates.push(results.length))
+
+    await runner.run()
+
+    expect(updates).toEqual([1, 1, 2, 2, 3, 3])
+  })
+
+  it('resumes from saved results without asking the same judge twice', async () => {
+    // The tab closes after the third judge call
+    const controller = new AbortController()
+    let checkpoint: JudgingResult[] = []
+    const first = createRunner(judgeReply, { signal: controller.signal })
+    first.runner.on('judgment', ({ completed }) => {
+      if (completed === 3) controller.abort()
+    })
+    first.runner.on('update', ({ results }) => { checkpoint = results })
+    await expect(first.runner.run()).rejects.toThrow(RequestCancelledError)
+
+    const { runner, calls } = createRunner(judgeReply, { resumeFrom: { results: checkpoint } })
+    const progress: number[] = []
+    runner.on('judgment', ({ completed }) => progress.push(completed))
+    const { results } = await runner.run()
+
+    expect(calls).toHaveLength(3)
+    expect(progress).toEqual([4, 5, 6])
+    expect(results.map(r => [r.modelId, r.totalScore, r.judgeScores?.length])).toEqual([
+      ['openai/gpt-4o', 90, 2],
+      ['anthropic/claude-3', 70, 2],
+      ['google/gemini-pro', 50, 2],
+    ])
+  })
+
+  it('resumes pairwise judging from saved comparisons', async () => {
+    const options = { mode: 'pairwise' as const, judgePanel: ['mistral/large'] }
+    const controller = new AbortController()
+    let comparisons: PairwiseComparison[] = []
+    const first = createRunner(judgeReply, { ...options, signal: controller.signal })
+    first.runner.on('judgment', ({ completed }) => {
+      if (completed === 2) controller.abort()
+    })
+    first.runner.on('update', ({ details }) => { comparisons = details.comparisons || [] })
+    await expect(first.runner.run()).rejects.toThrow(RequestCancelledError)
+
+    const { runner, calls } = createRunner(judgeReply, { ...options, resumeFrom: { results: [], comparisons } })
+    const { results, details } = await runner.run()
+
+    expect(calls).toHaveLength(4)
+    expect(details.comparisons).toHaveLength(6)
+    expect(results[0].modelId).toBe('openai/gpt-4o')
+  })
+
+  it('shows the answers in an order that depends only on the seed', async () => {
+    const first = await createRunner(judgeReply).runner.run()
+    const reversed = await createRunner(judgeReply, { generations: [...generations].reverse() }).runner.run()
+
+    expect(reversed.details.shuffleSeed).toBe(42)
+    expect(reversed.details.presentationOrder).toEqual(first.details.presentationOrder)
+  })
+
+  it('asks for a repair, then leaves the answer unscored when the judge never complies', async () => {
+    const { runner, calls } = createRunner(request =>
+      request.model === 'mistral/large' ? 'I liked it' : judgeReply(request),
+    { judgePanel: ['mistral/large'], generations: generations.slice(0, 1) })
+
+    const { results } = await runner.run()
+
+    expect(calls).toHaveLength(2)
+    expect(lastMessage(calls[1].request)).not.toContain('Answer written by')
+    expect(results[0]).toMatchObject({ unscored: true, totalScore: 0 })
+    expect(results[0].unscoredVerdicts![0]).toMatchObject({ judgeModelId: 'mistral/large', repairAttempts: 1 })
+  })
+
+  it('ranks unscored answers last and names the failed judge', async () => {
+    const { runner } = createRunner(request =>
+      lastMessage(request).includes('written by openai/gpt-4o')
+        ? new ProviderError('Judge is down', { status: 503 })
+        : judgeReply(request),
+    { judgePanel: ['mistral/large'], models: [{ id: 'mistral/large', name: 'Mistral Large' }] })
+    const failures: string[] = []
+    runner.on('judgment:failed', ({ modelIds }) => failures.push(...modelIds))
+
+    const { results } = await runner.run()
+
+    expect(failures).toEqual(['openai/gpt-4o'])
+    expect(results[2]).toMatchObject({
+      modelId: 'openai/gpt-4o',
+      rank: 3,
+      unscored: true,
+      feedback: 'Judging failed: Mistral Large: Judge is down',
+    })
+  })
+
+  it('keeps judges away from answers by their own provider when asked', async () => {
+    const { runner, calls } = createRunner(judgeReply, { excludeSameProvider: true })
+
+    await runner.run()
+
+    const judgedByOpenAI = calls
+      .filter(call => call.request.model === 'openai/gpt-4o-mini')
+      .map(call => authorOf(lastMessage(call.request)))
+    expect(judgedByOpenAI).not.toContain('openai/gpt-4o')
+    expect(calls).toHaveLength(5)
+  })
+
+  it('falls back to judges outside the panel only', async () => {
+    const config = { fallbackChains: { judge: ['mistral/large', 'backup/judge'] } } as unknown as LLMConfig
+    const { runner, calls } = createRunner(judgeReply, { config })
+
+    await runner.run()
+
+    expect(calls[0].options?.fallbackModelIds).toEqual(['backup/judge'])
+  })
+
+  it('compares every pair in both orders in pairwise mode', async () => {
+    const { runner, calls } = createRunner(judgeReply, { mode: 'pairwise', judgePanel: ['mistral/large'] })
+
+    const { results, details, failedComparisons } = await runner.run()
+
+    expect(calls).toHaveLength(6)
+    expect(details.comparisons).toHaveLength(6)
+    expect(failedComparisons).toBe(0)
+    expect(results.map(r => r.modelId)).toEqual(['openai/gpt-4o', 'anthropic/claude-3', 'google/gemini-pro'])
+    expect(results[0].pairwise).toMatchObject({ wins: 4, losses: 0, ties: 0 })
+    expect(results[0].feedback).toBe('Won 4, lost 0 and tied 0 of 4 pairwise comparisons.')
+  })
+
+  it('leaves failed comparisons out of the ranking, and fails when none succeed', async () => {
+    const failingClaude = createRunner(request =>
+      lastMessage(request).includes('written by anthropic/claude-3')
+        ? new ProviderError('Judge is down', { status: 503 })
+        : judgeReply(request),
+    { mode: 'pairwise', judgePanel: ['mistral/large'] })
+    const { failedComparisons, details } = await failingClaude.runner.run()
+    expect(failedComparisons).toBe(4)
+    expect(details.comparisons).toHaveLength(2)
+
+    const failingAll = createRunner(() => new ProviderError('Judge is down', { status: 503 }), { mode: 'pairwise' })
+    await expect(failingAll.runner.run()).rejects.toThrow('Every pairwise comparison failed')
+  })
+
+  it('stops at the first cancelled judgment', async () => {
+    const controller = new AbortController()
+    const { runner, calls } = createRunner(judgeReply, { signal: controller.signal })
+    runner.on('judgment', () => controller.abort())
+
+    await expect(runner.run()).rejects.toBeInstanceOf(RequestCancelledError)
+    expect(calls).toHaveLength(2)
+  })
+})
+
+describe('countJudgments', () => {
+  const ids = generations.map(g => g.modelId)
+  const judgePanel = ['openai/gpt-4o-mini', 'mistral/large']
+
+  it('counts one call per judge and answer in absolute mode', () => {
+    expect(countJudgments(ids, { mode: 'absolute', judgePanel, excludeSameProvider: false })).toBe(6)
+    expect(countJudgments(ids, { mode: 'absolute', judgePanel, excludeSameProvider: true })).toBe(5)
+  })
+
+  it('counts both orders of every pair in pairwise mode', () => {
+    expect(countJudgments(ids, { mode: 'pairwise', judgePanel, excludeSameProvider: false })).toBe(12)
+    expect(countJudgments(ids, { mode: 'pairwise', judgePanel, excludeSameProvider: true })).toBe(8)
+  })
+})
+
+describe('getPairs', () => {
+  it('lists every unordered pair once', () => {
+    expect(getPairs(['a', 'b', 'c'])).toEqual([['a', 'b'], ['a', 'c'], ['b', 'c']])
+  })
+})
+
+describe('rankResults', () => {
+  it('ranks by score with unscored results last', () => {
+    const result = (modelId: string, totalScore: number, unscored?: boolean) => ({
+      modelId, modelName: modelId, scores: {}, totalScore, feedback: '', rank: 0, timestamp: '', unscored,
+    })
+
+    const ranked = rankResults([result('a', 40), result('b', 0, true), result('c', 80)])
+
+    expect(ranked.map(r => [r.modelId, r.rank])).toEqual([['c', 1], ['a', 2], ['b', 3]])
+  })
+})
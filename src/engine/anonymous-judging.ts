@@ -0,0 +1,497 @@
+import type { ChatCompletionRequest } from '@/services/llm-provider'
+import { isCancellationError } from '@/services/llm-errors'
+import {
+  CompetitorGeneration,
+  GradingCriterion,
+  JudgeVerdict,
+  JudgingMode,
+  JudgingResult,
+  JudgingRunDetails,
+  PairwiseComparison,
+  Project,
+  ScoreAggregationMethod,
+  UnscoredVerdict
+} from '@/types'
+import { calculateWeightedScore, getProjectCriteria } from '@/utils/grading-criteria'
+import { aggregateVerdicts, getAggregationMethod, getJudgePanel } from '@/utils/judge-aggregation'
+import { rankPairwise } from '@/utils/pairwise-ranking'
+import { getEligibleJudges } from '@/utils/judging-bias'
+import { createSeed, seededShuffle } from '@/utils/random'
+import { getFallbackModelIds, getFallbackUsed } from '@/utils/fallback-chains'
+import { logger } from '@/utils/logger'
+import {
+  DEFAULT_REPAIR_ATTEMPTS,
+  JudgeOutputError,
+  type JudgeOutputResult,
+  createRepairPrompt,
+  parseAbsoluteJudgment,
+  parsePairwiseJudgment
+} from '@/utils/judge-output'
+import { RunEmitter } from './events'
+import {
+  ABSOLUTE_JUDGE_SYSTEM_PROMPT,
+  PAIRWISE_JUDGE_SYSTEM_PROMPT,
+  createJudgingPrompt,
+  createPairwisePrompt
+} from './prompts'
+import { ModelInfo, RunContext, getCallOptions, getModelName } from './types'
+
+/**
+ * How a project wants its answers judged
+ */
+export interface JudgingSettings {
+  criteria: GradingCriterion[]
+  judgePanel: string[]
+  mode: JudgingMode
+  aggregation: ScoreAggregationMethod
+  excludeSameProvider: boolean
+  maxRepairAttempts: number
+  shuffleSeed?: number // Reuse to reproduce an earlier run's presentation order
+}
+
+export function getJudgingSettings(project: Project): JudgingSettings {
+  const shuffleSeed = project.judgingConfig?.shuffleSeed
+  return {
+    criteria: getProjectCriteria(project),
+    judgePanel: getJudgePanel(project),
+    mode: project.judgingConfig?.mode || 'absolute',
+    aggregation: getAggregationMethod(project),
+    excludeSameProvider: project.judgingConfig?.excludeSameProviderJudges ?? false,
+    maxRepairAttempts: project.judgingConfig?.maxRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS,
+    ...(shuffleSeed !== undefined ? { shuffleSeed } : {})
+  }
+}
+
+export interface AnonymousJudgingOptions extends RunContext, JudgingSettings {
+  generations: CompetitorGeneration[]
+  /** Model catalog, for judge names in feedback */
+  models?: ModelInfo[]
+  /** Picks up an interrupted run; pass its shuffleSeed too to keep the presentation order */
+  resumeFrom?: AnonymousJudgingCheckpoint
+}
+
+/**
+ * The partial results an interrupted run saved. Judge calls with a verdict in them are not
+ * made again; calls that failed are retried.
+ */
+export interface AnonymousJudgingCheckpoint {
+  results: JudgingResult[]
+  comparisons?: PairwiseComparison[]
+}
+
+export interface AnonymousJudgingEvents {
+  /** A new response (absolute) or pair (pairwise) is being judged; index is 1-based */
+  step: { index: number; total: number }
+  /** One judge call finished, whether or not it produced a verdict */
+  judgment: { completed: number; total: number }
+  'judgment:failed': { judgeModelId: string; modelIds: string[]; error: unknown }
+  /** Partial, unranked results after each judge call, to save as a checkpoint */
+  update: { results: JudgingResult[]; details: JudgingRunDetails }
+}
+
+export interface AnonymousJudgingResult {
+  results: JudgingResult[] // Ranked
+  details: JudgingRunDetails
+  failedComparisons: number // Pairwise comparisons left out of the ranking
+}
+
+interface StructuredJudgment<T> {
+  value: T
+  rawResponse: string
+  repairAttempts: number
+  answeredBy?: string // Fallback model that stood in for the judge
+}
+
+// Every unordered pair of responses
+export function getPairs<T>(items: T[]): [T, T][] {
+  const pairs: [T, T][] = []
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      pairs.push([items[i], items[j]])
+    }
+  }
+  return pairs
+}
+
+/**
+ * Judge calls a run will make, before repairs and fallbacks
+ */
+export function countJudgments(
+  competitorIds: string[],
+  { mode, judgePanel, excludeSameProvider }: Pick<JudgingSettings, 'mode' | 'judgePanel' | 'excludeSameProvider'>
+): number {
+  return mode === 'pairwise'
+    ? getPairs(competitorIds).reduce((sum, pair) =>
+        sum + 2 * getEligibleJudges(judgePanel, pair, excludeSameProvider).length, 0)
+    : competitorIds.reduce((sum, modelId) =>
+        sum + getEligibleJudges(judgePanel, [modelId], excludeSameProvider).length, 0)
+}
+
+/**
+ * Sort by total score and assign ranks, with unscored answers after every scored one
+ */
+export function rankResults(results: JudgingResult[]): JudgingResult[] {
+  const sorted = [...results].sort((a, b) =>
+    Number(Boolean(a.unscored)) - Number(Boolean(b.unscored)) || b.totalScore - a.totalScore
+  )
+
+  return sorted.map((result, index) => ({
+    ...result,
+    rank: index + 1
+  }))
+}
+
+/**
+ * Phase 3: a panel of judges scores the competitors' answers without seeing who wrote them,
+ * either one answer at a time (absolute) or head to head (pairwise)
+ */
+export class AnonymousJudgingRunner extends RunEmitter<AnonymousJudgingEvents> {
+  private completedJudgments = 0
+  private totalJudgments = 0
+
+  constructor(private readonly options: AnonymousJudgingOptions) {
+    super()
+  }
+
+  async run(): Promise<AnonymousJudgingResult> {
+    const { generations, mode } = this.options
+    this.completedJudgments = 0
+    this.totalJudgments = countJudgments(generations.map(g => g.modelId), this.options)
+
+    // Sorting first makes the order depend only on the seed, so a run can be reproduced
+    // from the seed recorded on the project
+    const shuffleSeed = this.options.shuffleSeed ?? createSeed()
+    const shuffled = seededShuffle(
+      [...generations].sort((a, b) => a.modelId.localeCompare(b.modelId)),
+      shuffleSeed
+    )
+    const details = (comparisons?: PairwiseComparison[]): JudgingRunDetails => ({
+      shuffleSeed,
+      presentationOrder: shuffled.map(g => g.modelId),
+      ...(comparisons ? { comparisons } : {})
+    })
+
+    if (mode === 'pairwise') {
+      const { results, comparisons, failedComparisons } = await this.runPairwise(shuffled, details)
+      return { results: rankResults(results), details: details(comparisons), failedComparisons }
+    }
+
+    const results = await this.runAbsolute(shuffled, details)
+    return { results: rankResults(results), details: details(), failedComparisons: 0 }
+  }
+
+  // Score each response in isolation against the weighted criteria
+  private async runAbsolute(
+    shuffled: CompetitorGeneration[],
+    details: (comparisons?: PairwiseComparison[]) => JudgingRunDetails
+  ): Promise<JudgingResult[]> {
+    const { criteria, judgePanel, excludeSameProvider, resumeFrom } = this.options
+    const verdictsByAnswer: Record<string, JudgeVerdict[]> = {}
+    const unscoredByAnswer: Record<string, UnscoredVerdict[]> = {}
+    const failuresByAnswer: Record<string, string[]> = {}
+    let results: JudgingResult[] = []
+
+    for (const result of resumeFrom?.results || []) {
+      verdictsByAnswer[result.modelId] = result.judgeScores || []
+      unscoredByAnswer[result.modelId] = result.unscoredVerdicts || []
+    }
+    // Answers judged so far, in presentation order
+    const buildPartialResults = () => this.buildResults(
+      shuffled.filter(g => g.modelId in verdictsByAnswer),
+      verdictsByAnswer,
+      unscoredByAnswer,
+      failuresByAnswer
+    )
+
+    for (let i = 0; i < shuffled.length; i++) {
+      this.emit('step', { index: i + 1, total: shuffled.length })
+      const generation = shuffled[i]
+      const judgingPrompt = createJudgingPrompt(generation.response, criteria)
+      const verdicts = [...(verdictsByAnswer[generation.modelId] || [])]
+      const unscored = [...(unscoredByAnswer[generation.modelId] || [])]
+      const failures: string[] = []
+      const judged = new Set([...verdicts, ...unscored].map(v => v.judgeModelId))
+      verdictsByAnswer[generation.modelId] = verdicts
+      unscoredByAnswer[generation.modelId] = unscored
+      failuresByAnswer[generation.modelId] = failures
+
+      // Every eligible judge on the panel scores the same anonymized response
+      for (const judgeModelId of getEligibleJudges(judgePanel, [generation.modelId], excludeSameProvider)) {
+        if (judged.has(judgeModelId)) {
+          this.completedJudgments++
+          continue
+        }
+
+        try {
+          verdicts.push(await this.requestVerdict(judgeModelId, generation.modelId, judgingPrompt))
+        } catch (error) {
+          // A cancelled judgment is not a failed one, so stop instead of scoring it 0
+          if (isCancellationError(error)) throw error
+          this.emit('judgment:failed', { judgeModelId, modelIds: [generation.modelId], error })
+
+          // Keep the unusable reply for auditing rather than inventing scores for it
+          if (error instanceof JudgeOutputError) {
+            unscored.push({
+              judgeModelId,
+              problems: error.problems,
+              rawResponse: error.rawResponse,
+              repairAttempts: error.repairAttempts
+            })
+          } else {
+            failures.push(`${this.getModelName(judgeModelId)}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+          }
+        }
+        this.reportJudgment()
+        this.emit('update', { results: buildPartialResults(), details: details() })
+      }
+
+      results = buildPartialResults()
+    }
+
+    return results
+  }
+
+  // Show the judge every pair in both orders and fit a Bradley-Terry ranking to the verdicts
+  private async runPairwise(
+    shuffled: CompetitorGeneration[],
+    details: (comparisons?: PairwiseComparison[]) => JudgingRunDetails
+  ): Promise<{ results: JudgingResult[]; comparisons: PairwiseComparison[]; failedComparisons: number }> {
+    const { judgePanel, excludeSameProvider, resumeFrom } = this.options
+    const pairs = getPairs(shuffled)
+    const comparisons = [...(resumeFrom?.comparisons || [])]
+    let failedComparisons = 0
+
+    const isCompared = (judgeModelId: string, answerA: CompetitorGeneration, answerB: CompetitorGeneration) =>
+      comparisons.some(c =>
+        c.judgeModelId === judgeModelId && c.modelAId === answerA.modelId && c.modelBId === answerB.modelId
+      )
+
+    for (let i = 0; i < pairs.length; i++) {
+      this.emit('step', { index: i + 1, total: pairs.length })
+      const [first, second] = pairs[i]
+      const pairJudges = getEligibleJudges(judgePanel, [first.modelId, second.modelId], excludeSameProvider)
+
+      for (const judgeModelId of pairJudges) {
+        // Both orderings, so a judge that favours whichever answer comes first cancels out
+        for (const [answerA, answerB] of [[first, second], [second, first]]) {
+          if (isCompared(judgeModelId, answerA, answerB)) {
+            this.completedJudgments++
+            continue
+          }
+
+          try {
+            comparisons.push(await this.requestPairwiseVerdict(judgeModelId, answerA, answerB))
+          } catch (error) {
+            if (isCancellationError(error)) throw error
+            this.emit('judgment:failed', { judgeModelId, modelIds: [answerA.modelId, answerB.modelId], error })
+            failedComparisons++
+          }
+          this.reportJudgment()
+
+          this.emit('update', {
+            results: this.buildPairwiseResults(shuffled, comparisons),
+            details: details([...comparisons])
+          })
+        }
+      }
+    }
+
+    if (comparisons.length === 0) {
+      throw new Error('Every pairwise comparison failed')
+    }
+
+    return {
+      results: this.buildPairwiseResults(shuffled, comparisons),
+      comparisons,
+      failedComparisons
+    }
+  }
+
+  private reportJudgment() {
+    this.completedJudgments++
+    this.emit('judgment', { completed: this.completedJudgments, total: this.totalJudgments })
+  }
+
+  private getModelName(modelId: string): string {
+    return getModelName(this.options.models, modelId)
+  }
+
+  // Backups for a judge: never another panel member, whose vote would then count twice,
+  // and never a model the provider exclusion would keep away from these answers
+  private getJudgeFallbacks(judgeModelId: string, competitorIds: string[]): string[] {
+    const { config, judgePanel, excludeSameProvider } = this.options
+    return getEligibleJudges(
+      getFallbackModelIds(config, 'judge', judgeModelId, judgePanel),
+      competitorIds,
+      excludeSameProvider
+    )
+  }
+
+  // Ask a judge for a structured reply, feeding validation problems back until it parses
+  private async requestJudgment<T>(
+    judgeModelId: string,
+    competitorIds: string[],
+    messages: ChatCompletionRequest['messages'],
+    parse: (text: string) => JudgeOutputResult<T>,
+    maxTokens: number
+  ): Promise<StructuredJudgment<T>> {
+    const conversation = [...messages]
+    const fallbackModelIds = this.getJudgeFallbacks(judgeModelId, competitorIds)
+    let answeringModelId = judgeModelId
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.options.llm.createChatCompletion({
+        model: answeringModelId,
+        messages: conversation,
+        max_tokens: maxTokens,
+        temperature: 0.3,
+        response_format: { type: 'json_object' }
+      }, undefined, getCallOptions(this.options, fallbackModelIds.filter(id => id !== answeringModelId)))
+
+      // Repair prompts go back to whichever model wrote the reply being repaired
+      answeringModelId = response.answeredBy || answeringModelId
+
+      const rawResponse = response.choices[0]?.message?.content || ''
+      const parsed = parse(rawResponse)
+      if (parsed.ok) {
+        return {
+          value: parsed.value,
+          rawResponse,
+          repairAttempts: attempt,
+          answeredBy: getFallbackUsed(judgeModelId, answeringModelId)
+        }
+      }
+
+      if (attempt >= this.options.maxRepairAttempts) {
+        throw new JudgeOutputError(parsed.problems, rawResponse, attempt)
+      }
+
+      logger.warn('Judge reply failed validation, asking for a repair', { judgeModelId, problems: parsed.problems })
+      conversation.push(
+        { role: 'assistant', content: rawResponse },
+        { role: 'user', content: createRepairPrompt(parsed.problems) }
+      )
+    }
+  }
+
+  private async requestVerdict(
+    judgeModelId: string,
+    competitorId: string,
+    judgingPrompt: string
+  ): Promise<JudgeVerdict> {
+    const { criteria } = this.options
+    const { value, rawResponse, repairAttempts, answeredBy } = await this.requestJudgment(judgeModelId, [competitorId], [
+      { role: 'system', content: ABSOLUTE_JUDGE_SYSTEM_PROMPT },
+      { role: 'user', content: judgingPrompt }
+    ], text => parseAbsoluteJudgment(text, criteria), 800)
+
+    return {
+      judgeModelId,
+      scores: value.scores,
+      totalScore: calculateWeightedScore(value.scores, criteria),
+      feedback: value.feedback,
+      rawResponse,
+      repairAttempts,
+      ...(answeredBy ? { answeredBy } : {})
+    }
+  }
+
+  private async requestPairwiseVerdict(
+    judgeModelId: string,
+    answerA: CompetitorGeneration,
+    answerB: CompetitorGeneration
+  ): Promise<PairwiseComparison> {
+    const { value, rawResponse, answeredBy } = await this.requestJudgment(judgeModelId, [answerA.modelId, answerB.modelId], [
+      { role: 'system', content: PAIRWISE_JUDGE_SYSTEM_PROMPT },
+      { role: 'user', content: createPairwisePrompt(answerA.response, answerB.response, this.options.criteria) }
+    ], parsePairwiseJudgment, 500)
+
+    return {
+      modelAId: answerA.modelId,
+      modelBId: answerB.modelId,
+      judgeModelId,
+      verdict: value.winner,
+      reasoning: value.reasoning,
+      timestamp: new Date().toISOString(),
+      rawResponse,
+      ...(answeredBy ? { answeredBy } : {})
+    }
+  }
+
+  // Fold the panel's verdicts into one consensus result per judged response
+  private buildResults(
+    judged: CompetitorGeneration[],
+    verdictsByAnswer: Record<string, JudgeVerdict[]>,
+    unscoredByAnswer: Record<string, UnscoredVerdict[]>,
+    failuresByAnswer: Record<string, string[]>
+  ): JudgingResult[] {
+    const scoredAnswers = Object.fromEntries(
+      Object.entries(verdictsByAnswer).filter(([, verdicts]) => verdicts.length > 0)
+    )
+    const consensus = aggregateVerdicts(scoredAnswers, this.options.criteria, this.options.aggregation)
+
+    return judged.map(generation => {
+      const verdicts = verdictsByAnswer[generation.modelId] || []
+      const unscored = unscoredByAnswer[generation.modelId] || []
+      const timestamp = new Date().toISOString()
+
+      // Leave the answer unscored rather than making up numbers for it
+      if (verdicts.length === 0) {
+        const reasons = [
+          ...(failuresByAnswer[generation.modelId] || []),
+          ...unscored.map(u => `${this.getModelName(u.judgeModelId)}: ${u.problems.join(', ')}`)
+        ]
+
+        return {
+          modelId: generation.modelId,
+          modelName: generation.modelName,
+          scores: {},
+          totalScore: 0,
+          feedback: `Judging failed: ${reasons.join('; ') || 'Unknown error'}`,
+          rank: 0,
+          timestamp,
+          judgeScores: [],
+          unscoredVerdicts: unscored,
+          unscored: true
+        }
+      }
+
+      return {
+        modelId: generation.modelId,
+        modelName: generation.modelName,
+        scores: consensus[generation.modelId].scores,
+        totalScore: consensus[generation.modelId].totalScore,
+        feedback: verdicts.length === 1
+          ? verdicts[0].feedback
+          : verdicts.map(v => `${this.getModelName(v.judgeModelId)}: ${v.feedback}`).join('\n\n'),
+        rank: 0, // Assigned by rankResults once judging is complete
+        timestamp,
+        judgeScores: verdicts,
+        ...(unscored.length > 0 ? { unscoredVerdicts: unscored } : {})
+      }
+    })
+  }
+
+  private buildPairwiseResults(
+    judged: CompetitorGeneration[],
+    comparisons: PairwiseComparison[]
+  ): JudgingResult[] {
+    const standings = rankPairwise(judged.map(g => g.modelId), comparisons)
+
+    return judged.map(generation => {
+      const standing = standings.find(s => s.modelId === generation.modelId)!
+      const played = standing.wins + standing.losses + standing.ties
+
+      return {
+        modelId: generation.modelId,
+        modelName: generation.modelName,
+        scores: {},
+        totalScore: standing.expectedScore,
+        feedback: `Won ${standing.wins}, lost ${standing.losses} and tied ${standing.ties} of ${played} pairwise comparisons.`,
+        rank: 0,
+        timestamp: new Date().toISOString(),
+        pairwise: standing
+      }
+    })
+  }
+}
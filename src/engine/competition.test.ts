@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import type { ChatCompletionRequest } from '@/services/llm-provider'
+import { createStubClient, lastMessage } from '@/test/stub-client'
+import { CompetitionRunner, type CompetitionOptions } from './competition'
+import { CRITIC_SYSTEM_PROMPT, REFINER_SYSTEM_PROMPT } from './prompts'
+
+const criteria = [{ id: 'accuracy', name: 'Accuracy', description: 'Is it correct?', weight: 100 }]
+
+// Refines the question once, then answers and judges by who is asked
+function reply(request: ChatCompletionRequest): string {
+  const system = request.messages[0].content
+  if (system === CRITIC_SYSTEM_PROMPT) return 'Ask for an example'
+  if (system === REFINER_SYSTEM_PROMPT) return 'Explain monads, with an example'
+  if (request.model === 'judge') {
+    return JSON.stringify({ scores: { accuracy: lastMessage(request).includes('by model-b') ? 90 : 60 }, feedback: 'Fine' })
+  }
+  return `An answer by ${request.model}`
+}
+
+function createRunner(respond: Parameters<typeof createStubClient>[0], options: Partial<CompetitionOptions> = {}) {
+  const { client, calls } = createStubClient(respond)
+  const runner = new CompetitionRunner({
+    llm: client,
+    question: 'Explain monads',
+    refinerModelId: 'refiner',
+    maxRounds: 1,
+    competitorModelIds: ['model-a', 'model-b'],
+    judging: {
+      criteria,
+      judgePanel: ['judge'],
+      mode: 'absolute',
+      aggregation: 'mean',
+      excludeSameProvider: false,
+      maxRepairAttempts: 0,
+      shuffleSeed: 1,
+    },
+    ...options,
+  })
+  return { runner, calls }
+}
+
+describe('CompetitionRunner', () => {
+  it('has the competitors answer the refined prompt, then judges them', async () => {
+    const { runner, calls } = createRunner(reply)
+    const phases: string[] = []
+    runner.on('refinement:start', () => phases.push('refinement'))
+    runner.on('competition:start', ({ prompt }) => phases.push(`competition: ${prompt}`))
+    runner.on('judging:start', ({ totalJudgments }) => phases.push(`judging: ${totalJudgments}`))
+
+    const { refinement, generations, judging } = await runner.run()
+
+    expect(phases).toEqual(['refinement', 'competition: Explain monads, with an example', 'judging: 2'])
+    expect(refinement.rounds).toHaveLength(2)
+    expect(lastMessage(calls[2].request)).toBe('Explain monads, with an example')
+    expect(generations.map(g => g.modelId)).toEqual(['model-a', 'model-b'])
+    expect(judging.results.map(r => [r.modelId, r.rank])).toEqual([['model-b', 1], ['model-a', 2]])
+  })
+
+  it('hands out each phase runner so its events can be followed', async () => {
+    const { runner } = createRunner(reply)
+    const answered: string[] = []
+    runner.on('competition:start', ({ runner: phase }) => {
+      phase.on('generation:complete', ({ generation }) => answered.push(generation.modelId))
+    })
+
+    await runner.run()
+
+    expect(answered).toEqual(['model-a', 'model-b'])
+  })
+
+  it('stops before judging when no competitor answers', async () => {
+    const { runner, calls } = createRunner(reply, { models: [{ id: 'refiner' }] })
+
+    await expect(runner.run()).rejects.toThrow('No competitor produced an answer')
+    expect(calls).toHaveLength(2)
+  })
+})
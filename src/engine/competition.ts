@@ -0,0 +1,77 @@
+import { CompetitorGeneration } from '@/types'
+import { AdversarialRefinementRunner, type AdversarialRefinementResult } from './adversarial-refinement'
+import {
+  AnonymousJudgingRunner,
+  countJudgments,
+  type AnonymousJudgingResult,
+  type JudgingSettings
+} from './anonymous-judging'
+import { CompetitiveGenerationRunner } from './competitive-generation'
+import { RunEmitter } from './events'
+import { ModelInfo, RunContext } from './types'
+
+export interface CompetitionOptions extends RunContext {
+  question: string
+  refinerModelId: string
+  maxRounds: number
+  competitorModelIds: string[]
+  judging: JudgingSettings
+  /** Model catalog, for names; competitors missing from it are skipped */
+  models?: ModelInfo[]
+}
+
+/**
+ * Each phase's runner is handed out as the phase starts, so listeners can follow its events
+ */
+export interface CompetitionEvents {
+  'refinement:start': { runner: AdversarialRefinementRunner }
+  'competition:start': { runner: CompetitiveGenerationRunner; prompt: string }
+  'judging:start': { runner: AnonymousJudgingRunner; totalJudgments: number }
+}
+
+export interface CompetitionRunResult {
+  refinement: AdversarialRefinementResult
+  generations: CompetitorGeneration[]
+  judging: AnonymousJudgingResult
+}
+
+/**
+ * The last refinement round's response is the prompt the competitors answer
+ */
+export function getRefinedPrompt(refinement: AdversarialRefinementResult): string {
+  return refinement.rounds[refinement.rounds.length - 1].response
+}
+
+/**
+ * All three phases back to back, the way a project runs them in the app
+ */
+export class CompetitionRunner extends RunEmitter<CompetitionEvents> {
+  constructor(private readonly options: CompetitionOptions) {
+    super()
+  }
+
+  async run(): Promise<CompetitionRunResult> {
+    const { question, refinerModelId, maxRounds, competitorModelIds, judging, models, ...context } = this.options
+
+    const refinementRunner = new AdversarialRefinementRunner({ ...context, prompt: question, refinerModelId, maxRounds })
+    this.emit('refinement:start', { runner: refinementRunner })
+    const refinement = await refinementRunner.run()
+
+    const prompt = getRefinedPrompt(refinement)
+    const competitionRunner = new CompetitiveGenerationRunner({ ...context, prompt, competitorModelIds, models })
+    this.emit('competition:start', { runner: competitionRunner, prompt })
+    const generations = await competitionRunner.run()
+    if (generations.length === 0) {
+      throw new Error('No competitor produced an answer')
+    }
+
+    const judgingRunner = new AnonymousJudgingRunner({ ...context, ...judging, generations, models })
+    this.emit('judging:start', {
+      runner: judgingRunner,
+      totalJudgments: countJudgments(generations.map(g => g.modelId), judging),
+    })
+    const judgingResult = await judgingRunner.run()
+
+    return { refinement, generations, judging: judgingResult }
+  }
+}
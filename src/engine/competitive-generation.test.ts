@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { ProviderError, RequestCancelledError } from '@/services/llm-errors'
+import { LLMConfig } from '@/types'
+import { createStubClient } from '@/test/stub-client'
+import { CompetitiveGenerationRunner, type CompetitiveGenerationOptions } from './competitive-generation'
+
+const models = [
+  { id: 'model-a', name: 'Model A' },
+  { id: 'model-b', name: 'Model B' },
+  { id: 'model-c', name: 'Model C' },
+]
+
+function createRunner(
+  respond: Parameters<typeof createStubClient>[0],
+  options: Partial<CompetitiveGenerationOptions> = {}
+) {
+  const { client, calls } = createStubClient(respond)
+  const runner = new CompetitiveGenerationRunner({
+    llm: client,
+    prompt: 'Explain monads',
+    competitorModelIds: ['model-a', 'model-b', 'model-c'],
+    models,
+    ...options,
+  })
+  return { runner, calls }
+}
+
+describe('CompetitiveGenerationRunner', () => {
+  it('has each competitor answer the prompt in turn', async () => {
+    const { runner, calls } = createRunner(request => `An answer from ${request.model}`)
+    const chunks: string[] = []
+    runner.on('generation:chunk', ({ modelId, chunk }) => chunks.push(`${modelId}: ${chunk}`))
+
+    const generations = await runner.run()
+
+    expect(generations.map(g => [g.modelName, g.response, g.tokenCount])).toEqual([
+      ['Model A', 'An answer from model-a', 4],
+      ['Model B', 'An answer from model-b', 4],
+      ['Model C', 'An answer from model-c', 4],
+    ])
+    expect(chunks[0]).toBe('model-a: An answer from model-a')
+    expect(calls[0].request).toMatchObject({ max_tokens: 1500, stream: true })
+    expect(calls[0].request.messages[1]).toEqual({ role: 'user', content: 'Explain monads' })
+  })
+
+  it('skips a competitor that fails and reports why', async () => {
+    const { runner } = createRunner(request =>
+      request.model === 'model-b' ? new ProviderError('Upstream error', { status: 502 }) : 'An answer')
+    const failed: string[] = []
+    runner.on('generation:failed', ({ modelId, error }) => failed.push(`${modelId}: ${(error as Error).message}`))
+
+    const generations = await runner.run()
+
+    expect(generations.map(g => g.modelId)).toEqual(['model-a', 'model-c'])
+    expect(failed).toEqual(['model-b: Upstream error'])
+  })
+
+  it('fails competitors missing from the catalog without calling them', async () => {
+    const { runner, calls } = createRunner(() => 'An answer', { competitorModelIds: ['model-a', 'retired-model'] })
+    const failed: string[] = []
+    runner.on('generation:failed', ({ modelId }) => failed.push(modelId))
+
+    await runner.run()
+
+    expect(failed).toEqual(['retired-model'])
+    expect(calls).toHaveLength(1)
+  })
+
+  it('never falls back to another competitor', async () => {
+    const config = { fallbackChains: { competitor: ['model-b', 'backup'] } } as unknown as LLMConfig
+    const { runner, calls } = createRunner(() => ({ content: 'An answer', answeredBy: 'backup' }), { config })
+
+    const generations = await runner.run()
+
+    expect(calls[0].options?.fallbackModelIds).toEqual(['backup'])
+    expect(generations[0].answeredBy).toBe('backup')
+  })
+
+  it('stops the whole run when cancelled', async () => {
+    const controller = new AbortController()
+    const { runner, calls } = createRunner(() => 'An answer', { signal: controller.signal })
+    runner.on('generation:complete', () => controller.abort())
+
+    await expect(runner.run()).rejects.toBeInstanceOf(RequestCancelledError)
+    expect(calls).toHaveLength(2)
+  })
+
+  it('only asks the competitors an interrupted run had not finished', async () => {
+    const first = await createRunner(request => `An answer from ${request.model}`).runner.run()
+    const { runner, calls } = createRunner(request => `A new answer from ${request.model}`, { completed: [first[1]] })
+    const completed: string[] = []
+    runner.on('generation:complete', ({ generations }) => completed.push(generations.map(g => g.modelId).join(',')))
+
+    const generations = await runner.run()
+
+    expect(calls.map(call => call.request.model)).toEqual(['model-a', 'model-c'])
+    expect(generations.map(g => g.response)).toEqual([
+      'A new answer from model-a',
+      'An answer from model-b',
+      'A new answer from model-c',
+    ])
+    expect(completed).toEqual(['model-a', 'model-a,model-b,model-c'])
+  })
+})
@@ -0,0 +1,104 @@
+import { CompetitorGeneration, UsageRecord } from '@/types'
+import { isCancellationError } from '@/services/llm-errors'
+import { getFallbackModelIds, getFallbackUsed } from '@/utils/fallback-chains'
+import { RunEmitter } from './events'
+import { COMPETITOR_SYSTEM_PROMPT } from './prompts'
+import { ModelInfo, RunContext, getCallOptions } from './types'
+
+export interface CompetitiveGenerationOptions extends RunContext {
+  prompt: string
+  competitorModelIds: string[]
+  /** Model catalog; competitors missing from it fail without a call */
+  models?: ModelInfo[]
+  /** Answers from an interrupted run; those competitors are not asked again */
+  completed?: CompetitorGeneration[]
+}
+
+export interface CompetitiveGenerationEvents {
+  'generation:start': { modelId: string; index: number }
+  'generation:chunk': { modelId: string; chunk: string }
+  'generation:complete': { index: number; generation: CompetitorGeneration; generations: CompetitorGeneration[] }
+  'generation:failed': { modelId: string; index: number; error: unknown }
+}
+
+/**
+ * Phase 2: every competitor answers the refined prompt in turn. A competitor that fails is
+ * reported and skipped; cancelling stops the whole run.
+ */
+export class CompetitiveGenerationRunner extends RunEmitter<CompetitiveGenerationEvents> {
+  constructor(private readonly options: CompetitiveGenerationOptions) {
+    super()
+  }
+
+  async run(): Promise<CompetitorGeneration[]> {
+    const { competitorModelIds, models, completed = [] } = this.options
+    const generations: CompetitorGeneration[] = []
+
+    for (let index = 0; index < competitorModelIds.length; index++) {
+      const modelId = competitorModelIds[index]
+      const done = completed.find(generation => generation.modelId === modelId)
+      if (done) {
+        generations.push(done)
+        continue
+      }
+
+      const model = models ? models.find(m => m.id === modelId) : { id: modelId }
+
+      if (!model) {
+        this.emit('generation:failed', { modelId, index, error: new Error('Model not found') })
+        continue
+      }
+
+      this.emit('generation:start', { modelId, index })
+
+      try {
+        const generation = await this.generate(model)
+        generations.push(generation)
+        this.emit('generation:complete', { index, generation, generations: [...generations] })
+      } catch (error) {
+        if (isCancellationError(error)) throw error
+        this.emit('generation:failed', { modelId, index, error })
+      }
+    }
+
+    return generations
+  }
+
+  private async generate(model: ModelInfo): Promise<CompetitorGeneration> {
+    const { llm, prompt, competitorModelIds } = this.options
+    const usageRecords: UsageRecord[] = []
+    const startTime = Date.now()
+
+    const response = await llm.createChatCompletion({
+      model: model.id,
+      messages: [
+        { role: 'system', content: COMPETITOR_SYSTEM_PROMPT },
+        { role: 'user', content: prompt }
+      ],
+      max_tokens: 1500,
+      temperature: 0.7,
+      stream: true
+    }, chunk => this.emit('generation:chunk', { modelId: model.id, chunk }), {
+      // Other competitors are left out so no model answers twice
+      ...getCallOptions(
+        this.options,
+        getFallbackModelIds(this.options.config, 'competitor', model.id, competitorModelIds)
+      ),
+      onUsage: record => usageRecords.push(record)
+    })
+
+    const answeredBy = getFallbackUsed(model.id, response.answeredBy)
+
+    // Token counts and cost come from the usage the provider reported
+    return {
+      modelId: model.id,
+      modelName: model.name || model.id,
+      response: response.choices[0]?.message?.content || 'No response generated',
+      generationTime: Date.now() - startTime,
+      tokenCount: usageRecords[0]?.completionTokens ?? 0,
+      estimatedCost: usageRecords[0]?.cost ?? 0,
+      timestamp: new Date().toISOString(),
+      ...(answeredBy ? { answeredBy } : {})
+    }
+  }
+}
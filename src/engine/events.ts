@@ -0,0 +1,27 @@
+type Listener<T> = (payload: T) => void
+
+/**
+ * Typed event emitter the runners extend. `Events` maps each event name to its payload.
+ */
+export class RunEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<never>>>()
+
+  /**
+   * Listen for one kind of event; returns an unsubscribe function
+   */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners.get(type)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(type, listeners)
+    }
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  protected emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    this.listeners.get(type)?.forEach(listener => (listener as Listener<Events[K]>)(payload))
+  }
+}
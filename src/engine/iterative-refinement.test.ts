@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest'
+import { AuthError, ProviderError, RequestCancelledError } from '@/services/llm-errors'
+import type { ChatCompletionRequest } from '@/services/llm-provider'
+import { LLMConfig, QualityEvaluation } from '@/types'
+import { createStubClient, lastMessage } from '@/test/stub-client'
+import { IterativeRefinementRunner, isRegression, type IterativeRefinementOptions } from './iterative-refinement'
+import type { AnswerEvaluator } from './types'
+
+const models = [{ id: 'model-a', name: 'Model A' }, { id: 'model-b', name: 'Model B' }]
+
+// Rewrites the current answer as the next version, in the FFA reply format
+function refineReply(request: ChatCompletionRequest): string {
+  const version = Number(lastMessage(request).match(/answer v(\d+)/)?.[1] ?? -1)
+  return `IMPROVEMENTS NEEDED:\n• Be more specific\n\nENHANCED ANSWER:\nanswer v${version + 1}`
+}
+
+// Hands out the given scores in order; a null entry fails that evaluation
+function createGrader(scores: (number | null)[]): AnswerEvaluator {
+  let call = 0
+  return {
+    async evaluate(request): Promise<QualityEvaluation> {
+      const score = scores[call++]
+      if (score === null) throw new ProviderError('Grader unavailable', { status: 500 })
+      return { score, criteriaScores: {}, rationale: '', graderModelId: request.graderModelId, evaluatedAt: '' }
+    },
+  }
+}
+
+function createRunner(
+  respond: Parameters<typeof createStubClient>[0],
+  options: Partial<IterativeRefinementOptions> = {}
+) {
+  const { client, calls } = createStubClient(respond)
+  const runner = new IterativeRefinementRunner({
+    llm: client,
+    question: 'What is a monad?',
+    style: 'ffa',
+    models,
+    rounds: 3,
+    ...options,
+  })
+  return { runner, calls }
+}
+
+const answerThenRefine = (request: ChatCompletionRequest) =>
+  lastMessage(request).includes('Current Answer') ? refineReply(request) : 'answer v0'
+
+describe('IterativeRefinementRunner', () => {
+  it('answers with the given model, then rotates the refiners', async () => {
+    const { runner, calls } = createRunner(answerThenRefine)
+    const completed: string[] = []
+    runner.on('round:complete', ({ round, content }) => completed.push(`${round.modelId}: ${content}`))
+
+    const state = await runner.run(models[0])
+
+    expect(calls.map(call => call.request.model)).toEqual(['model-a', 'model-b', 'model-a', 'model-b'])
+    expect(completed).toEqual(['model-a: answer v0', 'model-b: answer v1', 'model-a: answer v2', 'model-b: answer v3'])
+    expect(state).toEqual({ answer: 'answer v3', roundNumber: 3, score: undefined })
+  })
+
+  it('splits the critique from the answer, and takes an unformatted reply whole', async () => {
+    const { runner } = createRunner(request =>
+      lastMessage(request).includes('Current Answer') ? 'Just a better answer' : 'answer v0',
+    { rounds: 1, style: 'lazy' })
+    const completed: { content: string; critique?: string }[] = []
+    runner.on('round:complete', ({ content, critique }) => completed.push({ content, critique }))
+
+    await runner.run(models[0])
+
+    expect(completed[1]).toEqual({ content: 'Just a better answer', critique: '' })
+  })
+
+  it('sends the Lazy Mode prompt and parses its reply', async () => {
+    const { runner, calls } = createRunner(request =>
+      lastMessage(request).includes('Current Answer')
+        ? 'CRITIQUE: Too short\n\nIMPROVED ANSWER: A longer answer'
+        : 'answer v0',
+    { rounds: 1, style: 'lazy' })
+    const critiques: (string | undefined)[] = []
+    runner.on('round:complete', ({ critique }) => critiques.push(critique))
+
+    const state = await runner.run(models[0])
+
+    expect(lastMessage(calls[1].request)).toContain('IMPROVED ANSWER: [Your improved answer here]')
+    expect(critiques).toEqual([undefined, 'Too short'])
+    expect(state.answer).toBe('A longer answer')
+  })
+
+  it('grades every round and flags the ones that scored below the answer they refined', async () => {
+    const { runner } = createRunner(answerThenRefine, { grader: { modelId: 'grader', evaluator: createGrader([80, 70, 72, 90]) } })
+    const regressed: boolean[] = []
+    runner.on('round:evaluated', event => regressed.push(event.regressed))
+
+    const state = await runner.run(models[0])
+
+    expect(regressed).toEqual([false, true, false, false])
+    expect(state.score).toBe(90)
+  })
+
+  it('keeps the previous score when grading a round fails', async () => {
+    const { runner } = createRunner(answerThenRefine, {
+      rounds: 2,
+      grader: { modelId: 'grader', evaluator: createGrader([80, null, 70]) },
+    })
+    const evaluated: { score?: number; regressed: boolean; failed: boolean }[] = []
+    runner.on('round:evaluated', ({ evaluation, regressed, error }) =>
+      evaluated.push({ score: evaluation?.score, regressed, failed: error !== undefined }))
+
+    await runner.run(models[0])
+
+    // Round 2 is compared with round 0's score, since round 1 was never graded
+    expect(evaluated).toEqual([
+      { score: 80, regressed: false, failed: false },
+      { score: undefined, regressed: false, failed: true },
+      { score: 70, regressed: true, failed: false },
+    ])
+  })
+
+  it('passes the fallback chain for each role', async () => {
+    const config = {
+      fallbackChains: { competitor: ['backup-c'], refiner: ['backup-r', 'model-b'], judge: ['backup-j'] },
+    } as unknown as LLMConfig
+    const { runner, calls } = createRunner(answerThenRefine, { config, rounds: 1 })
+
+    await runner.run(models[0])
+
+    expect(calls[0].options?.fallbackModelIds).toEqual(['backup-c'])
+    // The refining model is never its own fallback
+    expect(calls[1].options?.fallbackModelIds).toEqual(['backup-r'])
+  })
+
+  it('names the fallback that wrote a round', async () => {
+    const { runner } = createRunner(() => ({ content: 'answer v0', answeredBy: 'backup-c' }), { rounds: 0 })
+    let answeredBy: string | undefined
+    runner.on('round:complete', event => { answeredBy = event.answeredBy })
+
+    await runner.run(models[0])
+
+    expect(answeredBy).toBe('backup-c')
+  })
+
+  it('streams chunks only when asked to', async () => {
+    const chunks: string[] = []
+    const streaming = createRunner(answerThenRefine, { rounds: 0, stream: true })
+    streaming.runner.on('round:chunk', ({ chunk }) => chunks.push(chunk))
+    await streaming.runner.run(models[0])
+
+    const quiet = createRunner(answerThenRefine, { rounds: 0 })
+    quiet.runner.on('round:chunk', ({ chunk }) => chunks.push(chunk))
+    await quiet.runner.run(models[0])
+
+    expect(chunks).toEqual(['answer v0'])
+    expect(quiet.calls[0].request.stream).toBeUndefined()
+  })
+
+  it('with continueAfterFailure, lets the next model refine the last good answer', async () => {
+    const { runner, calls } = createRunner(request =>
+      request.model === 'model-b' ? new ProviderError('Upstream error', { status: 502 }) : answerThenRefine(request),
+    { rounds: 2, continueAfterFailure: true })
+    const failed: number[] = []
+    runner.on('round:failed', ({ round }) => failed.push(round.roundNumber))
+
+    const state = await runner.run(models[0])
+
+    expect(failed).toEqual([1])
+    expect(lastMessage(calls[2].request)).toContain('answer v0')
+    expect(state).toMatchObject({ answer: 'answer v1', roundNumber: 2 })
+  })
+
+  it('ends the run on errors every model would hit, even with continueAfterFailure', async () => {
+    const { runner } = createRunner(request =>
+      request.model === 'model-b' ? new AuthError() : answerThenRefine(request),
+    { continueAfterFailure: true })
+
+    await expect(runner.run(models[0])).rejects.toBeInstanceOf(AuthError)
+  })
+
+  it('without continueAfterFailure, ends the run at the first failed round', async () => {
+    const { runner, calls } = createRunner(request =>
+      request.model === 'model-b' ? new ProviderError('Upstream error', { status: 502 }) : answerThenRefine(request))
+    const failed: number[] = []
+    runner.on('round:failed', ({ round }) => failed.push(round.roundNumber))
+
+    await expect(runner.run(models[0])).rejects.toBeInstanceOf(ProviderError)
+    expect(failed).toEqual([])
+    expect(calls).toHaveLength(2)
+  })
+
+  it('stops before the next round once cancelled', async () => {
+    const controller = new AbortController()
+    const { runner, calls } = createRunner(answerThenRefine, { signal: controller.signal })
+    runner.on('round:complete', () => controller.abort())
+
+    await expect(runner.run(models[0])).rejects.toBeInstanceOf(RequestCancelledError)
+    expect(calls).toHaveLength(1)
+  })
+
+  it('continues a finished run from its last round', async () => {
+    const { runner, calls } = createRunner(refineReply)
+    const started: number[] = []
+    runner.on('round:start', ({ round }) => started.push(round.roundNumber))
+
+    const state = await runner.refine({ answer: 'answer v4', roundNumber: 2, score: 60 })
+
+    expect(started).toEqual([3])
+    expect(calls[0].request.model).toBe('model-b')
+    expect(state).toEqual({ answer: 'answer v5', roundNumber: 3, score: 60 })
+  })
+})
+
+describe('isRegression', () => {
+  it('needs a drop of more than the threshold', () => {
+    expect(isRegression(80, 77)).toBe(false)
+    expect(isRegression(80, 76)).toBe(true)
+  })
+
+  it('is false when either round is ungraded', () => {
+    expect(isRegression(undefined, 10)).toBe(false)
+    expect(isRegression(80, undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,233 @@
+import type { MessageContent } from '@/services/llm-provider'
+import { RequestCancelledError, canFallBack, isCancellationError } from '@/services/llm-errors'
+import { QualityEvaluation } from '@/types'
+import { getFallbackModelIds, getFallbackUsed } from '@/utils/fallback-chains'
+import { RunEmitter } from './events'
+import {
+  type IterativeRefinementStyle,
+  createIterativeRefinementPrompt,
+  parseIterativeRefinementReply
+} from './prompts'
+import { AnswerEvaluator, ModelInfo, RunContext, getCallOptions } from './types'
+
+/**
+ * A refinement counts as a regression when it scores this many points below the answer it refined
+ */
+export const REGRESSION_THRESHOLD = 3
+
+/**
+ * True when a score dropped meaningfully below the score of the answer it refined
+ */
+export function isRegression(previousScore: number | undefined, score: number | undefined): boolean {
+  if (previousScore === undefined || score === undefined) return false
+  return score < previousScore - REGRESSION_THRESHOLD
+}
+
+export interface IterativeRefinementOptions extends RunContext {
+  question: string
+  style: IterativeRefinementStyle
+  /** Refinement round n is written by models[n % models.length] */
+  models: ModelInfo[]
+  /** Refinement rounds after the first answer */
+  rounds: number
+  temperature?: number
+  /** Emit round:chunk events as tokens arrive */
+  stream?: boolean
+  /**
+   * Mark a round that failed after its retries and fallbacks as failed and let the next model
+   * refine the last good answer, instead of ending the run. Errors the next model would hit
+   * too still end it.
+   */
+  continueAfterFailure?: boolean
+  /** Grades every round; rounds stay ungraded without it */
+  grader?: { modelId: string; evaluator: AnswerEvaluator }
+}
+
+/**
+ * A round as it starts. If a fallback writes it, round:complete says so in answeredBy.
+ */
+export interface IterationRound {
+  id: string
+  roundNumber: number // 0 is the first answer
+  modelId: string
+  modelName: string
+}
+
+export interface IterativeRefinementEvents {
+  'round:start': { round: IterationRound }
+  'round:chunk': { round: IterationRound; chunk: string }
+  'round:complete': {
+    round: IterationRound
+    content: string
+    critique?: string
+    answeredBy?: string // Fallback model that wrote the round
+    duration: number
+  }
+  /** Only with continueAfterFailure; otherwise the error ends the run */
+  'round:failed': { round: IterationRound; error: unknown }
+  'round:evaluating': { round: IterationRound }
+  /** Without an evaluation when grading failed; the round then keeps the previous score */
+  'round:evaluated': { round: IterationRound; evaluation?: QualityEvaluation; regressed: boolean; error?: unknown }
+}
+
+/**
+ * Where a run stands after a round: the answer the next round refines and its score
+ */
+export interface IterationState {
+  answer: string
+  roundNumber: number
+  score?: number
+}
+
+/**
+ * FFA and Lazy Mode: one model answers, then the models take turns critiquing and rewriting
+ * the latest answer, with a grader scoring every round
+ */
+export class IterativeRefinementRunner extends RunEmitter<IterativeRefinementEvents> {
+  constructor(private readonly options: IterativeRefinementOptions) {
+    super()
+  }
+
+  /**
+   * First answer followed by every refinement round
+   */
+  async run(model: ModelInfo, content?: MessageContent): Promise<IterationState> {
+    return this.refine(await this.answer(model, content))
+  }
+
+  /**
+   * Round 0: answer the question, with any attached files in `content`
+   */
+  async answer(model: ModelInfo, content: MessageContent = this.options.question): Promise<IterationState> {
+    const round = this.startRound(0, model)
+    const startTime = Date.now()
+
+    const response = await this.options.llm.createChatCompletion({
+      model: model.id,
+      messages: [{ role: 'user', content }],
+      temperature: this.options.temperature ?? 0.7,
+      ...(this.options.stream ? { stream: true } : {})
+    }, this.getStreamHandler(round), getCallOptions(
+      this.options,
+      getFallbackModelIds(this.options.config, 'competitor', model.id)
+    ))
+
+    const answer = response.choices[0].message.content
+    this.emit('round:complete', {
+      round,
+      content: answer,
+      answeredBy: getFallbackUsed(model.id, response.answeredBy),
+      duration: Date.now() - startTime
+    })
+
+    const score = await this.evaluate(round, answer, undefined)
+    return { answer, roundNumber: 0, score }
+  }
+
+  /**
+   * Refinement rounds after `from`, up to the configured number of rounds
+   */
+  async refine(from: IterationState): Promise<IterationState> {
+    let state = from
+
+    for (let roundNumber = from.roundNumber + 1; roundNumber <= this.options.rounds; roundNumber++) {
+      const model = this.options.models[roundNumber % this.options.models.length]
+      const round = this.startRound(roundNumber, model)
+
+      try {
+        state = await this.refineRound(round, state)
+      } catch (error) {
+        if (isCancellationError(error) || !this.options.continueAfterFailure || !canFallBack(error)) {
+          throw error
+        }
+
+        // Retries and the fallback chain are used up, so the next model refines the last good answer
+        this.emit('round:failed', { round, error })
+        state = { ...state, roundNumber }
+      }
+    }
+
+    return state
+  }
+
+  private async refineRound(round: IterationRound, previous: IterationState): Promise<IterationState> {
+    const { style, question } = this.options
+    const startTime = Date.now()
+
+    const response = await this.options.llm.createChatCompletion({
+      model: round.modelId,
+      messages: [{ role: 'user', content: createIterativeRefinementPrompt(style, question, previous.answer) }],
+      temperature: this.options.temperature ?? 0.7,
+      ...(this.options.stream ? { stream: true } : {})
+    }, this.getStreamHandler(round), getCallOptions(
+      this.options,
+      getFallbackModelIds(this.options.config, 'refiner', round.modelId)
+    ))
+
+    const { critique, answer } = parseIterativeRefinementReply(style, response.choices[0].message.content)
+    this.emit('round:complete', {
+      round,
+      content: answer,
+      critique,
+      answeredBy: getFallbackUsed(round.modelId, response.answeredBy),
+      duration: Date.now() - startTime
+    })
+
+    const score = await this.evaluate(round, answer, previous.score)
+    return { answer, roundNumber: round.roundNumber, score }
+  }
+
+  private startRound(roundNumber: number, model: ModelInfo): IterationRound {
+    if (this.options.signal?.aborted) {
+      throw new RequestCancelledError()
+    }
+
+    const round: IterationRound = {
+      id: `${Date.now()}-${roundNumber}`,
+      roundNumber,
+      modelId: model.id,
+      modelName: model.name || model.id
+    }
+    this.emit('round:start', { round })
+    return round
+  }
+
+  private getStreamHandler(round: IterationRound) {
+    return this.options.stream
+      ? (chunk: string) => this.emit('round:chunk', { round, chunk })
+      : undefined
+  }
+
+  // Grade a finished round and flag it when it scored below the answer it refined
+  private async evaluate(
+    round: IterationRound,
+    answer: string,
+    previousScore: number | undefined
+  ): Promise<number | undefined> {
+    const { grader } = this.options
+    if (!grader) return previousScore
+
+    this.emit('round:evaluating', { round })
+
+    try {
+      const evaluation = await grader.evaluator.evaluate({
+        question: this.options.question,
+        answer,
+        graderModelId: grader.modelId,
+      }, getCallOptions(this.options, getFallbackModelIds(this.options.config, 'judge', grader.modelId)))
+
+      this.emit('round:evaluated', {
+        round,
+        evaluation,
+        regressed: isRegression(previousScore, evaluation.score)
+      })
+      return evaluation.score
+    } catch (error) {
+      if (isCancellationError(error)) throw error
+
+      // An ungraded round still counts; it just can't compete for best answer
+      this.emit('round:evaluated', { round, regressed: false, error })
+      return previousScore
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { GradingCriterion } from '@/types'
+
+/**
+ * Every prompt the competition engine sends, and the parsers for the free-text replies.
+ * JSON judge replies are validated in utils/judge-output.
+ */
+
+// Phase 1: adversarial refinement
+
+export const CRITIC_SYSTEM_PROMPT = 'You are a critical reviewer providing constructive feedback.'
+
+export function createCritiquePrompt(response: string): string {
+  return `You are a critical reviewer. Analyze this response and provide specific, actionable feedback for improvement:
+
+Response to critique:
+"""
+${response}
+"""
+
+Provide a detailed critique focusing on:
+1. Accuracy and factual correctness
+2. Completeness and coverage
+3. Clarity and structure
+4. Relevance to the original request
+
+Be specific and constructive. Format your critique as clear, numbered points.`
+}
+
+export const REFINER_SYSTEM_PROMPT = 'You are an expert assistant refining responses based on feedback.'
+
+export function createRefinementPrompt(originalRequest: string, previousResponse: string, critique: string): string {
+  return `You are refining a response based on critical feedback. Here's the context:
+
+Original request:
+"""
+${originalRequest}
+"""
+
+Previous response:
+"""
+${previousResponse}
+"""
+
+Critique and feedback:
+"""
+${critique}
+"""
+
+Please provide an improved version of the response that addresses all the feedback points while maintaining accuracy and completeness. Make specific improvements based on the critique.`
+}
+
+// Phase 2: competitive generation
+
+export const COMPETITOR_SYSTEM_PROMPT = 'You are a helpful AI assistant. Provide comprehensive, accurate, and well-structured responses.'
+
+// Phase 3: anonymous judging
+
+export const ABSOLUTE_JUDGE_SYSTEM_PROMPT = `You are an impartial judge evaluating AI-generated responses.
+          You must provide scores and feedback in valid JSON format.
+          Be objective, fair, and consistent in your evaluations.`
+
+export const PAIRWISE_JUDGE_SYSTEM_PROMPT = `You are an impartial judge comparing two AI-generated responses.
+          You must reply in valid JSON format.
+          Judge only the content; ignore the order and length of the answers.`
+
+const formatCriteria = (criteria: GradingCriterion[]) => criteria
+  .map(c => `- ${c.name} (${c.weight}%): ${c.description || 'No description provided'}`)
+  .join('\n')
+
+export function createJudgingPrompt(response: string, criteria: GradingCriterion[]): string {
+  const scoreFields = criteria
+    .map(c => `    "${c.id}": [score 0-100 for ${c.name}]`)
+    .join(',\n')
+
+  return `Please evaluate the following AI-generated response based on the specified criteria and weights.
+
+Response to evaluate:
+"""
+${response}
+"""
+
+Evaluation Criteria and Weights:
+${formatCriteria(criteria)}
+
+Please provide your evaluation in the following JSON format:
+{
+  "scores": {
+${scoreFields}
+  },
+  "feedback": "[Detailed feedback explaining the scores and key strengths/weaknesses]"
+}
+
+Be objective and consistent in your scoring. Consider the weights when determining the overall quality.`
+}
+
+export function createPairwisePrompt(answerA: string, answerB: string, criteria: GradingCriterion[]): string {
+  return `Compare the two AI-generated responses below, which answer the same request, and decide which one is better overall.
+
+Weigh these criteria:
+${formatCriteria(criteria)}
+
+Answer A:
+"""
+${answerA}
+"""
+
+Answer B:
+"""
+${answerB}
+"""
+
+Please provide your verdict in the following JSON format:
+{
+  "winner": "A" | "B" | "tie",
+  "reasoning": "[Brief explanation of the deciding differences]"
+}
+
+Only answer "tie" when neither response is meaningfully better.`
+}
+
+// FFA (AI Studio) and Lazy Mode
+
+export function createEnhancementPrompt(question: string): string {
+  return `You are a prompt engineering expert. Enhance this question to be clearer, more specific, and likely to generate better responses from AI models.
+
+Original Question: "${question}"
+
+Provide ONLY the enhanced version of the question, without explanations or prefixes. Make it:
+- More specific and clear
+- Include relevant context if needed
+- Well-structured
+- Optimized for getting comprehensive answers`
+}
+
+/**
+ * FFA asks for a few concrete improvements before the rewrite; Lazy Mode for a short critique
+ */
+export type IterativeRefinementStyle = 'ffa' | 'lazy'
+
+export function createIterativeRefinementPrompt(
+  style: IterativeRefinementStyle,
+  question: string,
+  currentAnswer: string
+): string {
+  if (style === 'lazy') {
+    return `You are reviewing an answer to the following question:
+
+Question: "${question}"
+
+Current Answer:
+${currentAnswer}
+
+Please provide:
+1. A brief critique identifying what could be improved
+2. An improved version of the answer that addresses those improvements
+
+Format your response as:
+CRITIQUE: [Your critique here]
+
+IMPROVED ANSWER: [Your improved answer here]`
+  }
+
+  return `You are an expert reviewer helping to iteratively improve an answer.
+
+Original Question: "${question}"
+
+Current Answer:
+${currentAnswer}
+
+Your task:
+1. Identify 2-3 specific areas where this answer could be improved
+2. Provide an enhanced version that addresses those improvements
+
+Format your response as:
+IMPROVEMENTS NEEDED:
+• [First improvement point]
+• [Second improvement point]
+• [Third improvement point if applicable]
+
+ENHANCED ANSWER:
+[Your comprehensive improved answer here]`
+}
+
+const REPLY_SECTIONS: Record<IterativeRefinementStyle, { critique: RegExp; answer: RegExp }> = {
+  ffa: {
+    critique: /IMPROVEMENTS NEEDED:(.*?)(?=ENHANCED ANSWER:|$)/s,
+    answer: /ENHANCED ANSWER:(.*)/s,
+  },
+  lazy: {
+    critique: /CRITIQUE:(.*?)(?=IMPROVED ANSWER:|$)/s,
+    answer: /IMPROVED ANSWER:(.*)/s,
+  },
+}
+
+/**
+ * Split a refinement reply into its critique and improved answer. A reply that ignored the
+ * format is taken as the answer in full.
+ */
+export function parseIterativeRefinementReply(
+  style: IterativeRefinementStyle,
+  reply: string
+): { critique: string; answer: string } {
+  const sections = REPLY_SECTIONS[style]
+  const critiqueMatch = reply.match(sections.critique)
+  const answerMatch = reply.match(sections.answer)
+
+  return {
+    critique: critiqueMatch ? critiqueMatch[1].trim() : '',
+    answer: answerMatch ? answerMatch[1].trim() : reply,
+  }
+}
@@ -0,0 +1,57 @@
+import type { ChatCompletionOptions } from '@/services/llm'
+import type { ChatCompletionRequest, ChatCompletionResponse } from '@/services/llm-provider'
+import type { EvaluateAnswerRequest } from '@/services/evaluator'
+import { LLMConfig, QualityEvaluation } from '@/types'
+
+/**
+ * The part of llmService the runners call. The app passes llmService itself; the CLI and
+ * tests can pass any client with the same contract.
+ */
+export interface ChatCompletionClient {
+  createChatCompletion(
+    request: ChatCompletionRequest,
+    onStream?: (chunk: string) => void,
+    options?: ChatCompletionOptions
+  ): Promise<ChatCompletionResponse>
+}
+
+/**
+ * Grades an answer; evaluatorService in the app
+ */
+export interface AnswerEvaluator {
+  evaluate(request: EvaluateAnswerRequest, options?: ChatCompletionOptions): Promise<QualityEvaluation>
+}
+
+/**
+ * What every runner needs to make its calls
+ */
+export interface RunContext {
+  llm: ChatCompletionClient
+  /** Supplies the fallback chain for each model role */
+  config?: Pick<LLMConfig, 'fallbackChains'> | null
+  /** Aborting it stops the run with a RequestCancelledError */
+  signal?: AbortSignal
+  /** Groups the run's calls under one spending cap; see costLedger.startRun */
+  runId?: string
+  /** Tags the run's usage in the cost ledger, e.g. with the project id */
+  usageScope?: string
+}
+
+export interface ModelInfo {
+  id: string
+  name?: string
+}
+
+export function getModelName(models: ModelInfo[] | undefined, modelId: string): string {
+  return models?.find(model => model.id === modelId)?.name || modelId
+}
+
+// Options shared by every call a runner makes
+export function getCallOptions(context: RunContext, fallbackModelIds: string[]): ChatCompletionOptions {
+  return {
+    signal: context.signal,
+    runId: context.runId,
+    fallbackModelIds,
+    ...(context.usageScope ? { usageScope: context.usageScope } : {})
+  }
+}
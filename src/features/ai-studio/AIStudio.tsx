@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Textarea } from '@/components/ui/textarea'
@@ -26,6 +26,7 @@ import {
   Rocket,
   Star,
   TrendingUp,
+  TrendingDown,
   MessageSquare,
   Activity,
   Award,
@@ -48,36 +49,70 @@ import {
   PlayCircle,
   X,
   ChevronUp,
-  Sliders
+  Sliders,
+  RefreshCw
 } from 'lucide-react'
-import { useLLMConfigStore } from '@/store/llm-config-hybrid'
-import { openRouterService, createMessageWithFiles } from '@/services/openrouter'
+import { hasProviderConfig, useLLMConfigStore } from '@/store/llm-config-hybrid'
+import { createMessageWithFiles } from '@/services/openrouter'
+import { llmService } from '@/services/llm'
+import { getErrorTitle, isCancellationError } from '@/services/llm-errors'
+import { evaluatorService, pickBestRound, resolveGraderModelId } from '@/services/evaluator'
 import { toast } from '@/hooks/use-toast'
 import { cn } from '@/utils/cn'
-import { useNavigate, Link } from 'react-router-dom'
+import { useNavigate, useLocation, Link } from 'react-router-dom'
 import { FileUpload } from '@/components/FileUpload'
 import { uploadFiles, type UploadedFile, deleteFile } from '@/services/file-upload'
+import { sessionsService } from '@/services/sessions'
 import { useAuthStore } from '@/store/auth'
 import { ResponseRating } from '@/components/ResponseRating'
+import { ExportResultsButton } from '@/components/ExportResultsButton'
+import { ImportResultsButton } from '@/components/ImportResultsButton'
 import { recordBatchJudgments } from '@/services/preference-tracking'
-
-interface RefinementRound {
+import { OpenRouterModel, SavedSession, SessionStatus, StudioFile, StudioRound, StudioSession, UsageTotals } from '@/types'
+import { addUsage, costLedger } from '@/services/cost-ledger'
+import { formatCostRange, planRefinementRun } from '@/utils/cost-estimate'
+import { getFallbackUsed } from '@/utils/fallback-chains'
+import { getProvider } from '@/utils/judging-bias'
+import { buildSessionReport } from '@/utils/competition-report'
+import { isRunAlive, RUN_HEARTBEAT_MS } from '@/utils/run-lease'
+import { exportSession, sessionCsv } from '@/utils/results-export'
+import type { ImportedResults } from '@/utils/results-import'
+import { IterativeRefinementRunner } from '@/engine/iterative-refinement'
+import { createEnhancementPrompt } from '@/engine/prompts'
+import { SessionHistory } from './SessionHistory'
+import { RerunButton } from './RerunButton'
+
+// A round as shown while the studio runs
+interface RefinementRound extends StudioRound {
   id: string
-  modelId: string
-  modelName: string
-  content: string
-  critique?: string
   timestamp: Date
   isRefining: boolean
-  quality?: number // Quality score 0-100
+  isEvaluating?: boolean
   provider?: string
-  duration?: number // Time taken in ms
-  userRating?: number // User's 1-5 star rating
-  isWinner?: boolean // Marked as best response
 }
 
+// The round as saved or exported, without the live UI state
+function toStudioRound({ id: _id, isRefining: _isRefining, isEvaluating: _isEvaluating, provider: _provider, ...round }: RefinementRound): StudioRound {
+  return round
+}
+
+const toStudioFile = ({ name, type, size, url, storageRef }: UploadedFile): StudioFile => ({ name, type, size, url, storageRef })
+
+// The session the studio shows, and how its run stands
+type ActiveSession = Pick<SavedSession, 'id' | 'createdAt' | 'status' | 'lastRound' | 'heartbeatAt'>
+
+// A run that stopped before its last round, and the rounds it still has to go
+const getRemainingRounds = (session: Pick<SavedSession, 'status' | 'lastRound'> | null, roundCount: number) =>
+  session?.status && session.status !== 'completed' && session.lastRound !== undefined
+    ? Math.max(session.lastRound - (roundCount - 1), 0)
+    : 0
+
+const sameRounds = (a: RefinementRound[], b: RefinementRound[]) =>
+  a.length === b.length && a.every((round, index) => round === b[index])
+
 export default function AIStudio() {
   const navigate = useNavigate()
+  const location = useLocation()
   const { config, models, loadConfig } = useLLMConfigStore()
   const { user } = useAuthStore()
   const [question, setQuestion] = useState('')
@@ -85,16 +120,30 @@ export default function AIStudio() {
   const [isEnhancing, setIsEnhancing] = useState(false)
   const [promptEnhanced, setPromptEnhanced] = useState(false)
   const [rounds, setRounds] = useState<RefinementRound[]>([])
+  const [usage, setUsage] = useState<UsageTotals>()
   const [isRunning, setIsRunning] = useState(false)
   const [copiedId, setCopiedId] = useState<string | null>(null)
   const [overallProgress, setOverallProgress] = useState(0)
   const [showFullContent, setShowFullContent] = useState<Record<string, boolean>>({})
   const [showAdvancedSettings, setShowAdvancedSettings] = useState(false)
   const [abortController, setAbortController] = useState<AbortController | null>(null)
-  const [failedModels, setFailedModels] = useState<Set<string>>(new Set())
+  const abortControllerRef = useRef<AbortController | null>(null)
+  abortControllerRef.current = abortController
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
   const [isUploadingFiles, setIsUploadingFiles] = useState(false)
 
+  // History: the open session is saved after every finished round, grade, rating and winner
+  // pick, which doubles as the checkpoint an interrupted run resumes from
+  const [activeSession, setActiveSession] = useState<ActiveSession | null>(null)
+  const [runModelIds, setRunModelIds] = useState<string[]>([])
+  const [sessions, setSessions] = useState<SavedSession[]>([])
+  const [sessionsLoading, setSessionsLoading] = useState(true)
+  const [showHistory, setShowHistory] = useState(false)
+  const [interruptedSession, setInterruptedSession] = useState<SavedSession | null>(null)
+  const [resumeRequested, setResumeRequested] = useState(false)
+  const savedRef = useRef<{ session: ActiveSession; rounds: RefinementRound[] } | null>(null)
+  const latestSavedRef = useRef<SavedSession | null>(null)
+
   // Settings state - simplified
   const [autoRounds, setAutoRounds] = useState(3)
   const [temperature, setTemperature] = useState(0.7)
@@ -105,6 +154,82 @@ export default function AIStudio() {
     loadConfig()
   }, [loadConfig])
 
+  useEffect(() => {
+    setSessionsLoading(true)
+    sessionsService.getSessions()
+      .then(loaded => {
+        // A run whose heartbeat lapsed lost its tab; one still beating is going on elsewhere
+        const interrupted = loaded.filter(session => session.status === 'in_progress' && !isRunAlive(session.heartbeatAt))
+        const paused = interrupted.map(session => ({ ...session, status: 'paused' as const }))
+        paused.forEach(session => {
+          sessionsService.saveSession(session).catch(error => console.error('Failed to mark the session paused:', error))
+        })
+
+        setSessions(loaded.map(session => paused.find(p => p.id === session.id) || session))
+        setInterruptedSession(paused.find(session => getRemainingRounds(session, session.rounds.length) > 0) || null)
+      })
+      .catch(error => console.error('Failed to load session history:', error))
+      .finally(() => setSessionsLoading(false))
+  }, [user?.id])
+
+  // Rounds still streaming are left out until they finish
+  useEffect(() => {
+    const finished = rounds.filter(r => !r.isRefining)
+    if (!activeSession || finished.length === 0) return
+    const last = savedRef.current
+    if (last && last.session === activeSession && sameRounds(last.rounds, finished)) return
+
+    savedRef.current = { session: activeSession, rounds: finished }
+    const saved: SavedSession = { ...getSession(finished), ...activeSession, updatedAt: new Date() }
+    latestSavedRef.current = saved
+    setSessions(prev => [saved, ...prev.filter(s => s.id !== saved.id)])
+    sessionsService.saveSession(saved).catch(error => {
+      console.error('Failed to save session:', error)
+      toast({
+        title: 'Session Not Saved',
+        description: error.message || 'Failed to save the session to your history',
+        variant: 'destructive',
+      })
+    })
+  }, [rounds, activeSession])
+
+  // Keep the heartbeat going while a run is in progress here; each beat saves the session
+  useEffect(() => {
+    if (!isRunning) return
+    const timer = setInterval(() => {
+      setActiveSession(prev => prev && { ...prev, heartbeatAt: Date.now() })
+    }, RUN_HEARTBEAT_MS)
+    return () => clearInterval(timer)
+  }, [isRunning])
+
+  // A run must not outlive the page, or reopening it would offer to resume a run still going.
+  // Stop it and save it as paused, since the save effect no longer runs once unmounted.
+  useEffect(() => () => {
+    if (!abortControllerRef.current) return
+    abortControllerRef.current.abort()
+    const saved = latestSavedRef.current
+    if (saved?.status === 'in_progress') {
+      sessionsService.saveSession({ ...saved, status: 'paused', updatedAt: new Date() })
+        .catch(error => console.error('Failed to mark the session paused:', error))
+    }
+  }, [])
+
+  // Resuming opens the session first, so the run starts once its question and settings are in
+  useEffect(() => {
+    if (!resumeRequested) return
+    setResumeRequested(false)
+    resumeRun()
+  }, [resumeRequested])
+
+  // A session imported from the projects page arrives in the navigation state
+  useEffect(() => {
+    const session = (location.state as { session?: StudioSession } | null)?.session
+    if (session) {
+      openSession(session)
+      navigate(location.pathname, { replace: true, state: null })
+    }
+  }, [location.state])
+
   // Get only enabled models from config
   const availableModels = useMemo(() => {
     if (!config?.enabledModelIds || config.enabledModelIds.length === 0) {
@@ -113,6 +238,20 @@ export default function AIStudio() {
     return models.filter(model => config.enabledModelIds.includes(model.id))
   }, [models, config])
 
+  const graderModelId = resolveGraderModelId(config)
+
+  const remainingRounds = getRemainingRounds(activeSession, rounds.length)
+
+  // An opened session can still be running in another tab; continuing it here would run it twice
+  const runningElsewhere = !isRunning && activeSession?.status === 'in_progress' && isRunAlive(activeSession.heartbeatAt)
+
+  const costEstimate = costLedger.estimate(planRefinementRun({
+    question: promptEnhanced ? enhancedPrompt : question,
+    modelIds: availableModels.map(model => model.id),
+    rounds: autoRounds,
+    graderModelId,
+  }))
+
   const enhancePrompt = async () => {
     if (!question.trim()) return
 
@@ -120,33 +259,17 @@ export default function AIStudio() {
     const startTime = Date.now()
 
     try {
-      const enhancementPrompt = `You are a prompt engineering expert. Enhance this question to be clearer, more specific, and likely to generate better responses from AI models.
-
-Original Question: "${question}"
-
-Provide ONLY the enhanced version of the question, without explanations or prefixes. Make it:
-- More specific and clear
-- Include relevant context if needed
-- Well-structured
-- Optimized for getting comprehensive answers`
-
       // Use a good general model for prompt enhancement
       const enhanceModel = availableModels.find(m =>
         m.id.includes('claude') || m.id.includes('gpt-4')
       )?.id || availableModels[0]?.id || 'openrouter/auto'
 
-      const response = await openRouterService.createChatCompletion({
+      const response = await llmService.createChatCompletion({
         model: enhanceModel,
-        messages: [{ role: 'user', content: enhancementPrompt }],
+        messages: [{ role: 'user', content: createEnhancementPrompt(question) }],
         temperature: 0.7,
       })
 
-      // Validate response structure
-      if (!response.choices || response.choices.length === 0 || !response.choices[0].message?.content) {
-        const errorInfo = (response as any).error?.message || (response as any).error || 'Missing choices or content'
-        throw new Error(`Invalid API response: ${errorInfo}`)
-      }
-
       const enhanced = response.choices[0].message.content.trim()
       setEnhancedPrompt(enhanced)
       setPromptEnhanced(true)
@@ -252,6 +375,12 @@ Provide ONLY the enhanced version of the question, without explanations or prefi
     }
   }
 
+  // Stable per round of a saved session, so judging a reopened session again replaces the earlier judgment
+  const getResponseId = (roundId: string) => {
+    const index = rounds.findIndex(r => r.id === roundId)
+    return activeSession && index !== -1 ? `${activeSession.id}-${index}` : roundId
+  }
+
   const handleRateResponse = async (roundId: string, rating: number) => {
     if (!user) return
 
@@ -270,6 +399,7 @@ Provide ONLY the enhanced version of the question, without explanations or prefi
             rating,
             isWinner: round.isWinner || false,
             responseTime: round.duration,
+            responseId: getResponseId(roundId),
           },
         ])
 
@@ -306,6 +436,7 @@ Provide ONLY the enhanced version of the question, without explanations or prefi
         rating: r.userRating || 3, // Default to 3 if not rated
         isWinner: r.id === roundId,
         responseTime: r.duration,
+        responseId: getResponseId(r.id),
       }))
 
       await recordBatchJudgments(user.id, question, judgments)
@@ -324,7 +455,35 @@ Provide ONLY the enhanced version of the question, without explanations or prefi
     }
   }
 
-  const generateAndRefine = async () => {
+  // Show tokens in the in-flight round as they arrive
+  const appendStreamedContent = (roundId: string, chunk: string) => {
+    setRounds(prev => prev.map(r =>
+      r.id === roundId ? { ...r, content: r.content + chunk } : r
+    ))
+  }
+
+  // Name the fallback on a round when the requested model failed and another one wrote it
+  const getFallbackFields = (round: RefinementRound, answeredBy?: string): Partial<RefinementRound> => {
+    const fallback = getFallbackUsed(round.modelId, answeredBy)
+    if (!fallback) return {}
+
+    return {
+      modelId: fallback,
+      modelName: models.find(m => m.id === fallback)?.name || fallback,
+      provider: getProvider(fallback),
+      fallbackFrom: round.modelName,
+    }
+  }
+
+  /**
+   * Run the question with `runModels` taking turns. With `continueFrom`, the run carries on
+   * refining those rounds in the same session instead of starting a new one, up to `lastRound`.
+   */
+  const runRefinement = async (
+    runModels: OpenRouterModel[],
+    continueFrom?: RefinementRound[],
+    lastRound = (continueFrom ? continueFrom.length - 1 : 0) + autoRounds
+  ) => {
     const promptToUse = promptEnhanced ? enhancedPrompt : question
 
     if (!promptToUse.trim()) {
@@ -335,17 +494,17 @@ Provide ONLY the enhanced version of the question, without explanations or prefi
       return
     }
 
-    if (!config?.openRouterApiKey) {
+    if (!hasProviderConfig(config)) {
       toast({
         title: 'API Key Required',
-        description: 'Please configure your OpenRouter API key first',
+        description: 'Please configure an OpenRouter or Gemini API key, or a local server, first',
         variant: 'destructive',
       })
       navigate('/llm-config')
       return
     }
 
-    if (availableModels.length === 0) {
+    if (runModels.length === 0) {
       toast({
         title: 'No models available',
         description: 'Please enable some models first',
@@ -354,248 +513,292 @@ Provide ONLY the enhanced version of the question, without explanations or prefi
       return
     }
 
+    const previous = continueFrom && [...continueFrom].reverse().find(r => !r.failed && !r.isRefining)
+    if (continueFrom && !previous) {
+      toast({
+        title: 'Nothing to refine',
+        description: 'Every round of this session failed; re-run it instead',
+        variant: 'destructive',
+      })
+      return
+    }
+
     // Create new abort controller for this operation
     const controller = new AbortController()
     setAbortController(controller)
 
     setIsRunning(true)
-    setRounds([])
     setOverallProgress(0)
-    setFailedModels(new Set())
+    setRunModelIds(runModels.map(model => model.id))
+    setInterruptedSession(null)
+    if (!continueFrom) {
+      setRounds([])
+      setUsage(undefined)
+    }
+    setActiveSession(prev => ({
+      ...(continueFrom && prev ? prev : { id: sessionsService.createId(), createdAt: new Date() }),
+      status: 'in_progress',
+      lastRound,
+      heartbeatAt: Date.now()
+    }))
+    let outcome: SessionStatus = 'completed'
+
+    // Tag the run's calls so the report can total them
+    const runId = costLedger.startRun()
+    const unsubscribeUsage = costLedger.subscribe(record => {
+      if (record.scope === runId) setUsage(prev => addUsage(prev, record))
+    })
+
+    // Rotate through the models; a failing one hands over to the refiner fallback chain
+    const runner = new IterativeRefinementRunner({
+      llm: llmService,
+      config,
+      signal: controller.signal,
+      runId,
+      usageScope: runId,
+      question: promptToUse,
+      style: 'ffa',
+      models: runModels,
+      rounds: lastRound,
+      temperature,
+      stream: true,
+      continueAfterFailure: true,
+      ...(graderModelId ? { grader: { modelId: graderModelId, evaluator: evaluatorService } } : {})
+    })
+    const firstRound = continueFrom ? continueFrom.length : 0
+    subscribeToRounds(runner, firstRound, lastRound)
 
     try {
-      // Get models for this run, excluding failed ones
-      let modelsToUse = availableModels.filter(m => !failedModels.has(m.id))
-
-      if (modelsToUse.length === 0) {
-        // Reset failed models if all have failed
-        setFailedModels(new Set())
-        modelsToUse = [...availableModels]
-      }
-
-      // Generate initial answer with first model
-      const firstModel = modelsToUse[0]
-      const roundId = Date.now().toString()
-      const startTime = Date.now()
-
-      const initialRound: RefinementRound = {
-        id: roundId,
-        modelId: firstModel.id,
-        modelName: firstModel.name || firstModel.id,
-        provider: firstModel.id.split('/')[0],
-        content: '',
-        timestamp: new Date(),
-        isRefining: true,
-        quality: 0
-      }
-
-      setRounds([initialRound])
-
-      // Check if cancelled
-      if (controller.signal.aborted) {
-        throw new Error('Operation cancelled')
+      if (continueFrom && previous) {
+        // Pick up from the last good answer; round numbers carry on from the session
+        await runner.refine({ answer: previous.content, roundNumber: continueFrom.length - 1, score: previous.quality })
+      } else {
+        // The first model answers, with the uploaded files attached
+        await runner.run(runModels[0], createMessageWithFiles(promptToUse, uploadedFiles))
       }
-
-      // Create message content with uploaded files
-      const messageContent = createMessageWithFiles(promptToUse, uploadedFiles)
-
-      const response = await openRouterService.createChatCompletion({
-        model: firstModel.id,
-        messages: [{ role: 'user', content: messageContent }],
-        temperature,
-      })
-
-      // Validate response structure
-      if (!response.choices || response.choices.length === 0 || !response.choices[0].message?.content) {
-        const errorInfo = (response as any).error?.message || (response as any).error || 'Missing choices or content'
-        throw new Error(`Invalid API response: ${errorInfo}`)
+    } catch (error: any) {
+      if (isCancellationError(error)) {
+        // Drop the round that was in flight when the run was cancelled
+        setRounds(prev => prev.filter(r => !r.isRefining))
+        outcome = 'paused'
+        return
       }
 
-      const initialAnswer = response.choices[0].message.content
-      const duration = Date.now() - startTime
-
-      setRounds(prev => prev.map(r =>
-        r.id === roundId
-          ? { ...r, content: initialAnswer, isRefining: false, quality: 60, duration }
-          : r
-      ))
-
-      setOverallProgress(Math.floor((1 / (autoRounds + 1)) * 100))
+      outcome = 'failed'
 
-      // Start refinement rounds
-      await refineWithModels(initialAnswer, promptToUse, 1, modelsToUse, controller)
-    } catch (error: any) {
       console.error('Generation failed:', error)
 
-      if (error.message === 'Operation cancelled') {
-        setIsRunning(false)
-        setAbortController(null)
-        return
-      }
-
       const errorMessage = error.message || 'Failed to generate initial answer'
       const modelName = rounds[rounds.length - 1]?.modelName || 'Unknown model'
 
       toast({
-        title: 'Generation Failed',
+        title: getErrorTitle(error, 'Generation Failed'),
         description: `${modelName}: ${errorMessage}`,
         variant: 'destructive',
       })
     } finally {
+      unsubscribeUsage()
+      costLedger.finishRun(runId)
       setIsRunning(false)
       setOverallProgress(100)
       setAbortController(null)
+      setActiveSession(prev => prev && { ...prev, status: outcome })
     }
   }
 
-  const refineWithModels = async (
-    previousAnswer: string,
-    originalQuestion: string,
-    roundNumber: number,
-    modelsToUse: typeof availableModels,
-    controller: AbortController
-  ) => {
-    if (roundNumber > autoRounds) return
+  const generateAndRefine = () => runRefinement(availableModels)
 
-    // Check if cancelled
-    if (controller.signal.aborted) {
-      throw new Error('Operation cancelled')
+  // Carry on a stopped run to its last round with the same models, so every round is
+  // written by the model it would have been
+  const resumeRun = () => {
+    const runModels = runModelIds.map(id => models.find(model => model.id === id))
+    if (!activeSession?.lastRound || runModels.some(model => !model)) {
+      toast({
+        title: 'Cannot resume this run',
+        description: 'One of its models is no longer available; continue refining or re-run it instead',
+        variant: 'destructive',
+      })
+      return
     }
+    runRefinement(runModels as OpenRouterModel[], rounds, activeSession.lastRound)
+  }
 
-    // Select next model, skipping failed ones
-    let modelIndex = roundNumber % modelsToUse.length
-    let model = modelsToUse[modelIndex]
-
-    // Find next non-failed model
-    let attempts = 0
-    while (failedModels.has(model.id) && attempts < modelsToUse.length) {
-      modelIndex = (modelIndex + 1) % modelsToUse.length
-      model = modelsToUse[modelIndex]
-      attempts++
-    }
+  const resumeInterrupted = () => {
+    if (!interruptedSession) return
+    openSession(interruptedSession, interruptedSession)
+    setInterruptedSession(null)
+    setResumeRequested(true)
+  }
 
-    if (attempts >= modelsToUse.length) {
-      console.log('All models have failed, resetting failed models list')
-      setFailedModels(new Set())
-    }
+  const continueRefining = () => runRefinement(availableModels, rounds)
 
-    const roundId = Date.now().toString()
-    const startTime = Date.now()
+  const rerunWith = (modelIds: string[]) => runRefinement(
+    modelIds.map(id => availableModels.find(model => model.id === id)).filter((model): model is OpenRouterModel => !!model)
+  )
 
-    try {
-      const newRound: RefinementRound = {
-        id: roundId,
-        modelId: model.id,
-        modelName: model.name || model.id,
-        provider: model.id.split('/')[0],
+  // Mirror the runner's rounds into state as they stream, finish, fail and get graded.
+  // Progress runs from firstRound to lastRound.
+  const subscribeToRounds = (runner: IterativeRefinementRunner, firstRound: number, lastRound: number) => {
+    runner.on('round:start', ({ round }) => {
+      setRounds(prev => [...prev, {
+        id: round.id,
+        modelId: round.modelId,
+        modelName: round.modelName,
+        provider: getProvider(round.modelId),
         content: '',
         timestamp: new Date(),
-        isRefining: true,
-        quality: 0
-      }
-
-      setRounds(prev => [...prev, newRound])
-
-      // Check again before API call
-      if (controller.signal.aborted) {
-        throw new Error('Operation cancelled')
-      }
-
-      const critiquePrompt = `You are an expert reviewer helping to iteratively improve an answer.
-
-Original Question: "${originalQuestion}"
-
-Current Answer:
-${previousAnswer}
-
-Your task:
-1. Identify 2-3 specific areas where this answer could be improved
-2. Provide an enhanced version that addresses those improvements
-
-Format your response as:
-IMPROVEMENTS NEEDED:
-• [First improvement point]
-• [Second improvement point]
-• [Third improvement point if applicable]
-
-ENHANCED ANSWER:
-[Your comprehensive improved answer here]`
-
-      const response = await openRouterService.createChatCompletion({
-        model: model.id,
-        messages: [{ role: 'user', content: critiquePrompt }],
-        temperature,
-      })
-
-      // Validate response structure
-      if (!response.choices || response.choices.length === 0 || !response.choices[0].message?.content) {
-        const errorInfo = (response as any).error?.message || (response as any).error || 'Missing choices or content'
-        throw new Error(`Invalid API response: ${errorInfo}`)
-      }
+        isRefining: true
+      }])
+    })
 
-      const responseText = response.choices[0].message.content
-      const duration = Date.now() - startTime
-
-      const improvementsMatch = responseText.match(/IMPROVEMENTS NEEDED:(.*?)(?=ENHANCED ANSWER:|$)/s)
-      const enhancedMatch = responseText.match(/ENHANCED ANSWER:(.*)/s)
-
-      const critique = improvementsMatch ? improvementsMatch[1].trim() : ''
-      const improvedAnswer = enhancedMatch ? enhancedMatch[1].trim() : responseText
-
-      // Calculate quality score (increases with each round)
-      const qualityScore = Math.min(60 + (roundNumber * 8), 100)
+    runner.on('round:chunk', ({ round, chunk }) => appendStreamedContent(round.id, chunk))
 
+    runner.on('round:complete', ({ round, content, critique, answeredBy, duration }) => {
       setRounds(prev => prev.map(r =>
-        r.id === roundId
-          ? { ...r, content: improvedAnswer, critique, isRefining: false, quality: qualityScore, duration }
+        r.id === round.id
+          ? {
+              ...r,
+              ...getFallbackFields(r, answeredBy),
+              content,
+              ...(critique !== undefined ? { critique } : {}),
+              isRefining: false,
+              duration
+            }
           : r
       ))
+    })
 
-      setOverallProgress(Math.floor(((roundNumber + 1) / (autoRounds + 1)) * 100))
+    runner.on('round:failed', ({ round, error }) => {
+      console.error(`Refinement failed for ${round.modelName}:`, error)
 
-      // Continue refinement
-      await refineWithModels(improvedAnswer, originalQuestion, roundNumber + 1, modelsToUse, controller)
-    } catch (error: any) {
-      console.error(`Refinement failed for ${model.name}:`, error)
+      // Retries and the fallback chain are used up, so the next model refines the last good answer
+      const errorMessage = (error instanceof Error && error.message) || 'Unknown error'
+      setRounds(prev => prev.map(r =>
+        r.id === round.id
+          ? { ...r, isRefining: false, failed: true, error: errorMessage }
+          : r
+      ))
 
-      // Mark this model as failed if it's a timeout
-      if (error.message?.includes('timeout') || error.code === 'ECONNABORTED') {
-        setFailedModels(prev => new Set([...prev, model.id]))
+      toast({
+        title: getErrorTitle(error, 'Refinement Issue'),
+        description: `${round.modelName}: ${errorMessage}. Moving on to the next model...`,
+        variant: 'destructive',
+      })
+    })
 
-        toast({
-          title: 'Model Timeout',
-          description: `${model.name} took too long to respond. Skipping to next model...`,
-          variant: 'destructive',
-        })
+    runner.on('round:evaluating', ({ round }) => {
+      setRounds(prev => prev.map(r =>
+        r.id === round.id ? { ...r, isEvaluating: true } : r
+      ))
+    })
 
-        // Update the round to show it failed
+    runner.on('round:evaluated', ({ round, evaluation, regressed, error }) => {
+      if (evaluation) {
         setRounds(prev => prev.map(r =>
-          r.id === roundId
-            ? { ...r, content: 'Failed: Timeout', isRefining: false, quality: 0 }
+          r.id === round.id
+            ? { ...r, quality: evaluation.score, evaluation, isEvaluating: false, regressed }
             : r
         ))
+      } else {
+        // An ungraded round still counts; it just can't compete for best answer
+        console.error('Evaluation failed:', error)
+        setRounds(prev => prev.map(r =>
+          r.id === round.id ? { ...r, isEvaluating: false } : r
+        ))
+      }
 
-        // Try with next round/model if not at the end
-        if (roundNumber <= autoRounds) {
-          await refineWithModels(previousAnswer, originalQuestion, roundNumber + 1, modelsToUse, controller)
+      setOverallProgress(Math.floor(((round.roundNumber - firstRound + 1) / (lastRound - firstRound + 1)) * 100))
+    })
+  }
+
+  const getSession = (sessionRounds = rounds): StudioSession => ({
+    question,
+    ...(promptEnhanced ? { enhancedPrompt } : {}),
+    mode: 'ffa',
+    rounds: sessionRounds.map(toStudioRound),
+    ...(uploadedFiles.length > 0 ? { files: uploadedFiles.map(toStudioFile) } : {}),
+    settings: { rounds: autoRounds, temperature, ...(graderModelId ? { graderModelId } : {}), modelIds: runModelIds },
+    ...(usage ? { usage } : {})
+  })
+
+  /**
+   * Show a session as if it had just run here, ready to continue or re-run. One from the
+   * history keeps its id; anything else becomes a new entry in the history.
+   */
+  const openSession = (session: StudioSession, saved?: SavedSession) => {
+    const openedRounds = session.rounds.map((round, index) => ({
+      ...round,
+      id: `${Date.now()}-${index}`,
+      timestamp: new Date(round.timestamp),
+      provider: getProvider(round.modelId),
+      isRefining: false
+    }))
+
+    const opened: ActiveSession = saved
+      ? {
+          id: saved.id,
+          createdAt: saved.createdAt,
+          ...(saved.status ? { status: saved.status } : {}),
+          ...(saved.lastRound !== undefined ? { lastRound: saved.lastRound } : {}),
+          ...(saved.heartbeatAt !== undefined ? { heartbeatAt: saved.heartbeatAt } : {})
         }
-      } else if (error.message === 'Operation cancelled') {
-        throw error // Re-throw cancellation
-      } else {
-        toast({
-          title: 'Refinement Issue',
-          description: `${model.name}: ${error.message || 'Unknown error'}`,
-          variant: 'destructive',
-        })
+      : { id: sessionsService.createId(), createdAt: new Date() }
+    savedRef.current = saved ? { session: opened, rounds: openedRounds } : null
+    setActiveSession(opened)
+    setQuestion(session.question)
+    setEnhancedPrompt(session.enhancedPrompt || '')
+    setPromptEnhanced(!!session.enhancedPrompt)
+    setRounds(openedRounds)
+    setUsage(session.usage)
+    setUploadedFiles((session.files || []).map(file => ({
+      ...file,
+      id: file.storageRef,
+      uploadedAt: new Date(openedRounds[0]?.timestamp ?? Date.now())
+    })))
+    setRunModelIds(session.settings?.modelIds || [...new Set(session.rounds.map(round => round.modelId))])
+    if (session.settings) {
+      setAutoRounds(session.settings.rounds)
+      setTemperature(session.settings.temperature)
+    }
+  }
+
+  const handleDeleteSession = async (session: SavedSession) => {
+    try {
+      await sessionsService.deleteSession(session.id)
+      setSessions(prev => prev.filter(s => s.id !== session.id))
+      if (activeSession?.id === session.id) {
+        setActiveSession(null)
+      }
+      if (interruptedSession?.id === session.id) {
+        setInterruptedSession(null)
       }
+    } catch (error) {
+      console.error('Failed to delete session:', error)
+      toast({
+        title: 'Failed to delete session',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleImport = (imported: ImportedResults) => {
+    if (imported.kind === 'project') {
+      toast({
+        title: 'This is a project export',
+        description: 'Import it from the Projects page',
+        variant: 'destructive',
+      })
+      return
     }
+    openSession(imported.session)
+    toast({
+      title: 'Session imported',
+      description: `${imported.session.rounds.length} rounds`,
+    })
   }
 
   const getBestAnswer = () => {
-    if (rounds.length === 0) return null
-    return rounds.reduce((best, current) =>
-      (current.quality || 0) > (best.quality || 0) ? current : best
-    )
+    return pickBestRound(rounds.filter(r => !r.failed))
   }
 
   const getProviderIcon = (provider: string) => {
@@ -669,6 +872,20 @@ ENHANCED ANSWER:
                   </CardContent>
                 </Card>
 
+                <Button
+                  variant={showHistory ? 'default' : 'outline'}
+                  onClick={() => setShowHistory(prev => !prev)}
+                  className="gap-2"
+                >
+                  <History className="h-4 w-4" />
+                  History
+                  {sessions.length > 0 && (
+                    <Badge variant="secondary" className="h-5 px-1.5">{sessions.length}</Badge>
+                  )}
+                </Button>
+
+                <ImportResultsButton onImport={handleImport} disabled={isRunning} />
+
                 <Button
                   variant="outline"
                   size="icon"
@@ -682,460 +899,600 @@ ENHANCED ANSWER:
           </div>
         </div>
 
-        {/* Main Question Card with inline settings */}
-        <Card className="border-2 shadow-lg">
-          <CardHeader>
-            <CardTitle className="flex items-center justify-between">
-              <span className="flex items-center gap-2">
-                <MessageSquare className="h-5 w-5 text-purple-600" />
-                Your Question
-              </span>
-              {question.trim() && !promptEnhanced && (
-                <Button
-                  size="sm"
-                  variant={autoEnhancePrompt ? "default" : "outline"}
-                  onClick={enhancePrompt}
-                  disabled={isEnhancing}
-                  className="gap-2"
-                >
-                  {isEnhancing ? (
-                    <>
-                      <Loader2 className="h-3 w-3 animate-spin" />
-                      Enhancing...
-                    </>
-                  ) : (
-                    <>
-                      <Sparkles className="h-3 w-3" />
-                      Enhance Prompt
-                    </>
-                  )}
-                </Button>
-              )}
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <Textarea
-              placeholder="Ask anything... Be as specific as possible for best results."
-              value={question}
-              onChange={(e) => {
-                setQuestion(e.target.value)
-                setPromptEnhanced(false)
-                setEnhancedPrompt('')
-              }}
-              className="min-h-[150px] text-lg resize-none"
+        <div className={cn(showHistory && "grid gap-6 lg:grid-cols-[300px_minmax(0,1fr)] items-start")}>
+          {showHistory && (
+            <SessionHistory
+              sessions={sessions}
+              loading={sessionsLoading}
+              activeSessionId={activeSession?.id ?? null}
               disabled={isRunning}
+              onOpen={(session) => openSession(session, session)}
+              onDelete={handleDeleteSession}
+              onClose={() => setShowHistory(false)}
             />
-
-            {promptEnhanced && enhancedPrompt && (
-              <div className="relative p-4 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-950/20 dark:to-pink-950/20 rounded-xl border-2 border-purple-200 dark:border-purple-800">
-                <div className="flex items-center gap-2 mb-2">
-                  <Sparkles className="h-4 w-4 text-purple-600" />
-                  <span className="text-sm font-semibold text-purple-900 dark:text-purple-100">Enhanced Version</span>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    className="ml-auto h-6 px-2"
-                    onClick={() => {
-                      setPromptEnhanced(false)
-                      setEnhancedPrompt('')
-                    }}
-                  >
-                    <X className="h-3 w-3" />
-                  </Button>
-                </div>
-                <p className="text-sm text-purple-800 dark:text-purple-200">{enhancedPrompt}</p>
-              </div>
+          )}
+
+          <div className="space-y-6 min-w-0">
+            {/* A run cut off by a closed tab or a crash */}
+            {interruptedSession && !isRunning && (
+              <Card className="border-amber-500">
+                <CardContent className="flex flex-wrap items-center justify-between gap-4 pt-6">
+                  <div className="min-w-0">
+                    <p className="font-medium">Your last run was interrupted</p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      "{interruptedSession.question}" stopped after round {interruptedSession.rounds.length - 1} of {interruptedSession.lastRound}.
+                      Finished rounds are kept and are not run again.
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setInterruptedSession(null)}>
+                      Dismiss
+                    </Button>
+                    <Button size="sm" className="gap-2" onClick={resumeInterrupted}>
+                      <PlayCircle className="h-4 w-4" />
+                      Resume
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
             )}
 
-            {/* File Upload for Vision/Audio Models */}
-            <FileUpload
-              onFilesSelected={handleFilesSelected}
-              uploadedFiles={uploadedFiles}
-              onRemoveFile={handleRemoveFile}
-              disabled={isRunning || isUploadingFiles}
-            />
-
-            {/* Quick settings inline */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-muted/50 rounded-lg">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="rounds" className="text-sm">Refinement Rounds</Label>
-                <div className="flex items-center gap-2">
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => setAutoRounds(Math.max(1, autoRounds - 1))}
-                    disabled={isRunning}
-                    className="h-8 w-8 p-0"
-                  >
-                    -
-                  </Button>
-                  <div className="w-12 text-center font-bold">{autoRounds}</div>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => setAutoRounds(Math.min(10, autoRounds + 1))}
-                    disabled={isRunning}
-                    className="h-8 w-8 p-0"
-                  >
-                    +
-                  </Button>
-                </div>
-              </div>
-
-
-              <div className="flex items-center justify-between">
-                <Label htmlFor="auto-enhance" className="text-sm">Auto Enhance</Label>
-                <Switch
-                  id="auto-enhance"
-                  checked={autoEnhancePrompt}
-                  onCheckedChange={setAutoEnhancePrompt}
+            {/* Main Question Card with inline settings */}
+            <Card className="border-2 shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <MessageSquare className="h-5 w-5 text-purple-600" />
+                    Your Question
+                  </span>
+                  {question.trim() && !promptEnhanced && (
+                    <Button
+                      size="sm"
+                      variant={autoEnhancePrompt ? "default" : "outline"}
+                      onClick={enhancePrompt}
+                      disabled={isEnhancing}
+                      className="gap-2"
+                    >
+                      {isEnhancing ? (
+                        <>
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          Enhancing...
+                        </>
+                      ) : (
+                        <>
+                          <Sparkles className="h-3 w-3" />
+                          Enhance Prompt
+                        </>
+                      )}
+                    </Button>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Textarea
+                  placeholder="Ask anything... Be as specific as possible for best results."
+                  value={question}
+                  onChange={(e) => {
+                    setQuestion(e.target.value)
+                    setPromptEnhanced(false)
+                    setEnhancedPrompt('')
+                  }}
+                  className="min-h-[150px] text-lg resize-none"
                   disabled={isRunning}
                 />
-              </div>
 
-              <div className="flex items-center justify-between">
-                <Label htmlFor="critiques" className="text-sm">Show Critiques</Label>
-                <Switch
-                  id="critiques"
-                  checked={showDetailedCritiques}
-                  onCheckedChange={setShowDetailedCritiques}
+                {promptEnhanced && enhancedPrompt && (
+                  <div className="relative p-4 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-950/20 dark:to-pink-950/20 rounded-xl border-2 border-purple-200 dark:border-purple-800">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Sparkles className="h-4 w-4 text-purple-600" />
+                      <span className="text-sm font-semibold text-purple-900 dark:text-purple-100">Enhanced Version</span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="ml-auto h-6 px-2"
+                        onClick={() => {
+                          setPromptEnhanced(false)
+                          setEnhancedPrompt('')
+                        }}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <p className="text-sm text-purple-800 dark:text-purple-200">{enhancedPrompt}</p>
+                  </div>
+                )}
+
+                {/* File Upload for Vision/Audio Models */}
+                <FileUpload
+                  onFilesSelected={handleFilesSelected}
+                  uploadedFiles={uploadedFiles}
+                  onRemoveFile={handleRemoveFile}
+                  disabled={isRunning || isUploadingFiles}
                 />
-              </div>
-            </div>
 
-            {/* Advanced settings collapsible */}
-            <div className="border rounded-lg">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setShowAdvancedSettings(!showAdvancedSettings)}
-                className="w-full justify-between p-4"
-              >
-                <span className="flex items-center gap-2">
-                  <Sliders className="h-4 w-4" />
-                  Advanced Settings
-                </span>
-                {showAdvancedSettings ? (
-                  <ChevronUp className="h-4 w-4" />
-                ) : (
-                  <ChevronDown className="h-4 w-4" />
-                )}
-              </Button>
-
-              {showAdvancedSettings && (
-                <div className="p-4 pt-0 space-y-4">
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between">
-                      <Label>Temperature: {temperature}</Label>
-                      <Tooltip>
-                        <TooltipTrigger>
-                          <Info className="h-4 w-4 text-muted-foreground" />
-                        </TooltipTrigger>
-                        <TooltipContent>
-                          <p className="max-w-xs">Controls randomness. 0 = focused, 1 = creative</p>
-                        </TooltipContent>
-                      </Tooltip>
+                {/* Quick settings inline */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-muted/50 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="rounds" className="text-sm">Refinement Rounds</Label>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setAutoRounds(Math.max(1, autoRounds - 1))}
+                        disabled={isRunning}
+                        className="h-8 w-8 p-0"
+                      >
+                        -
+                      </Button>
+                      <div className="w-12 text-center font-bold">{autoRounds}</div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setAutoRounds(Math.min(10, autoRounds + 1))}
+                        disabled={isRunning}
+                        className="h-8 w-8 p-0"
+                      >
+                        +
+                      </Button>
                     </div>
-                    <Slider
-                      value={[temperature]}
-                      onValueChange={(v) => setTemperature(v[0])}
-                      min={0}
-                      max={1}
-                      step={0.1}
+                  </div>
+
+
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="auto-enhance" className="text-sm">Auto Enhance</Label>
+                    <Switch
+                      id="auto-enhance"
+                      checked={autoEnhancePrompt}
+                      onCheckedChange={setAutoEnhancePrompt}
                       disabled={isRunning}
                     />
                   </div>
-                </div>
-              )}
-            </div>
 
-            <Separator />
-
-            {/* Action buttons */}
-            <div className="flex items-center justify-between">
-              <div className="text-sm text-muted-foreground">
-                {availableModels.length === 0 ? (
-                  <>No models enabled. <Link to="/llm-config" className="underline">Configure models</Link></>
-                ) : (
-                  <Badge variant="secondary" className="gap-1">
-                    <Gauge className="h-3 w-3" />
-                    {autoRounds * Math.min(availableModels.length, 5)} AI Passes
-                  </Badge>
-                )}
-              </div>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="critiques" className="text-sm">Show Critiques</Label>
+                    <Switch
+                      id="critiques"
+                      checked={showDetailedCritiques}
+                      onCheckedChange={setShowDetailedCritiques}
+                    />
+                  </div>
+                </div>
 
-              {isRunning ? (
-                <div className="flex gap-2">
-                  <Button
-                    size="lg"
-                    variant="destructive"
-                    onClick={cancelOperation}
-                    className="gap-2"
-                  >
-                    <X className="h-5 w-5" />
-                    Cancel
-                  </Button>
+                {/* Advanced settings collapsible */}
+                <div className="border rounded-lg">
                   <Button
-                    size="lg"
-                    disabled
-                    className="gap-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowAdvancedSettings(!showAdvancedSettings)}
+                    className="w-full justify-between p-4"
                   >
-                    <Loader2 className="h-5 w-5 animate-spin" />
-                    Refining... {Math.round(overallProgress)}%
+                    <span className="flex items-center gap-2">
+                      <Sliders className="h-4 w-4" />
+                      Advanced Settings
+                    </span>
+                    {showAdvancedSettings ? (
+                      <ChevronUp className="h-4 w-4" />
+                    ) : (
+                      <ChevronDown className="h-4 w-4" />
+                    )}
                   </Button>
+
+                  {showAdvancedSettings && (
+                    <div className="p-4 pt-0 space-y-4">
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label>Temperature: {temperature}</Label>
+                          <Tooltip>
+                            <TooltipTrigger>
+                              <Info className="h-4 w-4 text-muted-foreground" />
+                            </TooltipTrigger>
+                            <TooltipContent>
+                              <p className="max-w-xs">Controls randomness. 0 = focused, 1 = creative</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </div>
+                        <Slider
+                          value={[temperature]}
+                          onValueChange={(v) => setTemperature(v[0])}
+                          min={0}
+                          max={1}
+                          step={0.1}
+                          disabled={isRunning}
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
-              ) : (
-                <Button
-                  size="lg"
-                  onClick={generateAndRefine}
-                  disabled={(!question.trim() && !enhancedPrompt.trim()) || availableModels.length === 0}
-                  className="gap-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white shadow-lg"
-                >
-                  <PlayCircle className="h-5 w-5" />
-                  Generate & Refine
-                </Button>
-              )}
-            </div>
 
-            {isRunning && (
-              <Progress value={overallProgress} className="h-2" />
-            )}
-          </CardContent>
-        </Card>
-
-        {/* Quick Examples */}
-        <Card>
-          <CardHeader className="pb-3">
-            <CardTitle className="text-base flex items-center gap-2">
-              <BookOpen className="h-4 w-4" />
-              Quick Examples
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-              {[
-                'Explain quantum entanglement simply',
-                'How to build a successful startup',
-                'Best practices for machine learning',
-                'Future of renewable energy',
-                'Tips for effective communication',
-                'Understanding cryptocurrency basics'
-              ].map((example) => (
-                <Button
-                  key={example}
-                  variant="outline"
-                  size="sm"
-                  onClick={() => {
-                    setQuestion(example)
-                    if (autoEnhancePrompt) {
-                      enhancePrompt()
-                    }
-                  }}
-                  className="justify-start text-xs hover:bg-purple-50 dark:hover:bg-purple-950/20"
-                >
-                  <ArrowRight className="h-3 w-3 mr-1" />
-                  {example}
-                </Button>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Results Section - Always visible when there are results */}
-        {rounds.length > 0 && (
-          <div className="space-y-6">
-            {/* Best Answer */}
-            {getBestAnswer() && (
-              <Card className="border-2 border-purple-200 dark:border-purple-800 bg-gradient-to-br from-purple-50 to-pink-50 dark:from-purple-950/20 dark:to-pink-950/20 shadow-xl">
-                <CardHeader>
-                  <CardTitle className="flex items-center justify-between">
-                    <span className="flex items-center gap-2">
-                      <Award className="h-6 w-6 text-purple-600" />
-                      Best Answer
-                    </span>
-                    <div className="flex items-center gap-2">
-                      <Badge className="bg-gradient-to-r from-purple-600 to-pink-600 text-white">
-                        {getBestAnswer()?.quality}% Quality
+                <Separator />
+
+                {/* Action buttons */}
+                <div className="flex items-center justify-between">
+                  <div className="text-sm text-muted-foreground">
+                    {availableModels.length === 0 ? (
+                      <>No models enabled. <Link to="/llm-config" className="underline">Configure models</Link></>
+                    ) : (
+                      <Badge variant="secondary" className="gap-1">
+                        <Gauge className="h-3 w-3" />
+                        {autoRounds * Math.min(availableModels.length, 5)} AI Passes
                       </Badge>
-                      {getBestAnswer()?.duration && (
-                        <Badge variant="outline" className="gap-1">
-                          <Timer className="h-3 w-3" />
-                          {formatDuration(getBestAnswer()?.duration)}
-                        </Badge>
-                      )}
+                    )}
+                    {availableModels.length > 0 && (promptEnhanced ? enhancedPrompt : question).trim() && (
+                      <span className="ml-2 text-xs">
+                        Est. {formatCostRange(costEstimate)}
+                        {costEstimate.unpricedModelIds.length > 0 && ' (excludes models without pricing)'}
+                      </span>
+                    )}
+                  </div>
+
+                  {isRunning ? (
+                    <div className="flex gap-2">
+                      <Button
+                        size="lg"
+                        variant="destructive"
+                        onClick={cancelOperation}
+                        className="gap-2"
+                      >
+                        <X className="h-5 w-5" />
+                        Cancel
+                      </Button>
+                      <Button
+                        size="lg"
+                        disabled
+                        className="gap-2 bg-gradient-to-r from-purple-600 to-pink-600 text-white"
+                      >
+                        <Loader2 className="h-5 w-5 animate-spin" />
+                        Refining... {Math.round(overallProgress)}%
+                      </Button>
                     </div>
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <ScrollArea className="max-h-[400px] pr-4">
-                    <p className="text-sm leading-relaxed whitespace-pre-wrap">{getBestAnswer()?.content}</p>
-                  </ScrollArea>
-                  <Separator className="my-4" />
-                  <div className="flex items-center justify-between">
-                    <Badge variant="outline" className={cn("gap-1", getProviderColor(getBestAnswer()?.provider || ''))}>
-                      {getProviderIcon(getBestAnswer()?.provider || '')}
-                      {getBestAnswer()?.modelName}
-                    </Badge>
+                  ) : (
                     <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => handleCopy(getBestAnswer()?.content || '', 'best')}
-                      className="gap-2"
+                      size="lg"
+                      onClick={generateAndRefine}
+                      disabled={(!question.trim() && !enhancedPrompt.trim()) || availableModels.length === 0}
+                      className="gap-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white shadow-lg"
                     >
-                      {copiedId === 'best' ? (
-                        <>
-                          <Check className="h-4 w-4" />
-                          Copied!
-                        </>
-                      ) : (
-                        <>
-                          <Copy className="h-4 w-4" />
-                          Copy
-                        </>
-                      )}
+                      <PlayCircle className="h-5 w-5" />
+                      Generate & Refine
                     </Button>
-                  </div>
-                </CardContent>
-              </Card>
-            )}
+                  )}
+                </div>
+
+                {isRunning && (
+                  <Progress value={overallProgress} className="h-2" />
+                )}
+              </CardContent>
+            </Card>
 
-            {/* Refinement History */}
+            {/* Quick Examples */}
             <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <History className="h-5 w-5" />
-                  Refinement History
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base flex items-center gap-2">
+                  <BookOpen className="h-4 w-4" />
+                  Quick Examples
                 </CardTitle>
-                <CardDescription>
-                  Track the evolution of your answer through multiple AI models
-                </CardDescription>
               </CardHeader>
               <CardContent>
-                <ScrollArea className="h-[600px] pr-4">
-                  <div className="space-y-4">
-                    {rounds.map((round, index) => (
-                      <Card
-                        key={round.id}
-                        className={cn(
-                          "transition-all hover:shadow-lg",
-                          round.isRefining && "opacity-60 animate-pulse",
-                          round.quality === getBestAnswer()?.quality && "ring-2 ring-purple-500",
-                          round.content === 'Failed: Timeout' && "border-red-500 bg-red-50 dark:bg-red-950/20"
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                  {[
+                    'Explain quantum entanglement simply',
+                    'How to build a successful startup',
+                    'Best practices for machine learning',
+                    'Future of renewable energy',
+                    'Tips for effective communication',
+                    'Understanding cryptocurrency basics'
+                  ].map((example) => (
+                    <Button
+                      key={example}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => {
+                        setQuestion(example)
+                        if (autoEnhancePrompt) {
+                          enhancePrompt()
+                        }
+                      }}
+                      className="justify-start text-xs hover:bg-purple-50 dark:hover:bg-purple-950/20"
+                    >
+                      <ArrowRight className="h-3 w-3 mr-1" />
+                      {example}
+                    </Button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Results Section - Always visible when there are results */}
+            {rounds.length > 0 && (
+              <div className="space-y-6">
+                {/* Best Answer */}
+                {getBestAnswer() && (
+                  <Card className="border-2 border-purple-200 dark:border-purple-800 bg-gradient-to-br from-purple-50 to-pink-50 dark:from-purple-950/20 dark:to-pink-950/20 shadow-xl">
+                    <CardHeader>
+                      <CardTitle className="flex items-center justify-between">
+                        <span className="flex items-center gap-2">
+                          <Award className="h-6 w-6 text-purple-600" />
+                          Best Answer
+                        </span>
+                        <div className="flex items-center gap-2">
+                          <Badge className="bg-gradient-to-r from-purple-600 to-pink-600 text-white">
+                            {getBestAnswer()?.quality !== undefined
+                              ? `${getBestAnswer()?.quality}% Quality`
+                              : 'Not graded'}
+                          </Badge>
+                          {getBestAnswer()?.duration && (
+                            <Badge variant="outline" className="gap-1">
+                              <Timer className="h-3 w-3" />
+                              {formatDuration(getBestAnswer()?.duration)}
+                            </Badge>
+                          )}
+                        </div>
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <ScrollArea className="max-h-[400px] pr-4">
+                        <p className="text-sm leading-relaxed whitespace-pre-wrap">{getBestAnswer()?.content}</p>
+                      </ScrollArea>
+                      {getBestAnswer()?.evaluation?.rationale && (
+                        <p className="mt-3 text-xs text-muted-foreground">
+                          <span className="font-semibold">Grader:</span> {getBestAnswer()?.evaluation?.rationale}
+                        </p>
+                      )}
+                      <Separator className="my-4" />
+                      <div className="flex items-center justify-between">
+                        <Badge variant="outline" className={cn("gap-1", getProviderColor(getBestAnswer()?.provider || ''))}>
+                          {getProviderIcon(getBestAnswer()?.provider || '')}
+                          {getBestAnswer()?.modelName}
+                        </Badge>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleCopy(getBestAnswer()?.content || '', 'best')}
+                          className="gap-2"
+                        >
+                          {copiedId === 'best' ? (
+                            <>
+                              <Check className="h-4 w-4" />
+                              Copied!
+                            </>
+                          ) : (
+                            <>
+                              <Copy className="h-4 w-4" />
+                              Copy
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Refinement History */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      <span className="flex items-center gap-2">
+                        <History className="h-5 w-5" />
+                        Refinement History
+                      </span>
+                      <div className="flex items-center gap-2">
+                        {!isRunning && !runningElsewhere && remainingRounds > 0 && (
+                          <Button size="sm" onClick={resumeRun} className="gap-2">
+                            <PlayCircle className="h-4 w-4" />
+                            Resume ({remainingRounds} {remainingRounds === 1 ? 'round' : 'rounds'} left)
+                          </Button>
                         )}
-                      >
-                        <CardHeader className="pb-3">
-                          <div className="flex items-center justify-between">
-                            <div className="flex items-center gap-3">
-                              <Badge variant="outline" className="gap-1">
-                                Round {index + 1}
-                              </Badge>
-                              <Badge className={cn("gap-1", getProviderColor(round.provider || ''))}>
-                                {getProviderIcon(round.provider || '')}
-                                {round.modelName}
-                              </Badge>
-                            </div>
-                            <div className="flex items-center gap-2">
-                              {round.quality && (
-                                <Badge variant="outline" className="gap-1">
-                                  <Star className="h-3 w-3 text-yellow-500" />
-                                  {round.quality}%
-                                </Badge>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={continueRefining}
+                          disabled={isRunning || runningElsewhere || availableModels.length === 0}
+                          className="gap-2"
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                          Continue refining
+                        </Button>
+                        <RerunButton
+                          models={availableModels}
+                          defaultModelIds={runModelIds}
+                          onRun={rerunWith}
+                          disabled={isRunning}
+                        />
+                        <ExportResultsButton
+                          disabled={isRunning}
+                          getReport={({ redactIdentities }) => buildSessionReport(getSession(), { redactIdentities, models })}
+                          getExport={() => exportSession(getSession())}
+                          getCsv={() => sessionCsv(getSession())}
+                        />
+                      </div>
+                    </CardTitle>
+                    <CardDescription>
+                      {runningElsewhere
+                        ? 'This session is still running in another tab or window'
+                        : 'Track the evolution of your answer through multiple AI models'}
+                    </CardDescription>
+                    {rounds.some(r => r.quality !== undefined) && (
+                      <div className="flex flex-wrap items-center gap-1 pt-2 text-xs">
+                        <Gauge className="h-3 w-3 text-muted-foreground" />
+                        {rounds
+                          .filter(r => r.quality !== undefined)
+                          .map((round, index) => (
+                            <span
+                              key={round.id}
+                              className={cn(
+                                "flex items-center gap-1 font-medium",
+                                round.regressed ? "text-red-600" : "text-muted-foreground"
                               )}
-                              {round.duration && (
-                                <Badge variant="outline" className="gap-1">
-                                  <Timer className="h-3 w-3" />
-                                  {formatDuration(round.duration)}
-                                </Badge>
-                              )}
-                              {!round.isRefining && (
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  onClick={() => setShowFullContent(prev => ({
-                                    ...prev,
-                                    [round.id]: !prev[round.id]
-                                  }))}
-                                >
-                                  {showFullContent[round.id] ? (
-                                    <EyeOff className="h-4 w-4" />
-                                  ) : (
-                                    <Eye className="h-4 w-4" />
+                            >
+                              {index > 0 && <ArrowRight className="h-3 w-3" />}
+                              {round.quality}
+                            </span>
+                          ))}
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <ScrollArea className="h-[600px] pr-4">
+                      <div className="space-y-4">
+                        {rounds.map((round, index) => (
+                          <Card
+                            key={round.id}
+                            className={cn(
+                              "transition-all hover:shadow-lg",
+                              round.isRefining && "opacity-60 animate-pulse",
+                              round.id === getBestAnswer()?.id && "ring-2 ring-purple-500",
+                              round.failed && "border-red-500 bg-red-50 dark:bg-red-950/20"
+                            )}
+                          >
+                            <CardHeader className="pb-3">
+                              <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-3">
+                                  <Badge variant="outline" className="gap-1">
+                                    Round {index + 1}
+                                  </Badge>
+                                  <Badge className={cn("gap-1", getProviderColor(round.provider || ''))}>
+                                    {getProviderIcon(round.provider || '')}
+                                    {round.modelName}
+                                  </Badge>
+                                  {round.fallbackFrom && (
+                                    <Badge variant="outline" className="text-xs">
+                                      Fallback for {round.fallbackFrom}
+                                    </Badge>
                                   )}
-                                </Button>
-                              )}
-                              {!round.isRefining && (
-                                <Button
-                                  size="sm"
-                                  variant="ghost"
-                                  onClick={() => handleCopy(round.content, round.id)}
-                                >
-                                  {copiedId === round.id ? (
-                                    <Check className="h-4 w-4" />
-                                  ) : (
-                                    <Copy className="h-4 w-4" />
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  {round.isEvaluating && (
+                                    <Badge variant="outline" className="gap-1">
+                                      <Loader2 className="h-3 w-3 animate-spin" />
+                                      Grading
+                                    </Badge>
                                   )}
-                                </Button>
-                              )}
-                            </div>
-                          </div>
-                        </CardHeader>
-                        <CardContent>
-                          {showDetailedCritiques && round.critique && (
-                            <div className="mb-3 p-3 bg-muted rounded-lg">
-                              <div className="flex items-center gap-2 mb-1">
-                                <TrendingUp className="h-3 w-3" />
-                                <span className="text-xs font-semibold">Improvements Made</span>
+                                  {round.quality !== undefined && (
+                                    <Tooltip>
+                                      <TooltipTrigger asChild>
+                                        <Badge
+                                          variant="outline"
+                                          className={cn("gap-1", round.regressed && "border-red-300 text-red-600")}
+                                        >
+                                          {round.regressed ? (
+                                            <TrendingDown className="h-3 w-3" />
+                                          ) : (
+                                            <Star className="h-3 w-3 text-yellow-500" />
+                                          )}
+                                          {round.quality}%
+                                        </Badge>
+                                      </TooltipTrigger>
+                                      <TooltipContent>
+                                        <p className="max-w-xs">
+                                          {round.regressed && 'Scored lower than the answer it refined. '}
+                                          {round.evaluation?.rationale}
+                                        </p>
+                                      </TooltipContent>
+                                    </Tooltip>
+                                  )}
+                                  {round.duration && (
+                                    <Badge variant="outline" className="gap-1">
+                                      <Timer className="h-3 w-3" />
+                                      {formatDuration(round.duration)}
+                                    </Badge>
+                                  )}
+                                  {!round.isRefining && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => setShowFullContent(prev => ({
+                                        ...prev,
+                                        [round.id]: !prev[round.id]
+                                      }))}
+                                    >
+                                      {showFullContent[round.id] ? (
+                                        <EyeOff className="h-4 w-4" />
+                                      ) : (
+                                        <Eye className="h-4 w-4" />
+                                      )}
+                                    </Button>
+                                  )}
+                                  {!round.isRefining && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => handleCopy(round.content, round.id)}
+                                    >
+                                      {copiedId === round.id ? (
+                                        <Check className="h-4 w-4" />
+                                      ) : (
+                                        <Copy className="h-4 w-4" />
+                                      )}
+                                    </Button>
+                                  )}
+                                </div>
                               </div>
-                              <p className="text-xs text-muted-foreground">{round.critique}</p>
-                            </div>
-                          )}
+                            </CardHeader>
+                            <CardContent>
+                              {showDetailedCritiques && round.critique && (
+                                <div className="mb-3 p-3 bg-muted rounded-lg">
+                                  <div className="flex items-center gap-2 mb-1">
+                                    <TrendingUp className="h-3 w-3" />
+                                    <span className="text-xs font-semibold">Improvements Made</span>
+                                  </div>
+                                  <p className="text-xs text-muted-foreground">{round.critique}</p>
+                                </div>
+                              )}
 
-                          {round.isRefining ? (
-                            <div className="flex items-center gap-2 text-muted-foreground">
-                              <Loader2 className="h-4 w-4 animate-spin" />
-                              <span className="text-sm">Refining answer...</span>
-                            </div>
-                          ) : round.content === 'Failed: Timeout' ? (
-                            <div className="flex items-center gap-2 text-red-600 dark:text-red-400">
-                              <AlertCircle className="h-4 w-4" />
-                              <span className="text-sm font-medium">
-                                Model timed out after 2 minutes. The model may be overloaded.
-                              </span>
-                            </div>
-                          ) : (
-                            <>
-                              <p className={cn(
-                                "text-sm leading-relaxed whitespace-pre-wrap",
-                                !showFullContent[round.id] && "line-clamp-4"
-                              )}>
-                                {round.content}
-                              </p>
-
-                              {/* Rating Component */}
-                              {user && (
-                                <div className="mt-4 pt-4 border-t">
-                                  <ResponseRating
-                                    modelId={round.modelId}
-                                    modelName={round.modelName}
-                                    currentRating={round.userRating}
-                                    isWinner={round.isWinner}
-                                    onRate={(rating) => handleRateResponse(round.id, rating)}
-                                    onSelectWinner={() => handleSelectWinner(round.id)}
-                                    disabled={isRunning}
-                                  />
+                              {round.isRefining ? (
+                                round.content ? (
+                                  <p className="text-sm leading-relaxed whitespace-pre-wrap text-muted-foreground">
+                                    {round.content}
+                                  </p>
+                                ) : (
+                                  <div className="flex items-center gap-2 text-muted-foreground">
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                    <span className="text-sm">Refining answer...</span>
+                                  </div>
+                                )
+                              ) : round.failed ? (
+                                <div className="flex items-center gap-2 text-red-600 dark:text-red-400">
+                                  <AlertCircle className="h-4 w-4" />
+                                  <span className="text-sm font-medium">
+                                    {round.error || 'This round failed'}
+                                  </span>
                                 </div>
+                              ) : (
+                                <>
+                                  <p className={cn(
+                                    "text-sm leading-relaxed whitespace-pre-wrap",
+                                    !showFullContent[round.id] && "line-clamp-4"
+                                  )}>
+                                    {round.content}
+                                  </p>
+
+                                  {/* Rating Component */}
+                                  {user && (
+                                    <div className="mt-4 pt-4 border-t">
+                                      <ResponseRating
+                                        modelId={round.modelId}
+                                        modelName={round.modelName}
+                                        currentRating={round.userRating}
+                                        isWinner={round.isWinner}
+                                        onRate={(rating) => handleRateResponse(round.id, rating)}
+                                        onSelectWinner={() => handleSelectWinner(round.id)}
+                                        disabled={isRunning}
+                                      />
+                                    </div>
+                                  )}
+                                </>
                               )}
-                            </>
-                          )}
-                        </CardContent>
-                      </Card>
-                    ))}
-                  </div>
-                </ScrollArea>
-              </CardContent>
-            </Card>
+                            </CardContent>
+                          </Card>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  </CardContent>
+                </Card>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
     </TooltipProvider>
   )
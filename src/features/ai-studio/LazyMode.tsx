@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Textarea } from '@/components/ui/textarea'
@@ -14,19 +14,36 @@ import {
   Brain,
   ChevronRight,
   Loader2,
-  Settings
+  Settings,
+  X,
+  Star,
+  TrendingDown,
+  Award
 } from 'lucide-react'
-import { useLLMConfigStore } from '@/store/llm-config-hybrid'
-import { openRouterService, createMessageWithFiles } from '@/services/openrouter'
+import { hasProviderConfig, useLLMConfigStore } from '@/store/llm-config-hybrid'
+import { createMessageWithFiles } from '@/services/openrouter'
+import { llmService } from '@/services/llm'
+import { getErrorTitle, isCancellationError } from '@/services/llm-errors'
+import { evaluatorService, pickBestRound, resolveGraderModelId } from '@/services/evaluator'
 import { toast } from '@/hooks/use-toast'
 import { cn } from '@/utils/cn'
 import { useNavigate } from 'react-router-dom'
 import { getFlagshipModels } from '@/utils/flagship-models'
 import { FileUpload } from '@/components/FileUpload'
 import { uploadFiles, type UploadedFile, deleteFile } from '@/services/file-upload'
+import { sessionsService } from '@/services/sessions'
 import { useAuthStore } from '@/store/auth'
 import { ResponseRating } from '@/components/ResponseRating'
 import { recordBatchJudgments } from '@/services/preference-tracking'
+import { QualityEvaluation, SavedSession } from '@/types'
+import { costLedger } from '@/services/cost-ledger'
+import { formatCostRange, planRefinementRun } from '@/utils/cost-estimate'
+import { getFallbackUsed } from '@/utils/fallback-chains'
+import {
+  IterativeRefinementRunner,
+  type IterationRound,
+  type IterationState
+} from '@/engine/iterative-refinement'
 
 interface RefinementRound {
   id: string
@@ -36,8 +53,13 @@ interface RefinementRound {
   critique?: string
   timestamp: Date
   isRefining: boolean
+  quality?: number // Grader score 0-100, unset until evaluated
+  evaluation?: QualityEvaluation
+  isEvaluating?: boolean
+  regressed?: boolean // Scored below the answer it refined
   userRating?: number
   isWinner?: boolean
+  fallbackFrom?: string // Model that failed before a fallback wrote the round
 }
 
 export default function LazyMode() {
@@ -53,11 +75,40 @@ export default function LazyMode() {
   const [useFlagshipModels] = useState(true)
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([])
   const [isUploadingFiles, setIsUploadingFiles] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const [activeSession, setActiveSession] = useState<Pick<SavedSession, 'id' | 'createdAt'> | null>(null)
 
   useEffect(() => {
     loadConfig()
   }, [loadConfig])
 
+  // A run must not outlive the page
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  // Save to the history after every finished round, rating and winner pick
+  useEffect(() => {
+    if (!activeSession || rounds.length === 0 || rounds.some(r => r.isRefining)) return
+
+    sessionsService.saveSession({
+      ...activeSession,
+      updatedAt: new Date(),
+      question,
+      mode: 'lazy',
+      rounds: rounds.map(({ id: _id, isRefining: _isRefining, isEvaluating: _isEvaluating, ...round }) => round),
+      ...(uploadedFiles.length > 0
+        ? { files: uploadedFiles.map(({ name, type, size, url, storageRef }) => ({ name, type, size, url, storageRef })) }
+        : {}),
+      settings: { rounds: autoRounds, temperature: 0.7, ...(graderModelId ? { graderModelId } : {}), modelIds: availableModels.map(model => model.id) }
+    }).catch(error => {
+      console.error('Failed to save session:', error)
+      toast({
+        title: 'Session Not Saved',
+        description: error.message || 'Failed to save the session to your history',
+        variant: 'destructive',
+      })
+    })
+  }, [rounds, activeSession])
+
   // Get flagship models from available models
   const flagshipModels = getFlagshipModels(models)
 
@@ -69,6 +120,17 @@ export default function LazyMode() {
   // If no models are configured, use auto
   const availableModels = modelsToUse.length > 0 ? modelsToUse : [{ id: 'openrouter/auto', name: 'Auto (OpenRouter)' }]
 
+  const graderModelId = resolveGraderModelId(config)
+  const bestRound = pickBestRound(rounds)
+
+  const costEstimate = costLedger.estimate(planRefinementRun({
+    question,
+    modelIds: availableModels.map(model => model.id),
+    initialModelId: selectedModel,
+    rounds: autoRounds,
+    graderModelId,
+  }))
+
   const handleCopy = async (text: string, id: string) => {
     try {
       await navigator.clipboard.writeText(text)
@@ -86,6 +148,17 @@ export default function LazyMode() {
     }
   }
 
+  const cancelOperation = () => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+      abortControllerRef.current = null
+      toast({
+        title: 'Operation Cancelled',
+        description: 'The current operation has been stopped',
+      })
+    }
+  }
+
   const handleFilesSelected = async (files: File[]) => {
     if (!user) {
       toast({
@@ -143,6 +216,12 @@ export default function LazyMode() {
     }
   }
 
+  // Stable per round of a saved session, so judging a reopened session again replaces the earlier judgment
+  const getResponseId = (roundId: string) => {
+    const index = rounds.findIndex(r => r.id === roundId)
+    return activeSession && index !== -1 ? `${activeSession.id}-${index}` : roundId
+  }
+
   const handleRateResponse = async (roundId: string, rating: number) => {
     if (!user) return
 
@@ -159,6 +238,7 @@ export default function LazyMode() {
             modelName: round.modelName,
             rating,
             isWinner: round.isWinner || false,
+            responseId: getResponseId(roundId),
           },
         ])
 
@@ -192,6 +272,7 @@ export default function LazyMode() {
         modelName: r.modelName,
         rating: r.userRating || 3,
         isWinner: r.id === roundId,
+        responseId: getResponseId(r.id),
       }))
 
       await recordBatchJudgments(user.id, question, judgments)
@@ -210,6 +291,83 @@ export default function LazyMode() {
     }
   }
 
+  // Name the fallback on a round when the requested model failed and another one wrote it
+  const getFallbackFields = (round: RefinementRound, answeredBy?: string): Partial<RefinementRound> => {
+    const fallback = getFallbackUsed(round.modelId, answeredBy)
+    if (!fallback) return {}
+
+    return {
+      modelId: fallback,
+      modelName: models.find(m => m.id === fallback)?.name || fallback,
+      fallbackFrom: round.modelName,
+    }
+  }
+
+  // Mirror the runner's rounds into state as they finish and get graded
+  const createRunner = (signal: AbortSignal, runId: string) => {
+    const runner = new IterativeRefinementRunner({
+      llm: llmService,
+      config,
+      signal,
+      runId,
+      question,
+      style: 'lazy',
+      models: availableModels,
+      rounds: autoRounds,
+      ...(graderModelId ? { grader: { modelId: graderModelId, evaluator: evaluatorService } } : {})
+    })
+
+    runner.on('round:start', ({ round }) => {
+      const newRound: RefinementRound = {
+        id: round.id,
+        modelId: round.modelId,
+        modelName: round.modelName,
+        content: '',
+        timestamp: new Date(),
+        isRefining: true
+      }
+      setRounds(prev => round.roundNumber === 0 ? [newRound] : [...prev, newRound])
+    })
+
+    runner.on('round:complete', ({ round, content, critique, answeredBy }) => {
+      setRounds(prev => prev.map(r =>
+        r.id === round.id
+          ? {
+              ...r,
+              ...getFallbackFields(r, answeredBy),
+              content,
+              ...(critique !== undefined ? { critique } : {}),
+              isRefining: false
+            }
+          : r
+      ))
+    })
+
+    runner.on('round:evaluating', ({ round }) => {
+      setRounds(prev => prev.map(r =>
+        r.id === round.id ? { ...r, isEvaluating: true } : r
+      ))
+    })
+
+    runner.on('round:evaluated', ({ round, evaluation, regressed, error }) => {
+      if (evaluation) {
+        setRounds(prev => prev.map(r =>
+          r.id === round.id
+            ? { ...r, quality: evaluation.score, evaluation, isEvaluating: false, regressed }
+            : r
+        ))
+        return
+      }
+
+      console.error('Evaluation failed:', error)
+      setRounds(prev => prev.map(r =>
+        r.id === round.id ? { ...r, isEvaluating: false } : r
+      ))
+    })
+
+    return runner
+  }
+
   const generateInitialAnswer = async () => {
     if (!question.trim()) {
       toast({
@@ -219,10 +377,10 @@ export default function LazyMode() {
       return
     }
 
-    if (!config?.openRouterApiKey) {
+    if (!hasProviderConfig(config)) {
       toast({
         title: 'API Key Required',
-        description: 'Please configure your OpenRouter API key first',
+        description: 'Please configure an OpenRouter or Gemini API key, or a local server, first',
         variant: 'destructive',
       })
       navigate('/llm-config')
@@ -230,149 +388,68 @@ export default function LazyMode() {
     }
 
     setIsRunning(true)
-    const roundId = Date.now().toString()
+    setActiveSession({ id: sessionsService.createId(), createdAt: new Date() })
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    const runId = costLedger.startRun()
+    const runner = createRunner(controller.signal, runId)
 
     try {
-      // Create initial round
-      const initialRound: RefinementRound = {
-        id: roundId,
-        modelId: selectedModel,
-        modelName: selectedModel === 'openrouter/auto'
+      // Generate initial answer, with the uploaded files attached
+      const initialState = await runner.answer({
+        id: selectedModel,
+        name: selectedModel === 'openrouter/auto'
           ? 'Auto (OpenRouter)'
-          : models.find(m => m.id === selectedModel)?.name || selectedModel,
-        content: '',
-        timestamp: new Date(),
-        isRefining: true
-      }
-
-      setRounds([initialRound])
-
-      // Create message content with uploaded files
-      const messageContent = createMessageWithFiles(question, uploadedFiles)
-
-      // Generate initial answer
-      const response = await openRouterService.createChatCompletion({
-        model: selectedModel,
-        messages: [
-          { role: 'user', content: messageContent }
-        ],
-        temperature: 0.7,
-      })
-
-      // Validate response structure
-      if (!response.choices || response.choices.length === 0 || !response.choices[0].message?.content) {
-        const errorInfo = (response as any).error?.message || (response as any).error || 'Missing choices or content'
-        throw new Error(`Invalid API response: ${errorInfo}`)
-      }
-
-      const initialContent = response.choices[0].message.content
-
-      // Update with answer
-      setRounds(prev => prev.map(r =>
-        r.id === roundId
-          ? { ...r, content: initialContent, isRefining: false }
-          : r
-      ))
+          : models.find(m => m.id === selectedModel)?.name || selectedModel
+      }, createMessageWithFiles(question, uploadedFiles))
 
       // Start auto-refinement if enabled
       if (autoRounds > 0) {
-        await startAutoRefinement(initialContent, 1)
+        await startAutoRefinement(runner, initialState)
       }
     } catch (error: any) {
+      if (isCancellationError(error)) {
+        setRounds([])
+        return
+      }
+
       console.error('Failed to generate answer:', error)
       toast({
-        title: 'Generation Failed',
+        title: getErrorTitle(error, 'Generation Failed'),
         description: error.message || 'Failed to generate initial answer',
         variant: 'destructive',
       })
       setRounds([])
     } finally {
       setIsRunning(false)
+      abortControllerRef.current = null
+      costLedger.finishRun(runId)
     }
   }
 
-  const startAutoRefinement = async (previousAnswer: string, roundNumber: number) => {
-    if (roundNumber > autoRounds) {
-      setIsRunning(false)
-      return
-    }
-
-    const roundId = Date.now().toString()
-
-    // Select a different model or use the same one
-    const modelsToUse = availableModels.length > 0 ? availableModels : [{ id: 'openrouter/auto', name: 'Auto' }]
-    const modelIndex = roundNumber % modelsToUse.length
-    const model = modelsToUse[modelIndex]
+  const startAutoRefinement = async (runner: IterativeRefinementRunner, from: IterationState) => {
+    let inFlightRound: IterationRound | undefined
+    const unsubscribe = runner.on('round:start', ({ round }) => {
+      inFlightRound = round
+    })
 
     try {
-      // Add new round
-      const newRound: RefinementRound = {
-        id: roundId,
-        modelId: model.id,
-        modelName: model.name || model.id,
-        content: '',
-        timestamp: new Date(),
-        isRefining: true
-      }
-
-      setRounds(prev => [...prev, newRound])
-
-      // Generate critique and improvement
-      const critiquePrompt = `You are reviewing an answer to the following question:
-
-Question: "${question}"
-
-Current Answer:
-${previousAnswer}
-
-Please provide:
-1. A brief critique identifying what could be improved
-2. An improved version of the answer that addresses those improvements
-
-Format your response as:
-CRITIQUE: [Your critique here]
-
-IMPROVED ANSWER: [Your improved answer here]`
-
-      const response = await openRouterService.createChatCompletion({
-        model: model.id,
-        messages: [
-          { role: 'user', content: critiquePrompt }
-        ],
-        temperature: 0.7,
-      })
-
-      // Validate response structure
-      if (!response.choices || response.choices.length === 0 || !response.choices[0].message?.content) {
-        const errorInfo = (response as any).error?.message || (response as any).error || 'Missing choices or content'
-        throw new Error(`Invalid API response: ${errorInfo}`)
+      await runner.refine(from)
+    } catch (error: any) {
+      if (isCancellationError(error)) {
+        // Drop the round that was in flight when the run was cancelled
+        setRounds(prev => prev.filter(r => r.id !== inFlightRound?.id))
+        return
       }
 
-      const responseText = response.choices[0].message.content
-
-      // Parse critique and improved answer
-      const critiqueMatch = responseText.match(/CRITIQUE:(.*?)(?=IMPROVED ANSWER:|$)/s)
-      const improvedMatch = responseText.match(/IMPROVED ANSWER:(.*)/s)
-
-      const critique = critiqueMatch ? critiqueMatch[1].trim() : ''
-      const improvedAnswer = improvedMatch ? improvedMatch[1].trim() : responseText
-
-      // Update round
-      setRounds(prev => prev.map(r =>
-        r.id === roundId
-          ? { ...r, content: improvedAnswer, critique, isRefining: false }
-          : r
-      ))
-
-      // Continue refinement
-      await startAutoRefinement(improvedAnswer, roundNumber + 1)
-    } catch (error: any) {
       console.error('Refinement failed:', error)
       toast({
-        title: 'Refinement Failed',
-        description: error.message || `Failed at round ${roundNumber}`,
+        title: getErrorTitle(error, 'Refinement Failed'),
+        description: error.message || `Failed at round ${inFlightRound?.roundNumber}`,
         variant: 'destructive',
       })
+    } finally {
+      unsubscribe()
       setIsRunning(false)
     }
   }
@@ -382,7 +459,20 @@ IMPROVED ANSWER: [Your improved answer here]`
 
     const lastRound = rounds[rounds.length - 1]
     setIsRunning(true)
-    await startAutoRefinement(lastRound.content, rounds.length)
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    const runId = costLedger.startRun()
+    try {
+      await startAutoRefinement(createRunner(controller.signal, runId), {
+        answer: lastRound.content,
+        roundNumber: rounds.length - 1,
+        score: lastRound.quality
+      })
+    } finally {
+      setIsRunning(false)
+      abortControllerRef.current = null
+      costLedger.finishRun(runId)
+    }
   }
 
   return (
@@ -469,6 +559,13 @@ IMPROVED ANSWER: [Your improved answer here]`
                     (0 = manual only)
                   </span>
                 </div>
+
+                {question.trim() && (
+                  <p className="text-xs text-muted-foreground">
+                    Estimated cost: {formatCostRange(costEstimate)}
+                    {costEstimate.unpricedModelIds.length > 0 && ' (excludes models without pricing)'}
+                  </p>
+                )}
               </div>
 
               <div className="flex gap-2">
@@ -490,6 +587,16 @@ IMPROVED ANSWER: [Your improved answer here]`
                   )}
                 </Button>
 
+                {isRunning && (
+                  <Button
+                    onClick={cancelOperation}
+                    variant="destructive"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
+
                 {rounds.length > 0 && !isRunning && (
                   <Button
                     onClick={refineLastAnswer}
@@ -558,7 +665,8 @@ IMPROVED ANSWER: [Your improved answer here]`
                         key={round.id}
                         className={cn(
                           "border rounded-lg p-4 space-y-3",
-                          round.isRefining && "opacity-60"
+                          round.isRefining && "opacity-60",
+                          round.id === bestRound?.id && rounds.length > 1 && "border-purple-500"
                         )}
                       >
                         <div className="flex items-center justify-between">
@@ -569,8 +677,39 @@ IMPROVED ANSWER: [Your improved answer here]`
                             <span className="text-sm font-medium">
                               {round.modelName}
                             </span>
+                            {round.fallbackFrom && (
+                              <Badge variant="outline" className="text-xs">
+                                Fallback for {round.fallbackFrom}
+                              </Badge>
+                            )}
+                            {round.id === bestRound?.id && rounds.length > 1 && (
+                              <Badge className="text-xs gap-1 bg-purple-600 text-white">
+                                <Award className="h-3 w-3" />
+                                Best
+                              </Badge>
+                            )}
                           </div>
                           <div className="flex items-center gap-1">
+                            {round.isEvaluating && (
+                              <Badge variant="outline" className="text-xs gap-1">
+                                <Loader2 className="h-3 w-3 animate-spin" />
+                                Grading
+                              </Badge>
+                            )}
+                            {round.quality !== undefined && (
+                              <Badge
+                                variant="outline"
+                                className={cn("text-xs gap-1", round.regressed && "border-red-300 text-red-600")}
+                                title={round.evaluation?.rationale}
+                              >
+                                {round.regressed ? (
+                                  <TrendingDown className="h-3 w-3" />
+                                ) : (
+                                  <Star className="h-3 w-3 text-yellow-500" />
+                                )}
+                                {round.quality}%
+                              </Badge>
+                            )}
                             {round.isRefining ? (
                               <Loader2 className="h-4 w-4 animate-spin" />
                             ) : (
@@ -596,6 +735,12 @@ IMPROVED ANSWER: [Your improved answer here]`
                           </div>
                         )}
 
+                        {round.regressed && (
+                          <p className="text-xs text-red-600">
+                            This refinement scored lower than the answer it was based on.
+                          </p>
+                        )}
+
                         <div className="text-sm">
                           {round.isRefining ? (
                             <div className="flex items-center gap-2 text-muted-foreground">
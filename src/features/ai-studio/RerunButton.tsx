@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { Check, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { cn } from '@/utils/cn'
+
+interface RerunButtonProps {
+  models: Array<{ id: string; name?: string }>
+  defaultModelIds: string[]
+  onRun: (modelIds: string[]) => void
+  disabled?: boolean
+}
+
+/**
+ * Pick the models that take turns, then run the question again as a new session
+ */
+export function RerunButton({ models, defaultModelIds, onRun, disabled = false }: RerunButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Start from the models the session used, where they are still enabled
+    if (nextOpen) {
+      const still = defaultModelIds.filter(id => models.some(model => model.id === id))
+      setSelectedIds(still.length > 0 ? still : models.map(model => model.id))
+    }
+    setOpen(nextOpen)
+  }
+
+  const toggle = (modelId: string) => {
+    setSelectedIds(prev => prev.includes(modelId) ? prev.filter(id => id !== modelId) : [...prev, modelId])
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={disabled || models.length === 0}>
+          <RotateCcw className="h-4 w-4" />
+          Re-run
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <p className="text-sm font-medium">Models, in turn order</p>
+        <div className="max-h-64 space-y-1 overflow-y-auto">
+          {models.map(model => {
+            const position = selectedIds.indexOf(model.id)
+            return (
+              <button
+                key={model.id}
+                type="button"
+                onClick={() => toggle(model.id)}
+                className={cn(
+                  "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted",
+                  position !== -1 && "font-medium"
+                )}
+              >
+                <span className={cn(
+                  "flex h-4 w-4 shrink-0 items-center justify-center rounded border",
+                  position !== -1 && "border-purple-600 bg-purple-600 text-white"
+                )}>
+                  {position !== -1 && <Check className="h-3 w-3" />}
+                </span>
+                <span className="flex-1 truncate">{model.name || model.id}</span>
+                {position !== -1 && <span className="text-xs text-muted-foreground">{position + 1}</span>}
+              </button>
+            )
+          })}
+        </div>
+        <Button
+          size="sm"
+          className="w-full"
+          disabled={selectedIds.length === 0}
+          onClick={() => {
+            setOpen(false)
+            onRun(selectedIds)
+          }}
+        >
+          Run with {selectedIds.length} {selectedIds.length === 1 ? 'model' : 'models'}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
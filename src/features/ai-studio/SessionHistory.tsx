@@ -0,0 +1,141 @@
+import { useMemo, useState } from 'react'
+import { History, Search, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import LoadingSpinner from '@/components/ui/loading-spinner'
+import { pickBestRound } from '@/services/evaluator'
+import { SavedSession, SessionStatus } from '@/types'
+import { cn } from '@/utils/cn'
+
+interface SessionHistoryProps {
+  sessions: SavedSession[]
+  loading: boolean
+  activeSessionId: string | null
+  disabled?: boolean
+  onOpen: (session: SavedSession) => void
+  onDelete: (session: SavedSession) => void
+  onClose: () => void
+}
+
+const formatDate = (date: Date) => new Intl.DateTimeFormat('en-US', {
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+}).format(date)
+
+// Runs that did not reach their last round
+const statusLabels: Partial<Record<SessionStatus, string>> = {
+  in_progress: 'Running',
+  paused: 'Paused',
+  failed: 'Failed',
+}
+
+// Searching matches the question, the prompt that was sent and the models that took part
+const matchesSearch = (session: SavedSession, term: string) => [
+  session.question,
+  session.enhancedPrompt || '',
+  ...session.rounds.map(round => round.modelName),
+].some(text => text.toLowerCase().includes(term))
+
+export function SessionHistory({
+  sessions,
+  loading,
+  activeSessionId,
+  disabled = false,
+  onOpen,
+  onDelete,
+  onClose,
+}: SessionHistoryProps) {
+  const [searchTerm, setSearchTerm] = useState('')
+
+  const filteredSessions = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+    return term ? sessions.filter(session => matchesSearch(session, term)) : sessions
+  }, [sessions, searchTerm])
+
+  return (
+    <Card className="lg:sticky lg:top-4">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            History
+          </span>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search sessions..."
+            className="pl-9"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="px-2">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : filteredSessions.length === 0 ? (
+          <p className="px-2 py-8 text-center text-sm text-muted-foreground">
+            {sessions.length === 0 ? 'Finished runs are saved here' : 'No sessions match your search'}
+          </p>
+        ) : (
+          <ScrollArea className="h-[600px]">
+            <div className="space-y-1 px-2">
+              {filteredSessions.map(session => {
+                const best = pickBestRound(session.rounds.filter(round => !round.failed))
+                return (
+                  <div
+                    key={session.id}
+                    className={cn(
+                      "group flex items-start gap-2 rounded-lg border p-2 transition-colors",
+                      session.id === activeSessionId ? "border-purple-400 bg-purple-50 dark:bg-purple-950/20" : "border-transparent hover:bg-muted"
+                    )}
+                  >
+                    <button
+                      type="button"
+                      className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                      onClick={() => onOpen(session)}
+                      disabled={disabled}
+                    >
+                      <p className="text-sm font-medium line-clamp-2">{session.question || 'Untitled session'}</p>
+                      <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                        <span>{formatDate(session.updatedAt)}</span>
+                        <span>· {session.rounds.length} rounds</span>
+                        {session.mode === 'lazy' && <Badge variant="outline" className="h-4 px-1 text-[10px]">Lazy</Badge>}
+                        {session.status && statusLabels[session.status] && (
+                          <Badge variant="outline" className="h-4 px-1 text-[10px] border-amber-500">{statusLabels[session.status]}</Badge>
+                        )}
+                        {best?.quality !== undefined && (
+                          <Badge variant="secondary" className="h-4 px-1 text-[10px]">{best.quality}%</Badge>
+                        )}
+                      </div>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100"
+                      onClick={() => onDelete(session)}
+                      disabled={disabled}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -7,6 +7,7 @@ import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { Sparkles, Loader2, Check, AlertCircle } from 'lucide-react'
 import { geminiService } from '@/services/gemini'
+import { getErrorTitle } from '@/services/llm-errors'
 import { toast } from '@/hooks/use-toast'
 
 export default function GeminiTest() {
@@ -69,7 +70,7 @@ export default function GeminiTest() {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Generation failed'
       toast({
-        title: 'Generation Failed',
+        title: getErrorTitle(error, 'Generation Failed'),
         description: errorMessage,
         variant: 'destructive',
       })
@@ -19,14 +19,23 @@ import {
   Cloud,
   HardDrive,
   Crown,
-  
-  
+  Star,
+  Wallet,
+  Shuffle,
+  ArrowUp,
+  ArrowDown,
+  X,
+  Server,
 } from 'lucide-react'
 // Use local store when in development bypass mode to avoid Firebase auth issues
-import { useLLMConfigStore } from '@/store/llm-config-hybrid'
+import { hasProviderConfig, useLLMConfigStore } from '@/store/llm-config-hybrid'
 import LoadingSpinner from '@/components/ui/loading-spinner'
 import { cn } from '@/utils/cn'
 import { FLAGSHIP_MODEL_IDS } from '@/utils/flagship-models'
+import { costLedger } from '@/services/cost-ledger'
+import { formatCost } from '@/utils/cost-estimate'
+import { MODEL_ROLES } from '@/utils/fallback-chains'
+import { ModelRole } from '@/types'
 
 export default function LLMConfigPage() {
   const {
@@ -38,18 +47,32 @@ export default function LLMConfigPage() {
     storageMode,
     loadConfig,
     saveApiKey,
+    saveGeminiApiKey,
+    saveLocalEndpoint,
+    setMockProvider,
     testConnection,
     fetchModelCatalog,
     toggleModel,
     setDefaultRefiner,
     setDefaultJudge,
+    setDefaultGrader,
     setDefaultRounds,
+    setBudget,
+    setFallbackChain,
   } = useLLMConfigStore()
 
   const [apiKey, setApiKey] = useState('')
   const [showApiKey, setShowApiKey] = useState(false)
   const [hasUnsavedKey, setHasUnsavedKey] = useState(false)
+  const [geminiKey, setGeminiKey] = useState('')
+  const [showGeminiKey, setShowGeminiKey] = useState(false)
+  const [hasUnsavedGeminiKey, setHasUnsavedGeminiKey] = useState(false)
+  const [localUrl, setLocalUrl] = useState('')
+  const [localKey, setLocalKey] = useState('')
+  const [hasUnsavedLocal, setHasUnsavedLocal] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
+  const [perRunLimit, setPerRunLimit] = useState('')
+  const [dailyLimit, setDailyLimit] = useState('')
 
   useEffect(() => {
     loadConfig()
@@ -72,6 +95,41 @@ export default function LLMConfigPage() {
     }
   }, [config?.openRouterApiKey])
 
+  useEffect(() => {
+    if (config?.geminiApiKey) {
+      try {
+        setGeminiKey(atob(config.geminiApiKey.split('').reverse().join('')))
+        setHasUnsavedGeminiKey(false)
+      } catch (error) {
+        console.error('Could not restore saved Gemini API key:', error)
+      }
+    }
+  }, [config?.geminiApiKey])
+
+  useEffect(() => {
+    setLocalUrl(config?.localEndpoint?.baseUrl || '')
+    const savedKey = config?.localEndpoint?.apiKey
+    try {
+      setLocalKey(savedKey ? atob(savedKey.split('').reverse().join('')) : '')
+    } catch (error) {
+      console.error('Could not restore saved local server key:', error)
+    }
+    setHasUnsavedLocal(false)
+  }, [config?.localEndpoint?.baseUrl, config?.localEndpoint?.apiKey])
+
+  const hasAnyApiKey = hasProviderConfig(config)
+
+  const handleSaveLocalEndpoint = async () => {
+    const baseUrl = localUrl.trim()
+    await saveLocalEndpoint(baseUrl ? { baseUrl, apiKey: localKey.trim() || undefined } : null)
+    setHasUnsavedLocal(false)
+  }
+
+  const handleSaveGeminiKey = async () => {
+    await saveGeminiApiKey(geminiKey.trim())
+    setHasUnsavedGeminiKey(false)
+  }
+
   const handleSaveApiKey = async () => {
     if (!apiKey.trim()) return
 
@@ -83,6 +141,38 @@ export default function LLMConfigPage() {
     }
   }
 
+  // Populate spending caps when config loads
+  useEffect(() => {
+    setPerRunLimit(config?.budget?.perRunLimit?.toString() || '')
+    setDailyLimit(config?.budget?.dailyLimit?.toString() || '')
+  }, [config?.budget?.perRunLimit, config?.budget?.dailyLimit])
+
+  const hasUnsavedBudget =
+    perRunLimit !== (config?.budget?.perRunLimit?.toString() || '') ||
+    dailyLimit !== (config?.budget?.dailyLimit?.toString() || '')
+
+  const handleSaveBudget = async () => {
+    const toLimit = (value: string) => {
+      const limit = parseFloat(value)
+      return Number.isFinite(limit) && limit > 0 ? limit : undefined
+    }
+    await setBudget({ perRunLimit: toLimit(perRunLimit), dailyLimit: toLimit(dailyLimit) })
+  }
+
+  // Reorder or trim a role's fallback chain
+  const moveInChain = (role: ModelRole, index: number, offset: number) => {
+    const chain = [...(config?.fallbackChains?.[role] || [])]
+    const target = index + offset
+    if (target < 0 || target >= chain.length) return
+    const [moved] = chain.splice(index, 1)
+    chain.splice(target, 0, moved)
+    setFallbackChain(role, chain)
+  }
+
+  const removeFromChain = (role: ModelRole, modelId: string) => {
+    setFallbackChain(role, (config?.fallbackChains?.[role] || []).filter(id => id !== modelId))
+  }
+
   const handleTestConnection = async () => {
     if (hasUnsavedKey && apiKey) {
       await testConnection(apiKey)
@@ -145,8 +235,9 @@ export default function LLMConfigPage() {
     })
   }
 
-  const formatPrice = (price: number) => {
-    return `$${(price / 1_000_000).toFixed(4)}`
+  // Catalog prices are per token; show them per million tokens
+  const formatPrice = (price: number | string) => {
+    return `$${(Number(price) * 1_000_000).toFixed(2)}/M`
   }
 
   const formatContextLength = (length: number) => {
@@ -164,7 +255,7 @@ export default function LLMConfigPage() {
           <div>
             <h1 className="text-3xl font-bold">LLM Configuration</h1>
             <p className="text-muted-foreground mt-1">
-              Configure your OpenRouter API access and model preferences
+              Configure your OpenRouter and Gemini API access and model preferences
             </p>
           </div>
           <div className="flex items-center gap-2 px-3 py-1 bg-muted rounded-md">
@@ -189,7 +280,7 @@ export default function LLMConfigPage() {
           <CardHeader>
             <CardTitle>API Access</CardTitle>
             <CardDescription>
-              Connect to OpenRouter to access various AI models
+              Connect to OpenRouter, Google Gemini or a local server; models from every connected provider can be mixed in one run
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -264,6 +355,124 @@ export default function LLMConfigPage() {
                 </p>
               )}
             </div>
+
+            <div>
+              <label htmlFor="geminiKey" className="block text-sm font-medium mb-2">
+                Google Gemini API Key <span className="text-muted-foreground font-normal">(optional)</span>
+              </label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Key className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <input
+                    id="geminiKey"
+                    type={showGeminiKey ? 'text' : 'password'}
+                    value={geminiKey}
+                    onChange={(e) => {
+                      setGeminiKey(e.target.value)
+                      setHasUnsavedGeminiKey(true)
+                    }}
+                    className="w-full pl-10 pr-10 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder={config?.geminiApiKey ? '••••••••••••••••' : 'AIza...'}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowGeminiKey(!showGeminiKey)}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2"
+                  >
+                    {showGeminiKey ? (
+                      <EyeOff className="h-4 w-4 text-muted-foreground" />
+                    ) : (
+                      <Eye className="h-4 w-4 text-muted-foreground" />
+                    )}
+                  </button>
+                </div>
+                {hasUnsavedGeminiKey && (
+                  <Button onClick={handleSaveGeminiKey}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {geminiKey.trim() ? 'Save Key' : 'Remove Key'}
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Calls Gemini models directly instead of through OpenRouter. Get a key from{' '}
+                <a
+                  href="https://aistudio.google.com/app/apikey"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  aistudio.google.com
+                </a>
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="localUrl" className="block text-sm font-medium mb-2">
+                Local Server <span className="text-muted-foreground font-normal">(optional)</span>
+              </label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Server className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <input
+                    id="localUrl"
+                    type="url"
+                    value={localUrl}
+                    onChange={(e) => {
+                      setLocalUrl(e.target.value)
+                      setHasUnsavedLocal(true)
+                    }}
+                    className="w-full pl-10 pr-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    placeholder="http://localhost:11434/v1"
+                  />
+                </div>
+                <input
+                  type="password"
+                  value={localKey}
+                  onChange={(e) => {
+                    setLocalKey(e.target.value)
+                    setHasUnsavedLocal(true)
+                  }}
+                  className="w-40 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  placeholder="API key (if any)"
+                />
+                {hasUnsavedLocal && (
+                  <Button onClick={handleSaveLocalEndpoint}>
+                    <Save className="h-4 w-4 mr-2" />
+                    {localUrl.trim() ? 'Save Server' : 'Remove Server'}
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Any OpenAI-compatible API, such as Ollama, llama.cpp or vLLM. Its models are free in cost
+                estimates. The server must allow requests from this page (e.g. OLLAMA_ORIGINS for Ollama).
+              </p>
+            </div>
+
+            {import.meta.env.DEV && (
+              <div className="flex items-center justify-between rounded-md border border-dashed p-3">
+                <div>
+                  <p className="text-sm font-medium">Mock Provider (development only)</p>
+                  <p className="text-xs text-muted-foreground">
+                    Adds offline mock models with simulated latency, rate limits and malformed judge JSON.
+                    Refresh the catalog after switching it.
+                  </p>
+                </div>
+                <button
+                  onClick={() => setMockProvider(!config?.useMockProvider)}
+                  className={cn(
+                    'w-12 h-6 rounded-full relative transition-colors shrink-0',
+                    config?.useMockProvider ? 'bg-primary' : 'bg-muted'
+                  )}
+                >
+                  <div
+                    className={cn(
+                      'absolute top-1 h-4 w-4 bg-white rounded-full transition-transform',
+                      config?.useMockProvider ? 'translate-x-6' : 'translate-x-1'
+                    )}
+                  />
+                </button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -287,7 +496,7 @@ export default function LLMConfigPage() {
                 ? 'Loading configuration...'
                 : models.length > 0
                   ? `${models.length} models available, ${enabledModels.length} enabled`
-                  : 'Available models will be displayed here after connecting to OpenRouter'}
+                  : 'Available models will be displayed here after connecting a provider'}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -323,15 +532,15 @@ export default function LLMConfigPage() {
               ) : (
                 <>
                   <p className="text-sm text-muted-foreground">
-                    {config?.openRouterApiKey
+                    {hasAnyApiKey
                       ? 'Click refresh to load models'
-                      : 'Connect to OpenRouter to view available models'}
+                      : 'Connect a provider to view available models'}
                   </p>
                   <Button
                     variant="outline"
                     size="sm"
                     onClick={handleRefreshCatalog}
-                    disabled={!config?.openRouterApiKey || isFetchingCatalog}
+                    disabled={!hasAnyApiKey || isFetchingCatalog}
                   >
                     {isFetchingCatalog ? (
                       <>
@@ -353,7 +562,7 @@ export default function LLMConfigPage() {
             {isFetchingCatalog && models.length === 0 ? (
               <div className="border rounded-lg p-8 text-center">
                 <LoadingSpinner size="lg" className="mx-auto mb-4" />
-                <p className="text-muted-foreground">Loading models from OpenRouter...</p>
+                <p className="text-muted-foreground">Loading models...</p>
               </div>
             ) : models.length > 0 ? (
               <div className="border rounded-lg overflow-hidden">
@@ -377,6 +586,15 @@ export default function LLMConfigPage() {
                               <div>
                                 <div className="font-medium text-sm flex items-center gap-2">
                                   {model.name}
+                                  {model.provider === 'gemini' && (
+                                    <Badge variant="outline" className="text-xs">Gemini direct</Badge>
+                                  )}
+                                  {model.provider === 'local' && (
+                                    <Badge variant="outline" className="text-xs">Local</Badge>
+                                  )}
+                                  {model.provider === 'mock' && (
+                                    <Badge variant="outline" className="text-xs">Mock</Badge>
+                                  )}
                                   {isFlagshipModel(model.id) && (
                                     <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs bg-yellow-100 text-yellow-700" title="Flagship model - Auto-enabled">
                                       <Crown className="h-3 w-3" />
@@ -449,7 +667,7 @@ export default function LLMConfigPage() {
               <div className="border rounded-lg p-8 text-center">
                 <Key className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
                 <p className="text-muted-foreground">
-                  {config?.openRouterApiKey
+                  {hasAnyApiKey
                     ? 'Click "Load Catalog" to view available models'
                     : 'No models available. Please configure your API key first.'}
                 </p>
@@ -513,6 +731,29 @@ export default function LLMConfigPage() {
                 )}
               </div>
 
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  <Star className="inline h-4 w-4 mr-1" />
+                  Quality Grader Model
+                </label>
+                <select
+                  className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  disabled={jsonCapableModels.length === 0}
+                  value={config?.defaultGraderId || ''}
+                  onChange={(e) => setDefaultGrader(e.target.value)}
+                >
+                  <option value="">Same as judge model</option>
+                  {jsonCapableModels.map(model => (
+                    <option key={model.id} value={model.id}>
+                      {model.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Scores each FFA and Lazy Mode round so the best answer reflects measured quality. With no grader or judge set, rounds go ungraded
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium mb-2">
                   Default Refinement Rounds
@@ -529,6 +770,147 @@ export default function LLMConfigPage() {
             </div>
           </CardContent>
         </Card>
+
+        {/* Fallback Chains */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Shuffle className="h-5 w-5" />
+              Fallback Chains
+            </CardTitle>
+            <CardDescription>
+              Failed calls are retried with backoff first. If a model still fails, the call moves
+              to the next model in its role's chain and the model that answered is recorded.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              {MODEL_ROLES.map(role => {
+                const chain = config?.fallbackChains?.[role.value] || []
+                const candidates = (role.value === 'judge' ? jsonCapableModels : textCapableModels)
+                  .filter(model => !chain.includes(model.id))
+
+                return (
+                  <div key={role.value}>
+                    <label className="block text-sm font-medium">{role.label}</label>
+                    <p className="text-xs text-muted-foreground mb-2">{role.description}</p>
+                    {chain.length > 0 && (
+                      <ol className="space-y-1 mb-2">
+                        {chain.map((modelId, index) => (
+                          <li key={modelId} className="flex items-center gap-2 text-sm border rounded-md px-3 py-1">
+                            <span className="text-muted-foreground w-5">{index + 1}.</span>
+                            <span className="flex-1 truncate">
+                              {models.find(m => m.id === modelId)?.name || modelId}
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              disabled={index === 0}
+                              onClick={() => moveInChain(role.value, index, -1)}
+                            >
+                              <ArrowUp className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              disabled={index === chain.length - 1}
+                              onClick={() => moveInChain(role.value, index, 1)}
+                            >
+                              <ArrowDown className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0"
+                              onClick={() => removeFromChain(role.value, modelId)}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                    <select
+                      className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                      disabled={candidates.length === 0}
+                      value=""
+                      onChange={(e) => e.target.value && setFallbackChain(role.value, [...chain, e.target.value])}
+                    >
+                      <option value="">
+                        {chain.length === 0 ? 'No fallback - add a model' : 'Add another fallback model'}
+                      </option>
+                      {candidates.map(model => (
+                        <option key={model.id} value={model.id}>
+                          {model.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Spending Caps */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5" />
+              Spending Caps
+            </CardTitle>
+            <CardDescription>
+              Runs pause and ask before a call would go past a cap, and again each time spending passes another multiple of it. Leave a field empty for no cap.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <label htmlFor="perRunLimit" className="block text-sm font-medium mb-2">
+                    Per-Run Cap (USD)
+                  </label>
+                  <input
+                    id="perRunLimit"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={perRunLimit}
+                    onChange={(e) => setPerRunLimit(e.target.value)}
+                    placeholder="No cap"
+                    className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="dailyLimit" className="block text-sm font-medium mb-2">
+                    Daily Cap (USD)
+                  </label>
+                  <input
+                    id="dailyLimit"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={dailyLimit}
+                    onChange={(e) => setDailyLimit(e.target.value)}
+                    placeholder="No cap"
+                    className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">
+                  Spent today in this browser: {formatCost(costLedger.getDailySpend())}
+                </p>
+                <Button onClick={handleSaveBudget} disabled={!hasUnsavedBudget}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Caps
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
       </div>
     </div>
   )
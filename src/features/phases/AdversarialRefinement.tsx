@@ -1,4 +1,4 @@
-import { useState } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Textarea } from '@/components/ui/textarea'
@@ -6,8 +6,21 @@ import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
 import { toast } from '@/hooks/use-toast'
-import { openRouterService } from '@/services/openrouter'
+import { llmService } from '@/services/llm'
+import { getErrorTitle, isCancellationError } from '@/services/llm-errors'
+import { costLedger } from '@/services/cost-ledger'
+import { useLLMConfigStore } from '@/store/llm-config-hybrid'
 import LoadingSpinner from '@/components/ui/loading-spinner'
 import {
   Play,
@@ -19,23 +32,39 @@ import {
   ChevronRight,
   FileText,
   Sparkles,
-  Timer
+  Timer,
+  X,
+  PlayCircle
 } from 'lucide-react'
 import { Project, RefinementRound } from '@/types'
 import { cn } from '@/utils/cn'
+import { AdversarialRefinementRunner, type AdversarialRefinementCheckpoint } from '@/engine/adversarial-refinement'
 
 interface AdversarialRefinementProps {
   project: Project
   onComplete: (rounds: RefinementRound[]) => void
-  onUpdate: (rounds: RefinementRound[]) => void
+  /** Called when a fresh run starts with the prompt the user entered */
+  onStart: (prompt: string) => void
+  /** Called after every model call with the rounds so far, to save as a checkpoint */
+  onUpdate: (rounds: RefinementRound[], pendingCritique?: string) => void
+  onPause: () => void
+  /** Called when a run starts or ends in this tab, so the page can keep the run's heartbeat */
+  onRunningChange: (running: boolean) => void
+  /** The phase is running in another tab or window; starting it here would run it twice */
+  runningElsewhere?: boolean
 }
 
 export default function AdversarialRefinement({
   project,
   onComplete,
-  onUpdate
+  onStart,
+  onUpdate,
+  onPause,
+  onRunningChange,
+  runningElsewhere = false
 }: AdversarialRefinementProps) {
-  const [prompt, setPrompt] = useState('')
+  const { config } = useLLMConfigStore()
+  const [prompt, setPrompt] = useState(project.originalQuestion || '')
   const [rounds, setRounds] = useState<RefinementRound[]>(
     project.phases?.refinement?.rounds || []
   )
@@ -43,9 +72,29 @@ export default function AdversarialRefinement({
   const [isRunning, setIsRunning] = useState(false)
   const [, setIsRefining] = useState(false)
   const [selectedRound, setSelectedRound] = useState<number | null>(null)
+  const [confirmRestart, setConfirmRestart] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // Rounds an interrupted or cancelled run saved
+  const checkpoint = project.phases?.refinement
+  const canResume = !isRunning && !runningElsewhere && checkpoint?.status === 'in_progress' && checkpoint.rounds.length > 0
+
+  // Answers and verdicts from later phases were produced from the current refined prompt
+  const hasLaterResults = !!(
+    project.phases?.competition.generations.length ||
+    project.phases?.judging.results.length ||
+    project.results
+  )
+
+  useEffect(() => {
+    onRunningChange(isRunning)
+  }, [isRunning])
 
-  const handleStartRefinement = async () => {
-    if (!prompt.trim()) {
+  // A run must not outlive the page: reopening it would offer to resume a run still going
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  const runRefinement = async (resumeFrom?: AdversarialRefinementCheckpoint) => {
+    if (!resumeFrom && !prompt.trim()) {
       toast({
         title: 'Validation Error',
         description: 'Please enter a prompt to refine',
@@ -54,176 +103,99 @@ export default function AdversarialRefinement({
       return
     }
 
+    if (!resumeFrom) onStart(prompt)
+
     setIsRunning(true)
     setIsRefining(true)
     setCurrentRound(0)
-    setRounds([])
+    setRounds(resumeFrom?.rounds || [])
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    const runId = costLedger.startRun()
+    const runner = new AdversarialRefinementRunner({
+      llm: llmService,
+      config,
+      signal: controller.signal,
+      runId,
+      usageScope: project.id,
+      prompt: resumeFrom ? resumeFrom.rounds[0].response : prompt,
+      refinerModelId: project.refinerModelId,
+      maxRounds: project.maxRefinementRounds,
+      ...(resumeFrom ? { resumeFrom } : {})
+    })
+    let latestRounds = resumeFrom?.rounds || []
+    runner.on('round:start', ({ roundNumber }) => setCurrentRound(roundNumber))
+    runner.on('critique:complete', ({ critique }) => {
+      if (latestRounds.length > 0) onUpdate(latestRounds, critique)
+    })
+    runner.on('round:complete', ({ round, rounds }) => {
+      latestRounds = rounds
+      setRounds(rounds)
+      if (round.roundNumber > 0) onUpdate(rounds)
+    })
 
     try {
-      // Create initial round with the original prompt
-      const initialRound: RefinementRound = {
-        roundNumber: 0,
-        response: prompt,
-        critique: 'Initial prompt - no critique',
-        improvements: [],
-        timestamp: new Date().toISOString()
-      }
-
-      let currentRounds = [initialRound]
-      setRounds(currentRounds)
-
-      // Perform refinement rounds
-      for (let round = 1; round <= project.maxRefinementRounds; round++) {
-        setCurrentRound(round)
-
-        // Generate critique of the previous response
-        const critiquePrompt = `You are a critical reviewer. Analyze this response and provide specific, actionable feedback for improvement:
-
-Response to critique:
-"""
-${currentRounds[round - 1].response}
-"""
-
-Provide a detailed critique focusing on:
-1. Accuracy and factual correctness
-2. Completeness and coverage
-3. Clarity and structure
-4. Relevance to the original request
-
-Be specific and constructive. Format your critique as clear, numbered points.`
-
-        const critiqueResponse = await openRouterService.createChatCompletion({
-          model: project.refinerModelId,
-          messages: [
-            { role: 'system', content: 'You are a critical reviewer providing constructive feedback.' },
-            { role: 'user', content: critiquePrompt }
-          ],
-          max_tokens: 500,
-          temperature: 0.7
-        })
-
-        const critique = critiqueResponse.choices[0]?.message?.content || 'No critique generated'
-
-        // Generate refined response based on critique
-        const refinementPrompt = `You are refining a response based on critical feedback. Here's the context:
-
-Original request:
-"""
-${prompt}
-"""
-
-Previous response:
-"""
-${currentRounds[round - 1].response}
-"""
-
-Critique and feedback:
-"""
-${critique}
-"""
+      const { rounds: completedRounds, stabilizedAtRound } = await runner.run()
 
-Please provide an improved version of the response that addresses all the feedback points while maintaining accuracy and completeness. Make specific improvements based on the critique.`
-
-        const refinedResponse = await openRouterService.createChatCompletion({
-          model: project.refinerModelId,
-          messages: [
-            { role: 'system', content: 'You are an expert assistant refining responses based on feedback.' },
-            { role: 'user', content: refinementPrompt }
-          ],
-          max_tokens: 1000,
-          temperature: 0.7
+      if (stabilizedAtRound !== undefined) {
+        toast({
+          title: 'Refinement Complete',
+          description: `Stopped at round ${stabilizedAtRound} - response has stabilized`,
         })
-
-        const refinedText = refinedResponse.choices[0]?.message?.content || 'No refined response generated'
-
-        // Extract improvements made
-        const improvements = extractImprovements(
-          currentRounds[round - 1].response,
-          refinedText,
-          critique
-        )
-
-        const newRound: RefinementRound = {
-          roundNumber: round,
-          response: refinedText,
-          critique: critique,
-          improvements: improvements,
-          timestamp: new Date().toISOString()
-        }
-
-        currentRounds = [...currentRounds, newRound]
-        setRounds(currentRounds)
-        onUpdate(currentRounds)
-
-        // Check if we should stop early (if response hasn't changed much)
-        if (round > 1 && isResponseSimilar(currentRounds[round - 1].response, refinedText)) {
-          toast({
-            title: 'Refinement Complete',
-            description: `Stopped at round ${round} - response has stabilized`,
-          })
-          break
-        }
       }
 
-      onComplete(currentRounds)
+      onComplete(completedRounds)
 
       toast({
         title: 'Refinement Complete',
-        description: `Completed ${currentRounds.length - 1} refinement rounds`,
+        description: `Completed ${completedRounds.length - 1} refinement rounds`,
       })
     } catch (error) {
+      // Rounds finished before the cancel are kept, but the phase stays open
+      if (isCancellationError(error)) {
+        onPause()
+        return
+      }
+
       console.error('Refinement failed:', error)
       toast({
-        title: 'Refinement Failed',
+        title: getErrorTitle(error, 'Refinement Failed'),
         description: error instanceof Error ? error.message : 'An error occurred during refinement',
         variant: 'destructive'
       })
     } finally {
       setIsRunning(false)
       setIsRefining(false)
+      abortControllerRef.current = null
+      costLedger.finishRun(runId)
     }
   }
 
-  const extractImprovements = (
-    previousResponse: string,
-    newResponse: string,
-    critique: string
-  ): string[] => {
-    const improvements: string[] = []
-
-    // Simple heuristic to identify improvements
-    if (newResponse.length > previousResponse.length * 1.1) {
-      improvements.push('Added more detail and explanation')
-    }
-
-    if (newResponse.includes('```') && !previousResponse.includes('```')) {
-      improvements.push('Added code examples or formatted content')
-    }
-
-    if (newResponse.split('\n').length > previousResponse.split('\n').length) {
-      improvements.push('Improved structure and formatting')
+  const handleStartRefinement = () => {
+    if (hasLaterResults) {
+      setConfirmRestart(true)
+      return
     }
+    runRefinement()
+  }
 
-    // Extract specific improvements from critique
-    const critiqueLines = critique.split('\n')
-    critiqueLines.forEach(line => {
-      if (line.match(/should|could|needs to|missing/i)) {
-        improvements.push(`Addressed: ${line.trim().substring(0, 100)}...`)
-      }
+  const handleResume = () => {
+    if (!checkpoint) return
+    runRefinement({
+      rounds: checkpoint.rounds,
+      ...(checkpoint.pendingCritique !== undefined ? { critique: checkpoint.pendingCritique } : {})
     })
-
-    return improvements.slice(0, 5) // Limit to 5 improvements
   }
 
-  const isResponseSimilar = (response1: string, response2: string): boolean => {
-    // Simple similarity check - can be improved with better algorithms
-    const words1 = response1.toLowerCase().split(/\s+/)
-    const words2 = response2.toLowerCase().split(/\s+/)
-
-    const commonWords = words1.filter(word => words2.includes(word))
-    const similarity = commonWords.length / Math.max(words1.length, words2.length)
-
-    return similarity > 0.95 // 95% similar
+  const handleCancel = () => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+      abortControllerRef.current = null
+      toast({
+        title: 'Refinement Cancelled',
+        description: 'The refinement process has been stopped',
+      })
+    }
   }
 
   const handleReset = () => {
@@ -265,10 +237,18 @@ Please provide an improved version of the response that addresses all the feedba
             />
           </div>
 
+          {canResume && (
+            <Button onClick={handleResume} className="w-full">
+              <PlayCircle className="h-4 w-4 mr-2" />
+              Resume from Round {checkpoint.rounds.length}/{project.maxRefinementRounds}
+            </Button>
+          )}
+
           <div className="flex items-center gap-4">
             <Button
               onClick={handleStartRefinement}
-              disabled={isRunning || !prompt.trim()}
+              disabled={isRunning || !prompt.trim() || runningElsewhere}
+              variant={canResume ? 'outline' : 'default'}
               className="flex-1"
             >
               {isRunning ? (
@@ -284,6 +264,16 @@ Please provide an improved version of the response that addresses all the feedba
               )}
             </Button>
 
+            {isRunning && (
+              <Button
+                variant="destructive"
+                onClick={handleCancel}
+              >
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+
             <Button
               variant="outline"
               onClick={handleReset}
@@ -355,11 +345,18 @@ Please provide an improved version of the response that addresses all the feedba
                         <div className="mt-1 text-xs text-muted-foreground">
                           {formatTimestamp(round.timestamp)}
                         </div>
-                        {round.improvements.length > 0 && (
-                          <div className="mt-2">
-                            <Badge variant="secondary" className="text-xs">
-                              {round.improvements.length} improvements
-                            </Badge>
+                        {(round.improvements.length > 0 || round.answeredBy) && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {round.improvements.length > 0 && (
+                              <Badge variant="secondary" className="text-xs">
+                                {round.improvements.length} improvements
+                              </Badge>
+                            )}
+                            {round.answeredBy && (
+                              <Badge variant="outline" className="text-xs" title="The refiner failed, so a fallback model wrote this round">
+                                Fallback: {round.answeredBy}
+                              </Badge>
+                            )}
                           </div>
                         )}
                       </button>
@@ -489,6 +486,22 @@ Please provide an improved version of the response that addresses all the feedba
           </CardContent>
         </Card>
       )}
+
+      <AlertDialog open={confirmRestart} onOpenChange={setConfirmRestart}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Start refinement over?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The competition answers and judging results were produced from the current refined prompt.
+              Starting over clears them, and Phases 2 and 3 run again on the new prompt.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep results</AlertDialogCancel>
+            <AlertDialogAction onClick={() => runRefinement()}>Clear and start over</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
\ No newline at end of file
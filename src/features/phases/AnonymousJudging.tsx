@@ -1,10 +1,12 @@
-import { useState } from 'react'
+import { useState, useRef, useEffect } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { toast } from '@/hooks/use-toast'
-import { openRouterService } from '@/services/openrouter'
+import { llmService } from '@/services/llm'
+import { getErrorTitle, isCancellationError } from '@/services/llm-errors'
+import { costLedger } from '@/services/cost-ledger'
 import LoadingSpinner from '@/components/ui/loading-spinner'
 import {
   Gavel,
@@ -19,32 +21,55 @@ import {
   FileText,
   Star,
   ChevronUp,
-  ChevronDown
+  ChevronDown,
+  X,
+  Users,
+  ShieldAlert,
+  PlayCircle
 } from 'lucide-react'
-import { Project, CompetitorGeneration, JudgingResult, JudgingCriteria } from '@/types'
+import { useLLMConfigStore } from '@/store/llm-config-hybrid'
+import {
+  Project,
+  CompetitorGeneration,
+  JudgingResult,
+  JudgeVerdict,
+  JudgingRunDetails,
+  PairwiseComparison
+} from '@/types'
 import { cn } from '@/utils/cn'
+import { AGGREGATION_METHODS, computeAgreement, describeAgreement } from '@/utils/judge-aggregation'
+import { positionConsistency } from '@/utils/pairwise-ranking'
+import { buildBiasReport, getUnjudgeableCompetitors } from '@/utils/judging-bias'
+import { JudgeOutputError } from '@/utils/judge-output'
+import {
+  AnonymousJudgingRunner,
+  type AnonymousJudgingCheckpoint,
+  countJudgments,
+  getJudgingSettings,
+  getPairs
+} from '@/engine/anonymous-judging'
 
 interface AnonymousJudgingProps {
   project: Project
   generations: CompetitorGeneration[]
-  onComplete: (results: JudgingResult[]) => void
-  onUpdate: (results: JudgingResult[]) => void
-}
-
-interface JudgingScore {
-  relevance: number
-  accuracy: number
-  completeness: number
-  clarity: number
-  totalScore: number
-  feedback: string
+  onComplete: (results: JudgingResult[], details: JudgingRunDetails) => void
+  /** Called after every judge call with the results so far, to save as a checkpoint */
+  onUpdate: (results: JudgingResult[], details: JudgingRunDetails) => void
+  onPause: () => void
+  /** Called when a run starts or ends in this tab, so the page can keep the run's heartbeat */
+  onRunningChange: (running: boolean) => void
+  /** The phase is running in another tab or window; starting it here would run it twice */
+  runningElsewhere?: boolean
 }
 
 export default function AnonymousJudging({
   project,
   generations,
   onComplete,
-  onUpdate
+  onUpdate,
+  onPause,
+  onRunningChange,
+  runningElsewhere = false
 }: AnonymousJudgingProps) {
   const [results, setResults] = useState<JudgingResult[]>(
     project.phases?.judging?.results || []
@@ -53,8 +78,34 @@ export default function AnonymousJudging({
   const [currentJudgingIndex, setCurrentJudgingIndex] = useState(0)
   const [revealIdentities, setRevealIdentities] = useState(false)
   const [selectedResult, setSelectedResult] = useState<number | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  const [completedJudgments, setCompletedJudgments] = useState(0)
+  const [comparisons, setComparisons] = useState<PairwiseComparison[]>(
+    project.phases?.judging?.comparisons || []
+  )
+  const { config, models } = useLLMConfigStore()
+  const judgingSettings = getJudgingSettings(project)
+  const { criteria, judgePanel, aggregation, excludeSameProvider } = judgingSettings
+  const judgingMode = judgingSettings.mode
+  const pairCount = getPairs(generations).length
+  const totalJudgments = countJudgments(generations.map(g => g.modelId), judgingSettings)
 
-  const handleStartJudging = async () => {
+  const getModelName = (modelId: string) =>
+    models.find(m => m.id === modelId)?.name || modelId
+
+  // Verdicts an interrupted or cancelled run saved
+  const checkpoint = project.phases?.judging
+  const canResume = !isJudging && !runningElsewhere && checkpoint?.status === 'in_progress' &&
+    (checkpoint.results.length > 0 || (checkpoint.comparisons?.length ?? 0) > 0)
+
+  useEffect(() => {
+    onRunningChange(isJudging)
+  }, [isJudging])
+
+  // A run must not outlive the page: reopening it would offer to resume a run still going
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  const runJudging = async (resumeFrom?: AnonymousJudgingCheckpoint) => {
     if (generations.length === 0) {
       toast({
         title: 'No Generations Available',
@@ -64,188 +115,129 @@ export default function AnonymousJudging({
       return
     }
 
+    const unjudgeable = getUnjudgeableCompetitors(
+      judgePanel,
+      generations.map(g => g.modelId),
+      judgingMode,
+      excludeSameProvider
+    )
+    if (unjudgeable.length > 0) {
+      toast({
+        title: 'No Eligible Judge',
+        description: `Every judge shares a provider with ${unjudgeable.map(getModelName).join(', ')}. Add a judge from another provider or allow same-provider judges.`,
+        variant: 'destructive'
+      })
+      return
+    }
+
     setIsJudging(true)
-    setResults([])
+    setResults(resumeFrom?.results || [])
+    setComparisons(resumeFrom?.comparisons || [])
     setRevealIdentities(false)
-    const newResults: JudgingResult[] = []
+    setCompletedJudgments(0)
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    const runId = costLedger.startRun()
+    const runner = new AnonymousJudgingRunner({
+      llm: llmService,
+      config,
+      signal: controller.signal,
+      runId,
+      usageScope: project.id,
+      ...judgingSettings,
+      // The saved seed keeps a resumed run's presentation order
+      ...(resumeFrom && checkpoint?.shuffleSeed !== undefined ? { shuffleSeed: checkpoint.shuffleSeed } : {}),
+      generations,
+      models,
+      ...(resumeFrom ? { resumeFrom } : {})
+    })
+    runner.on('step', ({ index }) => setCurrentJudgingIndex(index))
+    runner.on('judgment', ({ completed }) => setCompletedJudgments(completed))
+    runner.on('judgment:failed', ({ judgeModelId, modelIds, error }) => {
+      if (error instanceof JudgeOutputError) {
+        console.error(`Judge ${judgeModelId} returned an invalid verdict for model ${modelIds[0]}:`, error.problems)
+      } else {
+        console.error(`Judge ${judgeModelId} failed for ${modelIds.join(' vs ')}:`, error)
+      }
+    })
+
+    // Latest partial results, kept so a cancelled run still shows what was judged
+    let latestResults: JudgingResult[] = resumeFrom?.results || []
+    runner.on('update', ({ results: partialResults, details }) => {
+      latestResults = partialResults
+      if (details.comparisons) setComparisons(details.comparisons)
+      onUpdate(partialResults, details)
+    })
 
     try {
-      // Shuffle generations for anonymous judging
-      const shuffledGenerations = [...generations].sort(() => Math.random() - 0.5)
-
-      for (let i = 0; i < shuffledGenerations.length; i++) {
-        setCurrentJudgingIndex(i + 1)
-        const generation = shuffledGenerations[i]
-
-        // Create judging prompt with weighted criteria
-        const judgingPrompt = createJudgingPrompt(generation.response, project.judgingCriteria)
-
-        try {
-          // Get judgment from judge model
-          const judgmentResponse = await openRouterService.createChatCompletion({
-            model: project.judgeModelId,
-            messages: [
-              {
-                role: 'system',
-                content: `You are an impartial judge evaluating AI-generated responses.
-                You must provide scores and feedback in valid JSON format.
-                Be objective, fair, and consistent in your evaluations.`
-              },
-              {
-                role: 'user',
-                content: judgingPrompt
-              }
-            ],
-            max_tokens: 800,
-            temperature: 0.3,
-            response_format: { type: 'json_object' } // Request JSON response
-          })
-
-          const judgmentText = judgmentResponse.choices[0]?.message?.content || '{}'
-
-          // Parse the JSON response
-          let scores: JudgingScore
-          try {
-            const parsed = JSON.parse(judgmentText)
-            scores = {
-              relevance: parsed.relevance || 0,
-              accuracy: parsed.accuracy || 0,
-              completeness: parsed.completeness || 0,
-              clarity: parsed.clarity || 0,
-              totalScore: 0,
-              feedback: parsed.feedback || 'No feedback provided'
-            }
-
-            // Calculate weighted total score
-            scores.totalScore = calculateWeightedScore(scores, project.judgingCriteria)
-          } catch (parseError) {
-            console.error('Failed to parse judgment:', parseError)
-            // Fallback scoring if JSON parsing fails
-            scores = {
-              relevance: 70,
-              accuracy: 70,
-              completeness: 70,
-              clarity: 70,
-              totalScore: 70,
-              feedback: 'Error parsing judgment response'
-            }
-          }
-
-          const result: JudgingResult = {
-            modelId: generation.modelId,
-            modelName: generation.modelName,
-            scores: {
-              relevance: scores.relevance,
-              accuracy: scores.accuracy,
-              completeness: scores.completeness,
-              clarity: scores.clarity
-            },
-            totalScore: scores.totalScore,
-            feedback: scores.feedback,
-            rank: 0, // Will be calculated after all judging is complete
-            timestamp: new Date().toISOString()
-          }
-
-          newResults.push(result)
-          onUpdate(newResults)
-
-        } catch (error) {
-          console.error(`Judging failed for model ${generation.modelId}:`, error)
-
-          // Add a failed result
-          const failedResult: JudgingResult = {
-            modelId: generation.modelId,
-            modelName: generation.modelName,
-            scores: {
-              relevance: 0,
-              accuracy: 0,
-              completeness: 0,
-              clarity: 0
-            },
-            totalScore: 0,
-            feedback: `Judging failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            rank: 0,
-            timestamp: new Date().toISOString()
-          }
-
-          newResults.push(failedResult)
-          onUpdate(newResults)
-        }
+      const { results: rankedResults, details, failedComparisons } = await runner.run()
+
+      if (failedComparisons > 0) {
+        toast({
+          title: 'Some Comparisons Failed',
+          description: `${failedComparisons} comparison${failedComparisons === 1 ? '' : 's'} could not be judged and were left out of the ranking`,
+          variant: 'destructive'
+        })
       }
 
-      // Calculate rankings
-      const rankedResults = calculateRankings(newResults)
       setResults(rankedResults)
-      onComplete(rankedResults)
+      onComplete(rankedResults, details)
 
       toast({
         title: 'Judging Complete',
-        description: `Evaluated ${rankedResults.length} responses`,
+        description: judgingMode === 'pairwise'
+          ? `Ranked ${rankedResults.length} responses from ${details.comparisons?.length || 0} pairwise comparisons`
+          : judgePanel.length > 1
+            ? `Evaluated ${rankedResults.length} responses with a ${judgePanel.length}-judge panel`
+            : `Evaluated ${rankedResults.length} responses`,
       })
 
     } catch (error) {
+      if (isCancellationError(error)) {
+        setResults(latestResults)
+        onPause()
+        return
+      }
+
       console.error('Judging failed:', error)
       toast({
-        title: 'Judging Failed',
+        title: getErrorTitle(error, 'Judging Failed'),
         description: error instanceof Error ? error.message : 'An error occurred during judging',
         variant: 'destructive'
       })
     } finally {
       setIsJudging(false)
       setCurrentJudgingIndex(0)
+      abortControllerRef.current = null
+      costLedger.finishRun(runId)
     }
   }
 
-  const createJudgingPrompt = (response: string, criteria: JudgingCriteria): string => {
-    return `Please evaluate the following AI-generated response based on the specified criteria and weights.
-
-Response to evaluate:
-"""
-${response}
-"""
-
-Evaluation Criteria and Weights:
-- Relevance (${criteria.relevance}%): How well does the response address the original request?
-- Accuracy (${criteria.accuracy}%): Is the information factually correct and precise?
-- Completeness (${criteria.completeness}%): Does the response thoroughly cover all aspects?
-- Clarity (${criteria.clarity}%): Is the response well-structured and easy to understand?
-
-Please provide your evaluation in the following JSON format:
-{
-  "relevance": [score 0-100],
-  "accuracy": [score 0-100],
-  "completeness": [score 0-100],
-  "clarity": [score 0-100],
-  "feedback": "[Detailed feedback explaining the scores and key strengths/weaknesses]"
-}
+  const handleStartJudging = () => runJudging()
 
-Be objective and consistent in your scoring. Consider the weights when determining the overall quality.`
+  const handleResume = () => {
+    if (!checkpoint) return
+    runJudging({
+      results: checkpoint.results,
+      ...(checkpoint.comparisons ? { comparisons: checkpoint.comparisons } : {})
+    })
   }
 
-  const calculateWeightedScore = (scores: JudgingScore, criteria: JudgingCriteria): number => {
-    const weightedScore =
-      (scores.relevance * criteria.relevance / 100) +
-      (scores.accuracy * criteria.accuracy / 100) +
-      (scores.completeness * criteria.completeness / 100) +
-      (scores.clarity * criteria.clarity / 100)
-
-    return Math.round(weightedScore)
-  }
-
-  const calculateRankings = (results: JudgingResult[]): JudgingResult[] => {
-    // Sort by total score (descending)
-    const sorted = [...results].sort((a, b) => b.totalScore - a.totalScore)
-
-    // Assign ranks
-    return sorted.map((result, index) => ({
-      ...result,
-      rank: index + 1
-    }))
+  const handleCancel = () => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+      abortControllerRef.current = null
+      toast({
+        title: 'Judging Cancelled',
+        description: 'The judging process has been stopped',
+      })
+    }
   }
 
   const getProgressValue = () => {
-    if (generations.length === 0) return 0
-    return (currentJudgingIndex / generations.length) * 100
+    if (totalJudgments === 0) return 0
+    return (completedJudgments / totalJudgments) * 100
   }
 
   const getRankBadge = (rank: number) => {
@@ -268,6 +260,37 @@ Be objective and consistent in your scoring. Consider the weights when determini
     return 'text-red-600 dark:text-red-400'
   }
 
+  // Panel statistics over whatever results are on screen
+  const verdictsByAnswer: Record<string, JudgeVerdict[]> = Object.fromEntries(
+    results
+      .filter(r => r.judgeScores && r.judgeScores.length > 0)
+      .map(r => [r.modelId, r.judgeScores as JudgeVerdict[]])
+  )
+  const resultJudges = [...new Set(
+    Object.values(verdictsByAnswer).flatMap(verdicts => verdicts.map(v => v.judgeModelId))
+  )]
+  const agreement = computeAgreement(verdictsByAnswer)
+  const agreementLevel = describeAgreement(agreement.krippendorffAlpha)
+  const consensusWinner = results.find(r => r.rank === 1)
+
+  // Judges whose own top-scored answer is the consensus winner
+  const judgesBackingWinner = resultJudges.filter(judgeId => {
+    const judged = Object.entries(verdictsByAnswer)
+      .map(([answerId, verdicts]) => ({ answerId, verdict: verdicts.find(v => v.judgeModelId === judgeId) }))
+      .filter(entry => entry.verdict)
+    const best = Math.max(...judged.map(entry => entry.verdict!.totalScore))
+    return judged.some(entry => entry.answerId === consensusWinner?.modelId && entry.verdict!.totalScore === best)
+  }).length
+
+  const biasReport = buildBiasReport(judgingMode, results, comparisons)
+  const shuffleSeed = project.phases?.judging?.shuffleSeed
+
+  // Unscored answers have no meaningful total, so keep them out of the summary statistics
+  const scoredResults = results.filter(r => !r.unscored)
+
+  const formatMetric = (value: number | null) => value === null ? 'n/a' : value.toFixed(2)
+  const aggregationLabel = AGGREGATION_METHODS.find(m => m.value === aggregation)?.label || aggregation
+
   return (
     <div className="space-y-6">
       {/* Control Panel */}
@@ -311,25 +334,60 @@ Be objective and consistent in your scoring. Consider the weights when determini
 
           {/* Judging Criteria Display */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-            {Object.entries(project.judgingCriteria).map(([criterion, weight]) => (
-              <div key={criterion} className="p-3 bg-background border rounded-lg">
-                <p className="text-xs text-muted-foreground capitalize">{criterion}</p>
-                <p className="text-lg font-semibold">{weight}%</p>
+            {criteria.map(criterion => (
+              <div
+                key={criterion.id}
+                className="p-3 bg-background border rounded-lg"
+                title={criterion.description}
+              >
+                <p className="text-xs text-muted-foreground truncate">{criterion.name}</p>
+                <p className="text-lg font-semibold">{criterion.weight}%</p>
               </div>
             ))}
           </div>
 
+          {/* Judge Panel */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">
+              {judgePanel.length > 1 ? 'Judge panel:' : 'Judge:'}
+            </span>
+            {judgePanel.map(judgeId => (
+              <Badge key={judgeId} variant="outline">{getModelName(judgeId)}</Badge>
+            ))}
+            {judgingMode === 'absolute' && judgePanel.length > 1 && (
+              <Badge variant="secondary">{aggregationLabel} consensus</Badge>
+            )}
+            {judgingMode === 'pairwise' && (
+              <Badge variant="secondary">
+                Pairwise: {pairCount} pairs in both orderings, {totalJudgments} judgments
+              </Badge>
+            )}
+            {excludeSameProvider && (
+              <Badge variant="secondary">Same-provider judges excluded</Badge>
+            )}
+          </div>
+
+          {canResume && (
+            <Button onClick={handleResume} className="w-full" size="lg">
+              <PlayCircle className="h-4 w-4 mr-2" />
+              Resume Judging
+            </Button>
+          )}
+
           {/* Start Judging Button */}
           <Button
             onClick={handleStartJudging}
-            disabled={isJudging || generations.length === 0}
+            disabled={isJudging || generations.length === 0 || runningElsewhere}
+            variant={canResume ? 'outline' : 'default'}
             className="w-full"
             size="lg"
           >
             {isJudging ? (
               <>
                 <LoadingSpinner size="sm" className="mr-2" />
-                Judging Response {currentJudgingIndex}/{generations.length}...
+                {judgingMode === 'pairwise'
+                  ? `Comparing Pair ${currentJudgingIndex}/${pairCount}...`
+                  : `Judging Response ${currentJudgingIndex}/${generations.length}...`}
               </>
             ) : (
               <>
@@ -339,12 +397,23 @@ Be objective and consistent in your scoring. Consider the weights when determini
             )}
           </Button>
 
+          {isJudging && (
+            <Button
+              onClick={handleCancel}
+              variant="destructive"
+              className="w-full"
+            >
+              <X className="h-4 w-4 mr-2" />
+              Cancel Judging
+            </Button>
+          )}
+
           {/* Progress Indicator */}
           {isJudging && (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
                 <span>Judging Progress</span>
-                <span>{currentJudgingIndex}/{generations.length}</span>
+                <span>{completedJudgments}/{totalJudgments} judgments</span>
               </div>
               <Progress value={getProgressValue()} />
             </div>
@@ -385,6 +454,142 @@ Be objective and consistent in your scoring. Consider the weights when determini
             </CardContent>
           </Card>
 
+          {/* Panel Agreement */}
+          {agreement.judgeCount > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="h-5 w-5" />
+                  Judge Agreement
+                </CardTitle>
+                <CardDescription>
+                  How consistently the {agreement.judgeCount} judges ranked the responses
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="p-3 border rounded-lg">
+                    <p className="text-xs text-muted-foreground">Kendall's τ (mean pairwise)</p>
+                    <p className="text-2xl font-bold">{formatMetric(agreement.kendallTau)}</p>
+                  </div>
+                  <div className="p-3 border rounded-lg">
+                    <p className="text-xs text-muted-foreground">Krippendorff's α (interval)</p>
+                    <p className="text-2xl font-bold">{formatMetric(agreement.krippendorffAlpha)}</p>
+                  </div>
+                  <div className="p-3 border rounded-lg">
+                    <p className="text-xs text-muted-foreground">Judges backing the winner</p>
+                    <p className="text-2xl font-bold">{judgesBackingWinner}/{resultJudges.length}</p>
+                  </div>
+                </div>
+                <p className={cn(
+                  'mt-4 text-sm',
+                  agreementLevel === 'strong' && 'text-green-600 dark:text-green-400',
+                  agreementLevel === 'tentative' && 'text-yellow-600 dark:text-yellow-400',
+                  agreementLevel === 'weak' && 'text-red-600 dark:text-red-400'
+                )}>
+                  {agreementLevel === 'strong' && 'Judges agree strongly; the ranking is robust.'}
+                  {agreementLevel === 'tentative' && 'Judges broadly agree, but the ranking should be treated as tentative.'}
+                  {agreementLevel === 'weak' && 'Judges disagree; the winner may reflect one judge\'s preference.'}
+                  {agreementLevel === 'unknown' && 'Not enough overlapping scores to measure agreement.'}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Bias Report */}
+          {!isJudging && (biasReport.judges.length > 0 || shuffleSeed !== undefined) && (
+            <Card className={cn(biasReport.flagged && 'border-orange-500')}>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5" />
+                  Bias Report
+                </CardTitle>
+                <CardDescription>
+                  {judgingMode === 'pairwise'
+                    ? 'Checks whether a judge favours its own provider or whichever answer it sees first'
+                    : 'Checks whether a judge favours answers from its own provider'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  {shuffleSeed !== undefined && (
+                    <Badge variant="outline">Shuffle seed {shuffleSeed}</Badge>
+                  )}
+                  <Badge variant="outline">
+                    {excludeSameProvider ? 'Same-provider judges excluded' : 'Same-provider judges allowed'}
+                  </Badge>
+                </div>
+
+                {biasReport.judges.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-left text-muted-foreground">
+                          <th className="py-2 pr-4 font-medium">Judge</th>
+                          <th className="py-2 px-2 font-medium">Self-preference</th>
+                          {judgingMode === 'pairwise' && (
+                            <th className="py-2 px-2 font-medium">Answer A preference</th>
+                          )}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {biasReport.judges.map(judge => (
+                          <tr key={judge.judgeModelId} className="border-b last:border-0">
+                            <td className="py-2 pr-4">
+                              <p className="font-medium">{getModelName(judge.judgeModelId)}</p>
+                              <p className="text-xs text-muted-foreground">{judge.provider}</p>
+                            </td>
+                            <td className={cn('py-2 px-2', judge.selfPreference?.flagged && 'text-orange-600 dark:text-orange-400')}>
+                              {judge.selfPreference ? (
+                                <>
+                                  <p>
+                                    {judge.selfPreference.difference > 0 ? '+' : ''}{judge.selfPreference.difference}
+                                    {judgingMode === 'pairwise' ? ' pts win rate' : ' pts'}
+                                    {judge.selfPreference.flagged && ' (flagged)'}
+                                  </p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {judge.selfPreference.baseline === 'panel'
+                                      ? `vs. rest of panel, ${judge.selfPreference.samples} own-provider ${judgingMode === 'pairwise' ? 'comparisons' : 'answers'}`
+                                      : 'No other judge to compare against; may reflect real quality'}
+                                  </p>
+                                </>
+                              ) : (
+                                <span className="text-muted-foreground">No own-provider competitors</span>
+                              )}
+                            </td>
+                            {judgingMode === 'pairwise' && (
+                              <td className={cn('py-2 px-2', judge.position?.flagged && 'text-orange-600 dark:text-orange-400')}>
+                                {judge.position ? (
+                                  <>
+                                    <p>
+                                      {Math.round(judge.position.firstShare * 100)}% of decisive verdicts
+                                      {judge.position.flagged && ' (flagged)'}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {judge.position.decisive} non-tie comparisons
+                                    </p>
+                                  </>
+                                ) : (
+                                  <span className="text-muted-foreground">Only ties</span>
+                                )}
+                              </td>
+                            )}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {biasReport.flagged && (
+                  <p className="text-sm text-orange-600 dark:text-orange-400">
+                    At least one judge shows a systematic preference. Consider excluding same-provider judges or adding more judges to the panel.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Rankings Table */}
           <Card>
             <CardHeader>
@@ -418,22 +623,47 @@ Be objective and consistent in your scoring. Consider the weights when determini
                             <p className="font-medium">
                               {revealIdentities ? result.modelName : `Model ${String.fromCharCode(64 + result.rank)}`}
                             </p>
-                            <p className={cn('text-2xl font-bold mt-1', getScoreColor(result.totalScore))}>
-                              {result.totalScore}/100
-                            </p>
+                            {result.pairwise ? (
+                              <div className="mt-1">
+                                <p className={cn('text-2xl font-bold', getScoreColor(result.totalScore))}>
+                                  {result.pairwise.rating}
+                                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                                    95% CI {result.pairwise.ciLower}–{result.pairwise.ciUpper}
+                                  </span>
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {result.pairwise.wins}W · {result.pairwise.losses}L · {result.pairwise.ties}T
+                                </p>
+                              </div>
+                            ) : result.unscored ? (
+                              <Badge variant="destructive" className="mt-1">Unscored</Badge>
+                            ) : (
+                              <p className={cn('text-2xl font-bold mt-1', getScoreColor(result.totalScore))}>
+                                {result.totalScore}/100
+                              </p>
+                            )}
                           </div>
                         </div>
 
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                          {Object.entries(result.scores).map(([criterion, score]) => (
-                            <div key={criterion} className="text-center">
-                              <p className="text-xs text-muted-foreground capitalize">{criterion}</p>
-                              <p className={cn('text-sm font-medium', getScoreColor(score))}>
-                                {score}
-                              </p>
-                            </div>
-                          ))}
-                        </div>
+                        {result.pairwise ? (
+                          <div className="text-center">
+                            <p className="text-xs text-muted-foreground">Expected win rate</p>
+                            <p className={cn('text-sm font-medium', getScoreColor(result.totalScore))}>
+                              {result.totalScore}%
+                            </p>
+                          </div>
+                        ) : (
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            {criteria.map(criterion => (
+                              <div key={criterion.id} className="text-center">
+                                <p className="text-xs text-muted-foreground truncate">{criterion.name}</p>
+                                <p className={cn('text-sm font-medium', getScoreColor(result.scores[criterion.id] ?? 0))}>
+                                  {result.scores[criterion.id] ?? '—'}
+                                </p>
+                              </div>
+                            ))}
+                          </div>
+                        )}
 
                         <Button
                           variant="ghost"
@@ -461,6 +691,47 @@ Be objective and consistent in your scoring. Consider the weights when determini
                               <p className="text-sm text-muted-foreground whitespace-pre-wrap">
                                 {result.feedback}
                               </p>
+                              {result.judgeScores && result.judgeScores.length > 1 && (
+                                <div className="mt-3 space-y-1">
+                                  {result.judgeScores.map(verdict => (
+                                    <div key={verdict.judgeModelId} className="flex justify-between text-sm">
+                                      <span className="text-muted-foreground">
+                                        {getModelName(verdict.judgeModelId)}
+                                        {verdict.answeredBy && ` (answered by fallback ${getModelName(verdict.answeredBy)})`}
+                                      </span>
+                                      <span className={cn('font-medium', getScoreColor(verdict.totalScore))}>
+                                        {verdict.totalScore}/100
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                              {result.unscoredVerdicts?.map(unscored => (
+                                <div
+                                  key={unscored.judgeModelId}
+                                  className="mt-3 p-2 text-sm border border-red-200 dark:border-red-800 rounded"
+                                >
+                                  <p className="font-medium text-red-600 dark:text-red-400">
+                                    {getModelName(unscored.judgeModelId)} could not be scored after {unscored.repairAttempts} repair attempt{unscored.repairAttempts === 1 ? '' : 's'}
+                                  </p>
+                                  <ul className="mt-1 list-disc pl-5 text-muted-foreground">
+                                    {unscored.problems.map(problem => <li key={problem}>{problem}</li>)}
+                                  </ul>
+                                </div>
+                              ))}
+                              {[...(result.judgeScores || []), ...(result.unscoredVerdicts || [])]
+                                .filter(verdict => verdict.rawResponse)
+                                .map(verdict => (
+                                  <details key={`raw-${verdict.judgeModelId}`} className="mt-3 text-sm">
+                                    <summary className="cursor-pointer text-muted-foreground">
+                                      Raw reply from {getModelName(verdict.judgeModelId)}
+                                      {verdict.repairAttempts ? ` (after ${verdict.repairAttempts} repair attempt${verdict.repairAttempts === 1 ? '' : 's'})` : ''}
+                                    </summary>
+                                    <pre className="mt-2 p-2 bg-muted rounded text-xs whitespace-pre-wrap break-words">
+                                      {verdict.rawResponse}
+                                    </pre>
+                                  </details>
+                                ))}
                             </div>
                           </div>
                         </div>
@@ -484,7 +755,9 @@ Be objective and consistent in your scoring. Consider the weights when determini
                           : 'Model A'}
                       </p>
                       <p className="text-sm text-yellow-700 dark:text-yellow-300 mt-1">
-                        Score: {results.find(r => r.rank === 1)?.totalScore}/100
+                        {results.find(r => r.rank === 1)?.pairwise
+                          ? `Rating: ${results.find(r => r.rank === 1)?.pairwise?.rating}`
+                          : `Score: ${results.find(r => r.rank === 1)?.totalScore}/100`}
                       </p>
                     </div>
                   </div>
@@ -501,7 +774,7 @@ Be objective and consistent in your scoring. Consider the weights when determini
                         <p className="text-sm text-muted-foreground">Average Score</p>
                         <p className="text-2xl font-bold">
                           {Math.round(
-                            results.reduce((acc, r) => acc + r.totalScore, 0) / results.length
+                            scoredResults.reduce((acc, r) => acc + r.totalScore, 0) / Math.max(1, scoredResults.length)
                           )}
                         </p>
                       </div>
@@ -516,7 +789,7 @@ Be objective and consistent in your scoring. Consider the weights when determini
                       <div>
                         <p className="text-sm text-muted-foreground">Highest Score</p>
                         <p className="text-2xl font-bold">
-                          {Math.max(...results.map(r => r.totalScore))}
+                          {scoredResults.length > 0 ? Math.max(...scoredResults.map(r => r.totalScore)) : '—'}
                         </p>
                       </div>
                     </div>
@@ -530,8 +803,10 @@ Be objective and consistent in your scoring. Consider the weights when determini
                       <div>
                         <p className="text-sm text-muted-foreground">Score Range</p>
                         <p className="text-2xl font-bold">
-                          {Math.max(...results.map(r => r.totalScore)) -
-                            Math.min(...results.map(r => r.totalScore))}
+                          {scoredResults.length > 0
+                            ? Math.max(...scoredResults.map(r => r.totalScore)) -
+                              Math.min(...scoredResults.map(r => r.totalScore))
+                            : '—'}
                         </p>
                       </div>
                     </div>
@@ -552,6 +827,138 @@ Be objective and consistent in your scoring. Consider the weights when determini
               </div>
             </CardContent>
           </Card>
+
+          {/* Pairwise record */}
+          {judgingMode === 'pairwise' && comparisons.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Pairwise Record</CardTitle>
+                <CardDescription>
+                  Bradley-Terry ratings fitted to {comparisons.length} comparisons, with 95% bootstrap intervals
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {positionConsistency(comparisons) !== null && (
+                  <p className="text-sm text-muted-foreground">
+                    Position consistency: {Math.round((positionConsistency(comparisons) ?? 0) * 100)}% of pairs
+                    got the same verdict in both orderings
+                  </p>
+                )}
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 pr-4 font-medium">Rank</th>
+                        <th className="py-2 pr-4 font-medium">Model</th>
+                        <th className="py-2 px-2 font-medium text-center">Rating</th>
+                        <th className="py-2 px-2 font-medium text-center">95% CI</th>
+                        <th className="py-2 px-2 font-medium text-center">W</th>
+                        <th className="py-2 px-2 font-medium text-center">L</th>
+                        <th className="py-2 px-2 font-medium text-center">T</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...results]
+                        .filter(result => result.pairwise)
+                        .sort((a, b) => a.rank - b.rank)
+                        .map(result => (
+                          <tr key={result.modelId} className="border-b last:border-0">
+                            <td className="py-2 pr-4">#{result.rank}</td>
+                            <td className="py-2 pr-4 font-medium">
+                              {revealIdentities ? result.modelName : `Model ${String.fromCharCode(64 + result.rank)}`}
+                            </td>
+                            <td className="py-2 px-2 text-center font-bold">{result.pairwise!.rating}</td>
+                            <td className="py-2 px-2 text-center text-muted-foreground">
+                              {result.pairwise!.ciLower}–{result.pairwise!.ciUpper}
+                            </td>
+                            <td className="py-2 px-2 text-center">{result.pairwise!.wins}</td>
+                            <td className="py-2 px-2 text-center">{result.pairwise!.losses}</td>
+                            <td className="py-2 px-2 text-center">{result.pairwise!.ties}</td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Per-criterion breakdown */}
+          {judgingMode === 'absolute' && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Score Breakdown</CardTitle>
+                <CardDescription>
+                  Judge scores for each criterion, weighted into the total
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-muted-foreground">
+                        <th className="py-2 pr-4 font-medium">Rank</th>
+                        <th className="py-2 pr-4 font-medium">Model</th>
+                        {criteria.map(criterion => (
+                          <th
+                            key={criterion.id}
+                            className="py-2 px-2 font-medium text-center"
+                            title={criterion.description}
+                          >
+                            {criterion.name}
+                            <span className="block text-xs font-normal">{criterion.weight}%</span>
+                          </th>
+                        ))}
+                        {resultJudges.length > 1 && resultJudges.map(judgeId => (
+                          <th key={judgeId} className="py-2 px-2 font-medium text-center">
+                            {getModelName(judgeId)}
+                            <span className="block text-xs font-normal">judge total</span>
+                          </th>
+                        ))}
+                        <th className="py-2 pl-2 font-medium text-center">
+                          {resultJudges.length > 1 ? 'Consensus' : 'Total'}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...results]
+                        .sort((a, b) => a.rank - b.rank)
+                        .map(result => (
+                          <tr key={result.modelId} className="border-b last:border-0">
+                            <td className="py-2 pr-4">#{result.rank}</td>
+                            <td className="py-2 pr-4 font-medium">
+                              {revealIdentities ? result.modelName : `Model ${String.fromCharCode(64 + result.rank)}`}
+                            </td>
+                            {criteria.map(criterion => (
+                              <td
+                                key={criterion.id}
+                                className={cn('py-2 px-2 text-center', getScoreColor(result.scores[criterion.id] ?? 0))}
+                              >
+                                {result.scores[criterion.id] ?? '—'}
+                              </td>
+                            ))}
+                            {resultJudges.length > 1 && resultJudges.map(judgeId => {
+                              const verdict = result.judgeScores?.find(v => v.judgeModelId === judgeId)
+                              return (
+                                <td
+                                  key={judgeId}
+                                  className={cn('py-2 px-2 text-center', verdict && getScoreColor(verdict.totalScore))}
+                                >
+                                  {verdict ? verdict.totalScore : '—'}
+                                </td>
+                              )
+                            })}
+                            <td className={cn('py-2 pl-2 text-center font-bold', !result.unscored && getScoreColor(result.totalScore))}>
+                              {result.unscored ? '—' : result.totalScore}
+                            </td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </>
       )}
     </div>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -6,7 +6,9 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { toast } from '@/hooks/use-toast'
-import { openRouterService } from '@/services/openrouter'
+import { llmService } from '@/services/llm'
+import { getErrorTitle, isCancellationError } from '@/services/llm-errors'
+import { costLedger } from '@/services/cost-ledger'
 import { useLLMConfigStore } from '@/store/llm-config-hybrid'
 import LoadingSpinner from '@/components/ui/loading-spinner'
 import {
@@ -20,16 +22,25 @@ import {
   AlertCircle,
   Sparkles,
   BarChart3,
-  Clock
+  Clock,
+  X,
+  PlayCircle
 } from 'lucide-react'
 import { Project, CompetitorGeneration } from '@/types'
 import { cn } from '@/utils/cn'
+import { CompetitiveGenerationRunner } from '@/engine/competitive-generation'
 
 interface CompetitiveGenerationProps {
   project: Project
   refinedPrompt: string | null
   onComplete: (generations: CompetitorGeneration[]) => void
+  /** Called after every answer with the answers so far, to save as a checkpoint */
   onUpdate: (generations: CompetitorGeneration[]) => void
+  onPause: () => void
+  /** Called when a run starts or ends in this tab, so the page can keep the run's heartbeat */
+  onRunningChange: (running: boolean) => void
+  /** The phase is running in another tab or window; starting it here would run it twice */
+  runningElsewhere?: boolean
 }
 
 interface GenerationStats {
@@ -40,15 +51,19 @@ interface GenerationStats {
   estimatedCost: number
   status: 'pending' | 'generating' | 'completed' | 'failed'
   error?: string
+  answeredBy?: string // Fallback model that stood in for the competitor
 }
 
 export default function CompetitiveGeneration({
   project,
   refinedPrompt,
   onComplete,
-  onUpdate
+  onUpdate,
+  onPause,
+  onRunningChange,
+  runningElsewhere = false
 }: CompetitiveGenerationProps) {
-  const { models } = useLLMConfigStore()
+  const { config, models } = useLLMConfigStore()
   const [generations, setGenerations] = useState<CompetitorGeneration[]>(
     project.phases?.competition?.generations || []
   )
@@ -57,24 +72,41 @@ export default function CompetitiveGeneration({
   const [, ] = useState<number | null>(null)
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null)
   const [currentGeneratingModel, setCurrentGeneratingModel] = useState<string | null>(null)
+  const [streamingText, setStreamingText] = useState<Record<string, string>>({})
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // Answers an interrupted or cancelled run saved
+  const checkpoint = project.phases?.competition
+  const canResume = !isGenerating && !runningElsewhere && checkpoint?.status === 'in_progress' && checkpoint.generations.length > 0
 
-  // Initialize stats for competitor models
   useEffect(() => {
-    const initialStats: GenerationStats[] = project.competitorModelIds.map(modelId => {
+    onRunningChange(isGenerating)
+  }, [isGenerating])
+
+  // A run must not outlive the page: reopening it would offer to resume a run still going
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  // Initialize stats for competitor models, counting answers a resumed run already has
+  const getInitialStats = (completed: CompetitorGeneration[] = []): GenerationStats[] =>
+    project.competitorModelIds.map(modelId => {
       const model = models.find(m => m.id === modelId)
+      const generation = completed.find(g => g.modelId === modelId)
       return {
         modelId,
         modelName: model?.name || modelId,
-        responseLength: 0,
-        generationTime: 0,
-        estimatedCost: 0,
-        status: 'pending'
+        responseLength: generation?.response.length ?? 0,
+        generationTime: generation?.generationTime ?? 0,
+        estimatedCost: generation?.estimatedCost ?? 0,
+        status: generation ? 'completed' : 'pending',
+        answeredBy: generation?.answeredBy
       }
     })
-    setStats(initialStats)
+
+  useEffect(() => {
+    setStats(getInitialStats())
   }, [project.competitorModelIds, models])
 
-  const handleStartCompetition = async () => {
+  const runCompetition = async (completed?: CompetitorGeneration[]) => {
     if (!refinedPrompt) {
       toast({
         title: 'No Refined Prompt',
@@ -85,89 +117,61 @@ export default function CompetitiveGeneration({
     }
 
     setIsGenerating(true)
-    setGenerations([])
-
-    const newGenerations: CompetitorGeneration[] = []
-    const updatedStats = [...stats]
+    setGenerations(completed || [])
+    setStreamingText({})
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+
+    let newGenerations: CompetitorGeneration[] = completed || []
+    const updatedStats = getInitialStats(completed)
+    setStats([...updatedStats])
+
+    const runId = costLedger.startRun()
+    const runner = new CompetitiveGenerationRunner({
+      llm: llmService,
+      config,
+      signal: controller.signal,
+      runId,
+      usageScope: project.id,
+      prompt: refinedPrompt,
+      competitorModelIds: project.competitorModelIds,
+      models,
+      ...(completed ? { completed } : {})
+    })
+    runner.on('generation:start', ({ modelId, index }) => {
+      setCurrentGeneratingModel(modelId)
+      updatedStats[index].status = 'generating'
+      setStats([...updatedStats])
+    })
+    runner.on('generation:chunk', ({ modelId, chunk }) => {
+      setStreamingText(prev => ({
+        ...prev,
+        [modelId]: (prev[modelId] || '') + chunk
+      }))
+    })
+    runner.on('generation:complete', ({ index, generation, generations }) => {
+      newGenerations = generations
+      onUpdate(generations)
+
+      updatedStats[index] = {
+        ...updatedStats[index],
+        responseLength: generation.response.length,
+        generationTime: generation.generationTime,
+        estimatedCost: generation.estimatedCost,
+        status: 'completed',
+        answeredBy: generation.answeredBy
+      }
+      setStats([...updatedStats])
+    })
+    runner.on('generation:failed', ({ modelId, index, error }) => {
+      console.error(`Generation failed for ${modelId}:`, error)
+      updatedStats[index].status = 'failed'
+      updatedStats[index].error = error instanceof Error ? error.message : 'Generation failed'
+      setStats([...updatedStats])
+    })
 
     try {
-      // Generate responses from each competitor model
-      for (let i = 0; i < project.competitorModelIds.length; i++) {
-        const modelId = project.competitorModelIds[i]
-        const model = models.find(m => m.id === modelId)
-
-        if (!model) {
-          console.error(`Model ${modelId} not found`)
-          updatedStats[i].status = 'failed'
-          updatedStats[i].error = 'Model not found'
-          setStats([...updatedStats])
-          continue
-        }
-
-        setCurrentGeneratingModel(modelId)
-        updatedStats[i].status = 'generating'
-        setStats([...updatedStats])
-
-        const startTime = Date.now()
-
-        try {
-          // Generate response with the competitor model
-          const response = await openRouterService.createChatCompletion({
-            model: modelId,
-            messages: [
-              {
-                role: 'system',
-                content: 'You are a helpful AI assistant. Provide comprehensive, accurate, and well-structured responses.'
-              },
-              {
-                role: 'user',
-                content: refinedPrompt
-              }
-            ],
-            max_tokens: 1500,
-            temperature: 0.7
-          })
-
-          const generationTime = Date.now() - startTime
-          const responseText = response.choices[0]?.message?.content || 'No response generated'
-
-          // Calculate estimated cost
-          const inputTokens = refinedPrompt.length / 4 // Rough estimate
-          const outputTokens = responseText.length / 4
-          const inputCost = (inputTokens * (model.pricing?.input || 0)) / 1_000_000
-          const outputCost = (outputTokens * (model.pricing?.output || 0)) / 1_000_000
-          const totalCost = inputCost + outputCost
-
-          const generation: CompetitorGeneration = {
-            modelId,
-            modelName: model.name,
-            response: responseText,
-            generationTime,
-            tokenCount: outputTokens,
-            estimatedCost: totalCost,
-            timestamp: new Date().toISOString()
-          }
-
-          newGenerations.push(generation)
-          onUpdate(newGenerations)
-
-          // Update stats
-          updatedStats[i] = {
-            ...updatedStats[i],
-            responseLength: responseText.length,
-            generationTime,
-            estimatedCost: totalCost,
-            status: 'completed'
-          }
-          setStats([...updatedStats])
-
-        } catch (error) {
-          console.error(`Generation failed for ${modelId}:`, error)
-          updatedStats[i].status = 'failed'
-          updatedStats[i].error = error instanceof Error ? error.message : 'Generation failed'
-          setStats([...updatedStats])
-        }
-      }
+      newGenerations = await runner.run()
 
       setGenerations(newGenerations)
       onComplete(newGenerations)
@@ -186,15 +190,45 @@ export default function CompetitiveGeneration({
         })
       }
     } catch (error) {
+      // Keep the responses collected so far, but leave the phase open
+      if (isCancellationError(error)) {
+        updatedStats.forEach(stat => {
+          if (stat.status === 'generating') stat.status = 'pending'
+        })
+        setStats([...updatedStats])
+        setGenerations(newGenerations)
+        onPause()
+        return
+      }
+
       console.error('Competition failed:', error)
       toast({
-        title: 'Competition Failed',
+        title: getErrorTitle(error, 'Competition Failed'),
         description: error instanceof Error ? error.message : 'An error occurred during competition',
         variant: 'destructive'
       })
     } finally {
       setIsGenerating(false)
       setCurrentGeneratingModel(null)
+      abortControllerRef.current = null
+      costLedger.finishRun(runId)
+    }
+  }
+
+  const handleStartCompetition = () => runCompetition()
+
+  const handleResume = () => {
+    if (checkpoint) runCompetition(checkpoint.generations)
+  }
+
+  const handleCancel = () => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort()
+      abortControllerRef.current = null
+      toast({
+        title: 'Competition Cancelled',
+        description: 'Response generation has been stopped',
+      })
     }
   }
 
@@ -217,6 +251,10 @@ export default function CompetitiveGeneration({
     return `$${cost.toFixed(6)}`
   }
 
+  const getModelName = (modelId: string) => {
+    return models.find(m => m.id === modelId)?.name || modelId
+  }
+
   const getProgressValue = () => {
     const completed = stats.filter(s => s.status === 'completed').length
     return (completed / stats.length) * 100
@@ -261,10 +299,18 @@ export default function CompetitiveGeneration({
             </div>
           )}
 
+          {canResume && (
+            <Button onClick={handleResume} className="w-full" size="lg">
+              <PlayCircle className="h-4 w-4 mr-2" />
+              Resume ({checkpoint.generations.length}/{project.competitorModelIds.length} Answered)
+            </Button>
+          )}
+
           {/* Competition Button */}
           <Button
             onClick={handleStartCompetition}
-            disabled={isGenerating || !refinedPrompt}
+            disabled={isGenerating || !refinedPrompt || runningElsewhere}
+            variant={canResume ? 'outline' : 'default'}
             className="w-full"
             size="lg"
           >
@@ -281,6 +327,17 @@ export default function CompetitiveGeneration({
             )}
           </Button>
 
+          {isGenerating && (
+            <Button
+              onClick={handleCancel}
+              variant="destructive"
+              className="w-full"
+            >
+              <X className="h-4 w-4 mr-2" />
+              Cancel Competition
+            </Button>
+          )}
+
           {/* Progress Indicator */}
           {isGenerating && (
             <div className="space-y-3">
@@ -352,13 +409,25 @@ export default function CompetitiveGeneration({
                             <span className="text-muted-foreground">Est. Cost:</span>
                             <span>{formatCost(stat.estimatedCost)}</span>
                           </div>
+                          {stat.answeredBy && (
+                            <div className="flex items-center justify-between">
+                              <span className="text-muted-foreground">Fallback:</span>
+                              <span className="truncate">{getModelName(stat.answeredBy)}</span>
+                            </div>
+                          )}
                         </div>
                       )}
 
                       {stat.status === 'generating' && (
-                        <div className="flex items-center justify-center py-4">
-                          <LoadingSpinner size="sm" />
-                        </div>
+                        streamingText[stat.modelId] ? (
+                          <div className="text-xs text-muted-foreground whitespace-pre-wrap max-h-32 overflow-hidden flex flex-col justify-end">
+                            {streamingText[stat.modelId].slice(-400)}
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-center py-4">
+                            <LoadingSpinner size="sm" />
+                          </div>
+                        )
                       )}
 
                       {stat.status === 'failed' && stat.error && (
@@ -430,6 +499,12 @@ export default function CompetitiveGeneration({
                     </div>
                   </div>
 
+                  {gen.answeredBy && (
+                    <p className="text-sm text-muted-foreground">
+                      {gen.modelName} failed, so this response was written by its fallback, {getModelName(gen.answeredBy)}.
+                    </p>
+                  )}
+
                   {/* Response Content */}
                   <div className="relative">
                     <Button
@@ -20,10 +20,26 @@ import {
   CheckCircle,
   Brain,
   Zap,
-  Info
+  Info,
+  Plus,
+  Trash2,
+  RotateCcw
 } from 'lucide-react'
-import { Project, JudgingCriteria } from '@/types'
+import { Project, GradingCriterion, JudgingMode, ScoreAggregationMethod } from '@/types'
 import { cn } from '@/utils/cn'
+import {
+  DEFAULT_GRADING_CRITERIA,
+  MAX_GRADING_CRITERIA,
+  createCriterionId,
+  getTotalWeight,
+  validateCriteria
+} from '@/utils/grading-criteria'
+import { AGGREGATION_METHODS } from '@/utils/judge-aggregation'
+import { getUnjudgeableCompetitors } from '@/utils/judging-bias'
+import { createSeed } from '@/utils/random'
+import { DEFAULT_REPAIR_ATTEMPTS, MAX_REPAIR_ATTEMPTS } from '@/utils/judge-output'
+import { costLedger } from '@/services/cost-ledger'
+import { formatCostRange, planProjectRun } from '@/utils/cost-estimate'
 
 interface WizardStep {
   id: number
@@ -72,15 +88,29 @@ export default function NewProjectPage() {
     maxRefinementRounds: 3,
     refinerModelId: config?.defaultRefinerId || '',
     competitorModelIds: [] as string[],
-    judgeModelId: config?.defaultJudgeId || '',
-    judgingCriteria: {
-      relevance: 25,
-      accuracy: 25,
-      completeness: 25,
-      clarity: 25
-    } as JudgingCriteria
+    judgeModelIds: config?.defaultJudgeId ? [config.defaultJudgeId] : [] as string[],
+    aggregation: 'mean' as ScoreAggregationMethod,
+    mode: 'absolute' as JudgingMode,
+    excludeSameProviderJudges: false,
+    maxRepairAttempts: DEFAULT_REPAIR_ATTEMPTS,
+    criteria: DEFAULT_GRADING_CRITERIA
   })
 
+  // Every ordered pair of competitors, once per judge
+  const competitorCount = projectData.competitorModelIds.length
+  const pairwiseCallCount = competitorCount * (competitorCount - 1) * Math.max(1, projectData.judgeModelIds.length)
+
+  // The prompt is written later, so the description stands in for its length
+  const costEstimate = costLedger.estimate(planProjectRun({
+    question: projectData.description,
+    refinerModelId: projectData.refinerModelId,
+    rounds: projectData.maxRefinementRounds,
+    competitorModelIds: projectData.competitorModelIds,
+    judgeModelIds: projectData.judgeModelIds,
+    mode: projectData.mode,
+    criteriaCount: projectData.criteria.length,
+  }))
+
   // Get enabled models for selection
   const enabledModels = models.filter(model =>
     config?.enabledModelIds?.includes(model.id)
@@ -122,10 +152,34 @@ export default function NewProjectPage() {
         })
         return
       }
-      if (!projectData.judgeModelId) {
+      if (projectData.judgeModelIds.length === 0) {
+        toast({
+          title: 'Validation Error',
+          description: 'Please select at least one judge model',
+          variant: 'destructive'
+        })
+        return
+      }
+      const unjudgeable = getUnjudgeableCompetitors(
+        projectData.judgeModelIds,
+        projectData.competitorModelIds,
+        projectData.mode,
+        projectData.excludeSameProviderJudges
+      )
+      if (unjudgeable.length > 0) {
+        toast({
+          title: 'Validation Error',
+          description: `Every judge shares a provider with ${unjudgeable.map(id => models.find(m => m.id === id)?.name || id).join(', ')}. Add a judge from another provider or allow same-provider judges.`,
+          variant: 'destructive'
+        })
+        return
+      }
+    } else if (currentStep === 3) {
+      const criteriaError = validateCriteria(projectData.criteria)
+      if (criteriaError) {
         toast({
           title: 'Validation Error',
-          description: 'Please select a judge model',
+          description: criteriaError,
           variant: 'destructive'
         })
         return
@@ -148,16 +202,53 @@ export default function NewProjectPage() {
     }))
   }
 
-  const handleCriteriaChange = (criterion: keyof JudgingCriteria, value: number) => {
+  const handleJudgeToggle = (modelId: string) => {
     setProjectData(prev => ({
       ...prev,
-      judgingCriteria: {
-        ...prev.judgingCriteria,
-        [criterion]: value
+      judgeModelIds: prev.judgeModelIds.includes(modelId)
+        ? prev.judgeModelIds.filter(id => id !== modelId)
+        : [...prev.judgeModelIds, modelId]
+    }))
+  }
+
+  const handleCriterionChange = (id: string, updates: Partial<Omit<GradingCriterion, 'id'>>) => {
+    setProjectData(prev => ({
+      ...prev,
+      criteria: prev.criteria.map(criterion =>
+        criterion.id === id ? { ...criterion, ...updates } : criterion
+      )
+    }))
+  }
+
+  const handleAddCriterion = () => {
+    setProjectData(prev => {
+      const name = `Criterion ${prev.criteria.length + 1}`
+      return {
+        ...prev,
+        criteria: [
+          ...prev.criteria,
+          {
+            id: createCriterionId(name, prev.criteria.map(c => c.id)),
+            name,
+            description: '',
+            weight: Math.max(0, 100 - getTotalWeight(prev.criteria))
+          }
+        ]
       }
+    })
+  }
+
+  const handleRemoveCriterion = (id: string) => {
+    setProjectData(prev => ({
+      ...prev,
+      criteria: prev.criteria.filter(criterion => criterion.id !== id)
     }))
   }
 
+  const handleResetCriteria = () => {
+    setProjectData(prev => ({ ...prev, criteria: DEFAULT_GRADING_CRITERIA }))
+  }
+
   const handleCreate = async () => {
     setIsCreating(true)
 
@@ -169,8 +260,21 @@ export default function NewProjectPage() {
         maxRefinementRounds: projectData.maxRefinementRounds,
         refinerModelId: projectData.refinerModelId,
         competitorModelIds: projectData.competitorModelIds,
-        judgeModelId: projectData.judgeModelId,
-        judgingCriteria: projectData.judgingCriteria,
+        judgeModelId: projectData.judgeModelIds[0],
+        judgingConfig: {
+          judgeModelId: projectData.judgeModelIds[0],
+          judgeModelIds: projectData.judgeModelIds,
+          aggregation: projectData.aggregation,
+          mode: projectData.mode,
+          excludeSameProviderJudges: projectData.excludeSameProviderJudges,
+          shuffleSeed: createSeed(),
+          maxRepairAttempts: projectData.maxRepairAttempts,
+          criteria: projectData.criteria.map(criterion => ({
+            ...criterion,
+            name: criterion.name.trim(),
+            description: criterion.description.trim()
+          }))
+        },
         phases: {
           refinement: { status: 'pending', rounds: [] },
           competition: { status: 'pending', generations: [] },
@@ -198,9 +302,8 @@ export default function NewProjectPage() {
     }
   }
 
-  const getTotalWeight = () => {
-    return Object.values(projectData.judgingCriteria).reduce((sum, val) => sum + val, 0)
-  }
+  const totalWeight = getTotalWeight(projectData.criteria)
+  const criteriaError = validateCriteria(projectData.criteria)
 
   return (
     <div className="max-w-4xl mx-auto">
@@ -360,7 +463,7 @@ export default function NewProjectPage() {
                       />
                       <span className="flex-1">{model.name}</span>
                       <span className="text-xs text-muted-foreground">
-                        ${((model.pricing?.input || 0) / 1_000_000).toFixed(4)}/1K
+                        ${(Number(model.pricing?.prompt || 0) * 1_000_000).toFixed(2)}/M
                       </span>
                     </label>
                   ))}
@@ -370,37 +473,123 @@ export default function NewProjectPage() {
                 </p>
               </div>
 
-              {/* Judge Model */}
+              {/* Judge Panel */}
               <div>
-                <Label htmlFor="judge">
+                <Label>
                   <Gavel className="inline h-4 w-4 mr-1" />
-                  Judge Model (Phase 3) *
+                  Judge Panel (Phase 3) * - JSON support required
                 </Label>
+                {jsonCapableModels.length > 0 ? (
+                  <div className="mt-2 space-y-2 max-h-48 overflow-y-auto border rounded-lg p-3">
+                    {jsonCapableModels.map(model => (
+                      <label
+                        key={model.id}
+                        className="flex items-center gap-3 p-2 rounded hover:bg-muted cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={projectData.judgeModelIds.includes(model.id)}
+                          onChange={() => handleJudgeToggle(model.id)}
+                          className="rounded"
+                        />
+                        <span className="flex-1">{model.name}</span>
+                        <span className="text-xs text-green-600">JSON ✓</span>
+                      </label>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="mt-2 p-2 text-sm text-muted-foreground border rounded-lg">
+                    No JSON-capable models available. Enable models with JSON support in LLM Config.
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  Selected: {projectData.judgeModelIds.length} judge{projectData.judgeModelIds.length === 1 ? '' : 's'}.
+                  Using several judges shows whether the winner holds up across models.
+                </p>
+                <label className="flex items-center gap-2 mt-3 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={projectData.excludeSameProviderJudges}
+                    onChange={(e) => setProjectData(prev => ({
+                      ...prev,
+                      excludeSameProviderJudges: e.target.checked
+                    }))}
+                    className="rounded"
+                  />
+                  Don't let a judge score competitors from its own provider
+                </label>
+              </div>
+
+              <div>
+                <Label>Judge Repair Attempts</Label>
+                <div className="flex items-center gap-4 mt-2">
+                  <Slider
+                    min={0}
+                    max={MAX_REPAIR_ATTEMPTS}
+                    step={1}
+                    value={[projectData.maxRepairAttempts]}
+                    onValueChange={([value]) => setProjectData(prev => ({ ...prev, maxRepairAttempts: value }))}
+                    className="flex-1"
+                  />
+                  <span className="w-12 text-center font-medium">
+                    {projectData.maxRepairAttempts}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Times a judge is asked to fix a malformed reply before the answer is left unscored
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="judging-mode">Judging Mode</Label>
                 <Select
-                  value={projectData.judgeModelId}
-                  onValueChange={(value) => setProjectData(prev => ({ ...prev, judgeModelId: value }))}
+                  value={projectData.mode}
+                  onValueChange={(value) => setProjectData(prev => ({
+                    ...prev,
+                    mode: value as JudgingMode
+                  }))}
                 >
-                  <SelectTrigger className="mt-1">
-                    <SelectValue placeholder="Select a model for judging (JSON support required)" />
+                  <SelectTrigger id="judging-mode" className="mt-1">
+                    <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {jsonCapableModels.length > 0 ? (
-                      jsonCapableModels.map(model => (
-                        <SelectItem key={model.id} value={model.id}>
-                          <div className="flex items-center gap-2">
-                            <span>{model.name}</span>
-                            <span className="text-xs text-green-600">JSON ✓</span>
-                          </div>
-                        </SelectItem>
-                      ))
-                    ) : (
-                      <div className="p-2 text-sm text-muted-foreground">
-                        No JSON-capable models available. Enable models with JSON support in LLM Config.
-                      </div>
-                    )}
+                    <SelectItem value="absolute">Absolute scoring</SelectItem>
+                    <SelectItem value="pairwise">Pairwise comparison</SelectItem>
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {projectData.mode === 'pairwise'
+                    ? `Judges pick the better of two answers, in both orders, and competitors are ranked with Bradley-Terry ratings. Takes up to ${pairwiseCallCount} judge calls.`
+                    : 'Judges score each answer on its own against the criteria.'}
+                </p>
               </div>
+
+              {projectData.mode === 'absolute' && projectData.judgeModelIds.length > 1 && (
+                <div>
+                  <Label htmlFor="aggregation">Score Aggregation</Label>
+                  <Select
+                    value={projectData.aggregation}
+                    onValueChange={(value) => setProjectData(prev => ({
+                      ...prev,
+                      aggregation: value as ScoreAggregationMethod
+                    }))}
+                  >
+                    <SelectTrigger id="aggregation" className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AGGREGATION_METHODS.map(method => (
+                        <SelectItem key={method.value} value={method.value}>
+                          <div className="flex items-center gap-2">
+                            <span>{method.label}</span>
+                            <span className="text-xs text-muted-foreground">{method.description}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
           )}
 
@@ -415,43 +604,81 @@ export default function NewProjectPage() {
                       Configure Judging Weights
                     </p>
                     <p className="text-blue-700 dark:text-blue-300 mt-1">
-                      Adjust the importance of each criterion. Total should equal 100%.
+                      Name the criteria the judge should score, describe what each one means, and set their weights. Total must equal 100%.
                     </p>
                   </div>
                 </div>
               </div>
 
-              {Object.entries(projectData.judgingCriteria).map(([key, value]) => (
-                <div key={key}>
-                  <div className="flex items-center justify-between mb-2">
-                    <Label className="capitalize">{key}</Label>
-                    <span className="text-sm font-medium">{value}%</span>
+              {projectData.criteria.map(criterion => (
+                <div key={criterion.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={criterion.name}
+                      onChange={(e) => handleCriterionChange(criterion.id, { name: e.target.value })}
+                      placeholder="Criterion name"
+                      className="flex-1"
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={criterion.weight}
+                      onChange={(e) => handleCriterionChange(criterion.id, {
+                        weight: Math.min(100, Math.max(0, parseInt(e.target.value) || 0))
+                      })}
+                      className="w-20"
+                    />
+                    <span className="text-sm text-muted-foreground">%</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemoveCriterion(criterion.id)}
+                      disabled={projectData.criteria.length <= 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                   </div>
                   <Slider
                     min={0}
                     max={100}
                     step={5}
-                    value={[value]}
-                    onValueChange={([val]) => handleCriteriaChange(key as keyof JudgingCriteria, val)}
-                    className="mb-2"
+                    value={[criterion.weight]}
+                    onValueChange={([val]) => handleCriterionChange(criterion.id, { weight: val })}
+                  />
+                  <Input
+                    value={criterion.description}
+                    onChange={(e) => handleCriterionChange(criterion.id, { description: e.target.value })}
+                    placeholder="What should the judge look for? (e.g., 'Cites sources for factual claims')"
+                    className="text-xs"
                   />
-                  <p className="text-xs text-muted-foreground">
-                    {key === 'relevance' && 'How well the response addresses the prompt'}
-                    {key === 'accuracy' && 'Factual correctness and precision'}
-                    {key === 'completeness' && 'Thoroughness and coverage of the topic'}
-                    {key === 'clarity' && 'Clear communication and structure'}
-                  </p>
                 </div>
               ))}
 
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAddCriterion}
+                  disabled={projectData.criteria.length >= MAX_GRADING_CRITERIA}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Criterion
+                </Button>
+                <Button variant="ghost" size="sm" onClick={handleResetCriteria}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Reset to Defaults
+                </Button>
+              </div>
+
               <div className={cn(
                 'p-3 rounded-lg text-center',
-                getTotalWeight() === 100
+                !criteriaError
                   ? 'bg-green-50 dark:bg-green-950 text-green-700 dark:text-green-300'
                   : 'bg-yellow-50 dark:bg-yellow-950 text-yellow-700 dark:text-yellow-300'
               )}>
-                Total Weight: {getTotalWeight()}%
-                {getTotalWeight() !== 100 && ' (Should equal 100%)'}
+                Total Weight: {totalWeight}%
+                {criteriaError && ` (${criteriaError})`}
               </div>
             </div>
           )}
@@ -483,19 +710,59 @@ export default function NewProjectPage() {
                 </div>
 
                 <div className="flex justify-between py-2 border-b">
-                  <span className="text-muted-foreground">Judge Model</span>
+                  <span className="text-muted-foreground">
+                    {projectData.judgeModelIds.length > 1 ? 'Judge Panel' : 'Judge Model'}
+                  </span>
+                  <span className="font-medium text-right">
+                    {projectData.judgeModelIds.length > 0
+                      ? projectData.judgeModelIds
+                          .map(id => models.find(m => m.id === id)?.name || id)
+                          .join(', ')
+                      : 'Not selected'}
+                  </span>
+                </div>
+
+                {projectData.excludeSameProviderJudges && (
+                  <div className="flex justify-between py-2 border-b">
+                    <span className="text-muted-foreground">Same-provider Judges</span>
+                    <span className="font-medium">Excluded</span>
+                  </div>
+                )}
+
+                <div className="flex justify-between py-2 border-b">
+                  <span className="text-muted-foreground">Judging Mode</span>
                   <span className="font-medium">
-                    {models.find(m => m.id === projectData.judgeModelId)?.name || 'Not selected'}
+                    {projectData.mode === 'pairwise' ? 'Pairwise comparison' : 'Absolute scoring'}
+                  </span>
+                </div>
+
+                {projectData.mode === 'absolute' && projectData.judgeModelIds.length > 1 && (
+                  <div className="flex justify-between py-2 border-b">
+                    <span className="text-muted-foreground">Score Aggregation</span>
+                    <span className="font-medium">
+                      {AGGREGATION_METHODS.find(m => m.value === projectData.aggregation)?.label}
+                    </span>
+                  </div>
+                )}
+
+                <div className="flex justify-between py-2 border-b">
+                  <span className="text-muted-foreground">Estimated Cost</span>
+                  <span className="font-medium text-right">
+                    {formatCostRange(costEstimate)}
+                    <span className="block text-xs font-normal text-muted-foreground">
+                      {costEstimate.calls} calls
+                      {costEstimate.unpricedModelIds.length > 0 && ', excluding models without pricing'}
+                    </span>
                   </span>
                 </div>
 
                 <div className="py-2">
                   <span className="text-muted-foreground">Judging Criteria</span>
                   <div className="mt-2 space-y-1">
-                    {Object.entries(projectData.judgingCriteria).map(([key, value]) => (
-                      <div key={key} className="flex justify-between text-sm">
-                        <span className="capitalize text-muted-foreground">{key}</span>
-                        <span>{value}%</span>
+                    {projectData.criteria.map(criterion => (
+                      <div key={criterion.id} className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">{criterion.name}</span>
+                        <span>{criterion.weight}%</span>
                       </div>
                     ))}
                   </div>
@@ -530,7 +797,7 @@ export default function NewProjectPage() {
         ) : (
           <Button
             onClick={handleCreate}
-            disabled={isCreating || getTotalWeight() !== 100}
+            disabled={isCreating || !!criteriaError}
           >
             {isCreating ? (
               <>
@@ -1,22 +1,511 @@
-import { useParams } from 'react-router-dom'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import LoadingSpinner from '@/components/ui/loading-spinner'
+import { ExportResultsButton } from '@/components/ExportResultsButton'
+import { toast } from '@/hooks/use-toast'
+import { projectsService } from '@/services/projects'
+import { costLedger, addUsage } from '@/services/cost-ledger'
+import { useLLMConfigStore } from '@/store/llm-config-hybrid'
+import { buildProjectResults, getFinalAnswer } from '@/utils/project-results'
+import { buildProjectReport } from '@/utils/competition-report'
+import { exportProject, projectScoresCsv } from '@/utils/results-export'
+import { isRunAlive, RUN_HEARTBEAT_MS, RUN_LEASE_MS } from '@/utils/run-lease'
+import AdversarialRefinement from '@/features/phases/AdversarialRefinement'
+import CompetitiveGeneration from '@/features/phases/CompetitiveGeneration'
+import AnonymousJudging from '@/features/phases/AnonymousJudging'
+import { ChevronLeft, Brain, Zap, Gavel, CheckCircle, Trophy, AlertCircle, PauseCircle, Loader2 } from 'lucide-react'
+import {
+  Project,
+  RefinementRound,
+  CompetitorGeneration,
+  JudgingResult,
+  JudgingRunDetails
+} from '@/types'
+
+type PhaseKey = 'refinement' | 'competition' | 'judging'
+type ProjectPhases = NonNullable<Project['phases']>
+
+const emptyPhases: ProjectPhases = {
+  refinement: { status: 'pending', rounds: [] },
+  competition: { status: 'pending', generations: [] },
+  judging: { status: 'pending', results: [] }
+}
+
+const statusLabels: Record<Project['status'], string> = {
+  draft: 'Draft',
+  in_progress: 'In Progress',
+  refining: 'Phase 1: Refining',
+  competing: 'Phase 2: Competing',
+  judging: 'Phase 3: Judging',
+  paused: 'Paused',
+  failed: 'Failed',
+  completed: 'Completed',
+  complete: 'Completed'
+}
+
+const phaseLabels: Record<PhaseKey, string> = {
+  refinement: 'Refinement',
+  competition: 'Competition',
+  judging: 'Judging'
+}
+
+// Statuses a project has only while a phase is running in an open tab
+const runningStatuses: Project['status'][] = ['refining', 'competing', 'judging']
+
+/**
+ * Whether a phase was left mid-run, by a tab that may still be running it
+ */
+function isMidRun(project: Project, phases: ProjectPhases): boolean {
+  return runningStatuses.includes(project.status) &&
+    Object.values(phases).some(phase => phase.status === 'in_progress')
+}
+
+/**
+ * How far the paused phase got, for the resume banner
+ */
+function describeCheckpoint(project: Project, phases: ProjectPhases, phase: PhaseKey): string {
+  switch (phase) {
+    case 'refinement':
+      return `${Math.max(phases.refinement.rounds.length - 1, 0)} of ${project.maxRefinementRounds} refinement rounds are done`
+    case 'competition':
+      return `${phases.competition.generations.length} of ${project.competitorModelIds.length} competitors have answered`
+    case 'judging':
+      return phases.judging.comparisons?.length
+        ? `${phases.judging.comparisons.length} pairwise comparisons are done`
+        : `${phases.judging.results.length} of ${phases.competition.generations.length} answers have verdicts`
+  }
+}
+
+/**
+ * Pick the phase to show when the project is opened
+ */
+function getActivePhase(phases: ProjectPhases): PhaseKey {
+  if (phases.refinement.status !== 'completed') return 'refinement'
+  if (phases.competition.status !== 'completed') return 'competition'
+  return 'judging'
+}
 
 export default function ProjectDetailPage() {
   const { projectId } = useParams()
+  const navigate = useNavigate()
+  const { models, loadConfig } = useLLMConfigStore()
+  const [project, setProject] = useState<Project | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [activePhase, setActivePhase] = useState<PhaseKey>('refinement')
+  const [runningPhases, setRunningPhases] = useState<Partial<Record<PhaseKey, boolean>>>({})
+  const [runningElsewhere, setRunningElsewhere] = useState(false)
+  // Bumped when a fresh refinement clears the later phases, so they drop their old answers
+  const [laterPhasesKey, setLaterPhasesKey] = useState(0)
+  const runningHere = Object.values(runningPhases).some(Boolean)
 
-  return (
-    <div>
-      <h1 className="text-3xl font-bold mb-6">Project Details</h1>
-      <Card>
-        <CardHeader>
-          <CardTitle>Project #{projectId}</CardTitle>
-        </CardHeader>
+  // Phase components capture their callbacks when a run starts, so phase
+  // updates must merge into the latest project rather than a stale render
+  const projectRef = useRef<Project | null>(null)
+  projectRef.current = project
+
+  useEffect(() => {
+    loadConfig()
+  }, [loadConfig])
+
+  // A run still writing its heartbeat is going on in another tab and is left alone; one
+  // whose heartbeat lapsed lost its tab, and completed calls are checkpointed, so it can
+  // pick up where it stopped
+  const showProject = useCallback((loaded: Project) => {
+    const phases = loaded.phases || emptyPhases
+    const midRun = isMidRun(loaded, phases)
+    const interrupted = midRun && !isRunAlive(loaded.heartbeatAt)
+    setProject({ ...loaded, phases, ...(interrupted ? { status: 'paused' as const } : {}) })
+    setRunningElsewhere(midRun && !interrupted)
+
+    if (interrupted) {
+      projectsService.updateProject(loaded.id, { status: 'paused' })
+        .catch(error => console.error('Failed to mark the project paused:', error))
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!projectId) return
+
+    let cancelled = false
+    setLoading(true)
+
+    projectsService.getProject(projectId)
+      .then((loaded) => {
+        if (cancelled) return
+        if (loaded) {
+          showProject(loaded)
+          setActivePhase(getActivePhase(loaded.phases || emptyPhases))
+        } else {
+          setProject(null)
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load project:', error)
+        toast({
+          title: 'Failed to load project',
+          description: error instanceof Error ? error.message : 'Unknown error',
+          variant: 'destructive'
+        })
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [projectId, showProject])
+
+  // Check back on a run going on elsewhere until it finishes or its heartbeat lapses
+  useEffect(() => {
+    if (!projectId || !runningElsewhere) return
+
+    const timer = setInterval(() => {
+      projectsService.getProject(projectId)
+        .then(loaded => loaded && showProject(loaded))
+        .catch(error => console.error('Failed to refresh project:', error))
+    }, RUN_HEARTBEAT_MS)
+    return () => clearInterval(timer)
+  }, [projectId, runningElsewhere, showProject])
+
+  // Keep the heartbeat going while a phase runs in this tab
+  useEffect(() => {
+    if (!projectId || !runningHere) return
+
+    const beat = () => {
+      projectsService.updateProject(projectId, { heartbeatAt: Date.now() })
+        .catch(error => console.error('Failed to save the run heartbeat:', error))
+    }
+    beat()
+    const timer = setInterval(beat, RUN_HEARTBEAT_MS)
+    return () => clearInterval(timer)
+  }, [projectId, runningHere])
+
+  const setPhaseRunning = (phase: PhaseKey) => (running: boolean) => {
+    setRunningPhases(prev => prev[phase] === running ? prev : { ...prev, [phase]: running })
+  }
+
+  const persist = useCallback(async (updates: Partial<Project>) => {
+    if (!projectId) return
+
+    if (projectRef.current) {
+      projectRef.current = { ...projectRef.current, ...updates }
+    }
+    setProject(projectRef.current)
+
+    try {
+      await projectsService.updateProject(projectId, updates)
+    } catch (error) {
+      console.error('Failed to save project:', error)
+      toast({
+        title: 'Failed to save progress',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive'
+      })
+    }
+  }, [projectId])
+
+  // Phase components tag their calls with the project id; keep a running total on the project
+  useEffect(() => {
+    if (!projectId) return
+
+    return costLedger.subscribe(record => {
+      if (record.scope !== projectId || !projectRef.current) return
+      persist({ usage: addUsage(projectRef.current.usage, record) })
+    })
+  }, [projectId, persist])
+
+  const updatePhases = (
+    updater: (phases: ProjectPhases) => ProjectPhases,
+    extra: Partial<Project> = {}
+  ) => {
+    const current = projectRef.current
+    if (!current) return
+    const phases = updater(current.phases || emptyPhases)
+    return persist({ ...extra, phases })
+  }
+
+  const handlePause = () => {
+    persist({ status: 'paused' })
+  }
+
+  // A fresh refinement changes the prompt the later phases ran on, so their answers,
+  // verdicts and results are cleared with it
+  const handleRefinementStart = (prompt: string) => {
+    persist({
+      status: 'refining',
+      originalQuestion: prompt,
+      phases: { ...emptyPhases, refinement: { status: 'in_progress', rounds: [] } },
+      results: undefined
+    })
+    setLaterPhasesKey(key => key + 1)
+  }
+
+  const handleRefinementUpdate = (rounds: RefinementRound[], pendingCritique?: string) => {
+    updatePhases(
+      phases => ({
+        ...phases,
+        refinement: { status: 'in_progress', rounds, ...(pendingCritique !== undefined ? { pendingCritique } : {}) }
+      }),
+      { status: 'refining' }
+    )
+  }
+
+  const handleRefinementComplete = (rounds: RefinementRound[]) => {
+    updatePhases(
+      phases => ({ ...phases, refinement: { status: 'completed', rounds } }),
+      { status: 'competing' }
+    )
+    setActivePhase('competition')
+  }
+
+  const handleCompetitionUpdate = (generations: CompetitorGeneration[]) => {
+    updatePhases(
+      phases => ({ ...phases, competition: { status: 'in_progress', generations } }),
+      { status: 'competing' }
+    )
+  }
+
+  const handleCompetitionComplete = (generations: CompetitorGeneration[]) => {
+    if (generations.length === 0) {
+      updatePhases(
+        phases => ({ ...phases, competition: { status: 'pending', generations } }),
+        { status: 'failed' }
+      )
+      return
+    }
+
+    updatePhases(
+      phases => ({ ...phases, competition: { status: 'completed', generations } }),
+      { status: 'judging' }
+    )
+    setActivePhase('judging')
+  }
+
+  const handleJudgingUpdate = (results: JudgingResult[], details: JudgingRunDetails) => {
+    updatePhases(
+      phases => ({ ...phases, judging: { status: 'in_progress', results, ...details } }),
+      { status: 'judging' }
+    )
+  }
+
+  const handleJudgingComplete = (results: JudgingResult[], details: JudgingRunDetails) => {
+    const current = projectRef.current
+    if (!current) return
+
+    const phases: ProjectPhases = {
+      ...(current.phases || emptyPhases),
+      judging: { status: 'completed', results, ...details }
+    }
+
+    persist({
+      phases,
+      status: 'completed',
+      results: buildProjectResults(
+        { rounds: phases.refinement.rounds, generations: phases.competition.generations, results },
+        { startedAt: new Date(current.createdAt), completedAt: new Date(), usage: current.usage }
+      )
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!project) {
+    return (
+      <Card className="text-center py-12">
         <CardContent>
-          <p className="text-muted-foreground">
-            Project execution view coming soon...
+          <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Project not found</h3>
+          <p className="text-muted-foreground mb-4">
+            This project does not exist or you do not have access to it
           </p>
+          <Button onClick={() => navigate('/projects')}>
+            <ChevronLeft className="h-4 w-4 mr-2" />
+            Back to Projects
+          </Button>
         </CardContent>
       </Card>
+    )
+  }
+
+  const phases = project.phases || emptyPhases
+  const refinedPrompt = phases.refinement.status === 'completed'
+    ? getFinalAnswer(phases.refinement.rounds)
+    : null
+  const winner = phases.judging.results.find(result => result.rank === 1)
+  const pausedPhase = project.status === 'paused'
+    ? (Object.keys(phaseLabels) as PhaseKey[]).find(phase => phases[phase].status === 'in_progress')
+    : undefined
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <Button variant="ghost" size="sm" onClick={() => navigate('/projects')} className="mb-2 -ml-2">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Projects
+          </Button>
+          <h1 className="text-3xl font-bold">{project.name}</h1>
+          {project.description && (
+            <p className="text-muted-foreground mt-1">{project.description}</p>
+          )}
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <div className="flex items-center gap-2">
+            <ExportResultsButton
+              getReport={({ redactIdentities }) => buildProjectReport(project, { redactIdentities, models })}
+              getExport={() => exportProject(project)}
+              getCsv={() => projectScoresCsv(project)}
+            />
+            <Badge variant={project.status === 'failed' ? 'destructive' : 'secondary'}>
+              {statusLabels[project.status]}
+            </Badge>
+          </div>
+          {project.usage && (
+            <span className="text-xs text-muted-foreground">
+              {project.usage.totalTokens.toLocaleString()} tokens · ${project.usage.cost.toFixed(4)}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Winner Summary */}
+      {project.status === 'completed' && winner && (
+        <Card className="border-yellow-500">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="h-5 w-5 text-yellow-500" />
+              Winner: {winner.modelName}
+            </CardTitle>
+            <CardDescription>
+              {winner.pairwise
+                ? `Rated ${winner.pairwise.rating} (95% CI ${winner.pairwise.ciLower}–${winner.pairwise.ciUpper})`
+                : `Scored ${winner.totalScore}/100`} against {phases.judging.results.length - 1} other competitors
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      {/* Paused Run */}
+      {pausedPhase && (
+        <Card className="border-amber-500">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <PauseCircle className="h-5 w-5 text-amber-500" />
+              Run paused during {phaseLabels[pausedPhase]}
+            </CardTitle>
+            <CardDescription>
+              {describeCheckpoint(project, phases, pausedPhase)}. Resume from the {phaseLabels[pausedPhase]} tab
+              to carry on without repeating or paying again for finished calls.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      {/* Run going on elsewhere */}
+      {runningElsewhere && (
+        <Card className="border-blue-500">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Loader2 className="h-5 w-5 animate-spin text-blue-500" />
+              Running in another tab or window
+            </CardTitle>
+            <CardDescription>
+              This page updates when the run finishes. If that tab was closed, the run can be resumed
+              here once it has been silent for {RUN_LEASE_MS / 60_000} minutes.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      {/* Phases stay mounted so switching tabs does not stop a run; they remount with the
+          saved state once a run going on elsewhere ends */}
+      <Tabs value={activePhase} onValueChange={(value) => setActivePhase(value as PhaseKey)}>
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="refinement" className="gap-2">
+            {phases.refinement.status === 'completed' ? (
+              <CheckCircle className="h-4 w-4 text-green-600" />
+            ) : (
+              <Brain className="h-4 w-4" />
+            )}
+            Refinement
+          </TabsTrigger>
+          <TabsTrigger
+            value="competition"
+            disabled={phases.refinement.status !== 'completed'}
+            className="gap-2"
+          >
+            {phases.competition.status === 'completed' ? (
+              <CheckCircle className="h-4 w-4 text-green-600" />
+            ) : (
+              <Zap className="h-4 w-4" />
+            )}
+            Competition
+          </TabsTrigger>
+          <TabsTrigger
+            value="judging"
+            disabled={phases.competition.status !== 'completed'}
+            className="gap-2"
+          >
+            {phases.judging.status === 'completed' ? (
+              <CheckCircle className="h-4 w-4 text-green-600" />
+            ) : (
+              <Gavel className="h-4 w-4" />
+            )}
+            Judging
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="refinement" forceMount className="data-[state=inactive]:hidden">
+          <AdversarialRefinement
+            key={String(runningElsewhere)}
+            project={project}
+            onStart={handleRefinementStart}
+            onUpdate={handleRefinementUpdate}
+            onComplete={handleRefinementComplete}
+            onPause={handlePause}
+            onRunningChange={setPhaseRunning('refinement')}
+            runningElsewhere={runningElsewhere}
+          />
+        </TabsContent>
+
+        <TabsContent value="competition" forceMount className="data-[state=inactive]:hidden">
+          <CompetitiveGeneration
+            key={`${runningElsewhere}-${laterPhasesKey}`}
+            project={project}
+            refinedPrompt={refinedPrompt}
+            onUpdate={handleCompetitionUpdate}
+            onComplete={handleCompetitionComplete}
+            onPause={handlePause}
+            onRunningChange={setPhaseRunning('competition')}
+            runningElsewhere={runningElsewhere}
+          />
+        </TabsContent>
+
+        <TabsContent value="judging" forceMount className="data-[state=inactive]:hidden">
+          <AnonymousJudging
+            key={`${runningElsewhere}-${laterPhasesKey}`}
+            project={project}
+            generations={phases.competition.generations}
+            onUpdate={handleJudgingUpdate}
+            onComplete={handleJudgingComplete}
+            onPause={handlePause}
+            onRunningChange={setPhaseRunning('judging')}
+            runningElsewhere={runningElsewhere}
+          />
+        </TabsContent>
+      </Tabs>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,62 +1,171 @@
-import { useState } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
-import { Plus, Trophy, Clock, CheckCircle, AlertCircle, Pause } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import LoadingSpinner from '@/components/ui/loading-spinner'
+import { ImportResultsButton } from '@/components/ImportResultsButton'
+import { toast } from '@/hooks/use-toast'
+import { projectsService } from '@/services/projects'
+import { useAuthStore } from '@/store/auth'
+import {
+  Plus,
+  Trophy,
+  Clock,
+  CheckCircle,
+  AlertCircle,
+  Pause,
+  Brain,
+  Zap,
+  Gavel,
+  Search,
+  ChevronLeft,
+  ChevronRight,
+  type LucideIcon
+} from 'lucide-react'
+import { Project } from '@/types'
+import type { ImportedResults } from '@/utils/results-import'
 import { cn } from '@/utils/cn'
 
-// Temporary mock data
-type ProjectStatus = 'draft' | 'in_progress' | 'completed' | 'failed' | 'paused'
-
-const mockProjects: Array<{
-  id: string
-  name: string
-  originalQuestion: string
-  status: ProjectStatus
-  createdAt: Date
-}> = [
-  {
-    id: '1',
-    name: 'Customer Support Response',
-    originalQuestion: 'How should I handle a customer complaint about a defective product?',
-    status: 'completed',
-    createdAt: new Date('2024-01-15'),
-  },
-  {
-    id: '2',
-    name: 'Technical Documentation',
-    originalQuestion: 'Explain the difference between REST and GraphQL APIs...',
-    status: 'in_progress',
-    createdAt: new Date('2024-01-16'),
-  },
-]
-
-const statusIcons = {
+type ProjectStatus = Project['status']
+type StatusFilter = 'all' | 'draft' | 'active' | 'paused' | 'completed' | 'failed'
+type SortOption = 'created_desc' | 'created_asc' | 'updated_desc' | 'updated_asc'
+
+const PAGE_SIZE = 12
+
+const statusIcons: Record<ProjectStatus, LucideIcon> = {
   draft: Clock,
   in_progress: Clock,
+  refining: Brain,
+  competing: Zap,
+  judging: Gavel,
   completed: CheckCircle,
+  complete: CheckCircle,
   failed: AlertCircle,
   paused: Pause,
 }
 
-const statusColors = {
+const statusColors: Record<ProjectStatus, string> = {
   draft: 'text-muted-foreground',
   in_progress: 'text-blue-600',
+  refining: 'text-blue-600',
+  competing: 'text-blue-600',
+  judging: 'text-blue-600',
   completed: 'text-green-600',
+  complete: 'text-green-600',
   failed: 'text-red-600',
   paused: 'text-yellow-600',
 }
 
+const statusBadgeColors: Record<ProjectStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  in_progress: 'bg-blue-100 text-blue-700',
+  refining: 'bg-blue-100 text-blue-700',
+  competing: 'bg-blue-100 text-blue-700',
+  judging: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  complete: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  paused: 'bg-yellow-100 text-yellow-700',
+}
+
+// Each filter option covers the statuses a project can be in at that stage
+const statusFilterGroups: Record<Exclude<StatusFilter, 'all'>, ProjectStatus[]> = {
+  draft: ['draft'],
+  active: ['in_progress', 'refining', 'competing', 'judging'],
+  paused: ['paused'],
+  completed: ['completed', 'complete'],
+  failed: ['failed'],
+}
+
+const sortComparators: Record<SortOption, (a: Project, b: Project) => number> = {
+  created_desc: (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  created_asc: (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  updated_desc: (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime(),
+  updated_asc: (a, b) => new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime(),
+}
+
 export default function ProjectsPage() {
   const navigate = useNavigate()
-  const [projects] = useState(mockProjects)
+  const { user } = useAuthStore()
+  const [projects, setProjects] = useState<Project[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [sortOption, setSortOption] = useState<SortOption>('created_desc')
+  const [page, setPage] = useState(0)
+
+  useEffect(() => {
+    setLoading(true)
+
+    const unsubscribe = projectsService.subscribeToUserProjects(
+      (loaded) => {
+        setProjects(loaded)
+        setLoading(false)
+      },
+      (error) => {
+        console.error('Failed to load projects:', error)
+        setLoading(false)
+        toast({
+          title: 'Failed to load projects',
+          description: error.message,
+          variant: 'destructive',
+        })
+      }
+    )
+
+    return unsubscribe
+  }, [user?.id])
+
+  const filteredProjects = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase()
+
+    return projects
+      .filter((project) =>
+        statusFilter === 'all' || statusFilterGroups[statusFilter].includes(project.status)
+      )
+      .filter((project) =>
+        !term ||
+        project.name.toLowerCase().includes(term) ||
+        (project.originalQuestion || '').toLowerCase().includes(term)
+      )
+      .sort(sortComparators[sortOption])
+  }, [projects, searchTerm, statusFilter, sortOption])
+
+  // Jump back to the first page whenever the result set changes shape
+  useEffect(() => {
+    setPage(0)
+  }, [searchTerm, statusFilter, sortOption])
+
+  const pageCount = Math.max(1, Math.ceil(filteredProjects.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount - 1)
+  const pagedProjects = filteredProjects.slice(
+    currentPage * PAGE_SIZE,
+    (currentPage + 1) * PAGE_SIZE
+  )
+
+  // Projects are restored under the current user; sessions open in the AI Studio
+  const handleImport = async (imported: ImportedResults) => {
+    if (imported.kind === 'session') {
+      navigate('/ffa', { state: { session: imported.session } })
+      return
+    }
+
+    const projectId = await projectsService.importProject(imported.project)
+    toast({
+      title: 'Project imported',
+      description: imported.project.name,
+    })
+    navigate(`/projects/${projectId}`)
+  }
 
   const formatDate = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short',
       day: 'numeric',
       year: 'numeric',
-    }).format(date)
+    }).format(new Date(date))
   }
 
   const truncateText = (text: string, maxLength: number = 100) => {
@@ -73,13 +182,59 @@ export default function ProjectsPage() {
             Manage your AI model competition projects
           </p>
         </div>
-        <Button onClick={() => navigate('/projects/new')}>
-          <Plus className="h-4 w-4 mr-2" />
-          New Project
-        </Button>
+        <div className="flex gap-2">
+          <ImportResultsButton onImport={handleImport} />
+          <Button onClick={() => navigate('/projects/new')}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Project
+          </Button>
+        </div>
       </div>
 
-      {projects.length === 0 ? (
+      {/* Filters */}
+      {projects.length > 0 && (
+        <div className="flex flex-col md:flex-row gap-3 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search by name or question..."
+              className="pl-9"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="md:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="draft">Draft</SelectItem>
+              <SelectItem value="active">In progress</SelectItem>
+              <SelectItem value="paused">Paused</SelectItem>
+              <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={sortOption} onValueChange={(value) => setSortOption(value as SortOption)}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="created_desc">Newest first</SelectItem>
+              <SelectItem value="created_asc">Oldest first</SelectItem>
+              <SelectItem value="updated_desc">Recently updated</SelectItem>
+              <SelectItem value="updated_asc">Least recently updated</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex h-64 items-center justify-center">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : projects.length === 0 ? (
         <Card className="text-center py-12">
           <CardContent>
             <Trophy className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
@@ -93,61 +248,108 @@ export default function ProjectsPage() {
             </Button>
           </CardContent>
         </Card>
+      ) : filteredProjects.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <Search className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No matching projects</h3>
+            <p className="text-muted-foreground mb-4">
+              Try a different search term or status filter
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setSearchTerm('')
+                setStatusFilter('all')
+              }}
+            >
+              Clear Filters
+            </Button>
+          </CardContent>
+        </Card>
       ) : (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {projects.map((project) => {
-            const StatusIcon = statusIcons[project.status]
-            const statusColor = statusColors[project.status]
-
-            return (
-              <Card
-                key={project.id}
-                className="cursor-pointer hover:shadow-lg transition-shadow"
-                onClick={() => navigate(`/projects/${project.id}`)}
-              >
-                <CardHeader>
-                  <CardTitle className="flex items-center justify-between">
-                    <span className="truncate">{project.name}</span>
-                    <StatusIcon className={cn('h-5 w-5', statusColor)} />
-                  </CardTitle>
-                  <CardDescription>
-                    {formatDate(project.createdAt)}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground">
-                    {truncateText(project.originalQuestion)}
-                  </p>
-                </CardContent>
-                <CardFooter className="flex justify-between">
-                  <span
-                    className={cn(
-                      'text-xs font-medium px-2 py-1 rounded-full',
-                      project.status === 'completed' && 'bg-green-100 text-green-700',
-                      project.status === 'in_progress' && 'bg-blue-100 text-blue-700',
-                      project.status === 'draft' && 'bg-gray-100 text-gray-700',
-                      project.status === 'failed' && 'bg-red-100 text-red-700',
-                      project.status === 'paused' && 'bg-yellow-100 text-yellow-700'
-                    )}
-                  >
-                    {project.status.replace('_', ' ')}
-                  </span>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      navigate(`/projects/${project.id}`)
-                    }}
-                  >
-                    View Details
-                  </Button>
-                </CardFooter>
-              </Card>
-            )
-          })}
-        </div>
+        <>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {pagedProjects.map((project) => {
+              const StatusIcon = statusIcons[project.status] || Clock
+              const statusColor = statusColors[project.status]
+
+              return (
+                <Card
+                  key={project.id}
+                  className="cursor-pointer hover:shadow-lg transition-shadow"
+                  onClick={() => navigate(`/projects/${project.id}`)}
+                >
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between">
+                      <span className="truncate">{project.name}</span>
+                      <StatusIcon className={cn('h-5 w-5', statusColor)} />
+                    </CardTitle>
+                    <CardDescription>
+                      {formatDate(project.createdAt)}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground">
+                      {truncateText(project.originalQuestion || project.description || 'No question yet')}
+                    </p>
+                  </CardContent>
+                  <CardFooter className="flex justify-between">
+                    <span
+                      className={cn(
+                        'text-xs font-medium px-2 py-1 rounded-full',
+                        statusBadgeColors[project.status]
+                      )}
+                    >
+                      {project.status.replace('_', ' ')}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        navigate(`/projects/${project.id}`)
+                      }}
+                    >
+                      View Details
+                    </Button>
+                  </CardFooter>
+                </Card>
+              )
+            })}
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between mt-6">
+            <p className="text-sm text-muted-foreground">
+              Showing {currentPage * PAGE_SIZE + 1}-{currentPage * PAGE_SIZE + pagedProjects.length} of {filteredProjects.length} projects
+            </p>
+            {pageCount > 1 && (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={currentPage === 0}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm">
+                  Page {currentPage + 1} of {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={currentPage >= pageCount - 1}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
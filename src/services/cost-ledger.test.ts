@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { OpenRouterModel } from '@/types'
+import { costLedger, type BudgetConfirmation } from './cost-ledger'
+
+function createStorage() {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value) },
+    removeItem: (key: string) => { items.delete(key) },
+    clear: () => items.clear(),
+  }
+}
+
+// $1 per completion token, free prompts, so each test call costs exactly its max_tokens
+const model = { id: 'priced', name: 'Priced', pricing: { prompt: '0', completion: '1' } } as unknown as OpenRouterModel
+const call = { modelId: 'priced', promptTokens: 0, maxTokens: 1 }
+
+// Approve a call and record what it cost, the way llm.ts does
+async function spend(runId?: string) {
+  const approved = await costLedger.approveCall(call, runId)
+  if (approved) costLedger.record(['priced'], { prompt_tokens: 0, completion_tokens: 1 }, undefined, runId)
+  return approved
+}
+
+describe('spending caps', () => {
+  let confirmations: BudgetConfirmation[]
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage())
+    confirmations = []
+    costLedger.setCatalog([model])
+    costLedger.setBudgetConfirmHandler(async (confirmation) => {
+      confirmations.push(confirmation)
+      return true
+    })
+  })
+
+  afterEach(() => {
+    costLedger.setBudget(undefined)
+    costLedger.setBudgetConfirmHandler(null)
+    vi.unstubAllGlobals()
+  })
+
+  it('asks again each time a run spends another cap\'s worth', async () => {
+    costLedger.setBudget({ perRunLimit: 2 })
+    const runId = costLedger.startRun()
+
+    for (let i = 0; i < 6; i++) await spend(runId)
+
+    expect(confirmations.map(c => [c.spent, c.allowUpTo])).toEqual([[2, 4], [4, 6]])
+  })
+
+  it('asks again each time the day spends another cap\'s worth', async () => {
+    costLedger.setBudget({ dailyLimit: 2 })
+
+    for (let i = 0; i < 5; i++) await spend()
+
+    expect(confirmations.map(c => [c.kind, c.spent])).toEqual([['daily', 2], ['daily', 4]])
+  })
+
+  it('stops the run when the user declines', async () => {
+    costLedger.setBudget({ perRunLimit: 1 })
+    costLedger.setBudgetConfirmHandler(async () => false)
+    const runId = costLedger.startRun()
+
+    expect(await spend(runId)).toBe(true)
+    expect(await spend(runId)).toBe(false)
+  })
+
+  it('forgets a run once it has finished', async () => {
+    costLedger.setBudget({ perRunLimit: 1 })
+    const runId = costLedger.startRun()
+    await spend(runId)
+    await spend(runId)
+    costLedger.finishRun(runId)
+
+    // Its spend and approval are gone, so the id would start again from zero
+    await spend(runId)
+    expect(confirmations).toHaveLength(1)
+  })
+})
@@ -0,0 +1,306 @@
+import { OpenRouterModel, SpendingBudget, UsageRecord, UsageTotals } from '@/types'
+import { logger } from '@/utils/logger'
+
+/**
+ * Token counts as reported by the provider on a chat completion
+ */
+export interface ProviderUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens?: number
+}
+
+type UsageListener = (record: UsageRecord) => void
+
+/**
+ * A call the user still has to plan for, used for pre-run estimates and budget checks
+ */
+export interface PlannedCall {
+  modelId: string
+  promptTokens: number
+  maxTokens?: number
+}
+
+export interface CostEstimate {
+  low: number
+  high: number
+  calls: number
+  unpricedModelIds: string[] // Models missing from the catalog, counted as free
+}
+
+/**
+ * What the budget guard asks the user to confirm before a call that would cross a cap
+ */
+export interface BudgetConfirmation {
+  kind: 'run' | 'daily'
+  limit: number
+  spent: number
+  nextCallCost: number // Upper bound for the call waiting on the answer
+  modelId: string
+  allowUpTo: number // Spending a yes allows before the user is asked again
+}
+
+type BudgetConfirmHandler = (confirmation: BudgetConfirmation) => Promise<boolean>
+
+// Completion size assumed for calls that do not set max_tokens
+export const DEFAULT_COMPLETION_TOKENS = 2000
+
+// The low end of an estimate assumes replies use this share of their max_tokens
+const TYPICAL_COMPLETION_SHARE = 0.35
+
+const DAILY_SPEND_KEY = 'model-kombat-daily-spend'
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+// The next whole multiple of the cap above the total, so each approval allows one more cap's worth
+const nextCeiling = (cap: number, total: number) => (Math.floor(total / cap) + 1) * cap
+
+export function emptyUsageTotals(): UsageTotals {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, requests: 0 }
+}
+
+export function addUsage(totals: UsageTotals | undefined, record: UsageRecord): UsageTotals {
+  const current = totals || emptyUsageTotals()
+  return {
+    promptTokens: current.promptTokens + record.promptTokens,
+    completionTokens: current.completionTokens + record.completionTokens,
+    totalTokens: current.totalTokens + record.promptTokens + record.completionTokens,
+    cost: current.cost + record.cost,
+    requests: current.requests + 1,
+  }
+}
+
+// Catalog prices are USD per single token and may arrive as strings
+const toPrice = (value: unknown): number => {
+  const price = typeof value === 'string' ? parseFloat(value) : value
+  return typeof price === 'number' && Number.isFinite(price) && price > 0 ? price : 0
+}
+
+/**
+ * Records the token usage providers report for every chat completion and prices it from the
+ * model catalog. Kept free of Firebase so the CLI can use it; the app stores the signed-in
+ * user's running totals through a subscriber (see usage-totals.ts).
+ */
+class CostLedger {
+  private catalog = new Map<string, OpenRouterModel>()
+  private listeners = new Set<UsageListener>()
+  private sessionTotals = emptyUsageTotals()
+  private budget: SpendingBudget = {}
+  private runSpend = new Map<string, number>()
+  private runCeilings = new Map<string, number>() // Spending approved per run, past its cap
+  private dailyCeiling: { date: string; ceiling: number } | null = null
+  private pendingConfirmations = new Map<string, Promise<boolean>>()
+  private confirmHandler: BudgetConfirmHandler | null = null
+  private runCounter = 0
+
+  /**
+   * Replace the models used for pricing
+   */
+  setCatalog(models: OpenRouterModel[]) {
+    this.catalog = new Map(models.map(model => [model.id, model]))
+  }
+
+  /**
+   * Price a call from the catalog; `priced` is false when the model has no known pricing
+   */
+  priceTokens(modelId: string, promptTokens: number, completionTokens: number): { cost: number; priced: boolean } {
+    const pricing = this.catalog.get(modelId)?.pricing
+    if (!pricing) {
+      return { cost: 0, priced: false }
+    }
+
+    const cost =
+      promptTokens * toPrice(pricing.prompt) +
+      completionTokens * toPrice(pricing.completion) +
+      toPrice(pricing.request)
+    return { cost, priced: true }
+  }
+
+  /**
+   * Price a planned run as a range: replies at a typical length up to replies that use
+   * every max_tokens
+   */
+  estimate(calls: PlannedCall[]): CostEstimate {
+    let low = 0
+    let high = 0
+    const unpriced = new Set<string>()
+
+    for (const call of calls) {
+      const maxTokens = call.maxTokens ?? DEFAULT_COMPLETION_TOKENS
+      const typical = this.priceTokens(call.modelId, call.promptTokens, Math.round(maxTokens * TYPICAL_COMPLETION_SHARE))
+      if (!typical.priced) unpriced.add(call.modelId)
+
+      low += typical.cost
+      high += this.priceTokens(call.modelId, call.promptTokens, maxTokens).cost
+    }
+
+    return { low, high, calls: calls.length, unpricedModelIds: [...unpriced] }
+  }
+
+  setBudget(budget: SpendingBudget | undefined) {
+    this.budget = budget || {}
+  }
+
+  /**
+   * Register the UI that asks the user whether to keep spending past a cap. Without one,
+   * calls that would cross a cap are refused.
+   */
+  setBudgetConfirmHandler(handler: BudgetConfirmHandler | null) {
+    this.confirmHandler = handler
+  }
+
+  /**
+   * Start tracking a run so the per-run cap applies to its calls
+   */
+  startRun(): string {
+    this.runCounter++
+    return `run-${Date.now()}-${this.runCounter}`
+  }
+
+  /**
+   * Stop tracking a run once it has ended, whether it finished, failed or was cancelled
+   */
+  finishRun(runId: string) {
+    this.runSpend.delete(runId)
+    this.runCeilings.delete(runId)
+  }
+
+  getDailySpend(): number {
+    try {
+      const stored = JSON.parse(localStorage.getItem(DAILY_SPEND_KEY) || 'null')
+      return stored?.date === today() && typeof stored.cost === 'number' ? stored.cost : 0
+    } catch {
+      return 0
+    }
+  }
+
+  /**
+   * Check a call against the caps before it is sent. When it would cross one, the run waits
+   * for the user's answer; resolves false if they decline. A yes allows one more cap's worth
+   * of spending, so the user is asked again each time the spend crosses another multiple.
+   */
+  async approveCall(call: PlannedCall, runId?: string): Promise<boolean> {
+    const { perRunLimit, dailyLimit } = this.budget
+    if (!perRunLimit && !dailyLimit) return true
+
+    const nextCallCost = this.priceTokens(
+      call.modelId,
+      call.promptTokens,
+      call.maxTokens ?? DEFAULT_COMPLETION_TOKENS
+    ).cost
+
+    if (runId && perRunLimit) {
+      const spent = this.runSpend.get(runId) || 0
+      if (spent + nextCallCost > (this.runCeilings.get(runId) ?? perRunLimit)) {
+        const allowUpTo = nextCeiling(perRunLimit, spent + nextCallCost)
+        const approved = await this.confirm(`run:${runId}`, {
+          kind: 'run', limit: perRunLimit, spent, nextCallCost, modelId: call.modelId, allowUpTo,
+        })
+        if (!approved) return false
+        // Calls that shared the prompt may have asked for different ceilings; keep the highest
+        this.runCeilings.set(runId, Math.max(this.runCeilings.get(runId) ?? 0, allowUpTo))
+      }
+    }
+
+    if (dailyLimit) {
+      const spent = this.getDailySpend()
+      const ceiling = this.dailyCeiling?.date === today() ? this.dailyCeiling.ceiling : dailyLimit
+      if (spent + nextCallCost > ceiling) {
+        const allowUpTo = nextCeiling(dailyLimit, spent + nextCallCost)
+        const approved = await this.confirm('daily', {
+          kind: 'daily', limit: dailyLimit, spent, nextCallCost, modelId: call.modelId, allowUpTo,
+        })
+        if (!approved) return false
+        const current = this.dailyCeiling?.date === today() ? this.dailyCeiling.ceiling : 0
+        this.dailyCeiling = { date: today(), ceiling: Math.max(current, allowUpTo) }
+      }
+    }
+
+    return true
+  }
+
+  // Concurrent calls that hit the same cap share one prompt instead of stacking dialogs
+  private confirm(key: string, confirmation: BudgetConfirmation): Promise<boolean> {
+    const pending = this.pendingConfirmations.get(key)
+    if (pending) return pending
+
+    if (!this.confirmHandler) {
+      logger.warn('Spending cap reached with no confirmation handler', { ...confirmation })
+      return Promise.resolve(false)
+    }
+
+    const promise = this.confirmHandler(confirmation)
+      .catch(() => false)
+      .finally(() => this.pendingConfirmations.delete(key))
+    this.pendingConfirmations.set(key, promise)
+    return promise
+  }
+
+  /**
+   * Record the usage of one completion. `modelIds` are tried in order for pricing, so the
+   * routed model from the response can fall back to the one that was requested.
+   */
+  record(
+    modelIds: string[],
+    usage: ProviderUsage | undefined,
+    scope?: string,
+    runId?: string
+  ): UsageRecord | null {
+    const candidates = modelIds.filter(Boolean)
+    if (!usage) {
+      logger.warn('Completion returned no usage data', { modelId: candidates[0] })
+      return null
+    }
+
+    const modelId = candidates.find(id => this.catalog.has(id)) || candidates[0]
+    const promptTokens = usage.prompt_tokens || 0
+    const completionTokens = usage.completion_tokens || 0
+    const { cost, priced } = this.priceTokens(modelId, promptTokens, completionTokens)
+
+    const record: UsageRecord = {
+      modelId,
+      promptTokens,
+      completionTokens,
+      cost,
+      priced,
+      ...(scope ? { scope } : {}),
+      timestamp: new Date().toISOString(),
+    }
+
+    this.sessionTotals = addUsage(this.sessionTotals, record)
+    if (runId) {
+      this.runSpend.set(runId, (this.runSpend.get(runId) || 0) + cost)
+    }
+    this.addToDailySpend(cost)
+    this.listeners.forEach(listener => listener(record))
+
+    return record
+  }
+
+  /**
+   * Listen for every recorded call; returns an unsubscribe function
+   */
+  subscribe(listener: UsageListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Totals for calls made since the app was loaded
+   */
+  getSessionTotals(): UsageTotals {
+    return this.sessionTotals
+  }
+
+  private addToDailySpend(cost: number) {
+    try {
+      localStorage.setItem(DAILY_SPEND_KEY, JSON.stringify({ date: today(), cost: this.getDailySpend() + cost }))
+    } catch {
+      // Storage can be unavailable (private mode, quota); the daily cap then starts from zero
+    }
+  }
+}
+
+export const costLedger = new CostLedger()
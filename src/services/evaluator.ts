@@ -0,0 +1,181 @@
+import { llmService, type ChatCompletionOptions } from './llm'
+import { LLMConfig, QualityEvaluation, QualityRubricItem } from '@/types'
+import { logger } from '@/utils/logger'
+import { extractJsonObject } from '@/utils/judge-output'
+
+/**
+ * Rubric used to grade FFA and Lazy Mode answers when none is supplied
+ */
+export const DEFAULT_QUALITY_RUBRIC: QualityRubricItem[] = [
+  {
+    id: 'accuracy',
+    name: 'Accuracy',
+    description: 'Facts, reasoning and code are correct, with no hallucinated claims',
+    weight: 35,
+  },
+  {
+    id: 'completeness',
+    name: 'Completeness',
+    description: 'Covers every part of the question at an appropriate depth',
+    weight: 25,
+  },
+  {
+    id: 'clarity',
+    name: 'Clarity',
+    description: 'Well organised, easy to follow and free of padding',
+    weight: 20,
+  },
+  {
+    id: 'relevance',
+    name: 'Relevance',
+    description: 'Stays focused on what was actually asked',
+    weight: 20,
+  },
+]
+
+export interface EvaluateAnswerRequest {
+  question: string
+  answer: string
+  graderModelId: string
+  rubric?: QualityRubricItem[]
+}
+
+/**
+ * Pick the grader model from the user's config, falling back to their judge. Without
+ * either, answers go ungraded rather than paying an unconfigured model to grade them.
+ */
+export function resolveGraderModelId(config: LLMConfig | null | undefined): string | undefined {
+  return config?.defaultGraderId || config?.defaultJudgeId || undefined
+}
+
+/**
+ * Highest-scoring round; falls back to the latest finished round when nothing has been graded
+ */
+export function pickBestRound<T extends { quality?: number; isRefining?: boolean }>(rounds: T[]): T | null {
+  const finished = rounds.filter(round => !round.isRefining)
+  if (finished.length === 0) return null
+
+  const scored = finished.filter(round => round.quality !== undefined)
+  if (scored.length === 0) return finished[finished.length - 1]
+
+  return scored.reduce((best, current) =>
+    (current.quality as number) > (best.quality as number) ? current : best
+  )
+}
+
+const clampScore = (value: unknown): number | undefined => {
+  const score = typeof value === 'string' ? parseFloat(value) : value
+  if (typeof score !== 'number' || !Number.isFinite(score)) return undefined
+  return Math.min(100, Math.max(0, Math.round(score)))
+}
+
+class EvaluatorService {
+  /**
+   * Grade an answer against the rubric with the grader model
+   */
+  async evaluate(
+    request: EvaluateAnswerRequest,
+    options: ChatCompletionOptions = {}
+  ): Promise<QualityEvaluation> {
+    const rubric = request.rubric || DEFAULT_QUALITY_RUBRIC
+
+    const response = await llmService.createChatCompletion({
+      model: request.graderModelId,
+      messages: [
+        {
+          role: 'system',
+          content: 'You are a strict, impartial grader of AI-generated answers. You reply with valid JSON only.',
+        },
+        { role: 'user', content: this.buildPrompt(request.question, request.answer, rubric) },
+      ],
+      temperature: 0,
+      max_tokens: 600,
+      response_format: { type: 'json_object' },
+    }, undefined, options)
+
+    const text = response.choices[0]?.message?.content || ''
+    // A fallback grader may have answered in place of the requested one
+    const graderModelId = response.answeredBy || request.graderModelId
+    const evaluation = this.parseEvaluation(text, rubric, graderModelId)
+
+    logger.info('Answer evaluated', {
+      graderModelId,
+      score: evaluation.score,
+    })
+
+    return evaluation
+  }
+
+  private buildPrompt(question: string, answer: string, rubric: QualityRubricItem[]): string {
+    const criteria = rubric
+      .map(item => `- "${item.id}" (${item.name}, weight ${item.weight}%): ${item.description}`)
+      .join('\n')
+    const scoreFields = rubric.map(item => `    "${item.id}": <0-100>`).join(',\n')
+
+    return `Grade the answer below against this rubric. Score each criterion from 0 to 100, where 50 is a mediocre answer and 90+ is reserved for answers an expert could not meaningfully improve.
+
+Rubric:
+${criteria}
+
+Question:
+"""
+${question}
+"""
+
+Answer:
+"""
+${answer}
+"""
+
+Respond with this JSON object and nothing else:
+{
+  "scores": {
+${scoreFields}
+  },
+  "rationale": "<two or three sentences explaining the main strengths and weaknesses>"
+}`
+  }
+
+  private parseEvaluation(
+    text: string,
+    rubric: QualityRubricItem[],
+    graderModelId: string
+  ): QualityEvaluation {
+    const parsed = extractJsonObject(text)
+    if (!parsed) {
+      throw new Error('Grader did not return a JSON evaluation')
+    }
+
+    // Accept scores either nested under "scores" or at the top level
+    const rawScores = (parsed.scores && typeof parsed.scores === 'object'
+      ? parsed.scores
+      : parsed) as Record<string, unknown>
+
+    const criteriaScores: Record<string, number> = {}
+    let weightedTotal = 0
+    let totalWeight = 0
+
+    for (const item of rubric) {
+      const score = clampScore(rawScores[item.id])
+      if (score === undefined) continue
+
+      criteriaScores[item.id] = score
+      weightedTotal += score * item.weight
+      totalWeight += item.weight
+    }
+
+    if (totalWeight === 0) {
+      throw new Error('Grader evaluation did not score any rubric criteria')
+    }
+
+    return {
+      score: Math.round(weightedTotal / totalWeight),
+      criteriaScores,
+      rationale: typeof parsed.rationale === 'string' ? parsed.rationale.trim() : '',
+      graderModelId,
+      evaluatedAt: new Date().toISOString(),
+    }
+  }
+}
+
+export const evaluatorService = new EvaluatorService()
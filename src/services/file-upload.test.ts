@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from 'vitest'
+import { MAX_FILE_SIZES, formatFileSize, getFileTypeCategory, validateFile } from './file-upload'
+
+vi.mock('@/services/firebase', () => ({ storage: {} }))
+
+// validateFile only reads the type and size, so there is no need to allocate real content
+const fakeFile = (type: string, size: number) => ({ name: 'upload', type, size }) as File
+
+describe('validateFile', () => {
+  it.each(['image/png', 'image/webp', 'application/pdf', 'audio/mpeg'])('accepts %s', type => {
+    expect(validateFile(fakeFile(type, 1024))).toEqual({ valid: true })
+  })
+
+  it('rejects unsupported types', () => {
+    const result = validateFile(fakeFile('application/zip', 1024))
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('application/zip not supported')
+  })
+
+  it('rejects an empty type', () => {
+    expect(validateFile(fakeFile('', 1024)).valid).toBe(false)
+  })
+
+  it('applies the size limit for the file type', () => {
+    expect(validateFile(fakeFile('image/jpeg', MAX_FILE_SIZES.image)).valid).toBe(true)
+    expect(validateFile(fakeFile('image/jpeg', MAX_FILE_SIZES.image + 1)).valid).toBe(false)
+
+    // Larger than the image limit but within the PDF and audio ones
+    expect(validateFile(fakeFile('application/pdf', MAX_FILE_SIZES.image + 1)).valid).toBe(true)
+    expect(validateFile(fakeFile('application/pdf', MAX_FILE_SIZES.pdf + 1)).valid).toBe(false)
+    expect(validateFile(fakeFile('audio/wav', MAX_FILE_SIZES.pdf + 1)).valid).toBe(true)
+    expect(validateFile(fakeFile('audio/wav', MAX_FILE_SIZES.audio + 1)).valid).toBe(false)
+  })
+
+  it('reports the size and limit in megabytes', () => {
+    const result = validateFile(fakeFile('image/png', 15 * 1024 * 1024))
+    expect(result.error).toBe('File size 15.00MB exceeds maximum allowed size of 10MB.')
+  })
+})
+
+describe('getFileTypeCategory', () => {
+  it('groups MIME types', () => {
+    expect(getFileTypeCategory('image/gif')).toBe('image')
+    expect(getFileTypeCategory('application/pdf')).toBe('pdf')
+    expect(getFileTypeCategory('audio/ogg')).toBe('audio')
+    expect(getFileTypeCategory('text/plain')).toBe('unknown')
+  })
+})
+
+describe('formatFileSize', () => {
+  it('uses the largest fitting unit', () => {
+    expect(formatFileSize(0)).toBe('0 Bytes')
+    expect(formatFileSize(512)).toBe('512 Bytes')
+    expect(formatFileSize(1536)).toBe('1.5 KB')
+    expect(formatFileSize(3 * 1024 * 1024)).toBe('3 MB')
+  })
+})
@@ -1,23 +1,90 @@
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai'
+import {
+  GoogleGenerativeAI,
+  GenerativeModel,
+  type Content,
+  type GenerateContentRequest,
+  type GenerateContentResponse,
+  type Part,
+} from '@google/generative-ai'
+import { OpenRouterModel } from '@/types'
 import { logger } from '@/utils/logger'
+import {
+  AuthError,
+  ContentFilteredError,
+  ContextLengthExceededError,
+  LLMError,
+  ModelNotFoundError,
+  NetworkError,
+  ProviderError,
+  QuotaExceededError,
+  RateLimitError,
+  RequestCancelledError,
+} from './llm-errors'
+import {
+  toCatalogModelId,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type LLMProvider,
+  type MessageContent,
+  type ModelCapabilities,
+  type ModelPricing,
+} from './llm-provider'
+
+const PROVIDER = 'gemini'
+
+// Gemini reports why it stopped in upper case; map to the OpenAI finish reasons callers expect
+const FINISH_REASONS: Record<string, string> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'length',
+  SAFETY: 'content_filter',
+  RECITATION: 'content_filter',
+}
+
+/**
+ * Gemini takes inline images as bare base64 with a MIME type, not as data URLs
+ */
+function toParts(content: MessageContent): Part[] {
+  if (typeof content === 'string') return [{ text: content }]
+
+  return content.map(part => {
+    if (part.type === 'text') return { text: part.text || '' }
+
+    const match = part.image_url?.url.match(/^data:([^;]+);base64,(.*)$/)
+    if (!match) {
+      throw new ProviderError('Gemini only accepts uploaded (base64) images, not image links.', { provider: PROVIDER })
+    }
+    return { inlineData: { mimeType: match[1], data: match[2] } }
+  })
+}
 
 /**
  * Gemini API Service
  * Direct integration with Google's Gemini models through Firebase
  */
-class GeminiService {
+class GeminiService implements LLMProvider {
+  readonly id = 'gemini'
+  readonly name = 'Google Gemini'
+
   private client: GoogleGenerativeAI | null = null
   private models: Map<string, GenerativeModel> = new Map()
 
   /**
    * Available Gemini models
    */
-  readonly availableModels = [
+  readonly availableModels: Array<{
+    id: string
+    name: string
+    description: string
+    maxTokens: number // Context window
+    supportsVision?: boolean
+    pricing: ModelPricing // USD per token, from Google's published rates
+  }> = [
     {
       id: 'gemini-pro',
       name: 'Gemini Pro',
       description: 'Best for text generation and chat',
       maxTokens: 32768,
+      pricing: { prompt: 0.0000005, completion: 0.0000015 },
     },
     {
       id: 'gemini-pro-vision',
@@ -25,18 +92,23 @@ class GeminiService {
       description: 'Multimodal model for text and images',
       maxTokens: 16384,
       supportsVision: true,
+      pricing: { prompt: 0.0000005, completion: 0.0000015 },
     },
     {
       id: 'gemini-1.5-pro',
       name: 'Gemini 1.5 Pro',
       description: 'Latest version with extended context',
       maxTokens: 1048576, // 1M tokens!
+      supportsVision: true,
+      pricing: { prompt: 0.00000125, completion: 0.000005 },
     },
     {
       id: 'gemini-1.5-flash',
       name: 'Gemini 1.5 Flash',
       description: 'Fast and efficient version',
       maxTokens: 1048576,
+      supportsVision: true,
+      pricing: { prompt: 0.000000075, completion: 0.0000003 },
     },
   ]
 
@@ -45,7 +117,7 @@ class GeminiService {
    */
   initialize(apiKey: string) {
     if (!apiKey) {
-      throw new Error('Gemini API key is required')
+      throw new AuthError('Gemini API key is required', { provider: PROVIDER })
     }
 
     this.client = new GoogleGenerativeAI(apiKey)
@@ -57,7 +129,7 @@ class GeminiService {
    */
   private getModel(modelId: string): GenerativeModel {
     if (!this.client) {
-      throw new Error('Gemini service not initialized. Please set API key first.')
+      throw new AuthError('Gemini service not initialized. Please set API key first.', { provider: PROVIDER })
     }
 
     if (!this.models.has(modelId)) {
@@ -110,20 +182,7 @@ class GeminiService {
       return text
     } catch (error) {
       logger.error('Gemini generation failed', error, { model: modelId })
-
-      if (error instanceof Error) {
-        if (error.message.includes('API_KEY_INVALID')) {
-          throw new Error('Invalid Gemini API key. Please check your API key.')
-        }
-        if (error.message.includes('QUOTA_EXCEEDED')) {
-          throw new Error('Gemini API quota exceeded. Please try again later.')
-        }
-        if (error.message.includes('SAFETY')) {
-          throw new Error('Content blocked by safety filters.')
-        }
-      }
-
-      throw error
+      throw this.toLLMError(error, modelId)
     }
   }
 
@@ -142,7 +201,7 @@ class GeminiService {
       // Check if model supports vision
       const modelInfo = this.availableModels.find(m => m.id === modelId)
       if (!modelInfo?.supportsVision) {
-        throw new Error(`Model ${modelId} does not support image inputs`)
+        throw new ModelNotFoundError(`Model ${modelId} does not support image inputs`, { provider: PROVIDER, model: modelId })
       }
 
       // Remove data URL prefix if present
@@ -184,7 +243,7 @@ class GeminiService {
       return text
     } catch (error) {
       logger.error('Gemini vision generation failed', error, { model: modelId })
-      throw error
+      throw this.toLLMError(error, modelId)
     }
   }
 
@@ -216,8 +275,163 @@ class GeminiService {
       }
     } catch (error) {
       logger.error('Gemini streaming failed', error, { model: modelId })
-      throw error
+      throw this.toLLMError(error, modelId)
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null
+  }
+
+  /**
+   * The models in catalog form. Gemini's model list API does not include pricing, so the
+   * known models are listed here instead of fetched.
+   */
+  async listModels(): Promise<OpenRouterModel[]> {
+    return this.availableModels.map(model => ({
+      id: toCatalogModelId(PROVIDER, model.id),
+      name: `${model.name} (Google direct)`,
+      description: model.description,
+      context_length: model.maxTokens,
+      pricing: model.pricing,
+      architecture: {
+        modality: model.supportsVision ? 'text+image->text' : 'text->text',
+        input_modalities: model.supportsVision ? ['text', 'image'] : ['text'],
+        output_modalities: ['text'],
+      },
+      supported_parameters: ['temperature', 'max_tokens', 'response_format'],
+      provider: PROVIDER,
+    }))
+  }
+
+  getCapabilities(modelId: string): ModelCapabilities {
+    const model = this.availableModels.find(m => m.id === modelId)
+    return { streaming: true, json: true, vision: !!model?.supportsVision }
+  }
+
+  getPricing(modelId: string): ModelPricing | undefined {
+    return this.availableModels.find(m => m.id === modelId)?.pricing
+  }
+
+  async chat(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResponse> {
+    try {
+      const model = this.getModel(request.model)
+      const result = await model.generateContent(this.toGeminiRequest(request), { signal })
+      return this.toCompletion(request.model, result.response, result.response.text())
+    } catch (error) {
+      logger.error('Gemini chat failed', error, { model: request.model })
+      throw this.toLLMError(error, request.model, signal)
+    }
+  }
+
+  async stream(
+    request: ChatCompletionRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    try {
+      const model = this.getModel(request.model)
+      const result = await model.generateContentStream(this.toGeminiRequest(request), { signal })
+
+      let content = ''
+      for await (const chunk of result.stream) {
+        const text = chunk.text()
+        if (text) {
+          content += text
+          onChunk(text)
+        }
+      }
+      return this.toCompletion(request.model, await result.response, content)
+    } catch (error) {
+      logger.error('Gemini streaming failed', error, { model: request.model })
+      throw this.toLLMError(error, request.model, signal)
+    }
+  }
+
+  /**
+   * Translate an OpenAI-style chat request. System messages become the system
+   * instruction and assistant turns are sent with Gemini's "model" role.
+   */
+  private toGeminiRequest(request: ChatCompletionRequest): GenerateContentRequest {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .flatMap(message => toParts(message.content))
+    const contents: Content[] = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: toParts(message.content),
+      }))
+
+    return {
+      contents,
+      ...(system.length > 0 ? { systemInstruction: { role: 'system', parts: system } } : {}),
+      generationConfig: {
+        temperature: request.temperature ?? 0.7,
+        maxOutputTokens: request.max_tokens,
+        ...(request.response_format?.type === 'json_object' ? { responseMimeType: 'application/json' } : {}),
+      },
+    }
+  }
+
+  private toCompletion(modelId: string, response: GenerateContentResponse, content: string): ChatCompletionResponse {
+    const finishReason = response.candidates?.[0]?.finishReason
+    const usage = response.usageMetadata
+
+    return {
+      id: `gemini-${Date.now()}`,
+      model: toCatalogModelId(PROVIDER, modelId),
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: (finishReason && FINISH_REASONS[finishReason]) || 'stop',
+      }],
+      ...(usage ? {
+        usage: {
+          prompt_tokens: usage.promptTokenCount,
+          completion_tokens: usage.candidatesTokenCount ?? 0,
+          total_tokens: usage.totalTokenCount,
+        },
+      } : {}),
+    }
+  }
+
+  /**
+   * Turn an SDK failure into a typed LLM error. The SDK reports the HTTP status on fetch
+   * errors and puts the API's status code (e.g. API_KEY_INVALID) in the message.
+   */
+  private toLLMError(error: unknown, modelId: string, signal?: AbortSignal): LLMError {
+    if (error instanceof LLMError) return error
+    if (signal?.aborted) {
+      return new RequestCancelledError(undefined, { provider: PROVIDER, model: modelId })
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+    const status: number | undefined = (error as any)?.status
+    const details = { provider: PROVIDER, model: modelId, status, cause: error }
+
+    if (message.includes('API_KEY_INVALID') || status === 401 || status === 403) {
+      return new AuthError('Invalid Gemini API key. Please check your API key.', details)
+    }
+    if (message.includes('QUOTA_EXCEEDED') || /quota/i.test(message)) {
+      return new QuotaExceededError('Gemini API quota exceeded. Check your plan limits.', details)
+    }
+    if (message.includes('RESOURCE_EXHAUSTED') || status === 429) {
+      return new RateLimitError(undefined, details)
+    }
+    if (message.includes('SAFETY') || /blocked/i.test(message)) {
+      return new ContentFilteredError('Content blocked by safety filters.', details)
+    }
+    if (/token count|exceeds the maximum number of tokens|too long/i.test(message)) {
+      return new ContextLengthExceededError(undefined, details)
+    }
+    if (status === 404 || /not found/i.test(message)) {
+      return new ModelNotFoundError(undefined, details)
+    }
+    if (status === undefined && /fetch|network/i.test(message)) {
+      return new NetworkError(undefined, details)
     }
+    return new ProviderError(message || 'Gemini request failed.', details)
   }
 
   /**
@@ -0,0 +1,300 @@
+/**
+ * Typed errors for LLM calls. Every provider service turns its failures into one of these,
+ * so callers pick messages, retries and fallbacks from the type instead of matching strings.
+ */
+
+export type LLMErrorKind =
+  | 'auth'
+  | 'rate-limit'
+  | 'quota'
+  | 'model-not-found'
+  | 'context-length-exceeded'
+  | 'content-filtered'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'malformed-response'
+  | 'provider'
+
+export interface LLMErrorDetails {
+  provider?: string // e.g. 'openrouter' or 'gemini'
+  model?: string
+  status?: number // HTTP status, when the provider sent one
+  retryable?: boolean // Overrides the kind's default
+  cause?: unknown // The error as the provider or HTTP client raised it
+}
+
+// Short toast titles, one per kind
+const ERROR_TITLES: Record<LLMErrorKind, string> = {
+  'auth': 'Invalid API Key',
+  'rate-limit': 'Rate Limited',
+  'quota': 'Out of Credits',
+  'model-not-found': 'Model Unavailable',
+  'context-length-exceeded': 'Prompt Too Long',
+  'content-filtered': 'Content Blocked',
+  'network': 'Network Error',
+  'timeout': 'Request Timed Out',
+  'cancelled': 'Cancelled',
+  'malformed-response': 'Unexpected Response',
+  'provider': 'Provider Error',
+}
+
+export abstract class LLMError extends Error {
+  abstract readonly kind: LLMErrorKind
+  readonly provider?: string
+  readonly model?: string
+  readonly status?: number
+  readonly retryable: boolean
+  readonly cause?: unknown
+
+  constructor(message: string, details: LLMErrorDetails = {}, retryableByDefault = false) {
+    super(message)
+    this.provider = details.provider
+    this.model = details.model
+    this.status = details.status
+    this.retryable = details.retryable ?? retryableByDefault
+    this.cause = details.cause
+  }
+
+  get title(): string {
+    return ERROR_TITLES[this.kind]
+  }
+}
+
+/**
+ * The API key is missing, invalid or lacks access
+ */
+export class AuthError extends LLMError {
+  readonly kind = 'auth'
+
+  constructor(message = 'Invalid API key. Please check your API key.', details?: LLMErrorDetails) {
+    super(message, details)
+    this.name = 'AuthError'
+  }
+}
+
+export class RateLimitError extends LLMError {
+  readonly kind = 'rate-limit'
+
+  constructor(
+    message = 'Rate limit exceeded. Please try again later.',
+    details?: LLMErrorDetails,
+    public readonly retryAfterMs?: number // From the Retry-After header, when sent
+  ) {
+    super(message, details, true)
+    this.name = 'RateLimitError'
+  }
+}
+
+/**
+ * The account is out of credits or over its plan's quota; waiting a few seconds will not help
+ */
+export class QuotaExceededError extends LLMError {
+  readonly kind = 'quota'
+
+  constructor(message = 'Quota exceeded. Add credits or check your plan limits.', details?: LLMErrorDetails) {
+    super(message, details)
+    this.name = 'QuotaExceededError'
+  }
+}
+
+export class ModelNotFoundError extends LLMError {
+  readonly kind = 'model-not-found'
+
+  constructor(message?: string, details?: LLMErrorDetails) {
+    super(
+      message || (details?.model ? `Model ${details.model} not found or not available.` : 'Model not found or not available.'),
+      details
+    )
+    this.name = 'ModelNotFoundError'
+  }
+}
+
+export class ContextLengthExceededError extends LLMError {
+  readonly kind = 'context-length-exceeded'
+
+  constructor(
+    message = 'The prompt is longer than the model can accept. Shorten it or pick a model with a larger context.',
+    details?: LLMErrorDetails
+  ) {
+    super(message, details)
+    this.name = 'ContextLengthExceededError'
+  }
+}
+
+export class ContentFilteredError extends LLMError {
+  readonly kind = 'content-filtered'
+
+  constructor(message = 'Content blocked by the provider\'s safety filters.', details?: LLMErrorDetails) {
+    super(message, details)
+    this.name = 'ContentFilteredError'
+  }
+}
+
+export class NetworkError extends LLMError {
+  readonly kind = 'network'
+
+  constructor(message = 'Network error. Please check your internet connection and try again.', details?: LLMErrorDetails) {
+    super(message, details, true)
+    this.name = 'NetworkError'
+  }
+}
+
+export class TimeoutError extends LLMError {
+  readonly kind = 'timeout'
+
+  constructor(
+    message = 'Request timed out. The model might be overloaded. Try a different model or try again later.',
+    details?: LLMErrorDetails
+  ) {
+    super(message, details, true)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * Thrown when a request is cancelled through its AbortSignal
+ */
+export class RequestCancelledError extends LLMError {
+  readonly kind = 'cancelled'
+
+  constructor(message = 'Request cancelled', details?: LLMErrorDetails) {
+    super(message, { ...details, retryable: false })
+    this.name = 'RequestCancelledError'
+  }
+}
+
+/**
+ * Thrown when a call would cross a spending cap and the user chose to stop. It is a
+ * cancellation, so runs stop and keep their partial results the same way.
+ */
+export class BudgetExceededError extends RequestCancelledError {
+  constructor(message = 'Stopped at the spending cap', details?: LLMErrorDetails) {
+    super(message, details)
+    this.name = 'BudgetExceededError'
+  }
+}
+
+/**
+ * The provider answered, but without a usable reply (no choices, no text, unparseable body)
+ */
+export class MalformedResponseError extends LLMError {
+  readonly kind = 'malformed-response'
+
+  constructor(message = 'The model returned an empty or malformed response.', details?: LLMErrorDetails) {
+    super(message, details, true)
+    this.name = 'MalformedResponseError'
+  }
+}
+
+/**
+ * Any other failure the provider reported, such as a 5xx or a rejected request
+ */
+export class ProviderError extends LLMError {
+  readonly kind = 'provider'
+
+  constructor(message: string, details?: LLMErrorDetails) {
+    super(message, details, (details?.status ?? 0) >= 500)
+    this.name = 'ProviderError'
+  }
+}
+
+/**
+ * Check whether an error came from a cancelled request
+ */
+export function isCancellationError(error: unknown): error is RequestCancelledError {
+  return error instanceof RequestCancelledError
+}
+
+/**
+ * A bad key or an empty account fails on every model, so there is no point falling back
+ */
+export function canFallBack(error: unknown): boolean {
+  return error instanceof LLMError &&
+    !(error instanceof AuthError || error instanceof QuotaExceededError || error instanceof RequestCancelledError)
+}
+
+/**
+ * Toast title for a failed call, or `fallback` for errors that are not LLM errors
+ */
+export function getErrorTitle(error: unknown, fallback: string): string {
+  return error instanceof LLMError ? error.title : fallback
+}
+
+const CONTEXT_LENGTH_PATTERN = /context length|context window|maximum context|too many tokens|prompt is too long|exceeds the maximum number of tokens/i
+const CONTENT_FILTER_PATTERN = /moderation|flagged|content filter|safety|blocked/i
+const QUOTA_PATTERN = /insufficient (credits|balance|funds)|quota|billing|payment required/i
+
+/**
+ * Milliseconds the server asked us to wait, from a Retry-After header given in seconds
+ * or as an HTTP date
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(String(value))
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Classify a failed HTTP call from an OpenAI-compatible API (axios errors, and the
+ * look-alike errors built for streaming fetch calls)
+ */
+export function classifyHttpError(error: any, details: LLMErrorDetails): LLMError {
+  if (error instanceof LLMError) return error
+
+  const status: number | undefined = error?.response?.status
+  const body = error?.response?.data
+  const apiMessage: string = body?.error?.message || (typeof body?.error === 'string' ? body.error : '') || ''
+  const context = { ...details, status, cause: error }
+
+  if (status === undefined) {
+    if (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT') {
+      return new TimeoutError(undefined, context)
+    }
+    if (error?.code === 'ERR_HTTP2_PROTOCOL_ERROR' || error?.message?.includes('ERR_HTTP2_PROTOCOL_ERROR')) {
+      return new NetworkError('Network protocol error. Please refresh the page and try again.', context)
+    }
+    if (['ERR_NETWORK', 'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND'].includes(error?.code) ||
+        error?.message?.includes('Network Error') ||
+        error?.message?.includes('Failed to fetch')) {
+      return new NetworkError(undefined, context)
+    }
+    return new ProviderError(error?.message || 'Chat completion failed.', context)
+  }
+
+  if (CONTEXT_LENGTH_PATTERN.test(apiMessage) && (status === 400 || status === 413)) {
+    return new ContextLengthExceededError(undefined, context)
+  }
+
+  switch (status) {
+    case 401:
+      return new AuthError(undefined, context)
+    case 402:
+      return new QuotaExceededError(apiMessage || undefined, context)
+    case 403:
+      return CONTENT_FILTER_PATTERN.test(apiMessage)
+        ? new ContentFilteredError(apiMessage || undefined, context)
+        : new AuthError(apiMessage || 'Access denied. Check that your API key can use this model.', context)
+    case 404:
+      return new ModelNotFoundError(undefined, context)
+    case 408:
+      return new TimeoutError(undefined, context)
+    case 413:
+      return new ContextLengthExceededError(undefined, context)
+    case 429:
+      return QUOTA_PATTERN.test(apiMessage)
+        ? new QuotaExceededError(apiMessage, context)
+        : new RateLimitError(undefined, context, parseRetryAfter(
+            error?.response?.headers?.['retry-after'] ?? error?.response?.headers?.['Retry-After']
+          ))
+  }
+
+  if (status === 400) {
+    return new ProviderError(`Bad Request: ${apiMessage || 'Invalid request'}. Check your API key and model selection.`, context)
+  }
+  return new ProviderError(apiMessage || error?.message || `Request failed with status code ${status}`, context)
+}
@@ -0,0 +1,112 @@
+import { LLMProviderId, OpenRouterModel } from '@/types'
+
+/**
+ * The contract every model provider implements, and the request and response shapes they
+ * share. Requests use the OpenAI chat format; adapters translate to their own API.
+ */
+
+// Multimodal content types for vision and audio models
+export type MessageContent =
+  | string
+  | Array<{
+      type: 'text' | 'image_url'
+      text?: string
+      image_url?: {
+        url: string // Can be URL or base64 data URL
+      }
+    }>
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: MessageContent
+}
+
+export interface ChatCompletionRequest {
+  model: string
+  messages: ChatMessage[]
+  temperature?: number
+  max_tokens?: number
+  stream?: boolean
+  response_format?: { type: 'json_object' }
+}
+
+export interface ChatCompletionResponse {
+  id: string
+  model: string
+  choices: Array<{
+    index: number
+    message: {
+      role: string
+      content: string
+    }
+    finish_reason: string
+  }>
+  usage?: {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+  }
+  /** The requested or fallback model that produced the reply, set by llmService */
+  answeredBy?: string
+}
+
+export interface ModelCapabilities {
+  streaming: boolean
+  json: boolean
+  vision: boolean
+}
+
+export type ModelPricing = NonNullable<OpenRouterModel['pricing']>
+
+export interface LLMProvider {
+  readonly id: LLMProviderId
+  readonly name: string
+
+  /** Whether the provider has the credentials it needs to take requests */
+  isConfigured(): boolean
+
+  /** The provider's models in catalog form, with ids tagged by toCatalogModelId */
+  listModels(forceRefresh?: boolean): Promise<OpenRouterModel[]>
+
+  /**
+   * Send one request and resolve with the whole reply. `request.model` is the provider's own
+   * id, without the tag. Failures are thrown as LLMErrors; retries and fallbacks are left to
+   * the caller.
+   */
+  chat(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResponse>
+
+  /** Like chat, passing each piece of text to `onChunk` as it arrives */
+  stream(
+    request: ChatCompletionRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse>
+
+  getCapabilities(modelId: string): ModelCapabilities
+
+  /** Per-token prices, or undefined when the provider does not publish them */
+  getPricing(modelId: string): ModelPricing | undefined
+}
+
+// Providers whose catalog ids carry a "<provider>:" prefix. OpenRouter ids stay bare so
+// projects and configs saved before other providers existed keep working.
+const TAGGED_PROVIDERS: LLMProviderId[] = ['gemini', 'local', 'mock']
+
+/**
+ * Split a catalog model id into the provider that serves it and the provider's own id
+ */
+export function parseModelId(catalogModelId: string): { providerId: LLMProviderId; modelId: string } {
+  const separator = catalogModelId.indexOf(':')
+  const prefix = catalogModelId.slice(0, separator) as LLMProviderId
+  if (separator > 0 && TAGGED_PROVIDERS.includes(prefix)) {
+    return { providerId: prefix, modelId: catalogModelId.slice(separator + 1) }
+  }
+  return { providerId: 'openrouter', modelId: catalogModelId }
+}
+
+/**
+ * The catalog id for one of a provider's models
+ */
+export function toCatalogModelId(providerId: LLMProviderId, modelId: string): string {
+  return TAGGED_PROVIDERS.includes(providerId) ? `${providerId}:${modelId}` : modelId
+}
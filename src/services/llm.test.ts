@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { IterativeRefinementRunner, type IterativeRefinementOptions } from '@/engine/iterative-refinement'
+import { costLedger } from './cost-ledger'
+import {
+  AuthError,
+  BudgetExceededError,
+  ModelNotFoundError,
+  RateLimitError,
+  RequestCancelledError
+} from './llm-errors'
+import { llmService } from './llm'
+import { mockLLMService } from './mock-llm'
+
+// Retries without real backoff so failing calls settle immediately
+const fastRetry = { retry: { baseDelayMs: 0, maxDelayMs: 0 } }
+
+const ask = (model: string, content: string) => ({ model, messages: [{ role: 'user' as const, content }] })
+
+beforeEach(async () => {
+  mockLLMService.setEnabled(true)
+  mockLLMService.setLatencyScale(0)
+  await llmService.fetchModelCatalog()
+})
+
+afterEach(() => {
+  mockLLMService.reset()
+  mockLLMService.setEnabled(false)
+  costLedger.setBudget(undefined)
+})
+
+describe('routing', () => {
+  it('lists only configured providers in the catalog', async () => {
+    const models = await llmService.fetchModelCatalog()
+
+    expect(models.length).toBeGreaterThan(0)
+    expect(models.every(model => model.provider === 'mock' && model.id.startsWith('mock:'))).toBe(true)
+  })
+
+  it('sends a tagged model id to its provider and names the model that answered', async () => {
+    const response = await llmService.createChatCompletion(ask('mock:steady', 'Explain closures'))
+
+    expect(response.answeredBy).toBe('mock:steady')
+    expect(response.choices[0].message.content).toContain('Explain closures')
+  })
+
+  it('reads capabilities and pricing through the provider', () => {
+    expect(llmService.getCapabilities('mock:quick')).toEqual({ streaming: true, json: true, vision: false })
+    expect(llmService.getPricing('mock:quick')).toBeDefined()
+    expect(llmService.getPricing('mock:nope')).toBeUndefined()
+  })
+
+  it('rejects a model its provider does not serve', async () => {
+    await expect(llmService.createChatCompletion(ask('mock:nope', 'Hi'))).rejects.toBeInstanceOf(ModelNotFoundError)
+  })
+
+  it('streams the reply and records its priced usage', async () => {
+    const chunks: string[] = []
+    const onUsage = vi.fn()
+
+    const response = await llmService.createChatCompletion(
+      { ...ask('mock:quick', 'Write a limerick'), stream: true },
+      chunk => chunks.push(chunk),
+      { onUsage }
+    )
+
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.join('')).toBe(response.choices[0].message.content)
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ modelId: 'mock:quick', priced: true }))
+    expect(onUsage.mock.calls[0][0].cost).toBeGreaterThan(0)
+  })
+})
+
+describe('retries and fallbacks', () => {
+  it('retries a rate-limited call on the same model', async () => {
+    mockLLMService.setScript([{ model: 'steady', error: 'rate-limit', times: 2 }, { model: 'steady', reply: 'Third time lucky' }])
+
+    const response = await llmService.createChatCompletion(ask('mock:steady', 'Hi'), undefined, fastRetry)
+
+    expect(response.choices[0].message.content).toBe('Third time lucky')
+    expect(response.answeredBy).toBe('mock:steady')
+  })
+
+  it('falls back to the next model once retries run out', async () => {
+    mockLLMService.setScript([{ model: 'steady', error: 'provider', times: 10 }])
+
+    const response = await llmService.createChatCompletion(ask('mock:steady', 'Hi'), undefined, {
+      ...fastRetry,
+      fallbackModelIds: ['mock:quick'],
+    })
+
+    expect(response.answeredBy).toBe('mock:quick')
+  })
+
+  it('gives up with the last error when every model fails', async () => {
+    mockLLMService.setScript([{ error: 'rate-limit', times: 20 }])
+
+    await expect(llmService.createChatCompletion(ask('mock:steady', 'Hi'), undefined, {
+      retry: { baseDelayMs: 0, maxDelayMs: 0, maxRetries: 1 },
+      fallbackModelIds: ['mock:quick'],
+    })).rejects.toBeInstanceOf(RateLimitError)
+  })
+
+  it('does not fall back on an error another model would also hit', async () => {
+    mockLLMService.setScript([{ model: 'steady', error: 'auth' }])
+
+    await expect(llmService.createChatCompletion(ask('mock:steady', 'Hi'), undefined, {
+      fallbackModelIds: ['mock:quick'],
+    })).rejects.toBeInstanceOf(AuthError)
+  })
+
+  it('stops at once when the caller cancels', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(llmService.createChatCompletion(ask('mock:steady', 'Hi'), undefined, {
+      signal: controller.signal,
+      fallbackModelIds: ['mock:quick'],
+    })).rejects.toBeInstanceOf(RequestCancelledError)
+  })
+
+  it('refuses a call that would cross the spending cap', async () => {
+    costLedger.setBudget({ perRunLimit: 0.000001 })
+
+    await expect(llmService.createChatCompletion(ask('mock:steady', 'Hi'), undefined, {
+      runId: costLedger.startRun(),
+    })).rejects.toBeInstanceOf(BudgetExceededError)
+  })
+})
+
+describe('multi-round refinement', () => {
+  const models = [{ id: 'mock:steady', name: 'Mock Steady' }, { id: 'mock:flaky', name: 'Mock Flaky' }]
+
+  // An FFA run against the mock provider, recording who wrote each round
+  async function refine(options: Partial<IterativeRefinementOptions> = {}) {
+    const runner = new IterativeRefinementRunner({
+      llm: llmService,
+      config: { fallbackChains: { refiner: ['mock:quick'] } },
+      question: 'How do hash maps work?',
+      style: 'ffa',
+      models,
+      rounds: 3,
+      ...options,
+    })
+    const rounds: Array<{ roundNumber: number; modelId: string; answeredBy?: string; content: string }> = []
+    const failed: number[] = []
+    runner.on('round:complete', ({ round, answeredBy, content }) => {
+      rounds.push({ roundNumber: round.roundNumber, modelId: round.modelId, answeredBy, content })
+    })
+    runner.on('round:failed', ({ round }) => failed.push(round.roundNumber))
+
+    const state = await runner.run(models[0])
+    return { rounds, failed, state }
+  }
+
+  it('rotates through the models, retrying rate limits along the way', async () => {
+    // Mock Flaky rate-limits its third call, in round 5, which is retried
+    const { rounds, state } = await refine({ rounds: 5 })
+
+    expect(rounds.map(round => round.modelId)).toEqual([
+      'mock:steady', 'mock:flaky', 'mock:steady', 'mock:flaky', 'mock:steady', 'mock:flaky',
+    ])
+    expect(rounds.every(round => round.answeredBy === undefined)).toBe(true)
+    expect(state).toMatchObject({ roundNumber: 5, answer: rounds[5].content })
+  })
+
+  it('hands a failing round to the fallback model', async () => {
+    mockLLMService.setScript([{ model: 'flaky', match: 'Current Answer', error: 'content-filtered', times: 10 }])
+
+    const { rounds } = await refine({ rounds: 2 })
+
+    expect(rounds[1]).toMatchObject({ modelId: 'mock:flaky', answeredBy: 'mock:quick' })
+    expect(rounds[2]).toMatchObject({ modelId: 'mock:steady', answeredBy: undefined })
+  })
+
+  it('lets the next model refine the last good answer when a round fails outright', async () => {
+    mockLLMService.setScript([
+      { model: 'flaky', match: 'Current Answer', error: 'content-filtered' },
+      { model: 'quick', match: 'Current Answer', error: 'content-filtered' },
+    ])
+
+    const { rounds, failed, state } = await refine({ rounds: 2, continueAfterFailure: true })
+
+    expect(failed).toEqual([1])
+    expect(rounds.map(round => round.roundNumber)).toEqual([0, 2])
+    expect(state).toMatchObject({ roundNumber: 2, answer: rounds[1].content })
+  })
+
+  it('replays identically for the same question and models', async () => {
+    const first = await refine()
+    mockLLMService.reset()
+    const second = await refine()
+
+    expect(second.rounds).toEqual(first.rounds)
+  })
+})
@@ -0,0 +1,270 @@
+import { LLMProviderId, OpenRouterModel, UsageRecord } from '@/types'
+import { logger } from '@/utils/logger'
+import { costLedger } from './cost-ledger'
+import { estimateTokens } from '@/utils/cost-estimate'
+import { DEFAULT_RETRY_POLICY, getRetryDelay, wait, type RetryPolicy } from '@/utils/retry'
+import {
+  BudgetExceededError,
+  LLMError,
+  MalformedResponseError,
+  ModelNotFoundError,
+  RequestCancelledError,
+  canFallBack,
+  classifyHttpError,
+  isCancellationError
+} from './llm-errors'
+import {
+  parseModelId,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type LLMProvider,
+  type ModelCapabilities,
+  type ModelPricing
+} from './llm-provider'
+import { openRouterService } from './openrouter'
+import { geminiService } from './gemini'
+import { localLLMService } from './local-llm'
+import { mockLLMService } from './mock-llm'
+
+/**
+ * Per-call options for chat completions
+ */
+export interface ChatCompletionOptions {
+  /** Aborting the signal cancels the request, queued or in flight */
+  signal?: AbortSignal
+  /** Tags the call's usage in the cost ledger, e.g. with the project it was made for */
+  usageScope?: string
+  /** Groups calls under one per-run spending cap; see costLedger.startRun */
+  runId?: string
+  /** Receives the priced usage once the completion finishes */
+  onUsage?: (record: UsageRecord) => void
+  /** Models tried in order when the requested one still fails after its retries */
+  fallbackModelIds?: string[]
+  /** Overrides parts of the default retry policy for this call */
+  retry?: Partial<RetryPolicy>
+}
+
+// Text length of every message, for budget checks made before a call is sent
+function estimatePromptTokens(messages: ChatCompletionRequest['messages']): number {
+  return messages.reduce((sum, message) => {
+    const text = typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => part.text || '').join('\n')
+    return sum + estimateTokens(text)
+  }, 0)
+}
+
+/**
+ * Routes chat completions to the provider that serves each model, and merges every
+ * configured provider's models into one catalog. Retries, fallbacks, spending caps and
+ * usage records are handled here, the same way for every provider.
+ */
+class LLMService {
+  private providers = new Map<LLMProviderId, LLMProvider>()
+
+  constructor(providers: LLMProvider[]) {
+    providers.forEach(provider => this.providers.set(provider.id, provider))
+  }
+
+  getProvider(providerId: LLMProviderId): LLMProvider | undefined {
+    return this.providers.get(providerId)
+  }
+
+  /**
+   * Providers that have credentials and can take requests
+   */
+  getConfiguredProviders(): LLMProvider[] {
+    return Array.from(this.providers.values()).filter(provider => provider.isConfigured())
+  }
+
+  /**
+   * Fetch every configured provider's models into one catalog. A provider that fails is
+   * left out; the call only fails when none answer.
+   */
+  async fetchModelCatalog(forceRefresh = false): Promise<OpenRouterModel[]> {
+    const providers = this.getConfiguredProviders()
+    if (providers.length === 0) {
+      throw new ModelNotFoundError('No model provider is configured. Add an API key first.')
+    }
+
+    const results = await Promise.allSettled(providers.map(provider => provider.listModels(forceRefresh)))
+    const models: OpenRouterModel[] = []
+    const failures: unknown[] = []
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        models.push(...result.value.map(model => ({ ...model, provider: providers[index].id })))
+      } else {
+        logger.error(`Failed to fetch ${providers[index].name} models`, result.reason)
+        failures.push(result.reason)
+      }
+    })
+
+    if (models.length === 0 && failures.length > 0) {
+      throw failures[0]
+    }
+
+    costLedger.setCatalog(models)
+    return models
+  }
+
+  getCapabilities(catalogModelId: string): ModelCapabilities | undefined {
+    const { providerId, modelId } = parseModelId(catalogModelId)
+    return this.providers.get(providerId)?.getCapabilities(modelId)
+  }
+
+  getPricing(catalogModelId: string): ModelPricing | undefined {
+    const { providerId, modelId } = parseModelId(catalogModelId)
+    return this.providers.get(providerId)?.getPricing(modelId)
+  }
+
+  /**
+   * Make a chat completion request with any catalog model.
+   *
+   * Rate limits, timeouts and server errors are retried with backoff. When a model still
+   * fails, the request moves down `options.fallbackModelIds`, which may belong to other
+   * providers; `answeredBy` on the response names the model that produced it. A streamed
+   * reply that already showed some text is never retried, since the text cannot be taken back.
+   */
+  async createChatCompletion(
+    request: ChatCompletionRequest,
+    onStream?: (chunk: string) => void,
+    options: ChatCompletionOptions = {}
+  ): Promise<ChatCompletionResponse> {
+    const { signal, usageScope, runId, onUsage } = options
+
+    const modelIds = [request.model, ...(options.fallbackModelIds || [])]
+      .filter((id, index, all) => id && all.indexOf(id) === index)
+
+    let streamed = false
+    const forwardChunk = onStream && ((chunk: string) => {
+      streamed = true
+      onStream(chunk)
+    })
+
+    for (let i = 0; i < modelIds.length; i++) {
+      const attempt = { ...request, model: modelIds[i] }
+      const { providerId } = parseModelId(attempt.model)
+
+      // Pauses here while the user decides whether to go past a spending cap
+      const approved = await costLedger.approveCall({
+        modelId: attempt.model,
+        promptTokens: estimatePromptTokens(attempt.messages),
+        maxTokens: attempt.max_tokens,
+      }, runId)
+      if (!approved) {
+        throw new BudgetExceededError(undefined, { provider: providerId, model: attempt.model })
+      }
+
+      // Debug logging for troubleshooting
+      logger.apiCall('POST', 'chat completion', {
+        provider: providerId,
+        model: attempt.model,
+        messageCount: attempt.messages.length,
+        temperature: attempt.temperature,
+      })
+
+      try {
+        const response = await this.sendWithRetry(attempt, forwardChunk, options, () => streamed)
+
+        const usageRecord = costLedger.record([response.model, attempt.model], response.usage, usageScope, runId)
+        if (usageRecord) onUsage?.(usageRecord)
+        return { ...response, answeredBy: attempt.model }
+      } catch (error) {
+        const llmError = this.toLLMError(error, attempt.model, signal)
+        if (isCancellationError(llmError)) {
+          logger.info('Chat completion cancelled', { model: attempt.model })
+          throw llmError
+        }
+
+        logger.error('Chat completion failed', llmError.cause ?? llmError, {
+          provider: llmError.provider,
+          model: attempt.model,
+          kind: llmError.kind,
+          status: llmError.status,
+          errorMessage: llmError.message
+        })
+
+        const nextModelId = modelIds[i + 1]
+        if (!nextModelId || streamed || !canFallBack(llmError)) {
+          throw llmError
+        }
+        logger.warn('Falling back to the next model in the chain', {
+          failedModel: attempt.model,
+          nextModel: nextModelId,
+        })
+      }
+    }
+
+    throw new ModelNotFoundError('No model to send the request to')
+  }
+
+  /**
+   * Send one request to the model's provider, retrying failures that may succeed on a
+   * later attempt
+   */
+  private async sendWithRetry(
+    request: ChatCompletionRequest,
+    onStream: ((chunk: string) => void) | undefined,
+    options: ChatCompletionOptions,
+    hasStreamed: () => boolean
+  ): Promise<ChatCompletionResponse> {
+    const { signal } = options
+    const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry }
+    const { providerId, modelId } = parseModelId(request.model)
+    const provider = this.providers.get(providerId)
+
+    if (!provider) {
+      throw new ModelNotFoundError(undefined, { provider: providerId, model: request.model })
+    }
+    const providerRequest = { ...request, model: modelId }
+    const canStream = request.stream && onStream && provider.getCapabilities(modelId).streaming
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = canStream
+          ? await provider.stream(providerRequest, onStream!, signal)
+          : await provider.chat(providerRequest, signal)
+
+        if (!response.choices?.[0]?.message?.content) {
+          throw new MalformedResponseError(undefined, { provider: providerId, model: request.model })
+        }
+        // Callers that asked for a stream still get the text when the model cannot stream
+        if (request.stream && onStream && !canStream) {
+          onStream(response.choices[0].message.content)
+        }
+        return response
+      } catch (error) {
+        const llmError = this.toLLMError(error, request.model, signal)
+        if (isCancellationError(llmError)) throw llmError
+
+        const delay = hasStreamed() ? null : getRetryDelay(llmError, attempt, policy)
+        if (delay === null) throw llmError
+
+        logger.warn('Retrying chat completion', {
+          model: request.model,
+          retry: attempt + 1,
+          delayMs: Math.round(delay),
+          kind: llmError.kind,
+          status: llmError.status,
+        })
+        await wait(delay, signal)
+      }
+    }
+  }
+
+  /**
+   * Providers throw LLMErrors; this covers anything that slipped past them
+   */
+  private toLLMError(error: unknown, model: string, signal?: AbortSignal): LLMError {
+    if (error instanceof LLMError) return error
+    const provider = parseModelId(model).providerId
+    if (signal?.aborted) {
+      return new RequestCancelledError(undefined, { provider, model })
+    }
+    return classifyHttpError(error, { provider, model })
+  }
+}
+
+// Export singleton instance
+export const llmService = new LLMService([openRouterService, geminiService, localLLMService, mockLLMService])
@@ -0,0 +1,189 @@
+import axios, { AxiosInstance } from 'axios'
+import Bottleneck from 'bottleneck'
+import { OpenRouterModel } from '@/types'
+import { logger } from '@/utils/logger'
+import {
+  AuthError,
+  LLMError,
+  NetworkError,
+  RequestCancelledError,
+  classifyHttpError
+} from './llm-errors'
+import { streamChatCompletion } from './openai-compatible'
+import {
+  toCatalogModelId,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type LLMProvider,
+  type ModelCapabilities,
+  type ModelPricing
+} from './llm-provider'
+
+const PROVIDER = 'local'
+const REQUEST_TIMEOUT = 300000 // Local models on modest hardware can take minutes
+
+// Self-hosted models cost nothing per token
+const FREE: ModelPricing = { prompt: 0, completion: 0 }
+
+interface LocalModelsResponse {
+  data?: Array<{ id: string; owned_by?: string }>
+}
+
+/**
+ * Self-hosted models behind any OpenAI-compatible API: Ollama (`http://localhost:11434/v1`),
+ * llama.cpp's server, vLLM, LM Studio and the like
+ */
+class LocalLLMService implements LLMProvider {
+  readonly id = 'local'
+  readonly name = 'Local server'
+
+  private client: AxiosInstance | null = null
+  private baseUrl: string | null = null
+  private apiKey: string | null = null
+  private modelIds = new Set<string>()
+  // Most local servers generate one reply at a time; more in flight only queue up there
+  private limiter = new Bottleneck({ maxConcurrent: 2 })
+
+  /**
+   * Point the service at a server. The API key is optional.
+   */
+  initialize(baseUrl: string, apiKey?: string) {
+    if (!baseUrl) {
+      throw new AuthError('Local server URL is required', { provider: PROVIDER })
+    }
+
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+    this.apiKey = apiKey || null
+    this.client = axios.create({
+      baseURL: this.baseUrl,
+      headers: this.getHeaders(),
+      timeout: REQUEST_TIMEOUT,
+    })
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+    }
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null
+  }
+
+  /**
+   * Fetch the server's /models list. Servers report little beyond the id, so every model is
+   * listed as text-only with JSON mode and no pricing cost.
+   */
+  async listModels(): Promise<OpenRouterModel[]> {
+    if (!this.client) {
+      throw new AuthError('Local server not configured. Please set its URL first.', { provider: PROVIDER })
+    }
+
+    try {
+      const response = await this.client.get<LocalModelsResponse>('/models')
+      const models = response.data.data || []
+      this.modelIds = new Set(models.map(model => model.id))
+
+      return models.map(model => ({
+        id: toCatalogModelId(PROVIDER, model.id),
+        name: `${model.id} (local)`,
+        description: `Served by ${this.baseUrl}`,
+        pricing: FREE,
+        architecture: {
+          modality: 'text->text',
+          input_modalities: ['text'],
+          output_modalities: ['text'],
+        },
+        supported_parameters: ['temperature', 'max_tokens', 'response_format'],
+        provider: PROVIDER,
+      }))
+    } catch (error) {
+      logger.error('Failed to fetch local models', error, { baseUrl: this.baseUrl })
+      throw this.toLLMError(error)
+    }
+  }
+
+  getCapabilities(): ModelCapabilities {
+    return { streaming: true, json: true, vision: false }
+  }
+
+  getPricing(modelId: string): ModelPricing | undefined {
+    return this.modelIds.has(modelId) ? FREE : undefined
+  }
+
+  async chat(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResponse> {
+    if (!this.client) {
+      throw new AuthError('Local server not configured. Please set its URL first.', { provider: PROVIDER })
+    }
+
+    try {
+      const response = await this.limiter.schedule(() =>
+        this.client!.post<ChatCompletionResponse>('/chat/completions', { ...request, stream: false }, { signal })
+      )
+      return response.data
+    } catch (error) {
+      throw this.toLLMError(error, request.model, signal)
+    }
+  }
+
+  async stream(
+    request: ChatCompletionRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    if (!this.client) {
+      throw new AuthError('Local server not configured. Please set its URL first.', { provider: PROVIDER })
+    }
+
+    try {
+      return await streamChatCompletion({
+        url: `${this.baseUrl}/chat/completions`,
+        headers: this.getHeaders(),
+        request,
+        extraBody: { stream_options: { include_usage: true } },
+        provider: PROVIDER,
+        timeoutMs: REQUEST_TIMEOUT,
+        onStream: onChunk,
+        signal,
+        schedule: job => this.limiter.schedule(job),
+      })
+    } catch (error) {
+      throw this.toLLMError(error, request.model, signal)
+    }
+  }
+
+  /**
+   * Type a failure. An unreachable server is almost always one that is not running, so the
+   * message says so instead of blaming the internet connection.
+   */
+  private toLLMError(error: unknown, model?: string, signal?: AbortSignal): LLMError {
+    if (error instanceof LLMError) return error
+    if (axios.isCancel(error) || signal?.aborted) {
+      return new RequestCancelledError(undefined, { provider: PROVIDER, model })
+    }
+
+    const llmError = classifyHttpError(error, { provider: PROVIDER, model })
+    if (llmError instanceof NetworkError) {
+      return new NetworkError(
+        `Could not reach the local server at ${this.baseUrl}. Check that it is running and allows requests from this page (CORS).`,
+        { provider: PROVIDER, model, cause: error }
+      )
+    }
+    return llmError
+  }
+
+  /**
+   * Forget the server
+   */
+  reset() {
+    this.client = null
+    this.baseUrl = null
+    this.apiKey = null
+    this.modelIds.clear()
+  }
+}
+
+// Export singleton instance
+export const localLLMService = new LocalLLMService()
@@ -0,0 +1,313 @@
+import { OpenRouterModel } from '@/types'
+import { createRandom } from '@/utils/random'
+import { wait } from '@/utils/retry'
+import { estimateTokens } from '@/utils/cost-estimate'
+import {
+  AuthError,
+  ContentFilteredError,
+  ContextLengthExceededError,
+  LLMError,
+  LLMErrorKind,
+  MalformedResponseError,
+  ModelNotFoundError,
+  NetworkError,
+  ProviderError,
+  QuotaExceededError,
+  RateLimitError,
+  RequestCancelledError,
+  TimeoutError
+} from './llm-errors'
+import {
+  toCatalogModelId,
+  type ChatCompletionRequest,
+  type ChatCompletionResponse,
+  type ChatMessage,
+  type LLMProvider,
+  type ModelCapabilities,
+  type ModelPricing
+} from './llm-provider'
+
+const PROVIDER = 'mock'
+
+// Made-up prices, high enough that cost estimates and spending caps can be exercised
+const MOCK_PRICING: ModelPricing = { prompt: 0.000001, completion: 0.000002 }
+
+export interface MockModel {
+  id: string // Without the "mock:" tag
+  name: string
+  description: string
+  latencyMs: number // Before the first chunk
+  chunkDelayMs: number // Between streamed chunks
+  rateLimitEvery?: number // Every Nth call to the model fails with a 429
+  malformedJsonRate?: number // Share of judge replies sent as broken JSON, 0-1
+}
+
+export const MOCK_MODELS: MockModel[] = [
+  {
+    id: 'steady',
+    name: 'Mock Steady',
+    description: 'Answers every call after a short delay',
+    latencyMs: 400,
+    chunkDelayMs: 25,
+  },
+  {
+    id: 'quick',
+    name: 'Mock Quick',
+    description: 'Answers almost instantly',
+    latencyMs: 50,
+    chunkDelayMs: 5,
+  },
+  {
+    id: 'flaky',
+    name: 'Mock Flaky',
+    description: 'Fails every third call with a rate limit',
+    latencyMs: 300,
+    chunkDelayMs: 20,
+    rateLimitEvery: 3,
+  },
+  {
+    id: 'sloppy-judge',
+    name: 'Mock Sloppy Judge',
+    description: 'Sends broken JSON for about half of its judge replies',
+    latencyMs: 300,
+    chunkDelayMs: 20,
+    malformedJsonRate: 0.5,
+  },
+]
+
+/**
+ * A canned reply or failure for the next matching call. Entries are used in order, and
+ * calls nothing matches fall through to the model's generated reply.
+ */
+export interface MockScriptEntry {
+  model?: string // Catalog or bare id; any mock model when unset
+  match?: string | RegExp // Tested against the last user message
+  reply?: string
+  error?: LLMErrorKind
+  times?: number // How many calls the entry answers; defaults to 1
+}
+
+// FNV-1a, to seed replies from the request so the same request always gets the same reply
+function hashString(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+function messageText(message: ChatMessage): string {
+  return typeof message.content === 'string'
+    ? message.content
+    : message.content.map(part => part.text || '').join('\n')
+}
+
+function createMockError(kind: LLMErrorKind, model: string): LLMError {
+  const details = { provider: PROVIDER, model }
+  switch (kind) {
+    case 'auth': return new AuthError(undefined, details)
+    case 'rate-limit': return new RateLimitError(undefined, { ...details, status: 429 })
+    case 'quota': return new QuotaExceededError(undefined, details)
+    case 'model-not-found': return new ModelNotFoundError(undefined, details)
+    case 'context-length-exceeded': return new ContextLengthExceededError(undefined, details)
+    case 'content-filtered': return new ContentFilteredError(undefined, details)
+    case 'network': return new NetworkError(undefined, details)
+    case 'timeout': return new TimeoutError(undefined, details)
+    case 'cancelled': return new RequestCancelledError(undefined, details)
+    case 'malformed-response': return new MalformedResponseError(undefined, details)
+    case 'provider': return new ProviderError('Mock provider error', { ...details, status: 500 })
+  }
+}
+
+const FILLER = [
+  'The key idea is to start from the constraints and work outward.',
+  'A concrete example makes the trade-offs easier to see.',
+  'Edge cases deserve explicit handling rather than assumptions.',
+  'The simplest approach that meets the requirements is usually the right first step.',
+  'Each step can be checked independently before moving on.',
+  'It helps to state the assumptions up front so they can be challenged.',
+  'Performance only matters once correctness is settled.',
+  'A short summary at the end ties the points together.',
+]
+
+/**
+ * Offline stand-in for a model provider, for development and tests. Replies are generated
+ * from a seed derived from the request, so a run replays identically; latency, streaming,
+ * rate limits and malformed judge JSON are simulated per model.
+ */
+class MockLLMService implements LLMProvider {
+  readonly id = 'mock'
+  readonly name = 'Mock provider'
+
+  private enabled = false
+  private latencyScale = 1
+  private script: Array<MockScriptEntry & { remaining: number }> = []
+  private callCounts = new Map<string, number>()
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled
+  }
+
+  /**
+   * Multiply every simulated delay, e.g. 0 in tests
+   */
+  setLatencyScale(scale: number) {
+    this.latencyScale = Math.max(0, scale)
+  }
+
+  /**
+   * Queue canned replies and failures for upcoming calls
+   */
+  setScript(entries: MockScriptEntry[]) {
+    this.script = entries.map(entry => ({ ...entry, remaining: entry.times ?? 1 }))
+  }
+
+  /**
+   * Drop the script and the per-model call counts that drive simulated rate limits
+   */
+  reset() {
+    this.script = []
+    this.callCounts.clear()
+  }
+
+  isConfigured(): boolean {
+    return this.enabled
+  }
+
+  async listModels(): Promise<OpenRouterModel[]> {
+    return MOCK_MODELS.map(model => ({
+      id: toCatalogModelId(PROVIDER, model.id),
+      name: model.name,
+      description: `${model.description} (offline mock)`,
+      context_length: 128000,
+      pricing: MOCK_PRICING,
+      architecture: {
+        modality: 'text->text',
+        input_modalities: ['text'],
+        output_modalities: ['text'],
+      },
+      supported_parameters: ['temperature', 'max_tokens', 'response_format'],
+      provider: PROVIDER,
+    }))
+  }
+
+  getCapabilities(): ModelCapabilities {
+    return { streaming: true, json: true, vision: false }
+  }
+
+  getPricing(modelId: string): ModelPricing | undefined {
+    return MOCK_MODELS.some(model => model.id === modelId) ? MOCK_PRICING : undefined
+  }
+
+  chat(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResponse> {
+    return this.respond(request, undefined, signal)
+  }
+
+  stream(
+    request: ChatCompletionRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    return this.respond(request, onChunk, signal)
+  }
+
+  private async respond(
+    request: ChatCompletionRequest,
+    onChunk: ((chunk: string) => void) | undefined,
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    const model = MOCK_MODELS.find(m => m.id === request.model)
+    if (!model) {
+      throw new ModelNotFoundError(undefined, { provider: PROVIDER, model: request.model })
+    }
+
+    const calls = (this.callCounts.get(model.id) || 0) + 1
+    this.callCounts.set(model.id, calls)
+
+    const prompt = request.messages.map(messageText).join('\n\n')
+    const lastUserMessage = messageText([...request.messages].reverse().find(m => m.role === 'user') || { role: 'user', content: '' })
+    const scripted = this.takeScriptEntry(model.id, lastUserMessage)
+    const random = createRandom(hashString(`${model.id}\n${prompt}`))
+
+    await wait(model.latencyMs * this.latencyScale, signal)
+
+    if (scripted?.error) {
+      throw createMockError(scripted.error, model.id)
+    }
+    if (!scripted && model.rateLimitEvery && calls % model.rateLimitEvery === 0) {
+      throw new RateLimitError(undefined, { provider: PROVIDER, model: model.id, status: 429 }, 1000 * this.latencyScale)
+    }
+
+    const content = scripted?.reply ?? this.generateReply(model, prompt, lastUserMessage, random)
+
+    if (onChunk) {
+      // Stream a few words at a time, like a real provider
+      const pieces = content.match(/\S+\s*/g) || [content]
+      for (let i = 0; i < pieces.length; i += 3) {
+        await wait(model.chunkDelayMs * this.latencyScale, signal)
+        onChunk(pieces.slice(i, i + 3).join(''))
+      }
+    }
+
+    const promptTokens = estimateTokens(prompt)
+    const completionTokens = estimateTokens(content)
+    return {
+      id: `mock-${model.id}-${calls}`,
+      model: toCatalogModelId(PROVIDER, model.id),
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content },
+        finish_reason: 'stop',
+      }],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    }
+  }
+
+  private takeScriptEntry(modelId: string, lastUserMessage: string): MockScriptEntry | undefined {
+    const entry = this.script.find(candidate =>
+      candidate.remaining > 0 &&
+      (!candidate.model || candidate.model === modelId || candidate.model === toCatalogModelId(PROVIDER, modelId)) &&
+      (!candidate.match || (typeof candidate.match === 'string'
+        ? lastUserMessage.includes(candidate.match)
+        : candidate.match.test(lastUserMessage)))
+    )
+    if (entry) entry.remaining--
+    return entry
+  }
+
+  /**
+   * Judge prompts get JSON in the shape they ask for; anything else gets prose
+   */
+  private generateReply(model: MockModel, prompt: string, lastUserMessage: string, random: () => number): string {
+    const isPairwise = prompt.includes('"winner": "A" | "B" | "tie"')
+    const scoreKeys = [...prompt.matchAll(/"([^"\n]+)":\s*(?:\[score 0-100|<0-100>)/g)].map(match => match[1])
+
+    if (isPairwise || scoreKeys.length > 0) {
+      if (model.malformedJsonRate && random() < model.malformedJsonRate) {
+        // A typical broken reply: prose around a truncated object
+        return `Here is my evaluation:\n{"${isPairwise ? 'winner": "A' : `scores": {"${scoreKeys[0]}": 8`}`
+      }
+      if (isPairwise) {
+        const roll = random()
+        const winner = roll < 0.45 ? 'A' : roll < 0.9 ? 'B' : 'tie'
+        return JSON.stringify({ winner, reasoning: `${model.name} preferred ${winner === 'tie' ? 'neither answer' : `answer ${winner}`} on balance.` })
+      }
+
+      const scores = Object.fromEntries([...new Set(scoreKeys)].map(key => [key, 50 + Math.floor(random() * 46)]))
+      const commentKey = prompt.includes('"rationale"') ? 'rationale' : 'feedback'
+      return JSON.stringify({ scores, [commentKey]: `${model.name} found the answer generally solid, with room to be more specific.` })
+    }
+
+    const topic = lastUserMessage.trim().split(/\s+/).slice(0, 12).join(' ')
+    const sentences = Array.from({ length: 3 + Math.floor(random() * 4) }, () => FILLER[Math.floor(random() * FILLER.length)])
+    return `${model.name} response to: "${topic}${topic.length < lastUserMessage.trim().length ? '...' : ''}"\n\n${sentences.join(' ')}`
+  }
+}
+
+// Export singleton instance
+export const mockLLMService = new MockLLMService()
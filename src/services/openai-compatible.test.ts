@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { deltaEvent, sseEvent, sseResponse } from '@/test/sse'
+import { MalformedResponseError, RequestCancelledError, TimeoutError } from './llm-errors'
+import { createHttpError, createSSEParser, streamChatCompletion } from './openai-compatible'
+
+describe('createSSEParser', () => {
+  function parse(chunks: string[]) {
+    const events: string[] = []
+    const parser = createSSEParser(data => events.push(data))
+    chunks.forEach(chunk => parser.push(chunk))
+    parser.flush()
+    return events
+  }
+
+  it('dispatches an event at the blank line that ends it', () => {
+    expect(parse(['data: one\n\ndata: two\n\n'])).toEqual(['one', 'two'])
+  })
+
+  it('buffers lines split across network chunks', () => {
+    expect(parse(['da', 'ta: {"a"', ':1}\n', '\n'])).toEqual(['{"a":1}'])
+  })
+
+  it('joins the data lines of one event', () => {
+    expect(parse(['data: first\ndata: second\n\n'])).toEqual(['first\nsecond'])
+  })
+
+  it('drops comments and unused fields', () => {
+    expect(parse([': OPENROUTER PROCESSING\n\nevent: message\nid: 7\ndata: kept\n\n'])).toEqual(['kept'])
+  })
+
+  it('accepts CRLF and CR line endings', () => {
+    expect(parse(['data: a\r\n\r\ndata: b\r\r'])).toEqual(['a', 'b'])
+  })
+
+  it('dispatches a trailing event on flush', () => {
+    expect(parse(['data: last'])).toEqual(['last'])
+  })
+})
+
+describe('createHttpError', () => {
+  it('looks like an axios error with the API message', () => {
+    const error = createHttpError(429, { error: { message: 'Slow down' } }, { 'retry-after': '3' }) as any
+    expect(error.message).toBe('Slow down')
+    expect(error.response).toEqual({ status: 429, data: { error: { message: 'Slow down' } }, headers: { 'retry-after': '3' } })
+  })
+})
+
+describe('streamChatCompletion', () => {
+  const baseOptions = {
+    url: 'https://example.test/v1/chat/completions',
+    headers: { 'Content-Type': 'application/json' },
+    request: { model: 'test/model', messages: [{ role: 'user' as const, content: 'Hi' }] },
+    provider: 'local',
+    timeoutMs: 1000,
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends the extra body fields with stream set', async () => {
+    const fetchMock = vi.fn(async () => sseResponse([deltaEvent('ok'), sseEvent('[DONE]')]))
+    vi.stubGlobal('fetch', fetchMock)
+
+    await streamChatCompletion({ ...baseOptions, extraBody: { stream_options: { include_usage: true } }, onStream: () => {} })
+
+    const body = JSON.parse((fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1].body as string)
+    expect(body).toMatchObject({ model: 'test/model', stream: true, stream_options: { include_usage: true } })
+  })
+
+  it('stops reading at [DONE]', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sseResponse([deltaEvent('kept'), sseEvent('[DONE]'), deltaEvent(' ignored')])))
+
+    const response = await streamChatCompletion({ ...baseOptions, onStream: () => {} })
+    expect(response.choices[0].message.content).toBe('kept')
+  })
+
+  it('skips chunks that are not JSON', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sseResponse([sseEvent('{not json'), deltaEvent('fine'), sseEvent('[DONE]')])))
+
+    const response = await streamChatCompletion({ ...baseOptions, onStream: () => {} })
+    expect(response.choices[0].message.content).toBe('fine')
+  })
+
+  it('fails when the stream ends without any content', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sseResponse([': keep-alive\n\n'])))
+
+    await expect(streamChatCompletion({ ...baseOptions, onStream: () => {} }))
+      .rejects.toBeInstanceOf(MalformedResponseError)
+  })
+
+  it('reports an abort from the caller as a cancellation', async () => {
+    const controller = new AbortController()
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+    })))
+
+    const pending = streamChatCompletion({ ...baseOptions, onStream: () => {}, signal: controller.signal })
+    controller.abort()
+    await expect(pending).rejects.toBeInstanceOf(RequestCancelledError)
+  })
+
+  it('reports its own abort as a timeout', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+    })))
+
+    await expect(streamChatCompletion({ ...baseOptions, timeoutMs: 10, onStream: () => {} }))
+      .rejects.toBeInstanceOf(TimeoutError)
+  })
+})
@@ -0,0 +1,235 @@
+import { logger } from '@/utils/logger'
+import { MalformedResponseError, RequestCancelledError, TimeoutError } from './llm-errors'
+import type { ChatCompletionRequest, ChatCompletionResponse } from './llm-provider'
+
+/**
+ * Helpers shared by providers that speak the OpenAI chat completions API (OpenRouter and
+ * self-hosted servers such as Ollama, llama.cpp or vLLM)
+ */
+
+/**
+ * A single chunk of a streamed chat completion
+ */
+interface ChatCompletionChunk {
+  id?: string
+  model?: string
+  choices?: Array<{
+    index: number
+    delta?: { role?: string; content?: string | null }
+    finish_reason?: string | null
+  }>
+  usage?: ChatCompletionResponse['usage']
+  error?: { message?: string; code?: number | string }
+}
+
+/**
+ * Incremental parser for a text/event-stream body.
+ *
+ * Network chunks can end anywhere, including in the middle of a line, so
+ * partial lines are buffered until their newline arrives. Comment lines
+ * (keep-alives such as ": OPENROUTER PROCESSING") are dropped, and the data
+ * lines of an event are joined and dispatched when the blank line ending the
+ * event is seen.
+ */
+export function createSSEParser(onData: (data: string) => void) {
+  let buffer = ''
+  let dataLines: string[] = []
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onData(dataLines.join('\n'))
+      dataLines = []
+    }
+  }
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch()
+    } else if (line.startsWith(':')) {
+      // Comment / keep-alive line
+    } else if (line.startsWith('data:')) {
+      const value = line.slice(5)
+      dataLines.push(value.startsWith(' ') ? value.slice(1) : value)
+    }
+    // Other fields (event, id, retry) are not used by chat completion streams
+  }
+
+  return {
+    push(chunk: string) {
+      buffer += chunk
+      const lines = buffer.split(/\r\n|\r|\n/)
+      buffer = lines.pop() ?? ''
+      lines.forEach(processLine)
+    },
+    flush() {
+      if (buffer) {
+        processLine(buffer)
+        buffer = ''
+      }
+      dispatch()
+    },
+  }
+}
+
+/**
+ * Build an error shaped like an axios HTTP error so streaming and
+ * non-streaming failures are classified the same way
+ */
+export function createHttpError(status: number, data: any, headers: Record<string, string> = {}): Error {
+  const message = data?.error?.message || `Request failed with status code ${status}`
+  return Object.assign(new Error(message), { response: { status, data, headers } })
+}
+
+export interface StreamChatCompletionOptions {
+  url: string // The server's /chat/completions endpoint
+  headers: Record<string, string>
+  request: ChatCompletionRequest
+  extraBody?: Record<string, unknown> // Server-specific fields, e.g. how to ask for usage
+  provider: string
+  timeoutMs: number
+  onStream: (chunk: string) => void
+  signal?: AbortSignal
+  /** Runs the fetch, e.g. through the provider's rate limiter */
+  schedule?: <T>(job: () => Promise<T>, signal?: AbortSignal) => Promise<T>
+}
+
+/**
+ * Handle streaming chat completion.
+ *
+ * Uses fetch and the response body's ReadableStream, which work in the
+ * browser (axios' `responseType: 'stream'` only works under Node).
+ */
+export async function streamChatCompletion(options: StreamChatCompletionOptions): Promise<ChatCompletionResponse> {
+  const { request, provider, onStream, signal } = options
+  const schedule = options.schedule || (<T>(job: () => Promise<T>) => job())
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    const response = await schedule(() =>
+      fetch(options.url, {
+        method: 'POST',
+        headers: options.headers,
+        body: JSON.stringify({
+          ...request,
+          ...options.extraBody,
+          stream: true,
+        }),
+        signal: controller.signal,
+      }),
+      signal
+    )
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null)
+      const headers: Record<string, string> = {}
+      response.headers.forEach((value, key) => {
+        headers[key] = value
+      })
+      throw createHttpError(response.status, data, headers)
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming is not supported by this browser')
+    }
+
+    let fullContent = ''
+    let id = ''
+    let model = request.model
+    let finishReason = 'stop'
+    let usage: ChatCompletionResponse['usage']
+    let streamError: Error | null = null
+    let done = false
+
+    const parser = createSSEParser((data) => {
+      if (done || streamError) return
+      if (data === '[DONE]') {
+        done = true
+        return
+      }
+
+      let chunk: ChatCompletionChunk
+      try {
+        chunk = JSON.parse(data)
+      } catch (e) {
+        logger.error('Failed to parse streaming chunk', e, { data })
+        return
+      }
+
+      // Errors after the stream has started arrive as a payload, not a status
+      if (chunk.error) {
+        streamError = createHttpError(Number(chunk.error.code) || 502, { error: chunk.error })
+        return
+      }
+
+      id = chunk.id || id
+      model = chunk.model || model
+      if (chunk.usage) {
+        usage = chunk.usage
+      }
+
+      const choice = chunk.choices?.[0]
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason
+      }
+      const content = choice?.delta?.content
+      if (content) {
+        fullContent += content
+        onStream(content)
+      }
+    })
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+
+    while (!done && !streamError) {
+      const { value, done: readerDone } = await reader.read()
+      if (readerDone) {
+        parser.push(decoder.decode())
+        parser.flush()
+        break
+      }
+      parser.push(decoder.decode(value, { stream: true }))
+    }
+
+    if (!done || streamError) {
+      reader.cancel().catch(() => {})
+    }
+
+    if (streamError) {
+      throw streamError
+    }
+
+    if (!done && !fullContent) {
+      throw new MalformedResponseError('Stream ended without message', { provider, model: request.model })
+    }
+
+    return {
+      id,
+      model,
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: fullContent,
+        },
+        finish_reason: finishReason,
+      }],
+      usage,
+    }
+  } catch (error: any) {
+    if (error?.name === 'AbortError') {
+      if (signal?.aborted) {
+        throw new RequestCancelledError(undefined, { provider, model: request.model })
+      }
+      throw new TimeoutError(undefined, { provider, model: request.model, cause: error })
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
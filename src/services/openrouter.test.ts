@@ -0,0 +1,205 @@
+import axios from 'axios'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { deltaEvent, sseEvent, sseResponse } from '@/test/sse'
+import { costLedger } from './cost-ledger'
+import {
+  AuthError,
+  ContextLengthExceededError,
+  ModelNotFoundError,
+  NetworkError,
+  ProviderError,
+  QuotaExceededError,
+  RateLimitError,
+  RequestCancelledError
+} from './llm-errors'
+import { openRouterService } from './openrouter'
+
+const request = { model: 'openai/gpt-4o', messages: [{ role: 'user' as const, content: 'Hello' }] }
+
+const completion = (content: string) => ({
+  id: 'gen-1',
+  model: 'openai/gpt-4o',
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+})
+
+// What axios rejects with for a non-2xx response
+const httpError = (status: number, message?: string, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, data: message ? { error: { message } } : {}, headers },
+  })
+
+const client = { get: vi.fn(), post: vi.fn() }
+
+beforeEach(() => {
+  vi.stubGlobal('window', { location: { origin: 'http://localhost:5173' } })
+  vi.spyOn(axios, 'create').mockReturnValue(client as any)
+  openRouterService.initialize('sk-or-test')
+})
+
+afterEach(() => {
+  openRouterService.reset()
+  client.get.mockReset()
+  client.post.mockReset()
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+})
+
+describe('chat', () => {
+  it('posts a non-streaming request and returns the completion', async () => {
+    client.post.mockResolvedValue({ data: completion('Hi there') })
+
+    const response = await openRouterService.chat(request)
+
+    expect(response.choices[0].message.content).toBe('Hi there')
+    expect(client.post).toHaveBeenCalledWith('/chat/completions', { ...request, stream: false }, { signal: undefined })
+  })
+
+  it.each([
+    [401, undefined, AuthError],
+    [402, 'Insufficient credits', QuotaExceededError],
+    [404, undefined, ModelNotFoundError],
+    [400, 'This model\'s maximum context length is 8192 tokens', ContextLengthExceededError],
+    [429, 'Quota exceeded for this key', QuotaExceededError],
+    [500, 'Upstream exploded', ProviderError],
+  ])('maps HTTP %i to the matching error type', async (status, message, ErrorType) => {
+    client.post.mockRejectedValue(httpError(status, message))
+
+    const error = await openRouterService.chat(request).catch(e => e)
+
+    expect(error).toBeInstanceOf(ErrorType)
+    expect(error).toMatchObject({ provider: 'openrouter', model: 'openai/gpt-4o', status })
+  })
+
+  it('reads Retry-After on a rate limit', async () => {
+    client.post.mockRejectedValue(httpError(429, 'Rate limit exceeded', { 'retry-after': '2' }))
+
+    const error = await openRouterService.chat(request).catch(e => e)
+
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error.retryable).toBe(true)
+    expect(error.retryAfterMs).toBe(2000)
+  })
+
+  it('treats server errors as retryable and client errors as final', async () => {
+    client.post.mockRejectedValueOnce(httpError(503)).mockRejectedValueOnce(httpError(400, 'Bad input'))
+
+    expect((await openRouterService.chat(request).catch(e => e)).retryable).toBe(true)
+    expect((await openRouterService.chat(request).catch(e => e)).retryable).toBe(false)
+  })
+
+  it('turns an error reported in a 200 body into a typed error', async () => {
+    client.post.mockResolvedValue({ data: { error: { code: 429, message: 'Provider is rate limited' } } })
+
+    await expect(openRouterService.chat(request)).rejects.toBeInstanceOf(RateLimitError)
+  })
+
+  it('maps connection failures to a network error', async () => {
+    client.post.mockRejectedValue(Object.assign(new Error('Network Error'), { code: 'ERR_NETWORK' }))
+
+    await expect(openRouterService.chat(request)).rejects.toBeInstanceOf(NetworkError)
+  })
+
+  it('rejects a request whose signal already fired without sending it', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(openRouterService.chat(request, controller.signal)).rejects.toBeInstanceOf(RequestCancelledError)
+    expect(client.post).not.toHaveBeenCalled()
+  })
+
+  it('needs an API key', async () => {
+    openRouterService.reset()
+
+    await expect(openRouterService.chat(request)).rejects.toBeInstanceOf(AuthError)
+    expect(() => openRouterService.initialize('')).toThrow(AuthError)
+  })
+})
+
+describe('stream', () => {
+  it('passes each delta on and assembles the reply with its usage', async () => {
+    const fetchMock = vi.fn(async () => sseResponse([
+      ': OPENROUTER PROCESSING\n\n',
+      deltaEvent('Hel'),
+      // An event split mid-line across network chunks
+      'data: {"choices":[{"index":0,"delta":{"content":"lo"}',
+      ',"finish_reason":"stop"}]}\n\n',
+      sseEvent({ choices: [], usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 } }),
+      sseEvent('[DONE]'),
+    ]))
+    vi.stubGlobal('fetch', fetchMock)
+    const chunks: string[] = []
+
+    const response = await openRouterService.stream(request, chunk => chunks.push(chunk))
+
+    expect(chunks).toEqual(['Hel', 'lo'])
+    expect(response).toMatchObject({
+      id: 'gen-1',
+      choices: [{ message: { content: 'Hello' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 },
+    })
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit]
+    expect(url).toBe('https://openrouter.ai/api/v1/chat/completions')
+    expect(JSON.parse(init.body as string)).toMatchObject({ stream: true, usage: { include: true } })
+    expect((init.headers as Record<string, string>)['Authorization']).toBe('Bearer sk-or-test')
+  })
+
+  it('types an error status before the stream starts', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(
+      JSON.stringify({ error: { message: 'Rate limited' } }),
+      { status: 429, headers: { 'retry-after': '5' } }
+    )))
+
+    const error = await openRouterService.stream(request, () => {}).catch(e => e)
+
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error.retryAfterMs).toBe(5000)
+  })
+
+  it('types an error sent after the stream started', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sseResponse([
+      deltaEvent('Partial'),
+      sseEvent({ error: { code: 502, message: 'Upstream provider disconnected' } }),
+    ])))
+
+    const error = await openRouterService.stream(request, () => {}).catch(e => e)
+
+    expect(error).toBeInstanceOf(ProviderError)
+    expect(error).toMatchObject({ provider: 'openrouter', status: 502 })
+  })
+})
+
+describe('catalog and pricing', () => {
+  const models = [
+    {
+      id: 'openai/gpt-4o',
+      name: 'GPT-4o',
+      pricing: { prompt: '0.0000025', completion: '0.00001' } as any,
+      architecture: { input_modalities: ['text', 'image'] },
+      supported_parameters: ['response_format'],
+    },
+    { id: 'meta-llama/llama-3.1-8b-instruct', name: 'Llama 3.1 8B', supported_parameters: [] },
+  ]
+
+  it('caches the catalog and reads capabilities from it', async () => {
+    client.get.mockResolvedValue({ data: { data: models } })
+
+    await openRouterService.fetchModelCatalog()
+    await openRouterService.fetchModelCatalog()
+
+    expect(client.get).toHaveBeenCalledTimes(1)
+    expect(openRouterService.getCapabilities('openai/gpt-4o')).toEqual({ streaming: true, json: true, vision: true })
+    expect(openRouterService.getCapabilities('meta-llama/llama-3.1-8b-instruct')).toEqual({ streaming: true, json: false, vision: false })
+    // Unknown models are left for the API to reject
+    expect(openRouterService.getCapabilities('new/model').json).toBe(true)
+  })
+
+  it('prices tokens from the catalog, including string prices', () => {
+    costLedger.setCatalog(models)
+
+    expect(openRouterService.estimateCost('openai/gpt-4o', 1000, 500)).toBeCloseTo(0.0025 + 0.005, 10)
+    expect(openRouterService.estimateCost('meta-llama/llama-3.1-8b-instruct', 1000, 500)).toBe(0)
+    expect(openRouterService.estimateCost('unknown/model', 1000, 500)).toBe(0)
+  })
+})
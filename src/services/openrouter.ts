@@ -2,56 +2,37 @@ import axios, { AxiosInstance } from 'axios'
 import Bottleneck from 'bottleneck'
 import { OpenRouterModel } from '@/types'
 import { logger } from '@/utils/logger'
+import { costLedger } from './cost-ledger'
+import {
+  AuthError,
+  LLMError,
+  RequestCancelledError,
+  classifyHttpError
+} from './llm-errors'
+import { createHttpError, streamChatCompletion } from './openai-compatible'
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  LLMProvider,
+  MessageContent,
+  ModelCapabilities,
+  ModelPricing
+} from './llm-provider'
 
 const OPENROUTER_API_BASE = 'https://openrouter.ai/api/v1'
-
-// Multimodal content types for vision and audio models
-export type MessageContent =
-  | string
-  | Array<{
-      type: 'text' | 'image_url'
-      text?: string
-      image_url?: {
-        url: string // Can be URL or base64 data URL
-      }
-    }>
-
-export interface ChatCompletionRequest {
-  model: string
-  messages: Array<{
-    role: 'system' | 'user' | 'assistant'
-    content: MessageContent
-  }>
-  temperature?: number
-  max_tokens?: number
-  stream?: boolean
-  response_format?: { type: 'json_object' }
-}
-
-export interface ChatCompletionResponse {
-  id: string
-  model: string
-  choices: Array<{
-    index: number
-    message: {
-      role: string
-      content: string
-    }
-    finish_reason: string
-  }>
-  usage?: {
-    prompt_tokens: number
-    completion_tokens: number
-    total_tokens: number
-  }
-}
+const PROVIDER = 'openrouter'
+const REQUEST_TIMEOUT = 120000 // 120 second timeout for slower models
 
 export interface ModelCatalogResponse {
   data: OpenRouterModel[]
 }
 
-class OpenRouterService {
+class OpenRouterService implements LLMProvider {
+  readonly id = 'openrouter'
+  readonly name = 'OpenRouter'
+
   private client: AxiosInstance | null = null
+  private apiKey: string | null = null
   private limiter: Bottleneck
   private modelCache: Map<string, OpenRouterModel> = new Map()
   private catalogLastFetched: Date | null = null
@@ -73,18 +54,14 @@ class OpenRouterService {
    */
   initialize(apiKey: string) {
     if (!apiKey) {
-      throw new Error('OpenRouter API key is required')
+      throw new AuthError('OpenRouter API key is required', { provider: PROVIDER })
     }
 
+    this.apiKey = apiKey
     this.client = axios.create({
       baseURL: OPENROUTER_API_BASE,
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'HTTP-Referer': window.location.origin,
-        'X-Title': 'Model Kombat',
-        'Content-Type': 'application/json',
-      },
-      timeout: 120000, // 120 second timeout for slower models
+      headers: this.getHeaders(),
+      timeout: REQUEST_TIMEOUT,
       // Fix for HTTP/2 protocol errors
       httpAgent: undefined,
       httpsAgent: undefined,
@@ -93,12 +70,55 @@ class OpenRouterService {
     })
   }
 
+  /**
+   * Schedule a job on the rate limiter, honoring an optional AbortSignal.
+   *
+   * Bottleneck cannot remove a queued job, so a job cancelled while waiting
+   * is skipped when its turn comes instead of making the request; the
+   * returned promise rejects as soon as the signal fires either way.
+   */
+  private schedule<T>(job: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return this.limiter.schedule(job)
+    }
+    if (signal.aborted) {
+      return Promise.reject(new RequestCancelledError())
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(new RequestCancelledError())
+      signal.addEventListener('abort', onAbort, { once: true })
+
+      this.limiter.schedule(() => {
+        if (signal.aborted) {
+          return Promise.reject(new RequestCancelledError())
+        }
+        return job()
+      })
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort))
+    })
+  }
+
+  /**
+   * Request headers shared by the axios client and streaming fetch calls
+   */
+  private getHeaders(): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.apiKey}`,
+      // No page origin to send when running outside a browser, e.g. in the CLI
+      ...(typeof window !== 'undefined' ? { 'HTTP-Referer': window.location.origin } : {}),
+      'X-Title': 'Model Kombat',
+      'Content-Type': 'application/json',
+    }
+  }
+
   /**
    * Test the API connection
    */
   async testConnection(): Promise<boolean> {
     if (!this.client) {
-      throw new Error('OpenRouter client not initialized. Please set API key first.')
+      throw new AuthError('OpenRouter client not initialized. Please set API key first.', { provider: PROVIDER })
     }
 
     try {
@@ -117,7 +137,7 @@ class OpenRouterService {
    */
   async fetchModelCatalog(forceRefresh = false): Promise<OpenRouterModel[]> {
     if (!this.client) {
-      throw new Error('OpenRouter client not initialized. Please set API key first.')
+      throw new AuthError('OpenRouter client not initialized. Please set API key first.', { provider: PROVIDER })
     }
 
     // Check cache
@@ -145,7 +165,7 @@ class OpenRouterService {
       return models
     } catch (error) {
       logger.error('Failed to fetch model catalog', error)
-      throw new Error('Failed to fetch model catalog. Please check your API key.')
+      throw classifyHttpError(error, { provider: PROVIDER })
     }
   }
 
@@ -187,148 +207,95 @@ class OpenRouterService {
     )
   }
 
+  isConfigured(): boolean {
+    return this.client !== null
+  }
+
+  listModels(forceRefresh = false): Promise<OpenRouterModel[]> {
+    return this.fetchModelCatalog(forceRefresh)
+  }
+
+  getCapabilities(modelId: string): ModelCapabilities {
+    const model = this.modelCache.get(modelId)
+    return {
+      streaming: true,
+      // Unknown models are assumed capable and left for the API to reject
+      json: !model || modelSupportsCapability(model, 'json_mode'),
+      vision: !!model && modelSupportsCapability(model, 'vision'),
+    }
+  }
+
+  getPricing(modelId: string): ModelPricing | undefined {
+    return this.modelCache.get(modelId)?.pricing
+  }
+
   /**
-   * Make a chat completion request
+   * Send a chat completion request through the rate limiter
    */
-  async createChatCompletion(
-    request: ChatCompletionRequest,
-    onStream?: (chunk: string) => void
-  ): Promise<ChatCompletionResponse> {
+  async chat(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResponse> {
     if (!this.client) {
-      throw new Error('OpenRouter client not initialized. Please set API key first.')
+      throw new AuthError('OpenRouter client not initialized. Please set API key first.', { provider: PROVIDER })
     }
 
-    // Debug logging for troubleshooting
-    logger.apiCall('POST', '/chat/completions', {
-      model: request.model,
-      messageCount: request.messages.length,
-      temperature: request.temperature,
-      hasApiKey: !!this.client
-    })
-
     try {
-      if (request.stream && onStream) {
-        return await this.createStreamingCompletion(request, onStream)
+      const response = (await this.schedule(() =>
+        this.client!.post<ChatCompletionResponse>('/chat/completions', { ...request, stream: false }, { signal }),
+        signal
+      )).data
+
+      // OpenRouter can report a failed upstream call in a 200 body
+      const bodyError = (response as { error?: { code?: number | string } }).error
+      if (bodyError) {
+        throw createHttpError(Number(bodyError.code) || 502, response)
       }
-
-      const response = await this.limiter.schedule(() =>
-        this.client!.post<ChatCompletionResponse>('/chat/completions', request)
-      )
-
-      return response.data
-    } catch (error: any) {
-      logger.error('Chat completion failed', error, {
-        model: request.model,
-        errorResponse: error.response?.data,
-        errorCode: error.code,
-        errorMessage: error.message
-      })
-
-      // Handle HTTP/2 protocol errors (Chrome/network issue)
-      if (error.message?.includes('ERR_HTTP2_PROTOCOL_ERROR') || error.code === 'ERR_HTTP2_PROTOCOL_ERROR') {
-        throw new Error('Network protocol error. Please refresh the page and try again.')
-      }
-
-      // Handle network errors
-      if (error.code === 'ERR_NETWORK' || error.message?.includes('Network Error')) {
-        throw new Error('Network error. Please check your internet connection and try again.')
-      }
-
-      if (error.response?.status === 400) {
-        const errorMsg = error.response?.data?.error?.message || error.response?.data?.error || 'Invalid request'
-        logger.error('400 Error details', error, { errorMsg })
-        throw new Error(`Bad Request: ${errorMsg}. Check your API key and model selection.`)
-      } else if (error.response?.status === 401) {
-        throw new Error('Invalid API key. Please check your OpenRouter API key.')
-      } else if (error.response?.status === 429) {
-        throw new Error('Rate limit exceeded. Please try again later.')
-      } else if (error.response?.status === 404) {
-        throw new Error(`Model ${request.model} not found or not available.`)
-      } else if (error.code === 'ECONNABORTED') {
-        throw new Error('Request timeout after 2 minutes. The model might be overloaded. Try a different model or try again later.')
-      }
-      throw new Error(error.response?.data?.error?.message || error.message || 'Chat completion failed.')
+      return response
+    } catch (error) {
+      throw this.toLLMError(error, request.model, signal)
     }
   }
 
-  /**
-   * Handle streaming chat completion
-   */
-  private async createStreamingCompletion(
+  async stream(
     request: ChatCompletionRequest,
-    onStream: (chunk: string) => void
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
   ): Promise<ChatCompletionResponse> {
-    const response = await this.limiter.schedule(() =>
-      this.client!.post('/chat/completions', request, {
-        responseType: 'stream',
-      })
-    )
-
-    return new Promise((resolve, reject) => {
-      let fullContent = ''
-      let lastMessage: ChatCompletionResponse | null = null
-
-      response.data.on('data', (chunk: Buffer) => {
-        const lines = chunk.toString().split('\n').filter(line => line.trim())
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6)
-            if (data === '[DONE]') {
-              if (lastMessage) {
-                resolve(lastMessage)
-              } else {
-                reject(new Error('Stream ended without message'))
-              }
-              return
-            }
-
-            try {
-              const parsed = JSON.parse(data)
-              const content = parsed.choices?.[0]?.delta?.content
-              if (content) {
-                fullContent += content
-                onStream(content)
-              }
-
-              // Keep track of the last complete message structure
-              if (parsed.choices?.[0]?.message) {
-                lastMessage = {
-                  ...parsed,
-                  choices: [{
-                    ...parsed.choices[0],
-                    message: {
-                      role: 'assistant',
-                      content: fullContent,
-                    },
-                  }],
-                }
-              }
-            } catch (e) {
-              logger.error('Failed to parse streaming chunk', e)
-            }
-          }
-        }
-      })
+    if (!this.client) {
+      throw new AuthError('OpenRouter client not initialized. Please set API key first.', { provider: PROVIDER })
+    }
 
-      response.data.on('error', (error: Error) => {
-        reject(error)
+    try {
+      return await streamChatCompletion({
+        url: `${OPENROUTER_API_BASE}/chat/completions`,
+        headers: this.getHeaders(),
+        request,
+        extraBody: { usage: { include: true } },
+        provider: PROVIDER,
+        timeoutMs: REQUEST_TIMEOUT,
+        onStream: onChunk,
+        signal,
+        schedule: (job, jobSignal) => this.schedule(job, jobSignal),
       })
-    })
+    } catch (error) {
+      throw this.toLLMError(error, request.model, signal)
+    }
   }
 
   /**
-   * Estimate cost for a completion
+   * Type a failure from axios, fetch or the stream parser
    */
-  estimateCost(modelId: string, promptTokens: number, completionTokens: number): number {
-    const model = this.modelCache.get(modelId)
-    if (!model?.pricing) {
-      return 0
+  private toLLMError(error: unknown, model: string, signal?: AbortSignal): LLMError {
+    if (error instanceof LLMError) return error
+    if (axios.isCancel(error) || signal?.aborted) {
+      return new RequestCancelledError(undefined, { provider: PROVIDER, model })
     }
+    return classifyHttpError(error, { provider: PROVIDER, model })
+  }
 
-    const promptCost = (promptTokens * model.pricing.prompt) / 1_000_000
-    const completionCost = (completionTokens * model.pricing.completion) / 1_000_000
-    return promptCost + completionCost
+  /**
+   * Price a completion from the catalog's per-token rates
+   */
+  estimateCost(modelId: string, promptTokens: number, completionTokens: number): number {
+    return costLedger.priceTokens(modelId, promptTokens, completionTokens).cost
   }
 
   /**
@@ -336,6 +303,7 @@ class OpenRouterService {
    */
   reset() {
     this.client = null
+    this.apiKey = null
     this.modelCache.clear()
     this.catalogLastFetched = null
   }
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { doc, readDocument, resetFirestore, updateDoc } from '@/test/fake-firestore'
+import {
+  categorizeQuestion,
+  getQuestionJudgments,
+  getRecommendedModels,
+  getUserPreferences,
+  hashQuestion,
+  rebuildUserPreferences,
+  recordBatchJudgments,
+  recordJudgment
+} from './preference-tracking'
+
+vi.mock('firebase/firestore', () => import('@/test/fake-firestore'))
+vi.mock('@/services/firebase', () => ({ db: {}, auth: { currentUser: null } }))
+
+describe('hashQuestion', () => {
+  it('ignores case and surrounding whitespace', () => {
+    expect(hashQuestion('  What is a Monad? ')).toBe(hashQuestion('what is a monad?'))
+  })
+
+  it('gives different questions different hashes', () => {
+    expect(hashQuestion('What is a monad?')).not.toBe(hashQuestion('What is a functor?'))
+  })
+
+  it('returns a base-36 string', () => {
+    expect(hashQuestion('Explain recursion')).toMatch(/^[0-9a-z]+$/)
+  })
+})
+
+describe('categorizeQuestion', () => {
+  it.each([
+    ['Debug this Python function', 'coding'],
+    ['Write a short story about a lighthouse', 'writing'],
+    ['How does photosynthesis work?', 'explanation'],
+    ['Compare these two database designs', 'analysis'],
+    ['Give me a tldr of the meeting notes', 'summarization'],
+    ['Translate this into French', 'translation'],
+    ['Solve 3x + 2 = 11', 'math'],
+    ['Plan a weekend in Lisbon', 'general'],
+  ])('%s -> %s', (question, category) => {
+    expect(categorizeQuestion(question)).toBe(category)
+  })
+
+  it('checks coding before the other categories', () => {
+    expect(categorizeQuestion('Explain this JavaScript closure')).toBe('coding')
+  })
+})
+
+describe('preference aggregation', () => {
+  beforeEach(() => {
+    resetFirestore()
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-01T10:00:00Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  async function recordTwoRounds() {
+    await recordBatchJudgments('user-1', 'Write a Python function to parse CSV', [
+      { modelId: 'model-a', modelName: 'Model A', rating: 5, isWinner: true, responseTime: 1000 },
+      { modelId: 'model-b', modelName: 'Model B', rating: 3, isWinner: false, responseTime: 3000 },
+    ])
+    vi.setSystemTime(new Date('2025-01-02T10:00:00Z'))
+    await recordBatchJudgments('user-1', 'Summarize the meeting notes', [
+      { modelId: 'model-a', modelName: 'Model A', rating: 3, isWinner: false, responseTime: 2000 },
+      { modelId: 'model-b', modelName: 'Model B', rating: 4, isWinner: true },
+    ])
+  }
+
+  it('stores one judgment per model', async () => {
+    await recordTwoRounds()
+
+    const judgment = readDocument(`judgments/user-1_model-a_${new Date('2025-01-01T10:00:00Z').getTime()}`)
+    expect(judgment).toMatchObject({
+      userId: 'user-1',
+      modelId: 'model-a',
+      rating: 5,
+      isWinner: true,
+      questionCategory: 'coding',
+      questionHash: hashQuestion('Write a Python function to parse CSV'),
+    })
+  })
+
+  it('aggregates ratings, wins, response times and categories per model', async () => {
+    await recordTwoRounds()
+
+    const preferences = await getUserPreferences('user-1')
+    expect(preferences).not.toBeNull()
+    expect(preferences!.totalJudgments).toBe(4)
+    expect(preferences!.favoriteModels).toEqual(['model-a', 'model-b'])
+    expect(preferences!.lastUpdated).toBeInstanceOf(Date)
+
+    expect(preferences!.modelStats['model-a']).toMatchObject({
+      totalResponses: 2,
+      averageRating: 4,
+      winCount: 1,
+      averageResponseTime: 1500,
+      categories: {
+        coding: { count: 1, averageRating: 5 },
+        summarization: { count: 1, averageRating: 3 },
+      },
+    })
+    expect(preferences!.modelStats['model-b']).toMatchObject({
+      totalResponses: 2,
+      averageRating: 3.5,
+      winCount: 1,
+    })
+  })
+
+  it('only counts the user\'s own judgments', async () => {
+    await recordTwoRounds()
+    await recordJudgment('user-2', 'model-b', 'Model B', 'Write a haiku', 5, true)
+
+    const preferences = await getUserPreferences('user-1')
+    expect(preferences!.totalJudgments).toBe(4)
+    expect((await getUserPreferences('user-2'))!.modelStats['model-b'].averageRating).toBe(5)
+  })
+
+  it('clamps ratings to 1-5', async () => {
+    await recordJudgment('user-1', 'model-a', 'Model A', 'Write a poem', 9)
+
+    const preferences = await getUserPreferences('user-1')
+    expect(preferences!.modelStats['model-a'].averageRating).toBe(5)
+  })
+
+  it('returns null for a user without judgments', async () => {
+    expect(await getUserPreferences('nobody')).toBeNull()
+  })
+
+  it('keeps the given order until there are five judgments', async () => {
+    await recordTwoRounds()
+
+    const models = ['model-b', 'model-a']
+    expect(await getRecommendedModels('user-1', 'Debug my code', models)).toEqual(models)
+
+    vi.setSystemTime(new Date('2025-01-03T10:00:00Z'))
+    await recordJudgment('user-1', 'model-a', 'Model A', 'Fix this TypeScript error', 5, true)
+    expect(await getRecommendedModels('user-1', 'Debug my code', models)).toEqual(['model-a', 'model-b'])
+  })
+
+  it('lists a question\'s judgments newest first', async () => {
+    await recordJudgment('user-1', 'model-a', 'Model A', 'What is a monad?', 2)
+    vi.setSystemTime(new Date('2025-01-02T10:00:00Z'))
+    await recordJudgment('user-1', 'model-b', 'Model B', '  what is a MONAD?', 4)
+    await recordJudgment('user-1', 'model-c', 'Model C', 'Something else', 4)
+
+    const judgments = await getQuestionJudgments('user-1', 'What is a monad?')
+    expect(judgments.map(j => j.modelId)).toEqual(['model-b', 'model-a'])
+    expect(judgments[0].timestamp).toBeInstanceOf(Date)
+  })
+
+  it('replaces an earlier judgment of the same response', async () => {
+    await recordJudgment('user-1', 'model-a', 'Model A', 'Write a poem', 2, false, 1000, undefined, 'session-1-0')
+    await recordJudgment('user-1', 'model-a', 'Model A', 'Write a poem', 4, false, 3000, undefined, 'session-1-0')
+
+    const preferences = await getUserPreferences('user-1')
+    expect(preferences!.totalJudgments).toBe(1)
+    expect(preferences!.modelStats['model-a']).toMatchObject({
+      totalResponses: 1,
+      averageRating: 4,
+      averageResponseTime: 3000,
+      categories: { writing: { count: 1, averageRating: 4 } },
+    })
+    expect(readDocument('judgments/user-1_session-1-0')).toMatchObject({ rating: 4 })
+  })
+
+  it('moves the win when another winner is picked', async () => {
+    const pick = (winner: string) => recordBatchJudgments('user-1', 'Write a poem', [
+      { modelId: 'model-a', modelName: 'Model A', rating: 3, isWinner: winner === 'model-a', responseId: 'session-1-0' },
+      { modelId: 'model-b', modelName: 'Model B', rating: 3, isWinner: winner === 'model-b', responseId: 'session-1-1' },
+    ])
+    await pick('model-a')
+    await pick('model-b')
+
+    const preferences = await getUserPreferences('user-1')
+    expect(preferences!.totalJudgments).toBe(2)
+    expect(preferences!.modelStats['model-a'].winCount).toBe(0)
+    expect(preferences!.modelStats['model-b'].winCount).toBe(1)
+    expect(preferences!.favoriteModels).toEqual(['model-b', 'model-a'])
+  })
+
+  it('rebuilds drifted stats from the judgments', async () => {
+    await recordTwoRounds()
+    await updateDoc(doc({}, 'userPreferences', 'user-1'), { totalJudgments: 40, modelStats: { 'model-a': { winCount: 9 } } })
+
+    const rebuilt = await rebuildUserPreferences('user-1')
+    expect(rebuilt.totalJudgments).toBe(4)
+    expect((await getUserPreferences('user-1'))!.modelStats['model-a']).toMatchObject({
+      totalResponses: 2,
+      winCount: 1,
+      averageResponseTime: 1500,
+    })
+  })
+
+  it('rebuilds a profile from an older aggregation on its next judgment', async () => {
+    await recordTwoRounds()
+    await updateDoc(doc({}, 'userPreferences', 'user-1'), { aggregationVersion: 1, totalJudgments: 40 })
+
+    vi.setSystemTime(new Date('2025-01-03T10:00:00Z'))
+    await recordJudgment('user-1', 'model-a', 'Model A', 'Write a poem', 5, true)
+
+    const preferences = await getUserPreferences('user-1')
+    expect(preferences!.totalJudgments).toBe(5)
+    expect(preferences!.aggregationVersion).toBe(2)
+    expect(preferences!.modelStats['model-a'].totalResponses).toBe(3)
+  })
+})
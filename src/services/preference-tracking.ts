@@ -9,7 +9,7 @@ import {
   orderBy,
   limit,
   Timestamp,
-  writeBatch
+  runTransaction
 } from 'firebase/firestore'
 import { db } from './firebase'
 import { logger } from '../utils/logger'
@@ -42,10 +42,13 @@ export interface ModelStats {
   winCount: number // Number of times selected as best
   totalResponses: number
   averageResponseTime?: number
+  totalResponseTime: number // Sum of the recorded response times, kept for incremental averages
+  timedResponses: number // Responses that recorded a response time
   lastUsed: Date
   categories?: Record<string, {
     count: number
     averageRating: number
+    totalRating: number
   }>
 }
 
@@ -57,13 +60,14 @@ export interface UserPreferences {
   favoriteModels: string[] // Model IDs sorted by preference
   modelStats: Record<string, ModelStats>
   totalJudgments: number
+  aggregationVersion?: number // See AGGREGATION_VERSION; missing on profiles built by the full rescan
   lastUpdated: Date
 }
 
 /**
  * Hash a question string for grouping related judgments
  */
-function hashQuestion(question: string): string {
+export function hashQuestion(question: string): string {
   // Simple hash - you could use a more sophisticated algorithm
   let hash = 0
   const normalized = question.trim().toLowerCase()
@@ -78,7 +82,7 @@ function hashQuestion(question: string): string {
 /**
  * Categorize a question based on keywords (simple heuristic)
  */
-function categorizeQuestion(question: string): string {
+export function categorizeQuestion(question: string): string {
   const lower = question.toLowerCase()
 
   if (lower.match(/code|programming|debug|function|algorithm|python|javascript|typescript/)) {
@@ -106,6 +110,19 @@ function categorizeQuestion(question: string): string {
   return 'general'
 }
 
+/**
+ * A judgment as passed in by the studio
+ */
+export interface JudgmentInput {
+  modelId: string
+  modelName: string
+  rating: number
+  isWinner: boolean
+  responseTime?: number
+  feedback?: string
+  responseId?: string // Stable id of the judged response; judging it again replaces the earlier judgment
+}
+
 /**
  * Record a user's judgment of a model's response
  */
@@ -117,35 +134,19 @@ export async function recordJudgment(
   rating: number,
   isWinner?: boolean,
   responseTime?: number,
-  feedback?: string
+  feedback?: string,
+  responseId?: string
 ): Promise<void> {
   try {
-    const questionHash = hashQuestion(question)
-    const category = categorizeQuestion(question)
-
-    const judgment: ResponseJudgment = {
-      id: `${userId}_${modelId}_${Date.now()}`,
-      userId,
+    const category = await saveJudgments(userId, question, [{
       modelId,
       modelName,
-      questionHash,
-      questionCategory: category,
-      rating: Math.max(1, Math.min(5, rating)), // Clamp to 1-5
+      rating,
       isWinner: isWinner || false,
       responseTime,
-      timestamp: new Date(),
       feedback,
-    }
-
-    // Save judgment
-    const judgmentRef = doc(db, 'judgments', judgment.id)
-    await setDoc(judgmentRef, {
-      ...judgment,
-      timestamp: Timestamp.fromDate(judgment.timestamp),
-    })
-
-    // Update user preferences in a batch
-    await updateUserPreferences(userId)
+      responseId,
+    }])
 
     logger.info('Judgment recorded', {
       userId,
@@ -165,42 +166,10 @@ export async function recordJudgment(
 export async function recordBatchJudgments(
   userId: string,
   question: string,
-  judgments: Array<{
-    modelId: string
-    modelName: string
-    rating: number
-    isWinner: boolean
-    responseTime?: number
-  }>
+  judgments: JudgmentInput[]
 ): Promise<void> {
   try {
-    const questionHash = hashQuestion(question)
-    const category = categorizeQuestion(question)
-    const batch = writeBatch(db)
-
-    judgments.forEach((j) => {
-      const judgment: ResponseJudgment = {
-        id: `${userId}_${j.modelId}_${Date.now()}`,
-        userId,
-        modelId: j.modelId,
-        modelName: j.modelName,
-        questionHash,
-        questionCategory: category,
-        rating: Math.max(1, Math.min(5, j.rating)),
-        isWinner: j.isWinner,
-        responseTime: j.responseTime,
-        timestamp: new Date(),
-      }
-
-      const judgmentRef = doc(db, 'judgments', judgment.id)
-      batch.set(judgmentRef, {
-        ...judgment,
-        timestamp: Timestamp.fromDate(judgment.timestamp),
-      })
-    })
-
-    await batch.commit()
-    await updateUserPreferences(userId)
+    const category = await saveJudgments(userId, question, judgments)
 
     logger.info('Batch judgments recorded', {
       userId,
@@ -214,114 +183,208 @@ export async function recordBatchJudgments(
 }
 
 /**
- * Update user preference profile based on all judgments
+ * Bumped when the stored aggregates change shape. A profile from an older version is
+ * rebuilt from the judgments on its next update.
  */
-async function updateUserPreferences(userId: string): Promise<void> {
-  try {
-    // Fetch all judgments for this user
-    const judgmentsRef = collection(db, 'judgments')
-    const q = query(judgmentsRef, where('userId', '==', userId))
-    const snapshot = await getDocs(q)
+const AGGREGATION_VERSION = 2
 
-    const modelStatsMap = new Map<string, ModelStats>()
+type StoredJudgment = Omit<ResponseJudgment, 'timestamp'> & { timestamp: Timestamp }
 
-    snapshot.forEach((doc) => {
-      const judgment = doc.data() as ResponseJudgment & {
-        timestamp: Timestamp
-      }
+const toDate = (value: Timestamp | Date | string) => value instanceof Timestamp ? value.toDate() : new Date(value)
 
-      if (!modelStatsMap.has(judgment.modelId)) {
-        modelStatsMap.set(judgment.modelId, {
-          modelId: judgment.modelId,
-          modelName: judgment.modelName,
-          totalRatings: 0,
-          averageRating: 0,
-          winCount: 0,
-          totalResponses: 0,
-          lastUsed: judgment.timestamp.toDate(),
-          categories: {},
-        })
-      }
-
-      const stats = modelStatsMap.get(judgment.modelId)!
+// Firestore rejects undefined fields, so optional ones are only written when set
+function toStoredJudgment({ responseTime, feedback, timestamp, ...judgment }: ResponseJudgment): StoredJudgment {
+  return {
+    ...judgment,
+    ...(responseTime !== undefined ? { responseTime } : {}),
+    ...(feedback !== undefined ? { feedback } : {}),
+    timestamp: Timestamp.fromDate(timestamp),
+  }
+}
 
-      // Update stats
-      stats.totalRatings += judgment.rating
-      stats.totalResponses += 1
-      stats.winCount += judgment.isWinner ? 1 : 0
-      stats.averageRating = stats.totalRatings / stats.totalResponses
+function fromStoredJudgment(data: StoredJudgment): ResponseJudgment {
+  return { ...data, timestamp: toDate(data.timestamp) }
+}
 
-      // Update response time
-      if (judgment.responseTime) {
-        const currentAvg = stats.averageResponseTime || 0
-        const count = stats.totalResponses
-        stats.averageResponseTime =
-          (currentAvg * (count - 1) + judgment.responseTime) / count
-      }
+/**
+ * Save the judgments and fold them into the user's preference profile in one transaction.
+ * Only the change each judgment makes is applied: a response judged before has its earlier
+ * judgment taken out first, so a new rating or winner is never counted twice.
+ */
+async function saveJudgments(userId: string, question: string, inputs: JudgmentInput[]): Promise<string> {
+  const questionHash = hashQuestion(question)
+  const category = categorizeQuestion(question)
+  const timestamp = new Date()
+
+  // The last judgment of a response wins when one is passed twice
+  const judgments = new Map<string, ResponseJudgment>()
+  inputs.forEach((j) => {
+    const id = j.responseId ? `${userId}_${j.responseId}` : `${userId}_${j.modelId}_${timestamp.getTime()}`
+    judgments.set(id, {
+      id,
+      userId,
+      modelId: j.modelId,
+      modelName: j.modelName,
+      questionHash,
+      questionCategory: category,
+      rating: Math.max(1, Math.min(5, j.rating)), // Clamp to 1-5
+      isWinner: j.isWinner,
+      responseTime: j.responseTime,
+      timestamp,
+      feedback: j.feedback,
+    })
+  })
 
-      // Update category stats
-      if (judgment.questionCategory) {
-        if (!stats.categories) stats.categories = {}
-        if (!stats.categories[judgment.questionCategory]) {
-          stats.categories[judgment.questionCategory] = {
-            count: 0,
-            averageRating: 0,
-          }
-        }
-        const catStats = stats.categories[judgment.questionCategory]
-        catStats.count += 1
-        catStats.averageRating =
-          (catStats.averageRating * (catStats.count - 1) + judgment.rating) /
-          catStats.count
-      }
+  const outdated = await runTransaction(db, async (transaction) => {
+    const prefsRef = doc(db, 'userPreferences', userId)
+    const prefsSnapshot = await transaction.get(prefsRef)
+    const previous = await Promise.all(
+      [...judgments.keys()].map(id => transaction.get(doc(db, 'judgments', id)))
+    )
 
-      // Update last used
-      const judgmentDate = judgment.timestamp.toDate()
-      if (judgmentDate > stats.lastUsed) {
-        stats.lastUsed = judgmentDate
-      }
+    judgments.forEach((judgment) => {
+      transaction.set(doc(db, 'judgments', judgment.id), toStoredJudgment(judgment))
     })
 
-    // Sort models by a composite score (avg rating * 0.7 + win rate * 0.3)
-    const modelStats = Array.from(modelStatsMap.values())
-    const favoriteModels = modelStats
-      .map((stats) => ({
-        modelId: stats.modelId,
-        score:
-          stats.averageRating * 0.7 +
-          (stats.winCount / stats.totalResponses) * 5 * 0.3,
-      }))
-      .sort((a, b) => b.score - a.score)
-      .map((m) => m.modelId)
+    const stored = prefsSnapshot.exists() ? prefsSnapshot.data() : undefined
+    if (stored && stored.aggregationVersion !== AGGREGATION_VERSION) return true
 
-    // Convert to object for Firestore
-    const modelStatsObj: Record<string, ModelStats> = {}
-    modelStatsMap.forEach((stats, modelId) => {
-      modelStatsObj[modelId] = stats
+    const modelStats = readModelStats(stored?.modelStats)
+    previous.forEach((snapshot) => {
+      if (snapshot.exists()) applyJudgment(modelStats, fromStoredJudgment(snapshot.data() as StoredJudgment), -1)
     })
+    judgments.forEach(judgment => applyJudgment(modelStats, judgment, 1))
 
-    const preferences: UserPreferences = {
-      userId,
-      favoriteModels,
-      modelStats: modelStatsObj,
-      totalJudgments: snapshot.size,
-      lastUpdated: new Date(),
+    const added = previous.filter(snapshot => !snapshot.exists()).length
+    transaction.set(prefsRef, toStoredPreferences(userId, modelStats, (stored?.totalJudgments ?? 0) + added))
+    return false
+  })
+
+  if (outdated) {
+    await rebuildUserPreferences(userId)
+  }
+  return category
+}
+
+/**
+ * Add a judgment to the stats (sign 1) or take it back out (sign -1). A model left
+ * without judgments is dropped.
+ */
+function applyJudgment(modelStats: Record<string, ModelStats>, judgment: ResponseJudgment, sign: 1 | -1) {
+  if (!modelStats[judgment.modelId]) {
+    modelStats[judgment.modelId] = {
+      modelId: judgment.modelId,
+      modelName: judgment.modelName,
+      totalRatings: 0,
+      averageRating: 0,
+      winCount: 0,
+      totalResponses: 0,
+      totalResponseTime: 0,
+      timedResponses: 0,
+      lastUsed: judgment.timestamp,
+      categories: {},
     }
+  }
+  const stats = modelStats[judgment.modelId]
 
-    // Save preferences
-    const prefsRef = doc(db, 'userPreferences', userId)
-    await setDoc(prefsRef, {
-      ...preferences,
-      lastUpdated: Timestamp.fromDate(preferences.lastUpdated),
+  stats.totalRatings += sign * judgment.rating
+  stats.totalResponses += sign
+  stats.winCount += judgment.isWinner ? sign : 0
+
+  if (judgment.responseTime) {
+    stats.totalResponseTime += sign * judgment.responseTime
+    stats.timedResponses += sign
+  }
+
+  if (judgment.questionCategory) {
+    if (!stats.categories) stats.categories = {}
+    const catStats = stats.categories[judgment.questionCategory] || { count: 0, averageRating: 0, totalRating: 0 }
+    catStats.count += sign
+    catStats.totalRating += sign * judgment.rating
+    catStats.averageRating = catStats.count > 0 ? catStats.totalRating / catStats.count : 0
+    if (catStats.count > 0) {
+      stats.categories[judgment.questionCategory] = catStats
+    } else {
+      delete stats.categories[judgment.questionCategory]
+    }
+  }
+
+  if (sign > 0) {
+    stats.modelName = judgment.modelName
+    if (judgment.timestamp > stats.lastUsed) stats.lastUsed = judgment.timestamp
+  }
+
+  if (stats.totalResponses <= 0) {
+    delete modelStats[judgment.modelId]
+    return
+  }
+
+  stats.averageRating = stats.totalRatings / stats.totalResponses
+  if (stats.timedResponses > 0) {
+    stats.averageResponseTime = stats.totalResponseTime / stats.timedResponses
+  } else {
+    delete stats.averageResponseTime
+  }
+}
+
+function readModelStats(stored: Record<string, ModelStats & { lastUsed: Timestamp | Date }> | undefined): Record<string, ModelStats> {
+  return Object.fromEntries(Object.entries(stored || {}).map(([modelId, stats]) => [
+    modelId,
+    { ...stats, lastUsed: toDate(stats.lastUsed) },
+  ]))
+}
+
+function toStoredPreferences(userId: string, modelStats: Record<string, ModelStats>, totalJudgments: number) {
+  // Sort models by a composite score (avg rating * 0.7 + win rate * 0.3)
+  const favoriteModels = Object.values(modelStats)
+    .map((stats) => ({
+      modelId: stats.modelId,
+      score:
+        stats.averageRating * 0.7 +
+        (stats.winCount / stats.totalResponses) * 5 * 0.3,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .map((m) => m.modelId)
+
+  return {
+    userId,
+    favoriteModels,
+    modelStats: Object.fromEntries(Object.entries(modelStats).map(([modelId, stats]) => [
+      modelId,
+      { ...stats, lastUsed: Timestamp.fromDate(stats.lastUsed) },
+    ])),
+    totalJudgments,
+    aggregationVersion: AGGREGATION_VERSION,
+    lastUpdated: Timestamp.now(),
+  }
+}
+
+/**
+ * Recompute the user's preference profile from every judgment they made. Repairs stats
+ * that drifted, e.g. from judgments written outside saveJudgments; judgments recorded
+ * while it runs can be lost, so run it while the user is not rating.
+ */
+export async function rebuildUserPreferences(userId: string): Promise<UserPreferences> {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'judgments'), where('userId', '==', userId)))
+
+    const modelStats: Record<string, ModelStats> = {}
+    snapshot.forEach((judgmentDoc) => {
+      applyJudgment(modelStats, fromStoredJudgment(judgmentDoc.data() as StoredJudgment), 1)
     })
 
-    logger.info('User preferences updated', {
+    const stored = toStoredPreferences(userId, modelStats, snapshot.size)
+    await setDoc(doc(db, 'userPreferences', userId), stored)
+
+    logger.info('User preferences rebuilt', {
       userId,
-      totalJudgments: preferences.totalJudgments,
-      favoriteModels: favoriteModels.slice(0, 3),
+      totalJudgments: stored.totalJudgments,
+      favoriteModels: stored.favoriteModels.slice(0, 3),
     })
+
+    return { ...stored, modelStats, lastUpdated: stored.lastUpdated.toDate() }
   } catch (error) {
-    logger.error('Failed to update user preferences', error, { userId })
+    logger.error('Failed to rebuild user preferences', error, { userId })
     throw error
   }
 }
@@ -343,6 +406,7 @@ export async function getUserPreferences(
     const data = snapshot.data()
     return {
       ...data,
+      modelStats: readModelStats(data.modelStats),
       lastUpdated: data.lastUpdated.toDate(),
     } as UserPreferences
   } catch (error) {
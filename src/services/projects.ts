@@ -1,7 +1,36 @@
-import { collection, doc, addDoc, updateDoc, getDoc, getDocs, query, where, orderBy, deleteDoc, Timestamp } from 'firebase/firestore'
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  deleteDoc,
+  deleteField,
+  onSnapshot,
+  Timestamp,
+  DocumentSnapshot,
+  Unsubscribe
+} from 'firebase/firestore'
 import { db, auth } from './firebase'
 import { Project } from '@/types'
 
+/**
+ * Convert a Firestore project document, turning stored Timestamps back into Dates
+ */
+function toProject(snapshot: DocumentSnapshot): Project {
+  const data = snapshot.data()!
+  return {
+    ...data,
+    id: snapshot.id,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : data.createdAt,
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : data.updatedAt
+  } as Project
+}
+
 class ProjectsService {
   private readonly collectionName = 'projects'
 
@@ -22,6 +51,25 @@ class ProjectsService {
     return docRef.id
   }
 
+  /**
+   * Save a project read from an export file under the current user, keeping its history
+   * and creation date
+   */
+  async importProject(project: Omit<Project, 'id' | 'userId'>): Promise<string> {
+    const user = auth.currentUser
+    if (!user) {
+      throw new Error('User must be authenticated to import a project')
+    }
+
+    const docRef = await addDoc(collection(db, this.collectionName), {
+      ...project,
+      userId: user.uid,
+      createdAt: Timestamp.fromDate(project.createdAt),
+      updatedAt: Timestamp.now()
+    })
+    return docRef.id
+  }
+
   async updateProject(projectId: string, updates: Partial<Project>): Promise<void> {
     const user = auth.currentUser
     if (!user) {
@@ -41,8 +89,13 @@ class ProjectsService {
       throw new Error('Unauthorized: You can only update your own projects')
     }
 
+    // Firestore rejects undefined values; an update setting a field to undefined removes it
+    const fields = Object.fromEntries(
+      Object.entries(updates).map(([key, value]) => [key, value === undefined ? deleteField() : value])
+    )
+
     await updateDoc(projectRef, {
-      ...updates,
+      ...fields,
       updatedAt: Timestamp.now()
     })
   }
@@ -55,10 +108,15 @@ class ProjectsService {
       return null
     }
 
-    return {
-      id: projectDoc.id,
-      ...projectDoc.data()
-    } as Project
+    return toProject(projectDoc)
+  }
+
+  private userProjectsQuery(userId: string) {
+    return query(
+      collection(db, this.collectionName),
+      where('userId', '==', userId),
+      orderBy('createdAt', 'desc')
+    )
   }
 
   async getUserProjects(): Promise<Project[]> {
@@ -67,25 +125,41 @@ class ProjectsService {
       return []
     }
 
-    const q = query(
-      collection(db, this.collectionName),
-      where('userId', '==', user.uid),
-      orderBy('createdAt', 'desc')
-    )
-
-    const querySnapshot = await getDocs(q)
+    const querySnapshot = await getDocs(this.userProjectsQuery(user.uid))
     const projects: Project[] = []
 
     querySnapshot.forEach((doc) => {
-      projects.push({
-        id: doc.id,
-        ...doc.data()
-      } as Project)
+      projects.push(toProject(doc))
     })
 
     return projects
   }
 
+  /**
+   * Subscribe to the current user's projects, newest first.
+   * The callback fires with the full list on every change.
+   */
+  subscribeToUserProjects(
+    onChange: (projects: Project[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const user = auth.currentUser
+    if (!user) {
+      onChange([])
+      return () => {}
+    }
+
+    return onSnapshot(
+      this.userProjectsQuery(user.uid),
+      (querySnapshot) => {
+        onChange(querySnapshot.docs.map(toProject))
+      },
+      (error) => {
+        onError?.(error)
+      }
+    )
+  }
+
   async deleteProject(projectId: string): Promise<void> {
     const user = auth.currentUser
     if (!user) {
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { failNextWrite, hangNextWrite, readDocument, resetFirestore } from '@/test/fake-firestore'
+import { SavedSession } from '@/types'
+import { sessionsService } from './sessions'
+
+const auth = vi.hoisted(() => ({ currentUser: null as { uid: string } | null }))
+
+vi.mock('firebase/firestore', () => import('@/test/fake-firestore'))
+vi.mock('@/services/firebase', () => ({ db: {}, auth }))
+
+function createStorage() {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value) },
+    removeItem: (key: string) => { items.delete(key) },
+    clear: () => items.clear(),
+  }
+}
+
+const session = (id: string, updatedAt: string, overrides: Partial<SavedSession> = {}): SavedSession => ({
+  id,
+  mode: 'ffa',
+  question: `Question ${id}`,
+  rounds: [{
+    modelId: 'openai/gpt-4o',
+    modelName: 'GPT-4o',
+    content: 'An answer',
+    timestamp: new Date('2026-01-01T10:00:00Z'),
+    quality: 80,
+  }],
+  settings: { rounds: 3, temperature: 0.7 },
+  createdAt: new Date('2026-01-01T09:00:00Z'),
+  updatedAt: new Date(updatedAt),
+  ...overrides,
+})
+
+beforeEach(() => {
+  resetFirestore()
+  vi.stubGlobal('localStorage', createStorage())
+  auth.currentUser = null
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+})
+
+describe('sessionsService', () => {
+  it('keeps sessions in localStorage when signed out', async () => {
+    await sessionsService.saveSession(session('a', '2026-01-02T00:00:00Z'))
+
+    expect(localStorage.getItem('model-kombat-sessions:guest')).toContain('"id":"a"')
+    const [saved] = await sessionsService.getSessions()
+    expect(saved.id).toBe('a')
+    expect(saved.updatedAt).toEqual(new Date('2026-01-02T00:00:00Z'))
+    expect(saved.rounds[0].timestamp).toBeInstanceOf(Date)
+  })
+
+  it('saves to Firestore under the signed-in user', async () => {
+    auth.currentUser = { uid: 'user-1' }
+    await sessionsService.saveSession(session('a', '2026-01-02T00:00:00Z'))
+
+    expect(readDocument('sessions/a')).toMatchObject({ userId: 'user-1', question: 'Question a' })
+    expect(localStorage.getItem('model-kombat-sessions:user-1')).toBeNull()
+  })
+
+  it('falls back to localStorage when Firestore cannot be reached', async () => {
+    auth.currentUser = { uid: 'user-1' }
+    failNextWrite({ code: 'unavailable' })
+    await sessionsService.saveSession(session('a', '2026-01-02T00:00:00Z'))
+
+    expect(readDocument('sessions/a')).toBeUndefined()
+    expect(localStorage.getItem('model-kombat-sessions:user-1')).toContain('"id":"a"')
+  })
+
+  it('falls back to localStorage when a write is never acknowledged', async () => {
+    vi.useFakeTimers()
+    auth.currentUser = { uid: 'user-1' }
+    hangNextWrite()
+
+    const saving = sessionsService.saveSession(session('a', '2026-01-02T00:00:00Z'))
+    await vi.advanceTimersByTimeAsync(10_000)
+    await saving
+
+    expect(localStorage.getItem('model-kombat-sessions:user-1')).toContain('"id":"a"')
+  })
+
+  it('saves to localStorage without trying Firestore while the browser is offline', async () => {
+    vi.stubGlobal('navigator', { onLine: false })
+    auth.currentUser = { uid: 'user-1' }
+    hangNextWrite()
+
+    await sessionsService.saveSession(session('a', '2026-01-02T00:00:00Z'))
+
+    expect(readDocument('sessions/a')).toBeUndefined()
+    expect(localStorage.getItem('model-kombat-sessions:user-1')).toContain('"id":"a"')
+  })
+
+  it('throws when Firestore rejects the write', async () => {
+    auth.currentUser = { uid: 'user-1' }
+    failNextWrite({ code: 'permission-denied' })
+
+    await expect(sessionsService.saveSession(session('a', '2026-01-02T00:00:00Z'))).rejects.toMatchObject({ code: 'permission-denied' })
+    expect(localStorage.getItem('model-kombat-sessions:user-1')).toBeNull()
+  })
+
+  it('overwrites a session saved again with the same id', async () => {
+    await sessionsService.saveSession(session('a', '2026-01-02T00:00:00Z'))
+    await sessionsService.saveSession(session('a', '2026-01-03T00:00:00Z', { question: 'Edited' }))
+
+    const sessions = await sessionsService.getSessions()
+    expect(sessions).toHaveLength(1)
+    expect(sessions[0].question).toBe('Edited')
+  })
+
+  it('lists remote and local-only sessions together, newest first', async () => {
+    auth.currentUser = { uid: 'user-1' }
+    await sessionsService.saveSession(session('remote', '2026-01-02T00:00:00Z'))
+    localStorage.setItem('model-kombat-sessions:user-1', JSON.stringify([
+      { ...session('local', '2026-01-03T00:00:00Z'), updatedAt: '2026-01-03T00:00:00.000Z' },
+      { ...session('remote', '2026-01-01T00:00:00Z'), updatedAt: '2026-01-01T00:00:00.000Z' },
+    ]))
+
+    const sessions = await sessionsService.getSessions()
+    expect(sessions.map(s => s.id)).toEqual(['local', 'remote'])
+    // The Firestore copy wins over a stale local one
+    expect(sessions[1].updatedAt).toEqual(new Date('2026-01-02T00:00:00Z'))
+  })
+
+  it('does not show another user\'s local sessions', async () => {
+    await sessionsService.saveSession(session('guest-session', '2026-01-02T00:00:00Z'))
+    auth.currentUser = { uid: 'user-1' }
+
+    expect(await sessionsService.getSessions()).toEqual([])
+  })
+
+  it('deletes from both stores', async () => {
+    auth.currentUser = { uid: 'user-1' }
+    await sessionsService.saveSession(session('a', '2026-01-02T00:00:00Z'))
+    await sessionsService.deleteSession('a')
+
+    expect(readDocument('sessions/a')).toBeUndefined()
+    expect(await sessionsService.getSessions()).toEqual([])
+  })
+})
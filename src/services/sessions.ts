@@ -0,0 +1,156 @@
+import {
+  collection,
+  doc,
+  setDoc,
+  getDocs,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  type FirestoreError
+} from 'firebase/firestore'
+import { db, auth } from './firebase'
+import { SavedSession } from '@/types'
+import { serialize, type Serialized } from '@/utils/results-export'
+import { logger } from '@/utils/logger'
+
+const LOCAL_STORAGE_KEY = 'model-kombat-sessions'
+const MAX_LOCAL_SESSIONS = 50 // localStorage holds a few MB; older sessions are dropped first
+const MAX_LISTED_SESSIONS = 100
+
+type StoredSession = Serialized<SavedSession>
+
+function fromStored(data: StoredSession): SavedSession {
+  return {
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+    rounds: data.rounds.map(round => ({ ...round, timestamp: new Date(round.timestamp) }))
+  }
+}
+
+const newestFirst = (a: { updatedAt: string }, b: { updatedAt: string }) => b.updatedAt.localeCompare(a.updatedAt)
+
+// Only errors from not reaching Firestore; a rejected or invalid write is a bug the caller must see
+const OFFLINE_ERROR_CODES: FirestoreError['code'][] = ['unavailable', 'deadline-exceeded']
+const isOffline = (error: FirestoreError) => OFFLINE_ERROR_CODES.includes(error?.code)
+
+// Offline, the SDK queues a write and leaves its promise pending instead of rejecting it
+const SAVE_TIMEOUT_MS = 10_000
+const isOnline = () => globalThis.navigator?.onLine !== false
+
+// True once the write is acknowledged, false if it is still pending after `ms`
+async function settlesWithin(write: Promise<void>, ms: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<false>(resolve => { timer = setTimeout(() => resolve(false), ms) })
+  try {
+    return await Promise.race([write.then(() => true), timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * FFA and Lazy Mode history. Sessions go to Firestore for signed-in users and to
+ * localStorage otherwise, or whenever Firestore cannot be reached.
+ */
+class SessionsService {
+  private readonly collectionName = 'sessions'
+
+  // Kept per user so a shared browser does not mix histories
+  private get localKey(): string {
+    return `${LOCAL_STORAGE_KEY}:${auth.currentUser?.uid || 'guest'}`
+  }
+
+  private readLocal(): StoredSession[] {
+    try {
+      return JSON.parse(localStorage.getItem(this.localKey) || '[]')
+    } catch {
+      return []
+    }
+  }
+
+  private writeLocal(sessions: StoredSession[]) {
+    try {
+      localStorage.setItem(this.localKey, JSON.stringify(sessions.sort(newestFirst).slice(0, MAX_LOCAL_SESSIONS)))
+    } catch (error) {
+      logger.error('Failed to save session history to localStorage', error)
+    }
+  }
+
+  createId(): string {
+    return crypto.randomUUID()
+  }
+
+  /**
+   * Create or overwrite a session. Falls back to localStorage only when the browser is offline
+   * or Firestore cannot be reached; any other failure is thrown.
+   */
+  async saveSession(session: SavedSession): Promise<void> {
+    const stored = serialize(session)
+    const local = this.readLocal()
+    const others = local.filter(s => s.id !== session.id)
+    const user = auth.currentUser
+
+    if (user && isOnline()) {
+      try {
+        const write = setDoc(doc(db, this.collectionName, session.id), { ...stored, userId: user.uid })
+        if (await settlesWithin(write, SAVE_TIMEOUT_MS)) {
+          // A copy kept while Firestore was unreachable is now stale
+          if (others.length < local.length) this.writeLocal(others)
+          return
+        }
+        // The queued write still lands once Firestore is reachable; until then the local copy is listed
+        logger.warn('Firestore did not acknowledge the session in time, saving it to localStorage')
+      } catch (error) {
+        if (!isOffline(error as FirestoreError)) throw error
+        logger.warn('Firestore unavailable, saving the session to localStorage', { error })
+      }
+    }
+
+    this.writeLocal([stored, ...others])
+  }
+
+  /**
+   * The user's sessions, most recently updated first
+   */
+  async getSessions(): Promise<SavedSession[]> {
+    const local = this.readLocal()
+    const user = auth.currentUser
+    let remote: StoredSession[] = []
+
+    if (user) {
+      try {
+        const snapshot = await getDocs(query(
+          collection(db, this.collectionName),
+          where('userId', '==', user.uid),
+          orderBy('updatedAt', 'desc'),
+          limit(MAX_LISTED_SESSIONS)
+        ))
+        remote = snapshot.docs.map(snapshot => {
+          const { userId: _owner, ...data } = snapshot.data()
+          return data as StoredSession
+        })
+      } catch (error) {
+        logger.warn('Firestore unavailable, showing sessions from localStorage', { error })
+      }
+    }
+
+    // Sessions saved locally while Firestore was unreachable are listed too
+    const remoteIds = new Set(remote.map(session => session.id))
+    return [...remote, ...local.filter(session => !remoteIds.has(session.id))]
+      .sort(newestFirst)
+      .map(fromStored)
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.writeLocal(this.readLocal().filter(session => session.id !== sessionId))
+
+    if (auth.currentUser) {
+      await deleteDoc(doc(db, this.collectionName, sessionId))
+    }
+  }
+}
+
+export const sessionsService = new SessionsService()
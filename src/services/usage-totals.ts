@@ -0,0 +1,23 @@
+import { doc, setDoc, increment } from 'firebase/firestore'
+import { db, auth } from './firebase'
+import { UsageRecord } from '@/types'
+import { logger } from '@/utils/logger'
+
+/**
+ * Add a recorded call to the signed-in user's running token and cost totals
+ */
+export async function addToUserTotals(record: UsageRecord) {
+  const user = auth.currentUser
+  if (!user) return
+
+  try {
+    await setDoc(doc(db, 'users', user.uid), {
+      usage: {
+        totalTokensUsed: increment(record.promptTokens + record.completionTokens),
+        totalCost: increment(record.cost),
+      },
+    }, { merge: true })
+  } catch (error) {
+    logger.error('Failed to update user usage totals', error, { modelId: record.modelId })
+  }
+}
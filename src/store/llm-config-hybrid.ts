@@ -3,7 +3,14 @@ import { persist } from 'zustand/middleware'
 import { doc, getDoc, setDoc } from 'firebase/firestore'
 import { db, auth } from '@/services/firebase'
 import { openRouterService } from '@/services/openrouter'
-import { LLMConfig, OpenRouterModel } from '@/types'
+import { geminiService } from '@/services/gemini'
+import { localLLMService } from '@/services/local-llm'
+import { mockLLMService } from '@/services/mock-llm'
+import { llmService } from '@/services/llm'
+import { getErrorTitle } from '@/services/llm-errors'
+import { costLedger } from '@/services/cost-ledger'
+import { addToUserTotals } from '@/services/usage-totals'
+import { LLMConfig, LocalEndpointConfig, ModelRole, OpenRouterModel, SpendingBudget } from '@/types'
 import { toast } from '@/hooks/use-toast'
 import { logger } from '@/utils/logger'
 
@@ -20,12 +27,18 @@ interface LLMConfigState {
   // Actions
   loadConfig: () => Promise<void>
   saveApiKey: (apiKey: string) => Promise<void>
+  saveGeminiApiKey: (apiKey: string) => Promise<void>
+  saveLocalEndpoint: (endpoint: LocalEndpointConfig | null) => Promise<void>
+  setMockProvider: (enabled: boolean) => Promise<void>
   testConnection: (apiKey?: string) => Promise<boolean>
   fetchModelCatalog: (forceRefresh?: boolean) => Promise<void>
   toggleModel: (modelId: string, enabled: boolean) => Promise<void>
   setDefaultRefiner: (modelId: string) => Promise<void>
   setDefaultJudge: (modelId: string) => Promise<void>
+  setDefaultGrader: (modelId: string) => Promise<void>
   setDefaultRounds: (rounds: number) => Promise<void>
+  setBudget: (budget: SpendingBudget) => Promise<void>
+  setFallbackChain: (role: ModelRole, modelIds: string[]) => Promise<void>
   clearConfig: () => void
 }
 
@@ -42,6 +55,31 @@ function deobfuscateKey(obfuscated: string): string {
   }
 }
 
+// Hand the saved keys to the provider services
+function initializeProviders(config: LLMConfig) {
+  if (config.openRouterApiKey) {
+    openRouterService.initialize(deobfuscateKey(config.openRouterApiKey))
+  }
+  if (config.geminiApiKey) {
+    geminiService.initialize(deobfuscateKey(config.geminiApiKey))
+  }
+  if (config.localEndpoint) {
+    const { baseUrl, apiKey } = config.localEndpoint
+    localLLMService.initialize(baseUrl, apiKey ? deobfuscateKey(apiKey) : undefined)
+  }
+  mockLLMService.setEnabled(import.meta.env.DEV && !!config.useMockProvider)
+}
+
+// Whether any provider has the credentials it needs
+export function hasProviderConfig(config: LLMConfig | null | undefined): boolean {
+  return !!(
+    config?.openRouterApiKey ||
+    config?.geminiApiKey ||
+    config?.localEndpoint ||
+    (import.meta.env.DEV && config?.useMockProvider)
+  )
+}
+
 // Helper function to get user ID
 function getUserId(): string | null {
   const user = auth.currentUser
@@ -102,12 +140,11 @@ export const useLLMConfigStore = create<LLMConfigState>()(
 
         // Get existing state from localStorage immediately
         const existingState = get()
-        const hasLocalConfig = existingState.config?.openRouterApiKey
+        const hasLocalConfig = hasProviderConfig(existingState.config)
 
         // If we have local config, use it immediately to avoid blocking
         if (hasLocalConfig) {
-          const apiKey = deobfuscateKey(existingState.config!.openRouterApiKey!)
-          openRouterService.initialize(apiKey)
+          initializeProviders(existingState.config!)
           set({ loading: false, config: existingState.config })
 
           // Debug: Log that we found and loaded the API key
@@ -153,11 +190,8 @@ export const useLLMConfigStore = create<LLMConfigState>()(
               const firestoreLastModified = data.catalogLastFetched
 
               if (!localLastModified || (firestoreLastModified && firestoreLastModified > localLastModified)) {
-                // Initialize OpenRouter service if API key exists
-                if (data.openRouterApiKey) {
-                  const apiKey = deobfuscateKey(data.openRouterApiKey)
-                  openRouterService.initialize(apiKey)
-                }
+                // Initialize the providers that have API keys
+                initializeProviders(data)
                 set({ config: data, storageMode: 'firestore' })
               } else {
                 set({ storageMode: 'firestore' })
@@ -242,6 +276,116 @@ export const useLLMConfigStore = create<LLMConfigState>()(
         }
       },
 
+      // Save or, when empty, remove the Gemini API key
+      saveGeminiApiKey: async (apiKey: string) => {
+        const userId = getUserId()
+        if (!userId) return
+
+        const { geminiApiKey: _previousKey, ...config } = get().config || {
+          userId,
+          enabledModelIds: [],
+          defaultRefinementRounds: 3,
+        }
+        // Firestore rejects undefined, so a removed key is left out entirely
+        const updatedConfig: LLMConfig = apiKey
+          ? { ...config, geminiApiKey: obfuscateKey(apiKey) }
+          : config
+
+        // Try to save to Firestore if in firestore mode
+        if (get().storageMode === 'firestore' && auth.currentUser) {
+          try {
+            const docRef = doc(db, 'llm-configs', userId)
+            await setDoc(docRef, updatedConfig)
+          } catch (error) {
+            logger.error('Failed to save to Firestore', error)
+          }
+        }
+
+        if (apiKey) {
+          geminiService.initialize(apiKey)
+        } else {
+          geminiService.reset()
+        }
+        set({ config: updatedConfig })
+
+        toast({
+          title: apiKey ? 'Gemini Key Saved' : 'Gemini Key Removed',
+          description: 'Refresh the catalog to update the Gemini models',
+        })
+      },
+
+      // Save or, when null, remove the self-hosted server
+      saveLocalEndpoint: async (endpoint: LocalEndpointConfig | null) => {
+        const userId = getUserId()
+        if (!userId) return
+
+        const { localEndpoint: _previousEndpoint, ...config } = get().config || {
+          userId,
+          enabledModelIds: [],
+          defaultRefinementRounds: 3,
+        }
+        const updatedConfig: LLMConfig = endpoint
+          ? {
+              ...config,
+              localEndpoint: {
+                baseUrl: endpoint.baseUrl,
+                ...(endpoint.apiKey ? { apiKey: obfuscateKey(endpoint.apiKey) } : {}),
+              },
+            }
+          : config
+
+        // Try to save to Firestore if in firestore mode
+        if (get().storageMode === 'firestore' && auth.currentUser) {
+          try {
+            const docRef = doc(db, 'llm-configs', userId)
+            await setDoc(docRef, updatedConfig)
+          } catch (error) {
+            logger.error('Failed to save to Firestore', error)
+          }
+        }
+
+        if (endpoint) {
+          localLLMService.initialize(endpoint.baseUrl, endpoint.apiKey)
+        } else {
+          localLLMService.reset()
+        }
+        set({ config: updatedConfig })
+
+        toast({
+          title: endpoint ? 'Local Server Saved' : 'Local Server Removed',
+          description: 'Refresh the catalog to update the local models',
+        })
+      },
+
+      // Turn the offline mock provider on or off (dev builds only)
+      setMockProvider: async (enabled: boolean) => {
+        const userId = getUserId()
+        if (!userId) return
+
+        const config = get().config || {
+          userId,
+          enabledModelIds: [],
+          defaultRefinementRounds: 3,
+        }
+        const updatedConfig: LLMConfig = {
+          ...config,
+          useMockProvider: enabled,
+        }
+
+        // Try to save to Firestore if in firestore mode
+        if (get().storageMode === 'firestore' && auth.currentUser) {
+          try {
+            const docRef = doc(db, 'llm-configs', userId)
+            await setDoc(docRef, updatedConfig)
+          } catch {
+            // Ignore Firestore errors
+          }
+        }
+
+        mockLLMService.setEnabled(import.meta.env.DEV && enabled)
+        set({ config: updatedConfig })
+      },
+
       // Test connection
       testConnection: async (apiKey?: string) => {
         set({ isTestingConnection: true, lastError: null })
@@ -277,7 +421,7 @@ export const useLLMConfigStore = create<LLMConfigState>()(
           set({ lastError: errorMessage })
 
           toast({
-            title: 'Connection Failed',
+            title: getErrorTitle(error, 'Connection Failed'),
             description: errorMessage,
             variant: 'destructive',
           })
@@ -310,7 +454,8 @@ export const useLLMConfigStore = create<LLMConfigState>()(
         set({ isFetchingCatalog: true, lastError: null })
 
         try {
-          const models = await openRouterService.fetchModelCatalog(forceRefresh)
+          const models = await llmService.fetchModelCatalog(forceRefresh)
+          const sources = llmService.getConfiguredProviders().map(provider => provider.name).join(' and ')
           set({ models })
 
           // Update catalog fetch time without auto-enabling any models
@@ -337,12 +482,12 @@ export const useLLMConfigStore = create<LLMConfigState>()(
 
             toast({
               title: '✅ Models Loaded',
-              description: `Loaded ${models.length} models from OpenRouter catalog`,
+              description: `Loaded ${models.length} models from ${sources}`,
             })
           } else {
             toast({
               title: 'Models Loaded',
-              description: `Loaded ${models.length} models from OpenRouter`,
+              description: `Loaded ${models.length} models from ${sources}`,
             })
           }
         } catch (error: any) {
@@ -433,6 +578,29 @@ export const useLLMConfigStore = create<LLMConfigState>()(
         set({ config: updatedConfig })
       },
 
+      // Set default grader model
+      setDefaultGrader: async (modelId: string) => {
+        const config = get().config
+        if (!config) return
+
+        const updatedConfig: LLMConfig = {
+          ...config,
+          defaultGraderId: modelId,
+        }
+
+        // Try to save to Firestore if in firestore mode
+        if (get().storageMode === 'firestore' && auth.currentUser) {
+          try {
+            const docRef = doc(db, 'llm-configs', config.userId)
+            await setDoc(docRef, updatedConfig)
+          } catch {
+            // Ignore Firestore errors
+          }
+        }
+
+        set({ config: updatedConfig })
+      },
+
       // Set default refinement rounds
       setDefaultRounds: async (rounds: number) => {
         const config = get().config
@@ -456,6 +624,58 @@ export const useLLMConfigStore = create<LLMConfigState>()(
         set({ config: updatedConfig })
       },
 
+      // Set spending caps; an unset cap is left out so Firestore never sees undefined
+      setBudget: async (budget: SpendingBudget) => {
+        const config = get().config
+        if (!config) return
+
+        const updatedConfig: LLMConfig = {
+          ...config,
+          budget: {
+            ...(budget.perRunLimit ? { perRunLimit: budget.perRunLimit } : {}),
+            ...(budget.dailyLimit ? { dailyLimit: budget.dailyLimit } : {}),
+          },
+        }
+
+        // Try to save to Firestore if in firestore mode
+        if (get().storageMode === 'firestore' && auth.currentUser) {
+          try {
+            const docRef = doc(db, 'llm-configs', config.userId)
+            await setDoc(docRef, updatedConfig)
+          } catch {
+            // Ignore Firestore errors
+          }
+        }
+
+        set({ config: updatedConfig })
+      },
+
+      // Set the backup models tried in order when a model in this role fails
+      setFallbackChain: async (role: ModelRole, modelIds: string[]) => {
+        const config = get().config
+        if (!config) return
+
+        const updatedConfig: LLMConfig = {
+          ...config,
+          fallbackChains: {
+            ...config.fallbackChains,
+            [role]: modelIds,
+          },
+        }
+
+        // Try to save to Firestore if in firestore mode
+        if (get().storageMode === 'firestore' && auth.currentUser) {
+          try {
+            const docRef = doc(db, 'llm-configs', config.userId)
+            await setDoc(docRef, updatedConfig)
+          } catch {
+            // Ignore Firestore errors
+          }
+        }
+
+        set({ config: updatedConfig })
+      },
+
       // Clear configuration
       clearConfig: () => {
         set({
@@ -474,6 +694,19 @@ export const useLLMConfigStore = create<LLMConfigState>()(
         config: state.config,
         models: state.models,
       }),
+      // The persisted catalog prices calls until the next fetch replaces it
+      onRehydrateStorage: () => (state) => {
+        if (state?.models.length) {
+          costLedger.setCatalog(state.models)
+        }
+      },
     }
   )
-)
\ No newline at end of file
+)
+
+// Keep the ledger's spending caps in step with whichever config is loaded
+costLedger.setBudget(useLLMConfigStore.getState().config?.budget)
+useLLMConfigStore.subscribe(state => costLedger.setBudget(state.config?.budget))
+
+// Every call the ledger records also counts toward the signed-in user's totals
+costLedger.subscribe(record => void addToUserTotals(record))
@@ -0,0 +1,298 @@
+/**
+ * In-memory stand-in for the parts of firebase/firestore the services use, so their tests
+ * run without the Firestore emulator. Swap it in with
+ * `vi.mock('firebase/firestore', () => import('@/test/fake-firestore'))`.
+ */
+
+type DocumentData = Record<string, any>
+
+interface DocumentReference {
+  type: 'document'
+  id: string
+  path: string
+}
+
+interface CollectionReference {
+  type: 'collection'
+  id: string
+  path: string
+}
+
+type QueryConstraint =
+  | { type: 'where'; field: string; op: WhereFilterOp; value: unknown }
+  | { type: 'orderBy'; field: string; direction: 'asc' | 'desc' }
+  | { type: 'limit'; count: number }
+
+interface Query {
+  type: 'query'
+  path: string
+  constraints: QueryConstraint[]
+}
+
+type WhereFilterOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'array-contains'
+
+const documents = new Map<string, DocumentData>()
+
+export class Timestamp {
+  constructor(readonly seconds: number, readonly nanoseconds: number) {}
+
+  static fromDate(date: Date): Timestamp {
+    const millis = date.getTime()
+    return new Timestamp(Math.floor(millis / 1000), (millis % 1000) * 1e6)
+  }
+
+  static fromMillis(millis: number): Timestamp {
+    return Timestamp.fromDate(new Date(millis))
+  }
+
+  static now(): Timestamp {
+    return Timestamp.fromDate(new Date())
+  }
+
+  toDate(): Date {
+    return new Date(this.toMillis())
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + this.nanoseconds / 1e6
+  }
+}
+
+class IncrementValue {
+  constructor(readonly amount: number) {}
+}
+
+export function increment(amount: number): IncrementValue {
+  return new IncrementValue(amount)
+}
+
+// Copies plain objects and arrays so stored data cannot be changed through a reference
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)])) as T
+  }
+  return value
+}
+
+function applyWrite(existing: DocumentData | undefined, data: DocumentData): DocumentData {
+  const result: DocumentData = { ...existing }
+  for (const [key, value] of Object.entries(data)) {
+    if (value instanceof IncrementValue) {
+      result[key] = (typeof result[key] === 'number' ? result[key] : 0) + value.amount
+    } else if (value && Object.getPrototypeOf(value) === Object.prototype) {
+      result[key] = applyWrite(result[key], value)
+    } else {
+      result[key] = clone(value)
+    }
+  }
+  return result
+}
+
+function resolveIncrements(data: DocumentData): DocumentData {
+  return applyWrite(undefined, data)
+}
+
+const joinPath = (segments: string[]) => segments.join('/').replace(/\/+/g, '/')
+
+export function collection(_db: unknown, ...pathSegments: string[]): CollectionReference {
+  const path = joinPath(pathSegments)
+  return { type: 'collection', id: path.split('/').pop()!, path }
+}
+
+export function doc(_db: unknown, ...pathSegments: string[]): DocumentReference {
+  const path = joinPath(pathSegments)
+  return { type: 'document', id: path.split('/').pop()!, path }
+}
+
+export function where(field: string, op: WhereFilterOp, value: unknown): QueryConstraint {
+  return { type: 'where', field, op, value }
+}
+
+export function orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): QueryConstraint {
+  return { type: 'orderBy', field, direction }
+}
+
+export function limit(count: number): QueryConstraint {
+  return { type: 'limit', count }
+}
+
+export function query(ref: CollectionReference | Query, ...constraints: QueryConstraint[]): Query {
+  return ref.type === 'query'
+    ? { ...ref, constraints: [...ref.constraints, ...constraints] }
+    : { type: 'query', path: ref.path, constraints }
+}
+
+function snapshotOf(path: string) {
+  const data = documents.get(path)
+  return {
+    id: path.split('/').pop()!,
+    ref: doc(null, path),
+    exists: () => data !== undefined,
+    data: () => (data === undefined ? undefined : clone(data)) as DocumentData,
+  }
+}
+
+const comparable = (value: unknown) => (value instanceof Timestamp ? value.toMillis() : value) as any
+
+function matches(data: DocumentData, constraint: Extract<QueryConstraint, { type: 'where' }>): boolean {
+  const actual = comparable(data[constraint.field])
+  const expected = comparable(constraint.value)
+  switch (constraint.op) {
+    case '==': return actual === expected
+    case '!=': return actual !== expected
+    case '<': return actual < expected
+    case '<=': return actual <= expected
+    case '>': return actual > expected
+    case '>=': return actual >= expected
+    case 'in': return (expected as unknown[]).includes(actual)
+    case 'array-contains': return Array.isArray(actual) && actual.includes(expected)
+  }
+}
+
+export async function getDoc(ref: DocumentReference) {
+  return snapshotOf(ref.path)
+}
+
+export async function getDocs(ref: CollectionReference | Query) {
+  const constraints = ref.type === 'query' ? ref.constraints : []
+  let paths = [...documents.keys()].filter(path =>
+    path.startsWith(`${ref.path}/`) && !path.slice(ref.path.length + 1).includes('/')
+  )
+
+  for (const constraint of constraints) {
+    if (constraint.type === 'where') {
+      paths = paths.filter(path => matches(documents.get(path)!, constraint))
+    } else if (constraint.type === 'orderBy') {
+      const sign = constraint.direction === 'desc' ? -1 : 1
+      paths = [...paths].sort((a, b) => {
+        const first = comparable(documents.get(a)![constraint.field])
+        const second = comparable(documents.get(b)![constraint.field])
+        return first < second ? -sign : first > second ? sign : 0
+      })
+    } else {
+      paths = paths.slice(0, constraint.count)
+    }
+  }
+
+  const docs = paths.map(snapshotOf)
+  return {
+    docs,
+    size: docs.length,
+    empty: docs.length === 0,
+    forEach: (callback: (snapshot: ReturnType<typeof snapshotOf>) => void) => docs.forEach(callback),
+  }
+}
+
+// Set by failNextWrite and hangNextWrite; applied to the next write instead of it
+let nextWriteError: unknown = null
+let nextWriteHangs = false
+
+async function beforeWrite() {
+  const error = nextWriteError
+  const hangs = nextWriteHangs
+  nextWriteError = null
+  nextWriteHangs = false
+  if (error) throw error
+  if (hangs) await new Promise<never>(() => {})
+}
+
+export async function setDoc(ref: DocumentReference, data: DocumentData, options?: { merge?: boolean }) {
+  await beforeWrite()
+  documents.set(ref.path, options?.merge ? applyWrite(documents.get(ref.path), data) : resolveIncrements(data))
+}
+
+export async function updateDoc(ref: DocumentReference, data: DocumentData) {
+  await beforeWrite()
+  if (!documents.has(ref.path)) {
+    throw new Error(`No document to update: ${ref.path}`)
+  }
+  documents.set(ref.path, applyWrite(documents.get(ref.path), data))
+}
+
+export async function deleteDoc(ref: DocumentReference) {
+  await beforeWrite()
+  documents.delete(ref.path)
+}
+
+export function writeBatch(_db: unknown) {
+  const writes: Array<() => Promise<void>> = []
+  const batch = {
+    set(ref: DocumentReference, data: DocumentData, options?: { merge?: boolean }) {
+      writes.push(() => setDoc(ref, data, options))
+      return batch
+    },
+    update(ref: DocumentReference, data: DocumentData) {
+      writes.push(() => updateDoc(ref, data))
+      return batch
+    },
+    delete(ref: DocumentReference) {
+      writes.push(() => deleteDoc(ref))
+      return batch
+    },
+    async commit() {
+      for (const write of writes) await write()
+    },
+  }
+  return batch
+}
+
+/**
+ * Runs the update function once; writes are applied together after it resolves. Like
+ * Firestore, every read must come before the first write.
+ */
+export async function runTransaction<T>(_db: unknown, updateFunction: (transaction: any) => Promise<T>): Promise<T> {
+  const writes: Array<() => Promise<void>> = []
+  const transaction = {
+    async get(ref: DocumentReference) {
+      if (writes.length > 0) {
+        throw new Error('Firestore transactions require all reads to be executed before all writes.')
+      }
+      return snapshotOf(ref.path)
+    },
+    set(ref: DocumentReference, data: DocumentData, options?: { merge?: boolean }) {
+      writes.push(() => setDoc(ref, data, options))
+      return transaction
+    },
+    update(ref: DocumentReference, data: DocumentData) {
+      writes.push(() => updateDoc(ref, data))
+      return transaction
+    },
+    delete(ref: DocumentReference) {
+      writes.push(() => deleteDoc(ref))
+      return transaction
+    },
+  }
+
+  const result = await updateFunction(transaction)
+  for (const write of writes) await write()
+  return result
+}
+
+/**
+ * Test helpers, not part of the Firestore API
+ */
+export function resetFirestore() {
+  documents.clear()
+  nextWriteError = null
+  nextWriteHangs = false
+}
+
+/**
+ * Make the next write reject, e.g. with `{ code: 'unavailable' }` or `{ code: 'permission-denied' }`
+ */
+export function failNextWrite(error: unknown) {
+  nextWriteError = error
+}
+
+/**
+ * Leave the next write pending forever, as the SDK does with a write queued while offline
+ */
+export function hangNextWrite() {
+  nextWriteHangs = true
+}
+
+export function readDocument(path: string): DocumentData | undefined {
+  const data = documents.get(path)
+  return data === undefined ? undefined : clone(data)
+}
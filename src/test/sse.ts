@@ -0,0 +1,23 @@
+/**
+ * A fetch Response whose body streams `chunks` as they are given, so tests can split
+ * events anywhere, including mid-line
+ */
+export function sseResponse(chunks: string[], init: ResponseInit = {}): Response {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+      controller.close()
+    },
+  })
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' }, ...init })
+}
+
+// One `data:` event for a streamed chat completion chunk
+export function sseEvent(payload: unknown): string {
+  return `data: ${typeof payload === 'string' ? payload : JSON.stringify(payload)}\n\n`
+}
+
+export function deltaEvent(content: string, extra: Record<string, unknown> = {}): string {
+  return sseEvent({ id: 'gen-1', model: 'test/model', choices: [{ index: 0, delta: { content } }], ...extra })
+}
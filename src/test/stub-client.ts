@@ -0,0 +1,56 @@
+import type { ChatCompletionClient } from '@/engine/types'
+import type { ChatCompletionOptions } from '@/services/llm'
+import type { ChatCompletionRequest } from '@/services/llm-provider'
+import { RequestCancelledError } from '@/services/llm-errors'
+
+type StubReply = string | { content: string; answeredBy?: string } | Error
+
+export interface StubCall {
+  request: ChatCompletionRequest
+  options?: ChatCompletionOptions
+}
+
+/**
+ * Chat client for engine tests. `respond` answers each request with text, a reply from a
+ * fallback model, or an error to throw. Streamed requests get the reply as one chunk, and
+ * every call reports usage with one completion token per word.
+ */
+export function createStubClient(respond: (request: ChatCompletionRequest) => StubReply) {
+  const calls: StubCall[] = []
+
+  const client: ChatCompletionClient = {
+    async createChatCompletion(request, onStream, options) {
+      calls.push({ request, options })
+      if (options?.signal?.aborted) throw new RequestCancelledError()
+
+      const reply = respond(request)
+      if (reply instanceof Error) throw reply
+      const { content, answeredBy = request.model } = typeof reply === 'string' ? { content: reply } : reply
+
+      if (request.stream) onStream?.(content)
+      options?.onUsage?.({
+        modelId: answeredBy,
+        promptTokens: 0,
+        completionTokens: content.split(/\s+/).length,
+        cost: 0,
+        priced: false,
+        timestamp: new Date().toISOString(),
+      })
+
+      return {
+        id: `stub-${calls.length}`,
+        model: answeredBy,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        answeredBy,
+      }
+    },
+  }
+
+  return { client, calls }
+}
+
+// Text of the last message in a request, which is what the runners vary per call
+export function lastMessage(request: ChatCompletionRequest): string {
+  const content = request.messages[request.messages.length - 1].content
+  return typeof content === 'string' ? content : content.map(part => part.text || '').join('\n')
+}
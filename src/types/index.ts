@@ -8,13 +8,14 @@ export interface Project {
   status: 'draft' | 'in_progress' | 'completed' | 'failed' | 'paused' | 'refining' | 'competing' | 'judging' | 'complete'
   createdAt: Date
   updatedAt: Date
+  heartbeatAt?: number // Epoch ms, written while a phase runs; see utils/run-lease.ts
 
   // Phase configurations
   maxRefinementRounds: number
   refinerModelId: string
   competitorModelIds: string[]
   judgeModelId: string
-  judgingCriteria: JudgingCriteria
+  judgingCriteria?: JudgingCriteria // Legacy fixed weights, superseded by judgingConfig.criteria
 
   // Phase 1: Adversarial Refinement Configuration
   refinementConfig?: {
@@ -32,6 +33,12 @@ export interface Project {
   // Phase 3: Judging Configuration
   judgingConfig?: {
     judgeModelId: string
+    judgeModelIds?: string[] // Judge panel; falls back to judgeModelId alone
+    aggregation?: ScoreAggregationMethod
+    mode?: JudgingMode // Defaults to absolute scoring
+    excludeSameProviderJudges?: boolean // Skip judges that share a provider with the answer's model
+    shuffleSeed?: number // Seeds the anonymized presentation order
+    maxRepairAttempts?: number // Re-asks after a malformed judge reply; defaults to 2
     criteria: GradingCriterion[]
     customSystemPrompt?: string
   }
@@ -41,6 +48,7 @@ export interface Project {
     refinement: {
       status: 'pending' | 'in_progress' | 'completed'
       rounds: RefinementRound[]
+      pendingCritique?: string // Written for the round after the last one, before its rewrite
     }
     competition: {
       status: 'pending' | 'in_progress' | 'completed'
@@ -49,11 +57,15 @@ export interface Project {
     judging: {
       status: 'pending' | 'in_progress' | 'completed'
       results: JudgingResult[]
+      comparisons?: PairwiseComparison[] // Pairwise mode only
+      shuffleSeed?: number
+      presentationOrder?: string[]
     }
   }
 
   // Results
   results?: ProjectResults
+  usage?: UsageTotals // Running token and cost totals for every model call made for the project
 }
 
 export interface JudgingCriteria {
@@ -65,10 +77,15 @@ export interface JudgingCriteria {
 
 export interface GradingCriterion {
   name: string
+  description: string // Shown to the judge model
   weight: number // 0-100, all weights must sum to 100
   id: string
 }
 
+export type ScoreAggregationMethod = 'mean' | 'median' | 'trimmed_mean' | 'borda'
+
+export type JudgingMode = 'absolute' | 'pairwise'
+
 export interface ProjectResults {
   phase1: RefinementResult
   phase2: CompetitionResult
@@ -92,6 +109,7 @@ export interface RefinementRound {
   improvements: string[]
   timestamp: string | Date
   tokensUsed?: number
+  answeredBy?: string // Fallback model that wrote the round when the refiner failed
 }
 
 export interface CompetitionResult {
@@ -115,6 +133,7 @@ export interface CompetitorGeneration {
   tokenCount: number
   estimatedCost: number
   timestamp: string
+  answeredBy?: string // Fallback model that answered when the competitor failed
 }
 
 export interface JudgingResultLegacy {
@@ -127,16 +146,61 @@ export interface JudgingResultLegacy {
 export interface JudgingResult {
   modelId: string
   modelName: string
-  scores: {
-    relevance: number
-    accuracy: number
-    completeness: number
-    clarity: number
-  }
+  scores: { [criterionId: string]: number } // 0-100 per criterion, consensus across the panel
   totalScore: number
   feedback: string
   rank: number
   timestamp: string
+  judgeScores?: JudgeVerdict[] // One entry per panel judge that scored this answer
+  unscoredVerdicts?: UnscoredVerdict[] // Judges whose replies never passed validation
+  unscored?: boolean // No judge produced a usable score; totalScore is then meaningless
+  pairwise?: PairwiseStanding // Pairwise mode only; totalScore is then expectedScore
+}
+
+export interface PairwiseComparison {
+  modelAId: string // Shown to the judge as "Answer A"
+  modelBId: string // Shown to the judge as "Answer B"
+  judgeModelId: string
+  verdict: 'A' | 'B' | 'tie'
+  reasoning: string
+  timestamp: string
+  rawResponse?: string // The judge's reply as received, kept for auditing
+  answeredBy?: string // Fallback model that judged when the judge failed
+}
+
+export interface PairwiseStanding {
+  modelId: string
+  rating: number // Bradley-Terry strength on an Elo-style scale
+  ciLower: number // 95% bootstrap interval
+  ciUpper: number
+  expectedScore: number // Expected win rate against the field, 0-100
+  wins: number
+  losses: number
+  ties: number
+}
+
+export interface JudgeVerdict {
+  judgeModelId: string
+  scores: { [criterionId: string]: number }
+  totalScore: number
+  feedback: string
+  rawResponse?: string // The judge's reply as received, kept for auditing
+  repairAttempts?: number // Repair prompts needed before the reply validated
+  answeredBy?: string // Fallback model that judged when the judge failed
+}
+
+export interface UnscoredVerdict {
+  judgeModelId: string
+  problems: string[] // Why the last reply failed validation
+  rawResponse: string
+  repairAttempts: number
+}
+
+// Everything besides the results that a judging run records on the project
+export interface JudgingRunDetails {
+  shuffleSeed: number
+  presentationOrder: string[] // Competitor model ids in the order the judges saw them
+  comparisons?: PairwiseComparison[]
 }
 
 export interface JudgeScore {
@@ -151,10 +215,103 @@ export interface CriterionScore {
   reasoning: string
 }
 
-// OpenRouter types
-export interface OpenRouterModel {
+// Cost accounting types
+export interface UsageRecord {
+  modelId: string
+  promptTokens: number
+  completionTokens: number
+  cost: number // USD, priced per token from the model catalog
+  priced: boolean // False when the catalog had no pricing for the model
+  scope?: string // Groups calls made for one project
+  timestamp: string
+}
+
+export interface UsageTotals {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number
+  requests: number
+}
+
+// Quality evaluation types
+export interface QualityRubricItem {
   id: string
   name: string
+  description: string
+  weight: number // 0-100, all weights must sum to 100
+}
+
+export interface QualityEvaluation {
+  score: number // Weighted 0-100
+  criteriaScores: { [criterionId: string]: number } // 0-100
+  rationale: string
+  graderModelId: string
+  evaluatedAt: string
+}
+
+// AI Studio types: an FFA or Lazy Mode run
+export interface StudioSession {
+  question: string
+  enhancedPrompt?: string // Sent to the models instead of the question when set
+  mode: 'ffa' | 'lazy'
+  rounds: StudioRound[]
+  files?: StudioFile[] // Attached to the first answer
+  settings?: {
+    rounds: number
+    temperature: number
+    graderModelId?: string
+    modelIds?: string[] // The models that took turns, in order
+  }
+  usage?: UsageTotals
+}
+
+// An uploaded file, referenced from Firebase Storage
+export interface StudioFile {
+  name: string
+  type: string
+  size: number
+  url: string
+  storageRef: string
+}
+
+// A session kept in the history
+export interface SavedSession extends StudioSession {
+  id: string
+  createdAt: Date
+  updatedAt: Date
+  status?: SessionStatus // Missing on sessions saved before runs could be resumed; they are complete
+  lastRound?: number // The round the run was set to stop after
+  heartbeatAt?: number // Epoch ms, written while the run is going; see utils/run-lease.ts
+}
+
+export type SessionStatus = Extract<Project['status'], 'in_progress' | 'paused' | 'completed' | 'failed'>
+
+export interface StudioRound {
+  modelId: string
+  modelName: string
+  content: string
+  critique?: string
+  timestamp: Date | string
+  duration?: number // ms
+  quality?: number // Grader score 0-100, unset until evaluated
+  evaluation?: QualityEvaluation
+  regressed?: boolean // Scored below the answer it refined
+  userRating?: number // 1-5 stars
+  isWinner?: boolean // Picked by the user as the best answer
+  fallbackFrom?: string // Model that failed before a fallback wrote the round
+  failed?: boolean // Every model in the chain failed
+  error?: string
+}
+
+// Services that can answer chat completions; see src/services/llm-provider.ts
+export type LLMProviderId = 'openrouter' | 'gemini' | 'local' | 'mock'
+
+// OpenRouter types, also the catalog shape every provider maps its models to
+export interface OpenRouterModel {
+  id: string // Tagged with the provider (e.g. "gemini:gemini-1.5-pro") unless it is an OpenRouter model
+  name: string
+  provider?: LLMProviderId // Unset on catalogs saved before other providers were added
   description?: string
   context_length?: number
   pricing?: {
@@ -205,14 +362,37 @@ export interface LLMConfig {
   userId: string
   openRouterApiKey?: string // Encrypted
   geminiApiKey?: string // Google Gemini API key (encrypted)
+  localEndpoint?: LocalEndpointConfig
+  useMockProvider?: boolean // Dev builds only: adds the offline mock models to the catalog
   enabledModelIds: string[]
   defaultRefinerId?: string
   defaultJudgeId?: string
+  defaultGraderId?: string // Scores FFA and Lazy Mode rounds
   defaultRefinementRounds: number
+  budget?: SpendingBudget
+  fallbackChains?: FallbackChains
   lastCatalogSync?: Date
   catalogLastFetched?: string
 }
 
+// A self-hosted server speaking the OpenAI chat completions API (Ollama, llama.cpp, vLLM)
+export interface LocalEndpointConfig {
+  baseUrl: string // API root, e.g. http://localhost:11434/v1
+  apiKey?: string // Obfuscated like the other keys; most local servers need none
+}
+
+// The jobs a model can do in a run; each has its own fallback chain
+export type ModelRole = 'refiner' | 'competitor' | 'judge'
+
+// Backup models per role, tried in order when a model still fails after retrying
+export type FallbackChains = Partial<Record<ModelRole, string[]>>
+
+// Spending caps in USD; a run pauses for confirmation before a call would cross one
+export interface SpendingBudget {
+  perRunLimit?: number
+  dailyLimit?: number
+}
+
 // User types
 export interface UserProfile {
   uid: string
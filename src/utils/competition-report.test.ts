@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest'
+import { CompetitorGeneration, JudgingResult, Project } from '@/types'
+import { DEFAULT_GRADING_CRITERIA } from './grading-criteria'
+import { buildProjectReport, buildSessionReport, type ReportBlock } from './competition-report'
+import { renderReportMarkdown } from './report-markdown'
+import { renderReportPdf } from './report-pdf'
+
+const criteria = DEFAULT_GRADING_CRITERIA.slice(0, 2).map(criterion => ({ ...criterion, weight: 50 }))
+
+const generation = (modelId: string, modelName: string, response: string): CompetitorGeneration => ({
+  modelId,
+  modelName,
+  response,
+  generationTime: 2000,
+  tokenCount: 120,
+  estimatedCost: 0.001,
+  timestamp: '2025-01-01T00:00:05.000Z',
+})
+
+const result = (modelId: string, rank: number, totalScore: number, feedback: string): JudgingResult => ({
+  modelId,
+  modelName: modelId,
+  scores: { [criteria[0].id]: totalScore - 5, [criteria[1].id]: totalScore + 5 },
+  totalScore,
+  feedback,
+  rank,
+  timestamp: '',
+  judgeScores: [{ judgeModelId: 'openai/gpt-4o', scores: {}, totalScore, feedback }],
+})
+
+const project: Project = {
+  id: 'project-1',
+  userId: 'user-1',
+  name: 'Monad showdown',
+  originalQuestion: 'Explain monads',
+  status: 'completed',
+  createdAt: new Date('2025-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2025-01-01T00:00:20.000Z'),
+  maxRefinementRounds: 1,
+  refinerModelId: 'google/gemini-pro',
+  competitorModelIds: ['anthropic/claude-3.5-sonnet', 'meta/llama-3'],
+  judgeModelId: 'openai/gpt-4o',
+  judgingConfig: { judgeModelId: 'openai/gpt-4o', criteria },
+  phases: {
+    refinement: {
+      status: 'completed',
+      rounds: [
+        { roundNumber: 0, response: 'Explain monads', critique: '', improvements: [], timestamp: '2025-01-01T00:00:00.000Z' },
+        { roundNumber: 1, response: 'Explain monads with an example', critique: 'Too vague', improvements: ['Asked for an example'], timestamp: '2025-01-01T00:00:02.000Z' },
+      ],
+    },
+    competition: {
+      status: 'completed',
+      generations: [
+        generation('anthropic/claude-3.5-sonnet', 'Claude 3.5 Sonnet', 'As Claude 3.5 Sonnet, I say monads wrap values'),
+        generation('meta/llama-3', 'Llama 3', 'Monads chain computations'),
+      ],
+    },
+    judging: {
+      status: 'completed',
+      results: [
+        result('meta/llama-3', 2, 70, 'Terse'),
+        result('anthropic/claude-3.5-sonnet', 1, 85, 'Claude 3.5 Sonnet gave a clear example'),
+      ],
+    },
+  },
+  usage: { promptTokens: 900, completionTokens: 300, totalTokens: 1200, cost: 0.0123, requests: 6 },
+}
+
+const models = [{ id: 'openai/gpt-4o', name: 'GPT-4o' }, { id: 'google/gemini-pro', name: 'Gemini Pro' }]
+
+const allText = (blocks: ReportBlock[]) => blocks
+  .map(block => block.kind === 'table' ? [block.head, ...block.body].flat().join(' ') : block.text)
+  .join('\n')
+
+describe('buildProjectReport', () => {
+  it('lays out the three phases with a score per criterion and the winner', () => {
+    const report = buildProjectReport(project, { models })
+    const [refinement, competition, judging] = report.sections
+
+    expect(allText(refinement.blocks)).toContain('Critique: Too vague')
+    expect(competition.blocks[0]).toMatchObject({ kind: 'table', head: ['Model', 'Time', 'Tokens', 'Est. cost'] })
+    expect(judging.blocks[1]).toEqual({
+      kind: 'table',
+      head: ['Rank', 'Model', 'Total', `${criteria[0].name} (50%)`, `${criteria[1].name} (50%)`],
+      body: [['1', 'Claude 3.5 Sonnet', '85.0', '80.0', '90.0'], ['2', 'Llama 3', '70.0', '65.0', '75.0']],
+    })
+    expect(allText(judging.blocks)).toContain('Winner: Claude 3.5 Sonnet with 85.0')
+    expect(report.facts).toContainEqual(['Refiner', 'Gemini Pro'])
+    expect(report.facts).toContainEqual(['Tokens', (1200).toLocaleString()])
+  })
+
+  it('swaps every model name and id for a letter when redacting', () => {
+    const report = buildProjectReport(project, { models, redactIdentities: true })
+    const text = [report.question, ...report.facts.flat(), ...report.sections.map(section => allText(section.blocks))].join('\n')
+
+    expect(text).toContain('As Model A, I say monads wrap values')
+    expect(text).toContain('Winner: Model A with 85.0')
+    expect(text).toContain('Model D (85.0): Model A gave a clear example')
+    for (const identity of ['Claude', 'Llama', 'GPT-4o', 'gpt-4o', 'Gemini', 'anthropic/']) {
+      expect(text).not.toContain(identity)
+    }
+    expect(report.redacted).toBe(true)
+  })
+
+  it('scrubs short names, slugs and improvements when redacting', () => {
+    const openRouterModels = [
+      { id: 'anthropic/claude-3.5-sonnet', name: 'Anthropic: Claude 3.5 Sonnet' },
+      { id: 'openai/gpt-4o', name: 'OpenAI: GPT-4o' },
+      { id: 'google/gemini-pro', name: 'Google: Gemini Pro' },
+    ]
+    const phases = project.phases!
+    const report = buildProjectReport({
+      ...project,
+      phases: {
+        ...phases,
+        refinement: {
+          ...phases.refinement,
+          rounds: [phases.refinement.rounds[0], { ...phases.refinement.rounds[1], improvements: ['Asked for the kind of example Claude gives'] }],
+        },
+        competition: {
+          ...phases.competition,
+          generations: [
+            generation('anthropic/claude-3.5-sonnet', 'Anthropic: Claude 3.5 Sonnet', 'I am Claude. Unlike GPT-4o or claude-3.5-sonnet\'s rivals, I answer as Claude 3.5 Sonnet would'),
+            generation('meta/llama-3', 'Llama 3', 'Monads chain computations, said the llama-3 model'),
+          ],
+        },
+      },
+    }, { models: openRouterModels, redactIdentities: true })
+    const text = [report.question, ...report.facts.flat(), ...report.sections.map(section => allText(section.blocks))].join('\n')
+
+    expect(text).toContain('I am Model A. Unlike Model D or Model A\'s rivals, I answer as Model A would')
+    expect(text).toContain('Improvements: Asked for the kind of example Model A gives')
+    for (const identity of ['Claude', 'claude', 'GPT', 'Gemini', 'Llama', 'llama']) {
+      expect(text).not.toContain(identity)
+    }
+  })
+})
+
+describe('buildSessionReport', () => {
+  const rounds = [
+    { modelId: 'model-a', modelName: 'Alpha', content: 'First draft', timestamp: '2025-01-01T00:00:00.000Z', duration: 1000, quality: 60 },
+    { modelId: 'model-b', modelName: 'Beta', content: 'Better draft', timestamp: '2025-01-01T00:00:01.000Z', duration: 1500, quality: 80 },
+    { modelId: 'model-c', modelName: 'Gamma', content: '', timestamp: '2025-01-01T00:00:02.000Z', failed: true, error: 'Rate limited' },
+  ]
+
+  it('leads with the best graded answer unless the user picked one', () => {
+    expect(buildSessionReport({ question: 'Explain monads', rounds }).sections[0]).toEqual({
+      title: 'Best answer',
+      blocks: [{ kind: 'text', text: 'Better draft' }],
+    })
+
+    const picked = buildSessionReport({
+      question: 'Explain monads',
+      rounds: rounds.map(round => ({ ...round, isWinner: round.modelId === 'model-a' })),
+    })
+    expect(picked.facts).toContainEqual(['Best answer', 'Alpha (60)'])
+  })
+
+  it('marks failed rounds in the timeline', () => {
+    const timeline = buildSessionReport({ question: 'Explain monads', rounds }).sections[1]
+    expect(timeline.blocks[0]).toMatchObject({ body: [['0', 'Alpha', '60', '1.0s'], ['1', 'Beta', '80', '1.5s'], ['2', 'Gamma', 'Failed', '–']] })
+    expect(allText(timeline.blocks)).toContain('Failed: Rate limited')
+  })
+})
+
+describe('renderReportPdf', () => {
+  it('puts the cover on its own page, then a page per section', () => {
+    const doc = renderReportPdf(buildProjectReport(project, { models }))
+    expect(doc.getNumberOfPages()).toBe(4)
+    expect(doc.output().startsWith('%PDF-')).toBe(true)
+  })
+})
+
+describe('renderReportMarkdown', () => {
+  it('renders the cover facts and every section', () => {
+    const markdown = renderReportMarkdown(buildProjectReport(project, { models, redactIdentities: true }))
+    expect(markdown).toMatch(/^# Monad showdown\n/)
+    expect(markdown).toContain('Model identities are redacted.')
+    expect(markdown).toContain('| **Winner** | Model A (85.0) |')
+    expect(markdown).toContain('## Phase 3: Anonymous Judging')
+    expect(markdown).toContain('| 1 | Model A | 85.0 | 80.0 | 90.0 |')
+  })
+})
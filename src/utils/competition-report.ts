@@ -0,0 +1,343 @@
+import { JudgingResult, Project, StudioSession } from '@/types'
+import { pickBestRound } from '@/services/evaluator'
+import { getProjectCriteria } from './grading-criteria'
+import { getAggregationMethod, getJudgePanel } from './judge-aggregation'
+import { getFinalAnswer } from './project-results'
+import { formatCost } from './cost-estimate'
+
+/**
+ * A report laid out independently of the output format; see report-pdf.ts for the PDF
+ */
+export interface CompetitionReport {
+  title: string
+  subtitle: string
+  question: string
+  generatedAt: Date
+  facts: [label: string, value: string][] // Summary shown on the cover page
+  redacted: boolean
+  sections: ReportSection[]
+}
+
+export interface ReportSection {
+  title: string
+  blocks: ReportBlock[]
+}
+
+export type ReportBlock =
+  | { kind: 'heading'; text: string }
+  | { kind: 'text'; text: string; muted?: boolean }
+  | { kind: 'table'; head: string[]; body: string[][] }
+
+export interface ReportOptions {
+  /** Replace model names and ids with neutral labels, in the tables and in the text */
+  redactIdentities?: boolean
+  /** Model catalog, for the names of judges and the refiner */
+  models?: { id: string; name?: string }[]
+}
+
+/**
+ * A finished FFA or Lazy Mode run; only the parts the report shows are needed
+ */
+export type SessionReportInput = Pick<StudioSession, 'question' | 'rounds' | 'usage'>
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`
+
+const formatDate = (date: Date | string) => new Date(date).toLocaleString()
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Names models in a report. With redaction on, each model gets a letter in the order it
+ * is first named, and its id and name are scrubbed from free text.
+ */
+export class ModelNamer {
+  private aliases = new Map<string, string>()
+  private names = new Map<string, string>()
+
+  constructor(private readonly redact: boolean, models: { id: string; name?: string }[] = []) {
+    models.forEach(model => {
+      if (model.name) this.names.set(model.id, model.name)
+    })
+  }
+
+  name(modelId: string, knownName?: string): string {
+    if (knownName && !this.names.has(modelId)) this.names.set(modelId, knownName)
+    if (!this.redact) return this.names.get(modelId) || modelId
+
+    let alias = this.aliases.get(modelId)
+    if (!alias) {
+      const index = this.aliases.size
+      alias = `Model ${index < 26 ? String.fromCharCode(65 + index) : index + 1}`
+      this.aliases.set(modelId, alias)
+    }
+    return alias
+  }
+
+  text(text: string): string {
+    if (!this.redact) return text
+
+    // A term shared by several models, such as a family name, cannot say which one it was
+    const aliasByTerm = new Map<string, string>()
+    this.aliases.forEach((alias, modelId) => {
+      identityTerms(modelId, this.names.get(modelId)).forEach(term => {
+        const key = term.toLowerCase()
+        const existing = aliasByTerm.get(key)
+        aliasByTerm.set(key, existing && existing !== alias ? '[model]' : alias)
+      })
+    })
+
+    // Longest first, so a name is not partly replaced by a shorter one it contains
+    const replacements = [...aliasByTerm].sort((a, b) => b[0].length - a[0].length)
+
+    return replacements.reduce(
+      (result, [term, alias]) => result.replace(new RegExp(`(?<![\\w])${escapeRegExp(term)}(?![\\w])`, 'gi'), alias),
+      text
+    )
+  }
+}
+
+/**
+ * The ways free text may name a model: "anthropic/claude-3.5-sonnet" and "Anthropic: Claude
+ * 3.5 Sonnet" are also written as "claude-3.5-sonnet", "Claude 3.5 Sonnet" and "Claude"
+ */
+function identityTerms(modelId: string, name?: string): string[] {
+  const slug = modelId.replace(/^[^/:]+[/:]/, '')
+  const shortName = name?.replace(/^[^:]+:\s*/, '')
+  const family = shortName ? shortName.match(/^[a-z][\w.-]*/i)?.[0] : slug.match(/^[a-z]+/i)?.[0]
+  return [modelId, slug, name, shortName, family]
+    .filter((term): term is string => !!term && term.length > 2)
+}
+
+function scoreTable(results: JudgingResult[], project: Project, namer: ModelNamer): ReportBlock {
+  if (project.judgingConfig?.mode === 'pairwise') {
+    return {
+      kind: 'table',
+      head: ['Rank', 'Model', 'Expected score', 'Rating (95% CI)', 'W / L / T'],
+      body: results.map(result => [
+        String(result.rank),
+        namer.name(result.modelId),
+        result.unscored ? 'Unscored' : result.totalScore.toFixed(1),
+        result.pairwise ? `${result.pairwise.rating} (${result.pairwise.ciLower}–${result.pairwise.ciUpper})` : '',
+        result.pairwise ? `${result.pairwise.wins} / ${result.pairwise.losses} / ${result.pairwise.ties}` : '',
+      ]),
+    }
+  }
+
+  const criteria = getProjectCriteria(project)
+  return {
+    kind: 'table',
+    head: ['Rank', 'Model', 'Total', ...criteria.map(criterion => `${criterion.name} (${criterion.weight}%)`)],
+    body: results.map(result => [
+      String(result.rank),
+      namer.name(result.modelId),
+      result.unscored ? 'Unscored' : result.totalScore.toFixed(1),
+      ...criteria.map(criterion => result.scores[criterion.id]?.toFixed(1) ?? '–'),
+    ]),
+  }
+}
+
+// One entry per judge that scored the answer, or the consensus feedback when there are none
+function judgeFeedback(result: JudgingResult, namer: ModelNamer): ReportBlock[] {
+  const blocks: ReportBlock[] = [{ kind: 'heading', text: `${result.rank}. ${namer.name(result.modelId)}` }]
+
+  if (result.judgeScores?.length) {
+    result.judgeScores.forEach(verdict => blocks.push({
+      kind: 'text',
+      text: `${namer.name(verdict.judgeModelId)} (${verdict.totalScore.toFixed(1)}): ${namer.text(verdict.feedback)}`,
+    }))
+  } else {
+    blocks.push({ kind: 'text', text: namer.text(result.feedback) || 'No feedback' })
+  }
+
+  result.unscoredVerdicts?.forEach(verdict => blocks.push({
+    kind: 'text',
+    text: `${namer.name(verdict.judgeModelId)} gave no usable score: ${verdict.problems.join('; ')}`,
+    muted: true,
+  }))
+  return blocks
+}
+
+/**
+ * Lay out a project's three phases, judging and costs
+ */
+export function buildProjectReport(project: Project, options: ReportOptions = {}): CompetitionReport {
+  const namer = new ModelNamer(!!options.redactIdentities, options.models)
+  const phases = project.phases
+  const rounds = phases?.refinement.rounds || []
+  const generations = phases?.competition.generations || []
+  const results = [...(phases?.judging.results || [])].sort((a, b) => a.rank - b.rank)
+  const judgePanel = getJudgePanel(project).filter(Boolean)
+
+  // Name every model before any text is scrubbed; competitors first, so their letters
+  // follow the competition order
+  generations.forEach(generation => namer.name(generation.modelId, generation.modelName))
+  const otherModelIds = [
+    project.refinerModelId,
+    ...judgePanel,
+    ...rounds.map(round => round.answeredBy),
+    ...generations.map(generation => generation.answeredBy),
+    ...results.flatMap(result => (result.judgeScores || []).map(verdict => verdict.judgeModelId)),
+  ]
+  otherModelIds.forEach(modelId => modelId && namer.name(modelId))
+  const winner = results[0] && !results[0].unscored ? results[0] : undefined
+  const question = project.originalQuestion || rounds[0]?.response || ''
+
+  const refinement: ReportBlock[] = []
+  rounds.slice(1).forEach(round => {
+    refinement.push(
+      { kind: 'heading', text: `Round ${round.roundNumber} · ${formatDate(round.timestamp)}` },
+      { kind: 'text', text: `Critique: ${namer.text(round.critique)}` }
+    )
+    if (round.improvements.length > 0) {
+      refinement.push({ kind: 'text', text: `Improvements: ${round.improvements.map(improvement => namer.text(improvement)).join('; ')}`, muted: true })
+    }
+    if (round.answeredBy) {
+      refinement.push({ kind: 'text', text: `Written by fallback ${namer.name(round.answeredBy)}`, muted: true })
+    }
+  })
+  const refinedPrompt = getFinalAnswer(rounds)
+  if (refinedPrompt && rounds.length > 1) {
+    refinement.push({ kind: 'heading', text: 'Refined prompt' }, { kind: 'text', text: namer.text(refinedPrompt) })
+  }
+
+  const competition: ReportBlock[] = generations.length > 0
+    ? [{
+      kind: 'table',
+      head: ['Model', 'Time', 'Tokens', 'Est. cost'],
+      body: generations.map(generation => [
+        namer.name(generation.modelId),
+        formatSeconds(generation.generationTime),
+        String(Math.round(generation.tokenCount)),
+        formatCost(generation.estimatedCost),
+      ]),
+    }]
+    : [{ kind: 'text', text: 'No answers yet', muted: true }]
+  generations.forEach(generation => {
+    competition.push({ kind: 'heading', text: namer.name(generation.modelId) })
+    if (generation.answeredBy) {
+      competition.push({ kind: 'text', text: `Answered by fallback ${namer.name(generation.answeredBy)}`, muted: true })
+    }
+    competition.push({ kind: 'text', text: namer.text(generation.response) })
+  })
+
+  const judging: ReportBlock[] = results.length > 0
+    ? [
+      {
+        kind: 'text',
+        text: `Judged by ${judgePanel.map(id => namer.name(id)).join(', ')}` + (project.judgingConfig?.mode === 'pairwise'
+          ? ' in pairwise comparisons.'
+          : `, scores combined by ${getAggregationMethod(project).replace('_', ' ')}.`),
+      },
+      scoreTable(results, project, namer),
+      {
+        kind: 'text',
+        text: winner ? `Winner: ${namer.name(winner.modelId)} with ${winner.totalScore.toFixed(1)}` : 'No answer could be scored',
+      },
+      ...results.flatMap(result => judgeFeedback(result, namer)),
+    ]
+    : [{ kind: 'text', text: 'Not judged yet', muted: true }]
+
+  const usage = project.usage
+  const generationTime = generations.reduce((sum, generation) => sum + generation.generationTime, 0)
+
+  return {
+    title: project.name,
+    subtitle: 'Model Kombat competition report',
+    question: namer.text(question),
+    generatedAt: new Date(),
+    redacted: !!options.redactIdentities,
+    facts: [
+      ['Created', formatDate(project.createdAt)],
+      ...(project.results ? [['Completed', formatDate(project.results.completedAt)] as [string, string]] : []),
+      ['Refiner', namer.name(project.refinerModelId)],
+      ['Refinement rounds', String(Math.max(rounds.length - 1, 0))],
+      ['Competitors', String(generations.length || project.competitorModelIds.length)],
+      ['Judges', String(judgePanel.length)],
+      ['Winner', winner ? `${namer.name(winner.modelId)} (${winner.totalScore.toFixed(1)})` : '–'],
+      ['Generation time', formatSeconds(generationTime)],
+      ...(project.results ? [['Total duration', formatSeconds(project.results.totalDuration)] as [string, string]] : []),
+      ['Tokens', usage ? usage.totalTokens.toLocaleString() : '–'],
+      ['Cost', usage ? formatCost(usage.cost) : '–'],
+    ],
+    sections: [
+      { title: 'Phase 1: Adversarial Refinement', blocks: refinement.length > 0 ? refinement : [{ kind: 'text', text: 'Not refined yet', muted: true }] },
+      { title: 'Phase 2: Competitive Generation', blocks: competition },
+      { title: 'Phase 3: Anonymous Judging', blocks: judging },
+    ],
+  }
+}
+
+/**
+ * Lay out an FFA or Lazy Mode session: every round, its grade and the best answer
+ */
+export function buildSessionReport(
+  session: SessionReportInput,
+  options: ReportOptions & { title?: string } = {}
+): CompetitionReport {
+  const namer = new ModelNamer(!!options.redactIdentities, options.models)
+  const { rounds } = session
+  rounds.forEach(round => namer.name(round.modelId, round.modelName))
+  rounds.forEach(round => round.fallbackFrom && namer.name(round.fallbackFrom))
+
+  // The user's pick wins over the grader's
+  const finished = rounds.filter(round => !round.failed)
+  const best = finished.find(round => round.isWinner) || pickBestRound(finished)
+  const totalTime = rounds.reduce((sum, round) => sum + (round.duration || 0), 0)
+
+  const timeline: ReportBlock[] = [{
+    kind: 'table',
+    head: ['Round', 'Model', 'Score', 'Time'],
+    body: rounds.map((round, index) => [
+      String(index),
+      namer.name(round.modelId),
+      round.failed ? 'Failed' : round.quality !== undefined ? `${round.quality}${round.regressed ? ' (regressed)' : ''}` : '–',
+      round.duration ? formatSeconds(round.duration) : '–',
+    ]),
+  }]
+  rounds.forEach((round, index) => {
+    timeline.push({ kind: 'heading', text: `Round ${index} · ${namer.name(round.modelId)}` })
+    if (round.fallbackFrom) {
+      timeline.push({ kind: 'text', text: `Written by a fallback after ${namer.name(round.fallbackFrom)} failed`, muted: true })
+    }
+    if (round.failed) {
+      timeline.push({ kind: 'text', text: `Failed: ${namer.text(round.error || 'Unknown error')}`, muted: true })
+      return
+    }
+    if (round.critique) {
+      timeline.push({ kind: 'text', text: `Critique: ${namer.text(round.critique)}`, muted: true })
+    }
+    timeline.push({ kind: 'text', text: namer.text(round.content) })
+    if (round.evaluation?.rationale) {
+      timeline.push({ kind: 'text', text: `Grader: ${namer.text(round.evaluation.rationale)}`, muted: true })
+    }
+  })
+
+  return {
+    title: options.title || 'Free-for-all session',
+    subtitle: 'Model Kombat session report',
+    question: namer.text(session.question),
+    generatedAt: new Date(),
+    redacted: !!options.redactIdentities,
+    facts: [
+      ['Started', rounds[0] ? formatDate(rounds[0].timestamp) : '–'],
+      ['Rounds', String(rounds.length)],
+      ['Models', String(new Set(rounds.map(round => round.modelId)).size)],
+      ['Best answer', best ? `${namer.name(best.modelId)}${best.quality !== undefined ? ` (${best.quality})` : ''}` : '–'],
+      ['Total time', formatSeconds(totalTime)],
+      ['Tokens', session.usage ? session.usage.totalTokens.toLocaleString() : '–'],
+      ['Cost', session.usage ? formatCost(session.usage.cost) : '–'],
+    ],
+    sections: [
+      ...(best ? [{ title: 'Best answer', blocks: [{ kind: 'text', text: namer.text(best.content) }] as ReportBlock[] }] : []),
+      { title: 'Refinement timeline', blocks: timeline },
+    ],
+  }
+}
+
+/**
+ * A file name for the report, from its title
+ */
+export function getReportFileName(report: CompetitionReport, extension: string): string {
+  const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'report'
+  return `${slug}${report.redacted ? '-redacted' : ''}.${extension}`
+}
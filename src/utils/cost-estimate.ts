@@ -0,0 +1,121 @@
+import type { CostEstimate, PlannedCall } from '@/services/cost-ledger'
+import { JudgingMode } from '@/types'
+
+// Rough size of an answer or refined prompt that has not been generated yet
+const ASSUMED_ANSWER_TOKENS = 1000
+
+// Instructions wrapped around the user's text in the refinement, critique and judging prompts
+const PROMPT_OVERHEAD_TOKENS = 150
+
+// The evaluator's rubric prompt, on top of the question and answer it grades
+const GRADER_OVERHEAD_TOKENS = 400
+const GRADER_MAX_TOKENS = 600
+
+/**
+ * About four characters per token for English text. Good enough to plan a budget;
+ * recorded costs always come from the provider's usage data.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+interface RefinementRunPlan {
+  question: string
+  modelIds: string[] // Answer and refinement models, used in turn
+  initialModelId?: string // Model for the first answer when it is not modelIds[0]
+  rounds: number // Refinement rounds after the first answer
+  graderModelId?: string // Every answer is graded when set
+}
+
+/**
+ * Calls for an FFA or Lazy Mode run: one answer, `rounds` refinements, and a grading
+ * call after each of them
+ */
+export function planRefinementRun({
+  question,
+  modelIds,
+  initialModelId,
+  rounds,
+  graderModelId,
+}: RefinementRunPlan): PlannedCall[] {
+  if (modelIds.length === 0) return []
+
+  const questionTokens = estimateTokens(question)
+  const calls: PlannedCall[] = [{ modelId: initialModelId || modelIds[0], promptTokens: questionTokens }]
+
+  for (let round = 1; round <= rounds; round++) {
+    calls.push({
+      modelId: modelIds[round % modelIds.length],
+      promptTokens: questionTokens + ASSUMED_ANSWER_TOKENS + PROMPT_OVERHEAD_TOKENS,
+    })
+  }
+
+  if (graderModelId) {
+    for (let answer = 0; answer <= rounds; answer++) {
+      calls.push({
+        modelId: graderModelId,
+        promptTokens: questionTokens + ASSUMED_ANSWER_TOKENS + GRADER_OVERHEAD_TOKENS,
+        maxTokens: GRADER_MAX_TOKENS,
+      })
+    }
+  }
+
+  return calls
+}
+
+interface ProjectRunPlan {
+  question: string
+  refinerModelId: string
+  rounds: number
+  competitorModelIds: string[]
+  judgeModelIds: string[]
+  mode: JudgingMode
+  criteriaCount: number
+}
+
+/**
+ * Calls for all three project phases, with the same max_tokens the phases request
+ */
+export function planProjectRun(plan: ProjectRunPlan): PlannedCall[] {
+  const questionTokens = Math.max(estimateTokens(plan.question), ASSUMED_ANSWER_TOKENS)
+  const calls: PlannedCall[] = []
+
+  // Phase 1: a critique and a refinement per round
+  for (let round = 1; round <= plan.rounds; round++) {
+    calls.push(
+      { modelId: plan.refinerModelId, promptTokens: questionTokens + PROMPT_OVERHEAD_TOKENS, maxTokens: 500 },
+      { modelId: plan.refinerModelId, promptTokens: 2 * questionTokens + 500 + PROMPT_OVERHEAD_TOKENS, maxTokens: 1000 }
+    )
+  }
+
+  // Phase 2: every competitor answers the refined prompt once
+  for (const modelId of plan.competitorModelIds) {
+    calls.push({ modelId, promptTokens: questionTokens + PROMPT_OVERHEAD_TOKENS, maxTokens: 1500 })
+  }
+
+  // Phase 3: every judge sees every answer, or every ordered pair of answers
+  const criteriaTokens = plan.criteriaCount * 40 + PROMPT_OVERHEAD_TOKENS
+  const competitors = plan.competitorModelIds.length
+  for (const judgeModelId of plan.judgeModelIds) {
+    if (plan.mode === 'pairwise') {
+      for (let i = 0; i < competitors * (competitors - 1); i++) {
+        calls.push({ modelId: judgeModelId, promptTokens: 2 * ASSUMED_ANSWER_TOKENS + criteriaTokens, maxTokens: 500 })
+      }
+    } else {
+      for (let i = 0; i < competitors; i++) {
+        calls.push({ modelId: judgeModelId, promptTokens: ASSUMED_ANSWER_TOKENS + criteriaTokens, maxTokens: 800 })
+      }
+    }
+  }
+
+  return calls
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return '$0.00'
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
+
+export function formatCostRange(estimate: CostEstimate): string {
+  return `${formatCost(estimate.low)} – ${formatCost(estimate.high)}`
+}
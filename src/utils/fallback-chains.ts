@@ -0,0 +1,44 @@
+import { LLMConfig, ModelRole } from '@/types'
+
+export const MODEL_ROLES: { value: ModelRole; label: string; description: string }[] = [
+  {
+    value: 'refiner',
+    label: 'Refiner',
+    description: 'Critiques and rewrites answers in project refinement, FFA and Lazy Mode rounds',
+  },
+  {
+    value: 'competitor',
+    label: 'Competitor',
+    description: 'Answers the question in competitions and the first FFA and Lazy Mode round',
+  },
+  {
+    value: 'judge',
+    label: 'Judge',
+    description: 'Scores and compares answers, and grades FFA and Lazy Mode rounds',
+  },
+]
+
+/**
+ * Backup models for a call in this role, in the order they should be tried. The primary
+ * model and anything in `exclude` (e.g. the other competitors) are left out.
+ */
+export function getFallbackModelIds(
+  config: Pick<LLMConfig, 'fallbackChains'> | null | undefined,
+  role: ModelRole,
+  primaryModelId: string,
+  exclude: string[] = []
+): string[] {
+  const chain = config?.fallbackChains?.[role] || []
+  return chain.filter((modelId, index) =>
+    modelId !== primaryModelId &&
+    !exclude.includes(modelId) &&
+    chain.indexOf(modelId) === index
+  )
+}
+
+/**
+ * The fallback that produced a reply, or undefined when the requested model did
+ */
+export function getFallbackUsed(requestedModelId: string, answeredBy: string | undefined): string | undefined {
+  return answeredBy && answeredBy !== requestedModelId ? answeredBy : undefined
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { getFlagshipModels, getModelForRound, groupModelsByProvider, isFlagshipModel } from './flagship-models'
+
+describe('isFlagshipModel', () => {
+  it('matches listed ids regardless of case', () => {
+    expect(isFlagshipModel('openai/gpt-5')).toBe(true)
+    expect(isFlagshipModel('Anthropic/Claude-3.5-Sonnet')).toBe(true)
+  })
+
+  it('matches dated and suffixed variants of a listed id', () => {
+    expect(isFlagshipModel('anthropic/claude-3.5-sonnet-20241022')).toBe(true)
+    expect(isFlagshipModel('openai/gpt-4o:extended')).toBe(true)
+  })
+
+  it('rejects models that are not listed', () => {
+    expect(isFlagshipModel('some-lab/tiny-model-1b')).toBe(false)
+    expect(isFlagshipModel('mistralai/mistral-7b-instruct')).toBe(false)
+  })
+})
+
+describe('getFlagshipModels', () => {
+  it('keeps only flagship models, in order', () => {
+    const models = [
+      { id: 'some-lab/tiny-model-1b' },
+      { id: 'x-ai/grok-2', name: 'Grok 2' },
+      { id: 'google/gemini-2.5-pro' },
+    ]
+    expect(getFlagshipModels(models)).toEqual([models[1], models[2]])
+  })
+})
+
+describe('getModelForRound', () => {
+  it('rotates through the available models', () => {
+    const models = ['a', 'b', 'c']
+    expect([0, 1, 2, 3, 4].map(round => getModelForRound(models, round))).toEqual(['a', 'b', 'c', 'a', 'b'])
+  })
+
+  it('falls back to OpenRouter auto routing without models', () => {
+    expect(getModelForRound([], 2)).toBe('openrouter/auto')
+  })
+})
+
+describe('groupModelsByProvider', () => {
+  it('groups OpenRouter models by vendor and direct models by provider', () => {
+    const grouped = groupModelsByProvider([
+      { id: 'openai/gpt-4o' },
+      { id: 'openai/o3' },
+      { id: 'google/gemini-2.5-pro' },
+      { id: 'gemini:gemini-2.5-pro' },
+      { id: 'local:llama3.1:8b' },
+      { id: 'mock:steady' },
+    ])
+
+    expect(Object.keys(grouped).sort()).toEqual(['gemini', 'google', 'local', 'mock', 'openai'])
+    expect(grouped.openai.map(model => model.id)).toEqual(['openai/gpt-4o', 'openai/o3'])
+    expect(grouped.gemini.map(model => model.id)).toEqual(['gemini:gemini-2.5-pro'])
+    expect(grouped.local.map(model => model.id)).toEqual(['local:llama3.1:8b'])
+  })
+})
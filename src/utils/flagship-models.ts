@@ -1,3 +1,5 @@
+import { parseModelId } from '@/services/llm-provider'
+
 // Flagship models from major AI companies (October 2025)
 // These are the best/most capable models from each provider
 export const FLAGSHIP_MODEL_IDS = [
@@ -78,7 +80,9 @@ export function groupModelsByProvider(models: Array<{ id: string; name?: string
   const grouped: Record<string, Array<{ id: string; name?: string }>> = {}
 
   models.forEach(model => {
-    const provider = model.id.split('/')[0] || 'other'
+    const { providerId, modelId } = parseModelId(model.id)
+    // Direct provider models get their own group, apart from the same models via OpenRouter
+    const provider = providerId !== 'openrouter' ? providerId : modelId.split('/')[0] || 'other'
     if (!grouped[provider]) {
       grouped[provider] = []
     }
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { GradingCriterion, Project } from '@/types'
+import {
+  calculateWeightedScore,
+  createCriterionId,
+  criteriaFromLegacy,
+  DEFAULT_GRADING_CRITERIA,
+  getProjectCriteria,
+  validateCriteria
+} from './grading-criteria'
+
+const criterion = (id: string, weight: number, name = id): GradingCriterion => ({ id, name, description: '', weight })
+
+describe('calculateWeightedScore', () => {
+  const criteria = [criterion('accuracy', 50), criterion('clarity', 30), criterion('style', 20)]
+
+  it('weights each score by its criterion', () => {
+    expect(calculateWeightedScore({ accuracy: 90, clarity: 60, style: 50 }, criteria)).toBe(73)
+  })
+
+  it('leaves skipped criteria out of the weighting', () => {
+    // (90 * 50 + 60 * 30) / 80
+    expect(calculateWeightedScore({ accuracy: 90, clarity: 60 }, criteria)).toBe(79)
+  })
+
+  it('ignores scores for criteria the project does not have', () => {
+    expect(calculateWeightedScore({ accuracy: 80, clarity: 80, style: 80, speed: 0 }, criteria)).toBe(80)
+  })
+
+  it('scores 0 when no criterion was scored', () => {
+    expect(calculateWeightedScore({}, criteria)).toBe(0)
+  })
+
+  it('normalises weights that do not sum to 100', () => {
+    expect(calculateWeightedScore({ a: 100, b: 40 }, [criterion('a', 1), criterion('b', 1)])).toBe(70)
+    expect(calculateWeightedScore({ a: 100, b: 40 }, [criterion('a', 150), criterion('b', 50)])).toBe(85)
+  })
+
+  it('skips criteria weighted zero', () => {
+    expect(calculateWeightedScore({ a: 90, b: 10 }, [criterion('a', 100), criterion('b', 0)])).toBe(90)
+  })
+})
+
+describe('validateCriteria', () => {
+  it('accepts the defaults', () => {
+    expect(validateCriteria(DEFAULT_GRADING_CRITERIA)).toBeNull()
+  })
+
+  it('requires at least one criterion', () => {
+    expect(validateCriteria([])).toBe('Add at least one judging criterion')
+  })
+
+  it('requires a name on every criterion', () => {
+    expect(validateCriteria([criterion('a', 50), criterion('b', 50, '  ')])).toBe('Every criterion needs a name')
+  })
+
+  it('rejects names that differ only in case or spacing', () => {
+    expect(validateCriteria([criterion('a', 50, 'Clarity'), criterion('b', 50, ' clarity ')])).toBe('Criterion names must be unique')
+  })
+
+  it('requires weights that sum to 100', () => {
+    expect(validateCriteria([criterion('a', 60), criterion('b', 30)])).toBe('Criterion weights must sum to 100% (currently 90%)')
+    expect(validateCriteria([criterion('a', 60), criterion('b', 50)])).toBe('Criterion weights must sum to 100% (currently 110%)')
+  })
+})
+
+describe('criteriaFromLegacy', () => {
+  it('maps the four legacy weights onto the default criteria', () => {
+    const criteria = criteriaFromLegacy({ relevance: 10, accuracy: 40, completeness: 30, clarity: 20 })
+
+    expect(criteria.map(c => [c.id, c.weight])).toEqual([
+      ['relevance', 10],
+      ['accuracy', 40],
+      ['completeness', 30],
+      ['clarity', 20],
+    ])
+    expect(criteria[1]).toMatchObject({ name: 'Accuracy', description: DEFAULT_GRADING_CRITERIA[1].description })
+  })
+
+  it('weights a missing legacy field zero', () => {
+    const criteria = criteriaFromLegacy({ relevance: 50, accuracy: 50 } as Project['judgingCriteria'] & object)
+    expect(criteria.find(c => c.id === 'clarity')?.weight).toBe(0)
+  })
+
+  it('is used for projects saved before custom criteria', () => {
+    const project = { judgingCriteria: { relevance: 25, accuracy: 25, completeness: 25, clarity: 25 } } as Project
+    expect(getProjectCriteria(project).map(c => c.id)).toEqual(['relevance', 'accuracy', 'completeness', 'clarity'])
+  })
+
+  it('gives way to custom criteria', () => {
+    const custom = [criterion('style', 100)]
+    const project = {
+      judgingCriteria: { relevance: 25, accuracy: 25, completeness: 25, clarity: 25 },
+      judgingConfig: { judgeModelId: 'judge', criteria: custom },
+    } as Project
+    expect(getProjectCriteria(project)).toBe(custom)
+  })
+})
+
+describe('createCriterionId', () => {
+  it('turns the name into a snake_case key', () => {
+    expect(createCriterionId('  Code Quality & Style! ', [])).toBe('code_quality_style')
+  })
+
+  it('adds a suffix when the id is taken', () => {
+    expect(createCriterionId('Clarity', ['clarity', 'clarity_2'])).toBe('clarity_3')
+  })
+
+  it('falls back when the name has no letters or digits', () => {
+    expect(createCriterionId('!!!', [])).toBe('criterion')
+  })
+})
@@ -0,0 +1,112 @@
+import { GradingCriterion, JudgingCriteria, Project } from '@/types'
+
+// Starting point for new projects; users can rename, reweight, add or remove criteria
+export const DEFAULT_GRADING_CRITERIA: GradingCriterion[] = [
+  {
+    id: 'relevance',
+    name: 'Relevance',
+    description: 'How well the response addresses the original request',
+    weight: 25,
+  },
+  {
+    id: 'accuracy',
+    name: 'Accuracy',
+    description: 'Whether the information is factually correct and precise',
+    weight: 25,
+  },
+  {
+    id: 'completeness',
+    name: 'Completeness',
+    description: 'Whether the response thoroughly covers all aspects of the topic',
+    weight: 25,
+  },
+  {
+    id: 'clarity',
+    name: 'Clarity',
+    description: 'Whether the response is well-structured and easy to understand',
+    weight: 25,
+  },
+]
+
+export const MAX_GRADING_CRITERIA = 10
+
+// Convert the fixed four-weight config stored on older projects
+export function criteriaFromLegacy(judgingCriteria: JudgingCriteria): GradingCriterion[] {
+  return DEFAULT_GRADING_CRITERIA.map(criterion => ({
+    ...criterion,
+    weight: judgingCriteria[criterion.id as keyof JudgingCriteria] ?? 0,
+  }))
+}
+
+// Criteria a project is judged on, falling back to the legacy weights
+export function getProjectCriteria(project: Project): GradingCriterion[] {
+  if (project.judgingConfig?.criteria?.length) {
+    return project.judgingConfig.criteria
+  }
+  if (project.judgingCriteria) {
+    return criteriaFromLegacy(project.judgingCriteria)
+  }
+  return DEFAULT_GRADING_CRITERIA
+}
+
+export function getTotalWeight(criteria: GradingCriterion[]): number {
+  return criteria.reduce((sum, criterion) => sum + criterion.weight, 0)
+}
+
+// Returns a user-facing problem with the criteria, or null when they are usable
+export function validateCriteria(criteria: GradingCriterion[]): string | null {
+  if (criteria.length === 0) {
+    return 'Add at least one judging criterion'
+  }
+
+  if (criteria.some(criterion => !criterion.name.trim())) {
+    return 'Every criterion needs a name'
+  }
+
+  const names = criteria.map(criterion => criterion.name.trim().toLowerCase())
+  if (new Set(names).size !== names.length) {
+    return 'Criterion names must be unique'
+  }
+
+  const total = getTotalWeight(criteria)
+  if (total !== 100) {
+    return `Criterion weights must sum to 100% (currently ${total}%)`
+  }
+
+  return null
+}
+
+// Build a stable, JSON-friendly key for a criterion name
+export function createCriterionId(name: string, existingIds: string[]): string {
+  const base = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'criterion'
+
+  let id = base
+  let suffix = 2
+  while (existingIds.includes(id)) {
+    id = `${base}_${suffix++}`
+  }
+  return id
+}
+
+// Weighted 0-100 total; criteria the judge skipped are left out of the weighting
+export function calculateWeightedScore(
+  scores: Record<string, number>,
+  criteria: GradingCriterion[]
+): number {
+  let weightedTotal = 0
+  let totalWeight = 0
+
+  for (const criterion of criteria) {
+    const score = scores[criterion.id]
+    if (typeof score !== 'number') continue
+
+    weightedTotal += score * criterion.weight
+    totalWeight += criterion.weight
+  }
+
+  return totalWeight > 0 ? Math.round(weightedTotal / totalWeight) : 0
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import { GradingCriterion, JudgeVerdict } from '@/types'
+import {
+  aggregateVerdicts,
+  bordaScores,
+  computeAgreement,
+  describeAgreement,
+  kendallTau,
+  krippendorffAlpha,
+  mean,
+  median,
+  trimmedMean
+} from './judge-aggregation'
+
+const criteria: GradingCriterion[] = [
+  { id: 'accuracy', name: 'Accuracy', description: '', weight: 60 },
+  { id: 'clarity', name: 'Clarity', description: '', weight: 40 },
+]
+
+const verdict = (judgeModelId: string, totalScore: number, scores: Record<string, number> = {}): JudgeVerdict => ({
+  judgeModelId,
+  totalScore,
+  scores,
+  feedback: '',
+})
+
+describe('averages', () => {
+  it('mean and median of empty lists are zero', () => {
+    expect(mean([])).toBe(0)
+    expect(median([])).toBe(0)
+  })
+
+  it('median handles odd and even lengths', () => {
+    expect(median([3, 1, 2])).toBe(2)
+    expect(median([4, 1, 3, 2])).toBe(2.5)
+  })
+
+  it('trimmed mean drops the extremes once there are three values', () => {
+    expect(trimmedMean([0, 50, 60, 70, 100])).toBe(60)
+    expect(trimmedMean([10, 20, 90])).toBe(20)
+    expect(trimmedMean([10, 20])).toBe(15)
+  })
+})
+
+describe('bordaScores', () => {
+  it('awards rank points per judge and shares them between ties', () => {
+    const scores = bordaScores({
+      a: [verdict('j1', 90), verdict('j2', 60)],
+      b: [verdict('j1', 70), verdict('j2', 80)],
+      c: [verdict('j1', 50), verdict('j2', 80)],
+    })
+
+    // j1 ranks a > b > c; j2 ranks b = c > a
+    expect(scores).toEqual({ a: 50, b: 63, c: 38 })
+  })
+
+  it('skips judges that scored fewer than two answers', () => {
+    const scores = bordaScores({
+      a: [verdict('j1', 90), verdict('j2', 10)],
+      b: [verdict('j1', 70)],
+    })
+    expect(scores).toEqual({ a: 100, b: 0 })
+  })
+})
+
+describe('aggregateVerdicts', () => {
+  const verdicts = {
+    first: [
+      verdict('j1', 80, { accuracy: 80, clarity: 70 }),
+      verdict('j2', 82, { accuracy: 90, clarity: 75 }),
+      verdict('j3', 10, { accuracy: 10, clarity: 5 }),
+    ],
+    second: [
+      verdict('j1', 70, { accuracy: 60, clarity: 80 }),
+      verdict('j2', 72, { accuracy: 70, clarity: 70 }),
+      verdict('j3', 74, { accuracy: 75, clarity: 60 }),
+    ],
+  }
+
+  it('averages totals and criteria with the mean', () => {
+    const result = aggregateVerdicts(verdicts, criteria, 'mean')
+    expect(result.first).toEqual({ scores: { accuracy: 60, clarity: 50 }, totalScore: 57 })
+    expect(result.second.totalScore).toBe(72)
+  })
+
+  it('lets the median ignore a single outlier judge', () => {
+    const result = aggregateVerdicts(verdicts, criteria, 'median')
+    expect(result.first).toEqual({ scores: { accuracy: 80, clarity: 70 }, totalScore: 80 })
+    expect(result.first.totalScore).toBeGreaterThan(result.second.totalScore)
+  })
+
+  it('ranks on Borda points and keeps mean criterion scores', () => {
+    const result = aggregateVerdicts(verdicts, criteria, 'borda')
+    expect(result.first.totalScore).toBe(67)
+    expect(result.second.totalScore).toBe(33)
+    expect(result.first.scores).toEqual({ accuracy: 60, clarity: 50 })
+  })
+
+  it('leaves criteria a judge did not score out of the average', () => {
+    const result = aggregateVerdicts({
+      only: [verdict('j1', 50, { accuracy: 50 }), verdict('j2', 70, { accuracy: 70, clarity: 90 })],
+    }, criteria, 'mean')
+    expect(result.only.scores).toEqual({ accuracy: 60, clarity: 90 })
+  })
+})
+
+describe('agreement', () => {
+  it('kendallTau is 1 for the same order and -1 for the reverse', () => {
+    expect(kendallTau([1, 2, 3, 4], [10, 20, 30, 40])).toBe(1)
+    expect(kendallTau([1, 2, 3, 4], [40, 30, 20, 10])).toBe(-1)
+  })
+
+  it('kendallTau is undefined when either list is constant', () => {
+    expect(kendallTau([5, 5, 5], [1, 2, 3])).toBeNull()
+  })
+
+  it('krippendorffAlpha is 1 for identical scores and lower for disagreement', () => {
+    expect(krippendorffAlpha([[80, 80], [40, 40], [60, 60]])).toBe(1)
+    expect(krippendorffAlpha([[80, 40], [40, 80], [60, 60]])).toBeLessThan(0)
+  })
+
+  it('krippendorffAlpha needs at least one answer with two scores', () => {
+    expect(krippendorffAlpha([[80], [40]])).toBeNull()
+  })
+
+  it('computeAgreement compares every pair of judges', () => {
+    const agreement = computeAgreement({
+      a: [verdict('j1', 90), verdict('j2', 85)],
+      b: [verdict('j1', 60), verdict('j2', 55)],
+      c: [verdict('j1', 30), verdict('j2', 35)],
+    })
+    expect(agreement.judgeCount).toBe(2)
+    expect(agreement.kendallTau).toBe(1)
+    expect(agreement.krippendorffAlpha).toBeGreaterThan(0.9)
+    expect(describeAgreement(agreement.krippendorffAlpha)).toBe('strong')
+  })
+
+  it('describes alpha with the conventional cut-offs', () => {
+    expect(describeAgreement(null)).toBe('unknown')
+    expect(describeAgreement(0.8)).toBe('strong')
+    expect(describeAgreement(0.7)).toBe('tentative')
+    expect(describeAgreement(0.2)).toBe('weak')
+  })
+})
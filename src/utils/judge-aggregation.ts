@@ -0,0 +1,240 @@
+import { GradingCriterion, JudgeVerdict, Project, ScoreAggregationMethod } from '@/types'
+
+export const AGGREGATION_METHODS: { value: ScoreAggregationMethod; label: string; description: string }[] = [
+  { value: 'mean', label: 'Mean', description: 'Average of every judge\'s score' },
+  { value: 'median', label: 'Median', description: 'Middle score, ignores a single outlier judge' },
+  { value: 'trimmed_mean', label: 'Trimmed mean', description: 'Average after dropping the highest and lowest scores' },
+  { value: 'borda', label: 'Borda count', description: 'Combines each judge\'s ranking rather than raw scores' },
+]
+
+// Judges on a project's panel, falling back to the single judge older projects were created with
+export function getJudgePanel(project: Project): string[] {
+  const panel = project.judgingConfig?.judgeModelIds?.filter(Boolean)
+  return panel && panel.length > 0 ? panel : [project.judgeModelId]
+}
+
+export function getAggregationMethod(project: Project): ScoreAggregationMethod {
+  return project.judgingConfig?.aggregation || 'mean'
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle]
+}
+
+// Drops 20% from each end (at least one value once there are three or more)
+export function trimmedMean(values: number[], proportion = 0.2): number {
+  if (values.length < 3) return mean(values)
+  const sorted = [...values].sort((a, b) => a - b)
+  const trim = Math.max(1, Math.floor(sorted.length * proportion))
+  return mean(sorted.slice(trim, sorted.length - trim))
+}
+
+function combine(values: number[], method: ScoreAggregationMethod): number {
+  switch (method) {
+    case 'median':
+      return median(values)
+    case 'trimmed_mean':
+      return trimmedMean(values)
+    default:
+      return mean(values)
+  }
+}
+
+/**
+ * Normalized Borda points per answer: each judge awards 1 to its top answer and 0 to its
+ * last, tied answers share the average, and an answer's points are averaged over the
+ * judges that scored it. Returns 0-100.
+ */
+export function bordaScores(verdictsByAnswer: Record<string, JudgeVerdict[]>): Record<string, number> {
+  const pointsByAnswer: Record<string, number[]> = {}
+  const judgeIds = new Set(
+    Object.values(verdictsByAnswer).flatMap(verdicts => verdicts.map(v => v.judgeModelId))
+  )
+
+  for (const judgeId of judgeIds) {
+    const ranked = Object.entries(verdictsByAnswer)
+      .map(([answerId, verdicts]) => ({
+        answerId,
+        score: verdicts.find(v => v.judgeModelId === judgeId)?.totalScore,
+      }))
+      .filter((entry): entry is { answerId: string; score: number } => entry.score !== undefined)
+      .sort((a, b) => b.score - a.score)
+
+    if (ranked.length < 2) continue
+
+    let position = 0
+    while (position < ranked.length) {
+      // Find the run of answers tied with this one and give them the average position
+      let end = position
+      while (end + 1 < ranked.length && ranked[end + 1].score === ranked[position].score) end++
+      const averagePosition = (position + end) / 2
+      const points = 1 - averagePosition / (ranked.length - 1)
+
+      for (let i = position; i <= end; i++) {
+        const answerId = ranked[i].answerId
+        pointsByAnswer[answerId] = [...(pointsByAnswer[answerId] || []), points]
+      }
+      position = end + 1
+    }
+  }
+
+  return Object.fromEntries(
+    Object.keys(verdictsByAnswer).map(answerId => [
+      answerId,
+      Math.round(mean(pointsByAnswer[answerId] || []) * 100),
+    ])
+  )
+}
+
+export interface ConsensusScore {
+  scores: Record<string, number>
+  totalScore: number
+}
+
+/**
+ * Combine every judge's verdict on every answer into one consensus score per answer.
+ * Borda ranks on the total; per-criterion scores still use the mean so they stay readable.
+ */
+export function aggregateVerdicts(
+  verdictsByAnswer: Record<string, JudgeVerdict[]>,
+  criteria: GradingCriterion[],
+  method: ScoreAggregationMethod
+): Record<string, ConsensusScore> {
+  const criterionMethod = method === 'borda' ? 'mean' : method
+  const borda = method === 'borda' ? bordaScores(verdictsByAnswer) : null
+
+  return Object.fromEntries(
+    Object.entries(verdictsByAnswer).map(([answerId, verdicts]) => {
+      const scores = Object.fromEntries(criteria.map(criterion => [
+        criterion.id,
+        Math.round(combine(
+          verdicts.map(v => v.scores[criterion.id]).filter((s): s is number => typeof s === 'number'),
+          criterionMethod
+        )),
+      ]))
+
+      const totalScore = borda
+        ? borda[answerId]
+        : Math.round(combine(verdicts.map(v => v.totalScore), method))
+
+      return [answerId, { scores, totalScore }]
+    })
+  )
+}
+
+/**
+ * Kendall's tau-b between two paired score lists; null when it is undefined
+ */
+export function kendallTau(a: number[], b: number[]): number | null {
+  let concordant = 0
+  let discordant = 0
+  let tiesA = 0
+  let tiesB = 0
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = i + 1; j < a.length; j++) {
+      const da = Math.sign(a[i] - a[j])
+      const db = Math.sign(b[i] - b[j])
+      if (da === 0 && db === 0) continue
+      if (da === 0) tiesA++
+      else if (db === 0) tiesB++
+      else if (da === db) concordant++
+      else discordant++
+    }
+  }
+
+  const denominator = Math.sqrt((concordant + discordant + tiesA) * (concordant + discordant + tiesB))
+  return denominator === 0 ? null : (concordant - discordant) / denominator
+}
+
+/**
+ * Krippendorff's alpha with the interval metric. `units` holds, per answer, the totals
+ * from whichever judges scored it; answers with fewer than two scores are not pairable.
+ */
+export function krippendorffAlpha(units: number[][]): number | null {
+  const pairable = units.filter(values => values.length >= 2)
+  const allValues = pairable.flat()
+  const n = allValues.length
+  if (n < 2) return null
+
+  let observed = 0
+  for (const values of pairable) {
+    let unitSum = 0
+    for (let i = 0; i < values.length; i++) {
+      for (let j = 0; j < values.length; j++) {
+        if (i !== j) unitSum += (values[i] - values[j]) ** 2
+      }
+    }
+    observed += unitSum / (values.length - 1)
+  }
+  observed /= n
+
+  let expected = 0
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i !== j) expected += (allValues[i] - allValues[j]) ** 2
+    }
+  }
+  expected /= n * (n - 1)
+
+  if (expected === 0) return observed === 0 ? 1 : null
+  return 1 - observed / expected
+}
+
+export interface JudgeAgreement {
+  judgeCount: number
+  kendallTau: number | null // Mean pairwise tau between judges' rankings
+  krippendorffAlpha: number | null
+}
+
+export function computeAgreement(verdictsByAnswer: Record<string, JudgeVerdict[]>): JudgeAgreement {
+  const judgeIds = [...new Set(
+    Object.values(verdictsByAnswer).flatMap(verdicts => verdicts.map(v => v.judgeModelId))
+  )]
+
+  const taus: number[] = []
+  for (let i = 0; i < judgeIds.length; i++) {
+    for (let j = i + 1; j < judgeIds.length; j++) {
+      const a: number[] = []
+      const b: number[] = []
+
+      for (const verdicts of Object.values(verdictsByAnswer)) {
+        const first = verdicts.find(v => v.judgeModelId === judgeIds[i])
+        const second = verdicts.find(v => v.judgeModelId === judgeIds[j])
+        if (first && second) {
+          a.push(first.totalScore)
+          b.push(second.totalScore)
+        }
+      }
+
+      const tau = kendallTau(a, b)
+      if (tau !== null) taus.push(tau)
+    }
+  }
+
+  return {
+    judgeCount: judgeIds.length,
+    kendallTau: taus.length > 0 ? mean(taus) : null,
+    krippendorffAlpha: krippendorffAlpha(
+      Object.values(verdictsByAnswer).map(verdicts => verdicts.map(v => v.totalScore))
+    ),
+  }
+}
+
+// Krippendorff's conventional cut-offs: 0.8 reliable, 0.667 tentative
+export function describeAgreement(alpha: number | null): 'strong' | 'tentative' | 'weak' | 'unknown' {
+  if (alpha === null) return 'unknown'
+  if (alpha >= 0.8) return 'strong'
+  if (alpha >= 0.667) return 'tentative'
+  return 'weak'
+}
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest'
+import { GradingCriterion } from '@/types'
+import {
+  createRepairPrompt,
+  extractJsonObject,
+  parseAbsoluteJudgment,
+  parsePairwiseJudgment
+} from './judge-output'
+
+const criteria: GradingCriterion[] = [
+  { id: 'accuracy', name: 'Accuracy', description: 'Correct', weight: 60 },
+  { id: 'clarity', name: 'Clarity', description: 'Clear', weight: 40 },
+]
+
+const reply = (value: unknown) => JSON.stringify(value)
+
+describe('extractJsonObject', () => {
+  it('reads a bare object', () => {
+    expect(extractJsonObject('{"winner": "A"}')).toEqual({ winner: 'A' })
+  })
+
+  it('reads a fenced block', () => {
+    expect(extractJsonObject('Here you go:\n```json\n{"winner": "B"}\n```\nThanks')).toEqual({ winner: 'B' })
+  })
+
+  it('reads an object wrapped in prose', () => {
+    expect(extractJsonObject('My verdict is {"winner": "tie", "reasoning": "Even"} overall.')).toEqual({
+      winner: 'tie',
+      reasoning: 'Even',
+    })
+  })
+
+  it('ignores braces inside strings', () => {
+    expect(extractJsonObject('Verdict: {"reasoning": "Uses {x} and \\"}\\" well", "winner": "A"} done')).toEqual({
+      reasoning: 'Uses {x} and "}" well',
+      winner: 'A',
+    })
+  })
+
+  it('takes the first valid object when the reply has several', () => {
+    expect(extractJsonObject('Draft {"winner": "A"} then final {"winner": "B"}')).toEqual({ winner: 'A' })
+  })
+
+  it('skips spans that are not valid JSON', () => {
+    expect(extractJsonObject('Set {a, b} first, then {"winner": "B"}')).toEqual({ winner: 'B' })
+  })
+
+  it('returns null without an object', () => {
+    expect(extractJsonObject('I think A is better')).toBeNull()
+    expect(extractJsonObject('[1, 2, 3]')).toBeNull()
+  })
+})
+
+describe('parseAbsoluteJudgment', () => {
+  it('accepts nested scores and trims the feedback', () => {
+    expect(parseAbsoluteJudgment(reply({ scores: { accuracy: 80, clarity: 71.6 }, feedback: ' Solid ' }), criteria)).toEqual({
+      ok: true,
+      value: { scores: { accuracy: 80, clarity: 72 }, feedback: 'Solid' },
+    })
+  })
+
+  it('accepts scores flattened onto the object and keyed by name', () => {
+    const result = parseAbsoluteJudgment(reply({ Accuracy: 90, clarity: 60, feedback: 'Fine' }), criteria)
+    expect(result).toEqual({ ok: true, value: { scores: { accuracy: 90, clarity: 60 }, feedback: 'Fine' } })
+  })
+
+  it('reads numeric strings as scores', () => {
+    const result = parseAbsoluteJudgment(reply({ scores: { accuracy: '85', clarity: ' 40 ' }, feedback: 'Ok' }), criteria)
+    expect(result).toMatchObject({ ok: true, value: { scores: { accuracy: 85, clarity: 40 } } })
+  })
+
+  it('rejects scores outside 0-100 and non-numeric strings', () => {
+    const result = parseAbsoluteJudgment(reply({ scores: { accuracy: 120, clarity: 'great' }, feedback: 'Ok' }), criteria)
+    expect(result).toEqual({
+      ok: false,
+      problems: [
+        'Score for "accuracy" must be between 0 and 100, got 120',
+        'Score for "clarity" is not a number',
+      ],
+    })
+  })
+
+  it('reports missing and unknown criteria', () => {
+    const result = parseAbsoluteJudgment(reply({ scores: { accuracy: 70, style: 50 }, feedback: 'Ok' }), criteria)
+    expect(result).toEqual({
+      ok: false,
+      problems: ['Missing score for "clarity"', 'Unknown criterion "style"'],
+    })
+  })
+
+  it('requires feedback', () => {
+    expect(parseAbsoluteJudgment(reply({ scores: { accuracy: 70, clarity: 50 } }), criteria)).toEqual({
+      ok: false,
+      problems: ['Missing "feedback" text'],
+    })
+    expect(parseAbsoluteJudgment(reply({ scores: { accuracy: 70, clarity: 50 }, feedback: '  ' }), criteria)).toMatchObject({ ok: false })
+  })
+
+  it('reports a reply without JSON', () => {
+    expect(parseAbsoluteJudgment('Accuracy 8/10', criteria)).toEqual({
+      ok: false,
+      problems: ['The reply did not contain a JSON object'],
+    })
+  })
+})
+
+describe('parsePairwiseJudgment', () => {
+  it('accepts A and B in any case', () => {
+    expect(parsePairwiseJudgment(reply({ winner: 'b', reasoning: 'Clearer' }))).toEqual({
+      ok: true,
+      value: { winner: 'B', reasoning: 'Clearer' },
+    })
+  })
+
+  it('reads a tie in any case', () => {
+    expect(parsePairwiseJudgment(reply({ winner: ' TIE ', reasoning: 'Both fine' }))).toMatchObject({
+      ok: true,
+      value: { winner: 'tie' },
+    })
+  })
+
+  it('rejects any other winner', () => {
+    expect(parsePairwiseJudgment(reply({ winner: 'Response A', reasoning: 'Better' }))).toEqual({
+      ok: false,
+      problems: ['"winner" must be "A", "B" or "tie", got "Response A"'],
+    })
+    expect(parsePairwiseJudgment(reply({ reasoning: 'Better' }))).toEqual({
+      ok: false,
+      problems: ['"winner" must be "A", "B" or "tie", got null'],
+    })
+  })
+
+  it('requires reasoning', () => {
+    expect(parsePairwiseJudgment(reply({ winner: 'A' }))).toEqual({
+      ok: false,
+      problems: ['Missing "reasoning" text'],
+    })
+  })
+})
+
+describe('createRepairPrompt', () => {
+  it('lists every problem', () => {
+    const prompt = createRepairPrompt(['Missing score for "clarity"', 'Missing "feedback" text'])
+    expect(prompt).toContain('- Missing score for "clarity"\n- Missing "feedback" text')
+    expect(prompt).toContain('only the corrected JSON object')
+  })
+})
@@ -0,0 +1,179 @@
+import { GradingCriterion } from '@/types'
+
+// Repair prompts sent after a judge's first malformed reply, unless the project overrides it
+export const DEFAULT_REPAIR_ATTEMPTS = 2
+export const MAX_REPAIR_ATTEMPTS = 5
+
+export type JudgeOutputResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; problems: string[] }
+
+export interface AbsoluteJudgment {
+  scores: Record<string, number>
+  feedback: string
+}
+
+export interface PairwiseJudgment {
+  winner: 'A' | 'B' | 'tie'
+  reasoning: string
+}
+
+/**
+ * Thrown when a judge still has not produced a valid reply after every repair attempt
+ */
+export class JudgeOutputError extends Error {
+  constructor(
+    public problems: string[],
+    public rawResponse: string,
+    public repairAttempts: number
+  ) {
+    super(`Judge reply was invalid: ${problems.join('; ')}`)
+    this.name = 'JudgeOutputError'
+  }
+}
+
+// Every top-level {...} span in the text, skipping braces inside JSON strings
+function findObjectSpans(text: string): string[] {
+  const spans: string[] = []
+  let depth = 0
+  let start = -1
+  let inString = false
+  let escaped = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inString) {
+      if (escaped) escaped = false
+      else if (char === '\\') escaped = true
+      else if (char === '"') inString = false
+      continue
+    }
+
+    if (char === '"' && depth > 0) {
+      inString = true
+    } else if (char === '{') {
+      if (depth === 0) start = i
+      depth++
+    } else if (char === '}' && depth > 0) {
+      depth--
+      if (depth === 0) spans.push(text.slice(start, i + 1))
+    }
+  }
+
+  return spans
+}
+
+/**
+ * Pull a JSON object out of a model reply, whether it is bare, fenced in ```json or
+ * surrounded by prose. Fenced blocks win over loose braces in the text.
+ */
+export function extractJsonObject(text: string): Record<string, unknown> | null {
+  const fenced = [...text.matchAll(/```(?:json)?\s*([\s\S]*?)```/gi)].map(match => match[1])
+  const candidates = [...fenced, text.trim(), ...findObjectSpans(text)]
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate)
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return null
+}
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) ? number : null
+}
+
+/**
+ * Validate an absolute-scoring reply: every criterion scored 0-100, no unknown criteria,
+ * and written feedback
+ */
+export function parseAbsoluteJudgment(
+  text: string,
+  criteria: GradingCriterion[]
+): JudgeOutputResult<AbsoluteJudgment> {
+  const parsed = extractJsonObject(text)
+  if (!parsed) {
+    return { ok: false, problems: ['The reply did not contain a JSON object'] }
+  }
+
+  const problems: string[] = []
+  const nested = parsed.scores && typeof parsed.scores === 'object' && !Array.isArray(parsed.scores)
+  // Some judges flatten the scores onto the top-level object
+  const source = (nested ? parsed.scores : parsed) as Record<string, unknown>
+
+  const scores: Record<string, number> = {}
+  for (const criterion of criteria) {
+    const raw = source[criterion.id] ?? source[criterion.name]
+    if (raw === undefined) {
+      problems.push(`Missing score for "${criterion.id}"`)
+      continue
+    }
+
+    const score = toNumber(raw)
+    if (score === null) {
+      problems.push(`Score for "${criterion.id}" is not a number`)
+    } else if (score < 0 || score > 100) {
+      problems.push(`Score for "${criterion.id}" must be between 0 and 100, got ${score}`)
+    } else {
+      scores[criterion.id] = Math.round(score)
+    }
+  }
+
+  if (nested) {
+    const known = new Set(criteria.flatMap(criterion => [criterion.id, criterion.name]))
+    for (const key of Object.keys(source)) {
+      if (!known.has(key)) problems.push(`Unknown criterion "${key}"`)
+    }
+  }
+
+  if (typeof parsed.feedback !== 'string' || !parsed.feedback.trim()) {
+    problems.push('Missing "feedback" text')
+  }
+
+  if (problems.length > 0) return { ok: false, problems }
+  return { ok: true, value: { scores, feedback: (parsed.feedback as string).trim() } }
+}
+
+/**
+ * Validate a pairwise reply: a winner of A, B or tie, and the reasoning behind it
+ */
+export function parsePairwiseJudgment(text: string): JudgeOutputResult<PairwiseJudgment> {
+  const parsed = extractJsonObject(text)
+  if (!parsed) {
+    return { ok: false, problems: ['The reply did not contain a JSON object'] }
+  }
+
+  const problems: string[] = []
+  const winner = typeof parsed.winner === 'string' ? parsed.winner.trim().toUpperCase() : ''
+  if (winner !== 'A' && winner !== 'B' && winner !== 'TIE') {
+    problems.push(`"winner" must be "A", "B" or "tie", got ${JSON.stringify(parsed.winner ?? null)}`)
+  }
+  if (typeof parsed.reasoning !== 'string' || !parsed.reasoning.trim()) {
+    problems.push('Missing "reasoning" text')
+  }
+
+  if (problems.length > 0) return { ok: false, problems }
+  return {
+    ok: true,
+    value: {
+      winner: winner === 'TIE' ? 'tie' : winner as 'A' | 'B',
+      reasoning: (parsed.reasoning as string).trim(),
+    },
+  }
+}
+
+// Follow-up message asking the judge to fix its previous reply
+export function createRepairPrompt(problems: string[]): string {
+  return `Your previous reply could not be used:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Reply again with only the corrected JSON object, in exactly the format requested above, and no other text.`
+}
@@ -0,0 +1,217 @@
+import { JudgingMode, JudgingResult, PairwiseComparison } from '@/types'
+import { mean } from '@/utils/judge-aggregation'
+import { getComparisonWinner } from '@/utils/pairwise-ranking'
+import { parseModelId } from '@/services/llm-provider'
+
+// Points (0-100 scores or win-rate percentage points) above the panel before self-preference is flagged
+export const SELF_PREFERENCE_THRESHOLD = 5
+
+// Two-sided 95% z-score for a judge's share of verdicts going to Answer A
+const POSITION_Z_THRESHOLD = 1.96
+const MIN_POSITION_SAMPLE = 6
+
+// Maker of a model: the prefix of an OpenRouter-style `provider/model` id, or the company
+// behind a direct provider, so Gemini is Google whichever way it is reached
+export function getProvider(modelId: string): string {
+  const { providerId, modelId: id } = parseModelId(modelId)
+  if (providerId === 'gemini') return 'google'
+  return id.split('/')[0].toLowerCase()
+}
+
+export function isSameProvider(a: string, b: string): boolean {
+  return getProvider(a) === getProvider(b)
+}
+
+// Judges allowed to see an answer (or pair of answers) from these competitors
+export function getEligibleJudges(
+  judgePanel: string[],
+  competitorIds: string[],
+  excludeSameProvider: boolean
+): string[] {
+  if (!excludeSameProvider) return judgePanel
+  return judgePanel.filter(judgeId => competitorIds.every(id => !isSameProvider(judgeId, id)))
+}
+
+/**
+ * Competitors no judge could score once same-provider judges are excluded. In pairwise
+ * mode a competitor only needs one opponent that some judge can compare it against.
+ */
+export function getUnjudgeableCompetitors(
+  judgePanel: string[],
+  competitorIds: string[],
+  mode: JudgingMode,
+  excludeSameProvider: boolean
+): string[] {
+  if (!excludeSameProvider) return []
+
+  return competitorIds.filter(competitorId => {
+    if (mode === 'absolute') {
+      return getEligibleJudges(judgePanel, [competitorId], true).length === 0
+    }
+    return competitorIds.every(otherId =>
+      otherId === competitorId || getEligibleJudges(judgePanel, [competitorId, otherId], true).length === 0
+    )
+  })
+}
+
+export interface SelfPreference {
+  samples: number // Own-provider answers (absolute) or comparisons (pairwise) the judge saw
+  difference: number // How far the judge rated its own provider above the baseline, in points
+  baseline: 'panel' | 'none' // 'none' when no other judge saw the same answers, so the gap may be real quality
+  flagged: boolean
+}
+
+export interface PositionPreference {
+  decisive: number // Comparisons that were not ties
+  firstShare: number // Share of decisive verdicts that went to Answer A, 0-1
+  flagged: boolean
+}
+
+export interface JudgeBias {
+  judgeModelId: string
+  provider: string
+  selfPreference: SelfPreference | null
+  position: PositionPreference | null // Pairwise mode only
+}
+
+export interface BiasReport {
+  judges: JudgeBias[]
+  flagged: boolean
+}
+
+function absoluteSelfPreference(judgeModelId: string, results: JudgingResult[]): SelfPreference | null {
+  const entries = results.flatMap(result => {
+    const verdict = result.judgeScores?.find(v => v.judgeModelId === judgeModelId)
+    if (!verdict) return []
+
+    const others = (result.judgeScores || [])
+      .filter(v => v.judgeModelId !== judgeModelId)
+      .map(v => v.totalScore)
+
+    return [{
+      own: isSameProvider(judgeModelId, result.modelId),
+      score: verdict.totalScore,
+      // How much higher this judge scored the answer than the rest of the panel did
+      residual: others.length > 0 ? verdict.totalScore - mean(others) : null,
+    }]
+  })
+
+  const own = entries.filter(entry => entry.own)
+  const other = entries.filter(entry => !entry.own)
+  if (own.length === 0) return null
+
+  if (own.every(entry => entry.residual !== null)) {
+    // Subtract the judge's general leniency so only the extra for its own provider remains
+    const otherResiduals = other
+      .map(entry => entry.residual)
+      .filter((residual): residual is number => residual !== null)
+    const difference = mean(own.map(entry => entry.residual as number)) - mean(otherResiduals)
+
+    return {
+      samples: own.length,
+      difference: Math.round(difference * 10) / 10,
+      baseline: 'panel',
+      flagged: difference >= SELF_PREFERENCE_THRESHOLD,
+    }
+  }
+
+  if (other.length === 0) return null
+  const difference = mean(own.map(entry => entry.score)) - mean(other.map(entry => entry.score))
+
+  return {
+    samples: own.length,
+    difference: Math.round(difference * 10) / 10,
+    baseline: 'none',
+    flagged: false,
+  }
+}
+
+// 1 for a win by the model, 0.5 for a tie, 0 for a loss
+function pointsFor(modelId: string, comparison: PairwiseComparison): number {
+  const winner = getComparisonWinner(comparison)
+  if (winner === null) return 0.5
+  return winner === modelId ? 1 : 0
+}
+
+const pairKey = (comparison: PairwiseComparison) =>
+  [comparison.modelAId, comparison.modelBId].sort().join('|')
+
+function pairwiseSelfPreference(judgeModelId: string, comparisons: PairwiseComparison[]): SelfPreference | null {
+  // Only matchups between the judge's own provider and someone else say anything about self-preference
+  const ownModelIn = (comparison: PairwiseComparison) => {
+    const aOwn = isSameProvider(judgeModelId, comparison.modelAId)
+    const bOwn = isSameProvider(judgeModelId, comparison.modelBId)
+    if (aOwn === bOwn) return null
+    return aOwn ? comparison.modelAId : comparison.modelBId
+  }
+
+  const mine = comparisons.filter(c => c.judgeModelId === judgeModelId && ownModelIn(c) !== null)
+  if (mine.length === 0) return null
+
+  const ownRate = mean(mine.map(c => pointsFor(ownModelIn(c) as string, c)))
+  const matchups = new Set(mine.map(pairKey))
+  const panel = comparisons.filter(c => c.judgeModelId !== judgeModelId && matchups.has(pairKey(c)))
+
+  if (panel.length === 0) {
+    return {
+      samples: mine.length,
+      difference: Math.round((ownRate - 0.5) * 1000) / 10,
+      baseline: 'none',
+      flagged: false,
+    }
+  }
+
+  // The same matchups as the rest of the panel judged them
+  const panelRate = mean(panel.map(c => pointsFor(ownModelIn(c) as string, c)))
+  const difference = (ownRate - panelRate) * 100
+
+  return {
+    samples: mine.length,
+    difference: Math.round(difference * 10) / 10,
+    baseline: 'panel',
+    flagged: difference >= SELF_PREFERENCE_THRESHOLD,
+  }
+}
+
+function positionPreference(judgeModelId: string, comparisons: PairwiseComparison[]): PositionPreference | null {
+  const decisive = comparisons.filter(c => c.judgeModelId === judgeModelId && c.verdict !== 'tie')
+  if (decisive.length === 0) return null
+
+  const first = decisive.filter(c => c.verdict === 'A').length
+  // Normal approximation to a binomial test against an even split
+  const z = (first - decisive.length / 2) / Math.sqrt(decisive.length / 4)
+
+  return {
+    decisive: decisive.length,
+    firstShare: first / decisive.length,
+    flagged: decisive.length >= MIN_POSITION_SAMPLE && Math.abs(z) >= POSITION_Z_THRESHOLD,
+  }
+}
+
+/**
+ * Per-judge checks for favouring its own provider and, in pairwise mode, for favouring
+ * whichever answer it sees first
+ */
+export function buildBiasReport(
+  mode: JudgingMode,
+  results: JudgingResult[],
+  comparisons: PairwiseComparison[] = []
+): BiasReport {
+  const judgeIds = mode === 'pairwise'
+    ? [...new Set(comparisons.map(c => c.judgeModelId))]
+    : [...new Set(results.flatMap(result => (result.judgeScores || []).map(v => v.judgeModelId)))]
+
+  const judges = judgeIds.map(judgeModelId => ({
+    judgeModelId,
+    provider: getProvider(judgeModelId),
+    selfPreference: mode === 'pairwise'
+      ? pairwiseSelfPreference(judgeModelId, comparisons)
+      : absoluteSelfPreference(judgeModelId, results),
+    position: mode === 'pairwise' ? positionPreference(judgeModelId, comparisons) : null,
+  }))
+
+  return {
+    judges,
+    flagged: judges.some(judge => judge.selfPreference?.flagged || judge.position?.flagged),
+  }
+}
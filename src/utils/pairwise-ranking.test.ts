@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { PairwiseComparison } from '@/types'
+import { fitBradleyTerry, getComparisonWinner, positionConsistency, rankPairwise } from './pairwise-ranking'
+
+const compare = (
+  modelAId: string,
+  modelBId: string,
+  verdict: PairwiseComparison['verdict'],
+  judgeModelId = 'judge'
+): PairwiseComparison => ({
+  modelAId,
+  modelBId,
+  judgeModelId,
+  verdict,
+  reasoning: '',
+  timestamp: '2025-01-01T00:00:00.000Z',
+})
+
+// a beats b, b beats c and a beats c, each in both presentation orders
+const transitive = [
+  compare('a', 'b', 'A'), compare('b', 'a', 'B'),
+  compare('b', 'c', 'A'), compare('c', 'b', 'B'),
+  compare('a', 'c', 'A'), compare('c', 'a', 'B'),
+]
+
+describe('getComparisonWinner', () => {
+  it('maps the verdict to a model', () => {
+    expect(getComparisonWinner(compare('x', 'y', 'A'))).toBe('x')
+    expect(getComparisonWinner(compare('x', 'y', 'B'))).toBe('y')
+    expect(getComparisonWinner(compare('x', 'y', 'tie'))).toBeNull()
+  })
+})
+
+describe('fitBradleyTerry', () => {
+  it('orders models by their results, centred on 1500', () => {
+    const ratings = fitBradleyTerry(['a', 'b', 'c'], transitive)
+    expect(ratings.a).toBeGreaterThan(ratings.b)
+    expect(ratings.b).toBeGreaterThan(ratings.c)
+    expect((ratings.a + ratings.b + ratings.c) / 3).toBeCloseTo(1500, 6)
+  })
+
+  it('keeps ratings finite for an unbeaten model', () => {
+    const ratings = fitBradleyTerry(['a', 'b'], [compare('a', 'b', 'A'), compare('b', 'a', 'B')])
+    expect(Number.isFinite(ratings.a)).toBe(true)
+    expect(ratings.a).toBeGreaterThan(1500)
+  })
+
+  it('rates models that only tied equally', () => {
+    const ratings = fitBradleyTerry(['a', 'b'], [compare('a', 'b', 'tie')])
+    expect(ratings.a).toBeCloseTo(1500, 6)
+    expect(ratings.b).toBeCloseTo(1500, 6)
+  })
+})
+
+describe('rankPairwise', () => {
+  it('counts each model\'s wins, losses and ties', () => {
+    const standings = rankPairwise(['a', 'b', 'c'], [...transitive, compare('a', 'b', 'tie')])
+    const byModel = Object.fromEntries(standings.map(standing => [standing.modelId, standing]))
+
+    expect(byModel.a).toMatchObject({ wins: 4, losses: 0, ties: 1 })
+    expect(byModel.b).toMatchObject({ wins: 2, losses: 2, ties: 1 })
+    expect(byModel.c).toMatchObject({ wins: 0, losses: 4, ties: 0 })
+    expect(byModel.a.expectedScore).toBeGreaterThan(50)
+    expect(byModel.c.expectedScore).toBeLessThan(50)
+  })
+
+  it('brackets each rating with its bootstrap interval', () => {
+    for (const standing of rankPairwise(['a', 'b', 'c'], transitive)) {
+      expect(standing.ciLower).toBeLessThanOrEqual(standing.rating)
+      expect(standing.ciUpper).toBeGreaterThanOrEqual(standing.rating)
+    }
+  })
+
+  it('is reproducible for the same comparisons', () => {
+    expect(rankPairwise(['a', 'b', 'c'], transitive)).toEqual(rankPairwise(['a', 'b', 'c'], transitive))
+  })
+
+  it('gives every model the base rating without comparisons', () => {
+    expect(rankPairwise(['a', 'b'], [])).toEqual([
+      { modelId: 'a', rating: 1500, ciLower: 1500, ciUpper: 1500, expectedScore: 50, wins: 0, losses: 0, ties: 0 },
+      { modelId: 'b', rating: 1500, ciLower: 1500, ciUpper: 1500, expectedScore: 50, wins: 0, losses: 0, ties: 0 },
+    ])
+  })
+})
+
+describe('positionConsistency', () => {
+  it('is 1 when swapping the order never changes the verdict', () => {
+    expect(positionConsistency(transitive)).toBe(1)
+  })
+
+  it('is 0 for a judge that always picks the first answer', () => {
+    expect(positionConsistency([compare('a', 'b', 'A'), compare('b', 'a', 'A')])).toBe(0)
+  })
+
+  it('is null without any pair seen in both orders', () => {
+    expect(positionConsistency([compare('a', 'b', 'A')])).toBeNull()
+  })
+})
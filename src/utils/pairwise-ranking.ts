@@ -0,0 +1,169 @@
+import { PairwiseComparison, PairwiseStanding } from '@/types'
+import { createRandom } from '@/utils/random'
+
+const BASE_RATING = 1500
+const BOOTSTRAP_SAMPLES = 200
+const MAX_ITERATIONS = 200
+const CONVERGENCE_TOLERANCE = 1e-6
+
+// Pseudo-comparisons added per compared pair so unbeaten or winless models keep a finite rating
+const PRIOR_WEIGHT = 0.5
+
+interface Outcome {
+  winner: string
+  loser: string
+  weight: number // 1 for a win, 0.5 for each side of a tie
+}
+
+// The model the judge preferred, or null for a tie
+export function getComparisonWinner(comparison: PairwiseComparison): string | null {
+  if (comparison.verdict === 'A') return comparison.modelAId
+  if (comparison.verdict === 'B') return comparison.modelBId
+  return null
+}
+
+function toOutcomes(comparisons: PairwiseComparison[]): Outcome[] {
+  return comparisons.flatMap(comparison => {
+    const winner = getComparisonWinner(comparison)
+    if (winner === null) {
+      return [
+        { winner: comparison.modelAId, loser: comparison.modelBId, weight: 0.5 },
+        { winner: comparison.modelBId, loser: comparison.modelAId, weight: 0.5 },
+      ]
+    }
+    const loser = winner === comparison.modelAId ? comparison.modelBId : comparison.modelAId
+    return [{ winner, loser, weight: 1 }]
+  })
+}
+
+/**
+ * Fit Bradley-Terry strengths with Hunter's MM algorithm and express them on an Elo-style
+ * scale (400 points = 10:1 odds) centred on 1500.
+ */
+export function fitBradleyTerry(modelIds: string[], comparisons: PairwiseComparison[]): Record<string, number> {
+  const outcomes = toOutcomes(comparisons)
+  const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`)
+
+  const wins: Record<string, number> = {}
+  const games: Record<string, number> = {}
+  for (const id of modelIds) wins[id] = 0
+
+  for (const outcome of outcomes) {
+    wins[outcome.winner] += outcome.weight
+    const key = pairKey(outcome.winner, outcome.loser)
+    games[key] = (games[key] || 0) + outcome.weight
+  }
+
+  // Spread the prior evenly over both sides of every pair that was actually compared
+  for (const key of Object.keys(games)) {
+    const [a, b] = key.split('|')
+    wins[a] += PRIOR_WEIGHT
+    wins[b] += PRIOR_WEIGHT
+    games[key] += 2 * PRIOR_WEIGHT
+  }
+
+  let strengths: Record<string, number> = Object.fromEntries(modelIds.map(id => [id, 1]))
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next: Record<string, number> = {}
+
+    for (const id of modelIds) {
+      let denominator = 0
+      for (const other of modelIds) {
+        if (other === id) continue
+        const count = games[pairKey(id, other)] || 0
+        if (count > 0) denominator += count / (strengths[id] + strengths[other])
+      }
+      next[id] = denominator > 0 ? wins[id] / denominator : strengths[id]
+    }
+
+    // Normalise to a geometric mean of 1 so the scale stays fixed between iterations
+    const logMean = modelIds.reduce((sum, id) => sum + Math.log(next[id]), 0) / modelIds.length
+    const scale = Math.exp(logMean)
+    let change = 0
+    for (const id of modelIds) {
+      next[id] /= scale
+      change = Math.max(change, Math.abs(next[id] - strengths[id]))
+    }
+
+    strengths = next
+    if (change < CONVERGENCE_TOLERANCE) break
+  }
+
+  return Object.fromEntries(
+    modelIds.map(id => [id, BASE_RATING + 400 * Math.log10(strengths[id])])
+  )
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))
+  return sorted[index]
+}
+
+/**
+ * Rank models from pairwise verdicts. Ratings come from a Bradley-Terry fit; the 95%
+ * intervals come from refitting on bootstrap resamples of the comparisons.
+ */
+export function rankPairwise(modelIds: string[], comparisons: PairwiseComparison[]): PairwiseStanding[] {
+  const ratings = fitBradleyTerry(modelIds, comparisons)
+
+  const samples: Record<string, number[]> = Object.fromEntries(modelIds.map(id => [id, []]))
+  if (comparisons.length > 0) {
+    // Seeded from the data so the intervals are reproducible for the same comparisons
+    const random = createRandom(comparisons.length * 7919 + modelIds.length)
+    for (let sample = 0; sample < BOOTSTRAP_SAMPLES; sample++) {
+      const resampled = comparisons.map(() => comparisons[Math.floor(random() * comparisons.length)])
+      const sampleRatings = fitBradleyTerry(modelIds, resampled)
+      for (const id of modelIds) samples[id].push(sampleRatings[id])
+    }
+  }
+
+  return modelIds.map(modelId => {
+    const record = { wins: 0, losses: 0, ties: 0 }
+    for (const comparison of comparisons) {
+      if (comparison.modelAId !== modelId && comparison.modelBId !== modelId) continue
+      const winner = getComparisonWinner(comparison)
+      if (winner === null) record.ties++
+      else if (winner === modelId) record.wins++
+      else record.losses++
+    }
+
+    // Expected score against the rest of the field, as a 0-100 number
+    const opponents = modelIds.filter(id => id !== modelId)
+    const expected = opponents.length > 0
+      ? opponents.reduce((sum, id) => sum + 1 / (1 + Math.pow(10, (ratings[id] - ratings[modelId]) / 400)), 0) / opponents.length
+      : 0.5
+
+    const sorted = [...samples[modelId]].sort((a, b) => a - b)
+
+    return {
+      modelId,
+      rating: Math.round(ratings[modelId]),
+      ciLower: Math.round(sorted.length > 0 ? percentile(sorted, 0.025) : ratings[modelId]),
+      ciUpper: Math.round(sorted.length > 0 ? percentile(sorted, 0.975) : ratings[modelId]),
+      expectedScore: Math.round(expected * 100),
+      ...record,
+    }
+  })
+}
+
+/**
+ * Share of (pair, judge) combinations where both orderings produced the same verdict on the
+ * underlying answers. Low values mean the judge is swayed by which answer it sees first.
+ */
+export function positionConsistency(comparisons: PairwiseComparison[]): number | null {
+  const byPair: Record<string, (string | null)[]> = {}
+
+  for (const comparison of comparisons) {
+    const [first, second] = [comparison.modelAId, comparison.modelBId].sort()
+    const key = `${comparison.judgeModelId}|${first}|${second}`
+    byPair[key] = [...(byPair[key] || []), getComparisonWinner(comparison)]
+  }
+
+  const complete = Object.values(byPair).filter(winners => winners.length >= 2)
+  if (complete.length === 0) return null
+
+  const consistent = complete.filter(winners => winners.every(winner => winner === winners[0])).length
+  return consistent / complete.length
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { CompetitorGeneration, JudgingResult, RefinementRound } from '@/types'
+import { buildProjectResults, getFinalAnswer } from './project-results'
+
+const round = (roundNumber: number, response: string): RefinementRound => ({
+  roundNumber, response, critique: '', improvements: [], timestamp: '',
+})
+
+const generation: CompetitorGeneration = {
+  modelId: 'model-a',
+  modelName: 'Model A',
+  response: 'Monads wrap values',
+  generationTime: 1500,
+  tokenCount: 40.4,
+  estimatedCost: 0,
+  timestamp: '2025-01-01T00:00:05.000Z',
+}
+
+const result = (modelId: string, rank: number, extra: Partial<JudgingResult> = {}): JudgingResult => ({
+  modelId,
+  modelName: modelId,
+  scores: { accuracy: 80 },
+  totalScore: 80,
+  feedback: `Feedback for ${modelId}`,
+  rank,
+  timestamp: '',
+  ...extra,
+})
+
+const timing = {
+  startedAt: new Date('2025-01-01T00:00:00.000Z'),
+  completedAt: new Date('2025-01-01T00:00:12.500Z'),
+}
+
+describe('buildProjectResults', () => {
+  it('rolls every phase up, ranking the judging results', () => {
+    const results = buildProjectResults({
+      rounds: [round(0, 'Explain monads'), round(1, 'Explain monads with an example')],
+      generations: [generation],
+      results: [result('model-b', 2), result('model-a', 1)],
+    }, { ...timing, usage: { promptTokens: 900, completionTokens: 300, totalTokens: 1200, cost: 0.01, requests: 6 } })
+
+    expect(results.phase1.finalAnswer).toBe('Explain monads with an example')
+    expect(results.phase2.competitors[0]).toMatchObject({ modelId: 'model-a', answer: 'Monads wrap values', tokensUsed: 40 })
+    expect(results.phase3.scores.map(score => score.answerId)).toEqual(['model-a', 'model-b'])
+    expect(results.phase3).toMatchObject({ winnerId: 'model-a', judgeReasoning: 'Feedback for model-a' })
+    expect(results).toMatchObject({ totalDuration: 12500, totalTokensUsed: 1200, totalCost: 0.01 })
+  })
+
+  it('names no winner when no answer could be scored', () => {
+    const results = buildProjectResults(
+      { rounds: [], generations: [], results: [result('model-a', 1, { unscored: true })] },
+      timing
+    )
+
+    expect(results.phase3.winnerId).toBe('')
+    expect(results.phase1.finalAnswer).toBe('')
+  })
+})
+
+describe('getFinalAnswer', () => {
+  it('is the last round\'s response, or null before any round', () => {
+    expect(getFinalAnswer([round(0, 'First'), round(1, 'Last')])).toBe('Last')
+    expect(getFinalAnswer([])).toBeNull()
+  })
+})
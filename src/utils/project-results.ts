@@ -0,0 +1,72 @@
+import {
+  CompetitorGeneration,
+  JudgingResult,
+  ProjectResults,
+  RefinementRound,
+  UsageTotals
+} from '@/types'
+
+/**
+ * What the three phases produced
+ */
+export interface PhaseOutputs {
+  rounds: RefinementRound[]
+  generations: CompetitorGeneration[]
+  results: JudgingResult[]
+}
+
+/**
+ * The final answer of Phase 1 is the response of the last refinement round
+ */
+export function getFinalAnswer(rounds: RefinementRound[]): string | null {
+  if (rounds.length === 0) return null
+  return rounds[rounds.length - 1].response
+}
+
+/**
+ * Roll the three phase outputs up into the project summary
+ */
+export function buildProjectResults(
+  outputs: PhaseOutputs,
+  { startedAt, completedAt, usage }: { startedAt: Date; completedAt: Date; usage?: UsageTotals }
+): ProjectResults {
+  const rankedResults = [...outputs.results].sort((a, b) => a.rank - b.rank)
+  const winner = rankedResults[0]?.unscored ? undefined : rankedResults[0]
+
+  return {
+    phase1: {
+      rounds: outputs.rounds,
+      finalAnswer: getFinalAnswer(outputs.rounds) || ''
+    },
+    phase2: {
+      competitors: outputs.generations.map(generation => ({
+        id: generation.modelId,
+        modelId: generation.modelId,
+        answer: generation.response,
+        timestamp: new Date(generation.timestamp),
+        tokensUsed: Math.round(generation.tokenCount),
+        generationTime: generation.generationTime
+      }))
+    },
+    phase3: {
+      scores: rankedResults.map(result => ({
+        answerId: result.modelId,
+        criteriaScores: Object.fromEntries(
+          Object.entries(result.scores).map(([criterion, score]) => [
+            criterion,
+            { score, reasoning: '' }
+          ])
+        ),
+        weightedTotal: result.totalScore,
+        rank: result.rank
+      })),
+      winnerId: winner?.modelId || '',
+      judgeReasoning: winner?.feedback || '',
+      timestamp: completedAt
+    },
+    completedAt,
+    totalDuration: completedAt.getTime() - startedAt.getTime(),
+    totalTokensUsed: usage?.totalTokens ?? 0,
+    totalCost: usage?.cost ?? 0
+  }
+}
@@ -0,0 +1,29 @@
+// Small seeded generator (mulberry32) for anything that has to be reproducible from a stored seed
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Random unsigned 32-bit seed, stored alongside whatever it shuffled
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0
+}
+
+// Fisher-Yates shuffle that always gives the same order for the same seed
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+  const random = createRandom(seed)
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const swap = shuffled[i]
+    shuffled[i] = shuffled[j]
+    shuffled[j] = swap
+  }
+  return shuffled
+}
@@ -0,0 +1,45 @@
+import type { CompetitionReport, ReportBlock } from './competition-report'
+
+// Pipes would end the table cell early, and newlines the row
+const tableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+
+const tableRow = (cells: string[]) => `| ${cells.map(tableCell).join(' | ')} |`
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`.trimEnd()).join('\n')
+
+function renderBlock(block: ReportBlock): string {
+  switch (block.kind) {
+    case 'heading':
+      return `### ${block.text}`
+    case 'text':
+      return block.muted ? `_${block.text.trim()}_` : block.text
+    case 'table':
+      return [tableRow(block.head), tableRow(block.head.map(() => '---')), ...block.body.map(tableRow)].join('\n')
+  }
+}
+
+/**
+ * Render a report as Markdown, for pasting into issues, docs or chat
+ */
+export function renderReportMarkdown(report: CompetitionReport): string {
+  const lines = [
+    `# ${report.title}`,
+    '',
+    `_${report.subtitle}, generated ${report.generatedAt.toISOString()}${report.redacted ? '. Model identities are redacted.' : ''}_`,
+    '',
+    '## Question',
+    '',
+    quote(report.question),
+    '',
+    tableRow(['', '']),
+    tableRow(['---', '---']),
+    ...report.facts.map(([label, value]) => tableRow([`**${label}**`, value])),
+    '',
+  ]
+
+  for (const section of report.sections) {
+    lines.push(`## ${section.title}`, '')
+    section.blocks.forEach(block => lines.push(renderBlock(block), ''))
+  }
+  return lines.join('\n').trimEnd() + '\n'
+}
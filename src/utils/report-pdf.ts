@@ -0,0 +1,142 @@
+import { jsPDF } from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import type { CompetitionReport, ReportBlock } from './competition-report'
+
+const MARGIN = 20 // mm
+const LINE_HEIGHT = 1.4
+const QUESTION_PREVIEW_LENGTH = 900
+const MUTED = 110
+const ACCENT: [number, number, number] = [124, 58, 237] // The app's purple
+
+const FONT_SIZE = { title: 26, subtitle: 12, section: 16, heading: 12, text: 10 }
+
+// jsPDF measures in mm but sets fonts in pt
+const lineHeight = (fontSize: number) => fontSize * LINE_HEIGHT * 0.3528
+
+/**
+ * Writes blocks top to bottom, starting a new page whenever the next line would not fit
+ */
+class PdfWriter {
+  y = MARGIN
+
+  constructor(readonly doc: jsPDF) {}
+
+  get width() {
+    return this.doc.internal.pageSize.getWidth() - MARGIN * 2
+  }
+
+  private get bottom() {
+    return this.doc.internal.pageSize.getHeight() - MARGIN
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.bottom) {
+      this.doc.addPage()
+      this.y = MARGIN
+    }
+  }
+
+  write(text: string, { size = FONT_SIZE.text, bold = false, gray = 0, gapAfter = 2 } = {}) {
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal').setFontSize(size).setTextColor(gray)
+    const height = lineHeight(size)
+    for (const line of this.doc.splitTextToSize(text, this.width) as string[]) {
+      this.ensureSpace(height)
+      this.doc.text(line, MARGIN, this.y, { baseline: 'top' })
+      this.y += height
+    }
+    this.y += gapAfter
+  }
+
+  table(head: string[], body: string[][]) {
+    autoTable(this.doc, {
+      head: [head],
+      body,
+      startY: this.y,
+      margin: { left: MARGIN, right: MARGIN, top: MARGIN, bottom: MARGIN },
+      styles: { fontSize: 9, cellPadding: 1.5 },
+      headStyles: { fillColor: ACCENT },
+    })
+    this.y = (this.doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 4
+  }
+
+  block(block: ReportBlock) {
+    switch (block.kind) {
+      case 'heading':
+        // Keep a heading on the same page as the first line under it
+        this.ensureSpace(lineHeight(FONT_SIZE.heading) + lineHeight(FONT_SIZE.text) + 3)
+        this.y += 2
+        this.write(block.text, { size: FONT_SIZE.heading, bold: true, gapAfter: 1 })
+        break
+      case 'text':
+        this.write(block.text, { gray: block.muted ? MUTED : 0 })
+        break
+      case 'table':
+        this.table(block.head, block.body)
+        break
+    }
+  }
+}
+
+function writeCover(writer: PdfWriter, report: CompetitionReport) {
+  const { doc } = writer
+  doc.setFillColor(...ACCENT).rect(0, 0, doc.internal.pageSize.getWidth(), 8, 'F')
+
+  writer.y = 45
+  writer.write(report.subtitle.toUpperCase(), { size: FONT_SIZE.subtitle, gray: MUTED, gapAfter: 4 })
+  writer.write(report.title, { size: FONT_SIZE.title, bold: true, gapAfter: 8 })
+
+  const question = report.question.length > QUESTION_PREVIEW_LENGTH
+    ? `${report.question.slice(0, QUESTION_PREVIEW_LENGTH)}…`
+    : report.question
+  writer.write('Question', { size: FONT_SIZE.heading, bold: true, gapAfter: 1 })
+  writer.write(question, { gapAfter: 8 })
+
+  autoTable(doc, {
+    body: report.facts,
+    startY: writer.y,
+    margin: { left: MARGIN, right: MARGIN },
+    theme: 'plain',
+    styles: { fontSize: 10, cellPadding: 1.5 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 45 } },
+  })
+  writer.y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8
+
+  const generated = `Generated ${report.generatedAt.toLocaleString()}`
+  writer.write(report.redacted ? `${generated}. Model identities are redacted.` : generated, { size: 9, gray: MUTED })
+}
+
+// Page numbers go on last, once the page count is known; the cover is left unnumbered
+function numberPages(doc: jsPDF, title: string) {
+  const pageCount = doc.getNumberOfPages()
+  const { pageSize } = doc.internal
+  doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(MUTED)
+
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page)
+    const y = pageSize.getHeight() - MARGIN / 2
+    doc.text(title, MARGIN, y)
+    doc.text(`${page - 1} / ${pageCount - 1}`, pageSize.getWidth() - MARGIN, y, { align: 'right' })
+  }
+}
+
+/**
+ * Render a report to a PDF: a cover page with the question and the key facts, then one
+ * section after another
+ */
+export function renderReportPdf(report: CompetitionReport): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  doc.setProperties({ title: report.title, subject: report.subtitle, creator: 'Model Kombat' })
+  const writer = new PdfWriter(doc)
+
+  writeCover(writer, report)
+
+  for (const section of report.sections) {
+    doc.addPage()
+    writer.y = MARGIN
+    writer.write(section.title, { size: FONT_SIZE.section, bold: true, gapAfter: 4 })
+    section.blocks.forEach(block => writer.block(block))
+  }
+
+  numberPages(doc, report.title)
+  return doc
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import { Project, StudioSession } from '@/types'
+import {
+  RESULTS_FORMAT_VERSION,
+  exportProject,
+  exportSession,
+  projectScoresCsv,
+  sessionCsv,
+  stringifyResultsExport,
+} from './results-export'
+import { ResultsImportError, parseResultsExport } from './results-import'
+
+const criteria = [
+  { id: 'accuracy', name: 'Accuracy', description: '', weight: 60 },
+  { id: 'clarity', name: 'Clarity, tone', description: '', weight: 40 },
+]
+
+const project: Project = {
+  id: 'project-1',
+  userId: 'user-1',
+  name: 'Monad showdown',
+  originalQuestion: 'Explain monads',
+  status: 'completed',
+  createdAt: new Date('2025-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2025-01-01T00:00:20.000Z'),
+  maxRefinementRounds: 1,
+  refinerModelId: 'refiner',
+  competitorModelIds: ['model-a', 'model-b'],
+  judgeModelId: 'judge',
+  description: undefined,
+  judgingConfig: { judgeModelId: 'judge', criteria },
+  phases: {
+    refinement: { status: 'completed', rounds: [{ roundNumber: 0, response: 'Explain monads', critique: '', improvements: [], timestamp: '2025-01-01T00:00:00.000Z' }] },
+    competition: {
+      status: 'completed',
+      generations: [{ modelId: 'model-a', modelName: 'Model "A"', response: 'Monads wrap values', generationTime: 1500, tokenCount: 40, estimatedCost: 0.002, timestamp: '' }],
+    },
+    judging: {
+      status: 'completed',
+      results: [
+        { modelId: 'model-b', modelName: 'Model B', scores: {}, totalScore: 0, feedback: '', rank: 2, timestamp: '', unscored: true },
+        {
+          modelId: 'model-a',
+          modelName: 'Model "A"',
+          scores: { accuracy: 80, clarity: 70 },
+          totalScore: 76,
+          feedback: 'Clear',
+          rank: 1,
+          timestamp: '',
+          judgeScores: [{ judgeModelId: 'judge', scores: { accuracy: 80, clarity: 70 }, totalScore: 76, feedback: 'Clear' }],
+        },
+      ],
+    },
+  },
+  usage: { promptTokens: 900, completionTokens: 300, totalTokens: 1200, cost: 0.01, requests: 6 },
+}
+
+const session: StudioSession = {
+  question: 'Explain monads',
+  mode: 'ffa',
+  rounds: [
+    { modelId: 'model-a', modelName: 'Alpha', content: 'First draft', timestamp: new Date('2025-01-01T00:00:00.000Z'), duration: 1000, quality: 60 },
+    { modelId: 'model-b', modelName: 'Beta', content: 'Better draft', timestamp: new Date('2025-01-01T00:00:01.000Z'), quality: 80, isWinner: true },
+  ],
+  settings: { rounds: 1, temperature: 0.7 },
+}
+
+describe('project export', () => {
+  it('round-trips through JSON without the owner or the id', () => {
+    const data = exportProject(project)
+    expect(data).toMatchObject({ format: 'model-kombat-results', version: RESULTS_FORMAT_VERSION, kind: 'project' })
+    expect(data.project).not.toHaveProperty('userId')
+    expect(data.project).not.toHaveProperty('description')
+    expect(data.project.createdAt).toBe('2025-01-01T00:00:00.000Z')
+
+    const imported = parseResultsExport(stringifyResultsExport(data))
+    const { id: _id, userId: _userId, description: _description, ...expected } = project
+    expect(imported).toEqual({ kind: 'project', project: expected })
+  })
+
+  it('writes a consensus row and a row per judge, quoting where needed', () => {
+    const [header, consensus, verdict, unscored] = projectScoresCsv(project).trimEnd().split('\r\n')
+    expect(header).toBe('model_id,model_name,rank,judge,total_score,Accuracy,"Clarity, tone",rating,wins,losses,ties,generation_ms,tokens,estimated_cost_usd')
+    expect(consensus).toBe('model-a,"Model ""A""",1,panel,76,80,70,,,,,1500,40,0.002')
+    expect(verdict).toBe('model-a,"Model ""A""",1,judge,76,80,70,,,,,1500,40,0.002')
+    expect(unscored).toBe('model-b,Model B,2,panel,,,,,,,,,,')
+  })
+})
+
+describe('session export', () => {
+  it('round-trips through JSON with the timestamps as dates', () => {
+    const imported = parseResultsExport(stringifyResultsExport(exportSession(session)))
+    expect(imported).toEqual({ kind: 'session', session })
+  })
+
+  it('writes a row per round', () => {
+    expect(sessionCsv(session).split('\r\n')[2]).toBe('1,model-b,Beta,80,,,,true,,,2025-01-01T00:00:01.000Z')
+  })
+})
+
+describe('parseResultsExport', () => {
+  const problemsOf = (source: string) => {
+    try {
+      parseResultsExport(source)
+    } catch (error) {
+      return (error as ResultsImportError).problems
+    }
+    throw new Error('Expected the import to fail')
+  }
+
+  it('rejects files that are not exports, or from a newer version', () => {
+    expect(problemsOf('{ nope')[0]).toMatch(/^The file is not valid JSON/)
+    expect(problemsOf('{"name": "Monad showdown"}')).toEqual(['The file is not a Model Kombat results export'])
+    expect(problemsOf(JSON.stringify({ ...exportSession(session), version: RESULTS_FORMAT_VERSION + 1 }))[0])
+      .toMatch(/update the app to import it$/)
+  })
+
+  it('lists every problem in a damaged project at once', () => {
+    const data = exportProject(project)
+    const damaged = {
+      ...data,
+      project: {
+        ...data.project,
+        name: '',
+        createdAt: 'yesterday',
+        phases: { ...data.project.phases, judging: { status: 'completed', results: [{ modelId: 'model-a' }] } },
+      },
+    }
+    expect(problemsOf(JSON.stringify(damaged))).toEqual([
+      'project.name is required',
+      'project.createdAt must be an ISO date',
+      'project.phases.judging.results[0] needs a modelId, rank and totalScore',
+      'project.phases.judging.results[0] needs scores per criterion',
+    ])
+  })
+})
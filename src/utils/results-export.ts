@@ -0,0 +1,164 @@
+import { JudgingResult, Project, StudioSession } from '@/types'
+import { getProjectCriteria } from './grading-criteria'
+
+/**
+ * Identifies an export file; see results-import.ts for reading one back
+ */
+export const RESULTS_FORMAT = 'model-kombat-results'
+
+/**
+ * Bumped whenever a field is renamed or removed. Adding optional fields keeps the version.
+ */
+export const RESULTS_FORMAT_VERSION = 1
+
+/**
+ * A value as written to an export file: Dates become ISO 8601 strings
+ */
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends (infer Item)[]
+    ? Serialized<Item>[]
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T
+
+interface ResultsExportHeader {
+  format: typeof RESULTS_FORMAT
+  version: number
+  exportedAt: string
+}
+
+/**
+ * A whole project: its configuration, every phase's output, the results and the usage.
+ * The owner is left out so the file can be imported into another account.
+ */
+export interface ProjectExport extends ResultsExportHeader {
+  kind: 'project'
+  project: Serialized<Omit<Project, 'userId'>>
+}
+
+/**
+ * An FFA or Lazy Mode session: the question, the settings and every round with its grade
+ */
+export interface SessionExport extends ResultsExportHeader {
+  kind: 'session'
+  session: Serialized<StudioSession>
+}
+
+export type ResultsExport = ProjectExport | SessionExport
+
+type CsvValue = string | number | boolean | undefined
+
+/**
+ * Turn Dates and Firestore Timestamps into ISO strings and drop undefined fields, leaving
+ * data that survives JSON and Firestore alike
+ */
+export function serialize<T>(value: T): Serialized<T> {
+  return toPlain(value) as Serialized<T>
+}
+
+function toPlain(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.map(toPlain)
+  if (value && typeof value === 'object') {
+    if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+      return (value as { toDate: () => Date }).toDate().toISOString()
+    }
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .map(([key, field]) => [key, toPlain(field)]))
+  }
+  return value
+}
+
+const header = (): ResultsExportHeader => ({
+  format: RESULTS_FORMAT,
+  version: RESULTS_FORMAT_VERSION,
+  exportedAt: new Date().toISOString(),
+})
+
+export function exportProject(project: Project): ProjectExport {
+  const { userId: _owner, ...rest } = project
+  return { ...header(), kind: 'project', project: serialize(rest) }
+}
+
+export function exportSession(session: StudioSession): SessionExport {
+  return { ...header(), kind: 'session', session: serialize(session) }
+}
+
+export function stringifyResultsExport(data: ResultsExport): string {
+  return JSON.stringify(data, null, 2) + '\n'
+}
+
+const csvField = (value: CsvValue) => {
+  const text = value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (rows: CsvValue[][]) => rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+
+/**
+ * One row per answer with the panel's consensus scores, followed by a row per judge
+ * that scored it. Criterion columns hold 0-100 scores.
+ */
+export function projectScoresCsv(project: Project): string {
+  const criteria = getProjectCriteria(project)
+  const generations = project.phases?.competition.generations || []
+  const results = [...(project.phases?.judging.results || [])].sort((a, b) => a.rank - b.rank)
+
+  const row = (result: JudgingResult, judge: string, totalScore: number | undefined, scores: Record<string, number>) => {
+    const generation = generations.find(g => g.modelId === result.modelId)
+    return [
+      result.modelId,
+      result.modelName,
+      result.rank,
+      judge,
+      totalScore,
+      ...criteria.map(criterion => scores[criterion.id]),
+      result.pairwise?.rating,
+      result.pairwise?.wins,
+      result.pairwise?.losses,
+      result.pairwise?.ties,
+      generation?.generationTime,
+      generation?.tokenCount,
+      generation?.estimatedCost,
+    ]
+  }
+
+  return toCsv([
+    [
+      'model_id', 'model_name', 'rank', 'judge', 'total_score',
+      ...criteria.map(criterion => criterion.name),
+      'rating', 'wins', 'losses', 'ties', 'generation_ms', 'tokens', 'estimated_cost_usd',
+    ],
+    ...results.flatMap(result => [
+      row(result, 'panel', result.unscored ? undefined : result.totalScore, result.scores),
+      ...(result.judgeScores || []).map(verdict => row(result, verdict.judgeModelId, verdict.totalScore, verdict.scores)),
+    ]),
+  ])
+}
+
+/**
+ * One row per round, in order
+ */
+export function sessionCsv(session: StudioSession): string {
+  return toCsv([
+    [
+      'round', 'model_id', 'model_name', 'quality', 'regressed', 'duration_ms',
+      'user_rating', 'is_winner', 'failed', 'fallback_from', 'timestamp',
+    ],
+    ...session.rounds.map((round, index) => [
+      index,
+      round.modelId,
+      round.modelName,
+      round.quality,
+      round.regressed,
+      round.duration,
+      round.userRating,
+      round.isWinner,
+      round.failed,
+      round.fallbackFrom,
+      new Date(round.timestamp).toISOString(),
+    ]),
+  ])
+}
@@ -0,0 +1,192 @@
+import { Project, StudioSession } from '@/types'
+import { RESULTS_FORMAT, RESULTS_FORMAT_VERSION } from './results-export'
+
+const PROJECT_STATUSES: Project['status'][] = [
+  'draft', 'in_progress', 'completed', 'failed', 'paused', 'refining', 'competing', 'judging', 'complete',
+]
+const PHASE_STATUSES = ['pending', 'in_progress', 'completed']
+const SESSION_MODES: StudioSession['mode'][] = ['ffa', 'lazy']
+
+/**
+ * A project ready to be saved under the importing user; it gets a new id
+ */
+export type ImportedProject = Omit<Project, 'id' | 'userId'>
+
+export type ImportedResults =
+  | { kind: 'project'; project: ImportedProject }
+  | { kind: 'session'; session: StudioSession }
+
+/**
+ * Thrown when a file is not an export this version can read, or is missing fields
+ */
+export class ResultsImportError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid results export:\n${problems.map(problem => `  - ${problem}`).join('\n')}`)
+    this.name = 'ResultsImportError'
+  }
+}
+
+type Fields = Record<string, unknown>
+
+const isRecord = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== ''
+
+const isDate = (value: unknown) => typeof value === 'string' && !Number.isNaN(Date.parse(value))
+
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value)
+
+// Checks every entry of a list, naming the first entry that fails each check
+function checkList(value: unknown, path: string, checks: [test: (entry: Fields) => boolean, problem: string][], problems: string[]) {
+  if (!Array.isArray(value)) {
+    problems.push(`${path} must be a list`)
+    return
+  }
+  for (const [test, problem] of checks) {
+    const index = value.findIndex(entry => !isRecord(entry) || !test(entry))
+    if (index !== -1) problems.push(`${path}[${index}] ${problem}`)
+  }
+}
+
+function checkPhases(phases: unknown, problems: string[]) {
+  if (phases === undefined) return
+  if (!isRecord(phases) || !isRecord(phases.refinement) || !isRecord(phases.competition) || !isRecord(phases.judging)) {
+    problems.push('project.phases must hold refinement, competition and judging')
+    return
+  }
+
+  for (const phase of ['refinement', 'competition', 'judging'] as const) {
+    if (!PHASE_STATUSES.includes((phases[phase] as Fields).status as string)) {
+      problems.push(`project.phases.${phase}.status must be one of ${PHASE_STATUSES.join(', ')}`)
+    }
+  }
+  checkList(phases.refinement.rounds, 'project.phases.refinement.rounds', [
+    [round => isNumber(round.roundNumber) && typeof round.response === 'string', 'needs a roundNumber and a response'],
+  ], problems)
+  checkList(phases.competition.generations, 'project.phases.competition.generations', [
+    [generation => isText(generation.modelId) && typeof generation.response === 'string', 'needs a modelId and a response'],
+  ], problems)
+  checkList(phases.judging.results, 'project.phases.judging.results', [
+    [result => isText(result.modelId) && isNumber(result.rank) && isNumber(result.totalScore), 'needs a modelId, rank and totalScore'],
+    [result => isRecord(result.scores), 'needs scores per criterion'],
+  ], problems)
+}
+
+function checkUsage(usage: unknown, path: string, problems: string[]) {
+  if (usage === undefined) return
+  const fields = ['promptTokens', 'completionTokens', 'totalTokens', 'cost', 'requests']
+  if (!isRecord(usage) || !fields.every(field => isNumber(usage[field]))) {
+    problems.push(`${path} must have numeric ${fields.join(', ')}`)
+  }
+}
+
+function readProject(project: unknown, problems: string[]): ImportedProject | null {
+  if (!isRecord(project)) {
+    problems.push('project is missing')
+    return null
+  }
+
+  if (!isText(project.name)) problems.push('project.name is required')
+  if (!PROJECT_STATUSES.includes(project.status as Project['status'])) {
+    problems.push(`project.status must be one of ${PROJECT_STATUSES.join(', ')}`)
+  }
+  if (!isText(project.refinerModelId)) problems.push('project.refinerModelId must be a model id')
+  if (!isText(project.judgeModelId)) problems.push('project.judgeModelId must be a model id')
+  if (!Array.isArray(project.competitorModelIds) || !project.competitorModelIds.every(isText)) {
+    problems.push('project.competitorModelIds must list model ids')
+  }
+  if (!Number.isInteger(project.maxRefinementRounds)) {
+    problems.push('project.maxRefinementRounds must be a whole number')
+  }
+  for (const field of ['createdAt', 'updatedAt']) {
+    if (!isDate(project[field])) problems.push(`project.${field} must be an ISO date`)
+  }
+  if (project.results !== undefined && (!isRecord(project.results) || !isDate(project.results.completedAt))) {
+    problems.push('project.results.completedAt must be an ISO date')
+  }
+  checkPhases(project.phases, problems)
+  checkUsage(project.usage, 'project.usage', problems)
+
+  if (problems.length > 0) return null
+
+  // Dates the app expects as Date objects; the rest stay strings like in Firestore
+  const { id: _exportedId, results, ...rest } = project
+  const imported = {
+    ...rest,
+    createdAt: new Date(project.createdAt as string),
+    updatedAt: new Date(project.updatedAt as string),
+  } as unknown as ImportedProject
+  if (isRecord(results)) {
+    imported.results = { ...results, completedAt: new Date(results.completedAt as string) } as unknown as Project['results']
+  }
+  return imported
+}
+
+function readSession(session: unknown, problems: string[]): StudioSession | null {
+  if (!isRecord(session)) {
+    problems.push('session is missing')
+    return null
+  }
+
+  if (typeof session.question !== 'string') problems.push('session.question is required')
+  if (!SESSION_MODES.includes(session.mode as StudioSession['mode'])) {
+    problems.push(`session.mode must be one of ${SESSION_MODES.join(', ')}`)
+  }
+  checkList(session.rounds, 'session.rounds', [
+    [round => isText(round.modelId) && typeof round.modelName === 'string', 'needs a modelId and modelName'],
+    [round => typeof round.content === 'string', 'needs content'],
+    [round => isDate(round.timestamp), 'needs an ISO timestamp'],
+  ], problems)
+  if (session.enhancedPrompt !== undefined && typeof session.enhancedPrompt !== 'string') {
+    problems.push('session.enhancedPrompt must be text')
+  }
+  if (session.files !== undefined) {
+    checkList(session.files, 'session.files', [
+      [file => isText(file.name) && isText(file.url) && typeof file.type === 'string', 'needs a name, type and url'],
+    ], problems)
+  }
+  checkUsage(session.usage, 'session.usage', problems)
+
+  if (problems.length > 0) return null
+  return {
+    ...session,
+    rounds: (session.rounds as Fields[]).map(round => ({ ...round, timestamp: new Date(round.timestamp as string) })),
+  } as unknown as StudioSession
+}
+
+/**
+ * Read an export file back. Every problem is reported at once.
+ */
+export function parseResultsExport(source: string): ImportedResults {
+  let value: unknown
+  try {
+    value = JSON.parse(source)
+  } catch (error) {
+    throw new ResultsImportError([`The file is not valid JSON: ${(error as Error).message}`])
+  }
+
+  if (!isRecord(value) || value.format !== RESULTS_FORMAT) {
+    throw new ResultsImportError(['The file is not a Model Kombat results export'])
+  }
+  if (!Number.isInteger(value.version) || (value.version as number) < 1) {
+    throw new ResultsImportError(['The export has no valid format version'])
+  }
+  if ((value.version as number) > RESULTS_FORMAT_VERSION) {
+    throw new ResultsImportError([
+      `The export uses format version ${value.version}, but this app reads up to version ${RESULTS_FORMAT_VERSION}; update the app to import it`,
+    ])
+  }
+
+  const problems: string[] = []
+  if (value.kind === 'project') {
+    const project = readProject(value.project, problems)
+    if (project) return { kind: 'project', project }
+  } else if (value.kind === 'session') {
+    const session = readSession(value.session, problems)
+    if (session) return { kind: 'session', session }
+  } else {
+    problems.push('kind must be project or session')
+  }
+  throw new ResultsImportError(problems)
+}
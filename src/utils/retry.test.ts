@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { AuthError, ProviderError, RateLimitError, RequestCancelledError, TimeoutError } from '@/services/llm-errors'
+import { DEFAULT_RETRY_POLICY, getBackoffDelay, getRetryDelay, wait } from './retry'
+
+describe('getBackoffDelay', () => {
+  it('doubles per attempt with up to half of it random', () => {
+    expect(getBackoffDelay(0, DEFAULT_RETRY_POLICY, () => 0)).toBe(500)
+    expect(getBackoffDelay(0, DEFAULT_RETRY_POLICY, () => 1)).toBe(1000)
+    expect(getBackoffDelay(2, DEFAULT_RETRY_POLICY, () => 0)).toBe(2000)
+  })
+
+  it('is capped at maxDelayMs', () => {
+    expect(getBackoffDelay(10, DEFAULT_RETRY_POLICY, () => 1)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs)
+  })
+})
+
+describe('getRetryDelay', () => {
+  it('retries transient failures until maxRetries', () => {
+    const error = new TimeoutError()
+    expect(getRetryDelay(error, 0, DEFAULT_RETRY_POLICY)).toBeGreaterThan(0)
+    expect(getRetryDelay(error, DEFAULT_RETRY_POLICY.maxRetries, DEFAULT_RETRY_POLICY)).toBeNull()
+  })
+
+  it('only retries server errors among provider failures', () => {
+    expect(getRetryDelay(new ProviderError('Down', { status: 503 }), 0, DEFAULT_RETRY_POLICY)).not.toBeNull()
+    expect(getRetryDelay(new ProviderError('Bad request', { status: 400 }), 0, DEFAULT_RETRY_POLICY)).toBeNull()
+  })
+
+  it('never retries errors a retry cannot fix', () => {
+    expect(getRetryDelay(new AuthError(), 0, DEFAULT_RETRY_POLICY)).toBeNull()
+    expect(getRetryDelay(new Error('untyped'), 0, DEFAULT_RETRY_POLICY)).toBeNull()
+  })
+
+  it('waits as long as Retry-After asks, unless that is too long', () => {
+    expect(getRetryDelay(new RateLimitError(undefined, {}, 3000), 0, DEFAULT_RETRY_POLICY)).toBe(3000)
+    expect(getRetryDelay(new RateLimitError(undefined, {}, 120000), 0, DEFAULT_RETRY_POLICY)).toBeNull()
+  })
+})
+
+describe('wait', () => {
+  it('rejects when the signal fires', async () => {
+    const controller = new AbortController()
+    const pending = wait(10000, controller.signal)
+    controller.abort()
+    await expect(pending).rejects.toBeInstanceOf(RequestCancelledError)
+  })
+})
@@ -0,0 +1,55 @@
+import { LLMError, RateLimitError, RequestCancelledError } from '@/services/llm-errors'
+
+export interface RetryPolicy {
+  maxRetries: number // Retries after the first attempt
+  baseDelayMs: number // Backoff before the first retry, doubled for each one after it
+  maxDelayMs: number // Cap on a single backoff
+  maxRetryAfterMs: number // A longer Retry-After gives up on the model instead of waiting
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+  maxRetryAfterMs: 60000,
+}
+
+/**
+ * Exponential backoff with equal jitter: half the delay is fixed and half random, so
+ * calls that failed together do not retry together
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy, random = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return exponential / 2 + random() * (exponential / 2)
+}
+
+/**
+ * How long to wait before retrying a failed attempt, or null to stop retrying. Only errors
+ * typed as retryable (rate limits, timeouts, network and server failures) are retried.
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number | null {
+  if (attempt >= policy.maxRetries || !(error instanceof LLMError) || !error.retryable) return null
+
+  const retryAfter = error instanceof RateLimitError ? error.retryAfterMs : undefined
+  if (retryAfter !== undefined) {
+    return retryAfter > policy.maxRetryAfterMs ? null : retryAfter
+  }
+  return getBackoffDelay(attempt, policy)
+}
+
+// Resolves after `ms`, or rejects as soon as the signal fires
+export function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(new RequestCancelledError())
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new RequestCancelledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
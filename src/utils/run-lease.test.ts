@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest'
+import { isRunAlive, RUN_LEASE_MS } from './run-lease'
+
+describe('isRunAlive', () => {
+  const now = Date.parse('2026-01-01T10:00:00Z')
+
+  it('treats a run with a recent heartbeat as still going', () => {
+    expect(isRunAlive(now - RUN_LEASE_MS + 1000, now)).toBe(true)
+  })
+
+  it('treats a run whose heartbeat lapsed as interrupted', () => {
+    expect(isRunAlive(now - RUN_LEASE_MS, now)).toBe(false)
+  })
+
+  it('treats a run that never wrote a heartbeat as interrupted', () => {
+    expect(isRunAlive(undefined, now)).toBe(false)
+  })
+})
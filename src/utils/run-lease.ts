@@ -0,0 +1,13 @@
+/**
+ * A running project phase or studio session writes a heartbeat, so a page opened elsewhere
+ * can tell a run that is still going from one whose tab closed mid-run. Only a run whose
+ * heartbeat has lapsed is offered for resuming.
+ */
+export const RUN_HEARTBEAT_MS = 30_000
+
+// Browsers throttle timers in background tabs to about once a minute, so allow a few of those
+export const RUN_LEASE_MS = 3 * 60_000
+
+export function isRunAlive(heartbeatAt: number | undefined, now = Date.now()): boolean {
+  return heartbeatAt !== undefined && now - heartbeatAt < RUN_LEASE_MS
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -19,4 +20,10 @@ export default defineConfig(({ mode }) => ({
     // Only enable source maps in development to prevent source code exposure in production
     sourcemap: mode === 'development',
   },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    // The logger is verbose in development mode; only show its output for failing tests
+    silent: 'passed-only',
+  },
 }))
\ No newline at end of file